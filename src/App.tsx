@@ -9,6 +9,11 @@ import Students from "./pages/Students";
 import Courses from "./pages/Courses";
 import Lectures from "./pages/Lectures";
 import Kiosk from "./pages/Kiosk";
+import KioskPair from "./pages/KioskPair";
+import KioskDevices from "./pages/KioskDevices";
+import ExcuseRequests from "./pages/ExcuseRequests";
+import MatchReview from "./pages/MatchReview";
+import Calibration from "./pages/Calibration";
 import Settings from "./pages/Settings";
 import Reports from "./pages/Reports";
 import StudentDashboard from "./pages/StudentDashboard";
@@ -20,7 +25,7 @@ import NotFound from "./pages/NotFound";
 const queryClient = new QueryClient();
 
 const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const { user, loading } = useAuth();
+  const { userType, loading } = useAuth();
 
   if (loading) {
     return (
@@ -30,7 +35,11 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     );
   }
 
-  if (!user) {
+  if (userType === 'student') {
+    return <Navigate to="/student-attendance" replace />;
+  }
+
+  if (userType !== 'teacher') {
     return <Navigate to="/auth" replace />;
   }
 
@@ -71,7 +80,16 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route path="/kiosk/pair" element={<KioskPair />} />
             <Route path="/kiosk/:lectureId" element={<Kiosk />} />
+            <Route
+              path="/kiosk-devices"
+              element={
+                <ProtectedRoute>
+                  <KioskDevices />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/student-dashboard"
               element={<StudentDashboard />}
@@ -100,6 +118,30 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/excuse-requests"
+              element={
+                <ProtectedRoute>
+                  <ExcuseRequests />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/match-review"
+              element={
+                <ProtectedRoute>
+                  <MatchReview />
+                </ProtectedRoute>
+              }
+            />
+            <Route
+              path="/calibration"
+              element={
+                <ProtectedRoute>
+                  <Calibration />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/attendance/:lectureId"
               element={
@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { attendanceAuditAPI, AttendanceAuditDetail } from '@/lib/storage/data';
+import { AUDIT_SOURCE_LABELS, describeAuditChange } from '@/lib/attendance/audit';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface AttendanceHistoryProps {
+  lectureId: string;
+}
+
+export const AttendanceHistory = ({ lectureId }: AttendanceHistoryProps) => {
+  const [entries, setEntries] = useState<AttendanceAuditDetail[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [lectureId]);
+
+  const fetchHistory = async () => {
+    setLoading(true);
+    try {
+      setEntries(await attendanceAuditAPI.getByLecture(lectureId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error fetching attendance history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>History</CardTitle>
+        <CardDescription>
+          Every change to this lecture's attendance, newest first
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center py-8 text-muted-foreground">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No changes recorded yet</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {format(new Date(entry.created_at), 'PPp')}
+                    </TableCell>
+                    <TableCell>
+                      {entry.student ? (
+                        <>
+                          <p className="font-medium">{entry.student.name}</p>
+                          <p className="text-sm text-muted-foreground">{entry.student.roll_no}</p>
+                        </>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Deleted student</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{describeAuditChange(entry)}</TableCell>
+                    <TableCell>
+                      <Badge variant={entry.source === 'manual' ? 'default' : 'secondary'}>
+                        {AUDIT_SOURCE_LABELS[entry.source]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm">{entry.actor_name ?? '-'}</TableCell>
+                    <TableCell className="text-sm max-w-xs">
+                      {entry.reason ? (
+                        <p className="truncate" title={entry.reason}>{entry.reason}</p>
+                      ) : (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,21 @@
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, Clock, FileCheck, Hourglass, XCircle } from 'lucide-react';
+import { AttendanceStatus, STATUS_LABELS } from '@/lib/attendance/status';
+
+const STATUS_STYLES: Record<AttendanceStatus, { className: string; icon: typeof CheckCircle2 }> = {
+  present: { className: 'bg-success text-success-foreground', icon: CheckCircle2 },
+  late: { className: 'bg-warning text-warning-foreground', icon: Clock },
+  excused: { className: 'bg-secondary text-secondary-foreground', icon: FileCheck },
+  absent: { className: 'bg-destructive text-destructive-foreground', icon: XCircle },
+  pending: { className: 'bg-muted text-muted-foreground', icon: Hourglass },
+};
+
+export const AttendanceStatusBadge = ({ status }: { status: AttendanceStatus }) => {
+  const { className, icon: Icon } = STATUS_STYLES[status];
+  return (
+    <Badge variant="default" className={className}>
+      <Icon className="w-3 h-3 mr-1" />
+      {STATUS_LABELS[status]}
+    </Badge>
+  );
+};
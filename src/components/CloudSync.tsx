@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { Cloud, LogOut, RefreshCw } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { isLocalMode } from '@/lib/storage/indexeddb';
+import { syncEngine, SyncStatus } from '@/lib/sync/engine';
+
+// Push Local Mode changes to Supabase and pull the ones made elsewhere
+export const CloudSync = () => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [account, setAccount] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [syncing, setSyncing] = useState(false);
+  const [online, setOnline] = useState(navigator.onLine);
+
+  const refresh = useCallback(async () => {
+    setStatus(await syncEngine.status());
+    const { data: { session } } = await supabase.auth.getSession();
+    setAccount(session?.user.email ?? null);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const updateOnline = () => setOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, [refresh]);
+
+  const handleSignIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) {
+      toast.error(error.message);
+      return;
+    }
+    setPassword('');
+    await refresh();
+  };
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    await refresh();
+  };
+
+  const handleSync = async () => {
+    setSyncing(true);
+    try {
+      const report = await syncEngine.run();
+      const summary = `Pushed ${report.pushed}, pulled ${report.pulled}, removed ${report.deleted}`;
+      if (report.failed > 0) {
+        toast.warning(`${summary}. ${report.failed} change(s) were rejected by the server.`);
+      } else {
+        toast.success(report.conflicts > 0 ? `${summary}. Resolved ${report.conflicts} conflict(s).` : summary);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error syncing');
+    } finally {
+      setSyncing(false);
+      await refresh();
+    }
+  };
+
+  if (!isLocalMode()) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Sync is only needed in Local Mode. Online, every change is saved to Supabase directly.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Label>Status</Label>
+            <Badge variant={online ? 'outline' : 'secondary'}>{online ? 'Online' : 'Offline'}</Badge>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {status?.pending ?? 0} change(s) waiting to sync
+            {status && status.failed > 0 && `, ${status.failed} rejected`}
+            {' · '}
+            {status?.lastSyncedAt
+              ? `last synced ${formatDistanceToNow(parseISO(status.lastSyncedAt), { addSuffix: true })}`
+              : 'never synced'}
+          </p>
+        </div>
+        <Button onClick={handleSync} disabled={!account || !online || syncing} className="gap-2">
+          <RefreshCw className={`w-4 h-4 ${syncing ? 'animate-spin' : ''}`} />
+          {syncing ? 'Syncing...' : 'Sync now'}
+        </Button>
+      </div>
+
+      {account ? (
+        <div className="flex items-center justify-between gap-4 pt-4 border-t">
+          <p className="text-sm flex items-center gap-2">
+            <Cloud className="w-4 h-4 text-muted-foreground" />
+            Syncing as <strong>{account}</strong>
+          </p>
+          <Button variant="ghost" size="sm" onClick={handleSignOut} className="gap-2">
+            <LogOut className="w-4 h-4" />
+            Disconnect
+          </Button>
+        </div>
+      ) : (
+        <form onSubmit={handleSignIn} className="space-y-3 pt-4 border-t">
+          <p className="text-sm text-muted-foreground">
+            Sign in with your Supabase teacher account to sync this device.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="sync-email">Email</Label>
+              <Input
+                id="sync-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sync-password">Password</Label>
+              <Input
+                id="sync-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <Button type="submit" variant="outline" disabled={!online} className="w-full">
+            Connect
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,12 @@
+import { Badge } from '@/components/ui/badge';
+import { EXCUSE_STATUS_LABELS, ExcuseStatus } from '@/lib/attendance/excuse';
+
+const STATUS_VARIANTS: Record<ExcuseStatus, 'default' | 'secondary' | 'destructive'> = {
+  pending: 'secondary',
+  approved: 'default',
+  rejected: 'destructive',
+};
+
+export const ExcuseStatusBadge = ({ status }: { status: ExcuseStatus }) => (
+  <Badge variant={STATUS_VARIANTS[status]}>{EXCUSE_STATUS_LABELS[status]}</Badge>
+);
@@ -1,9 +1,8 @@
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
-import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
-import { GraduationCap, Home, Users, BookOpen, BarChart3, Settings as SettingsIcon, LogOut, User } from 'lucide-react';
+import { GraduationCap, Home, Users, BookOpen, BarChart3, FileCheck, ScanFace, Monitor, Settings as SettingsIcon, LogOut, User } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,26 +14,31 @@ import {
 
 export const Header = () => {
   const navigate = useNavigate();
-  const { user, studentData, setStudentData } = useAuth();
+  const { userType, studentData, signOutTeacher, signOutStudent } = useAuth();
+  const isTeacher = userType === 'teacher';
 
   const handleSignOut = async () => {
-    if (user) {
-      const { error } = await supabase.auth.signOut();
-      if (error) {
-        toast.error('Error signing out');
-      } else {
+    if (isTeacher) {
+      try {
+        await signOutTeacher();
         toast.success('Signed out successfully');
         navigate('/auth');
+      } catch (error) {
+        toast.error('Error signing out');
       }
     } else if (studentData) {
-      setStudentData(null);
-      toast.success('Logged out successfully');
-      navigate('/auth');
+      try {
+        await signOutStudent();
+        toast.success('Logged out successfully');
+        navigate('/auth');
+      } catch (error) {
+        toast.error('Error signing out');
+      }
     }
   };
 
   const goHome = () => {
-    if (user) {
+    if (isTeacher) {
       navigate('/students');
     } else if (studentData) {
       navigate('/student-attendance');
@@ -59,7 +63,7 @@ export const Header = () => {
         </Button>
 
         {/* Teacher Navigation */}
-        {user && (
+        {isTeacher && (
           <nav className="hidden md:flex items-center gap-1">
             <Button
               variant="ghost"
@@ -88,6 +92,33 @@ export const Header = () => {
               <BarChart3 className="w-4 h-4" />
               Reports
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/excuse-requests')}
+              className="gap-2"
+            >
+              <FileCheck className="w-4 h-4" />
+              Excuses
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/match-review')}
+              className="gap-2"
+            >
+              <ScanFace className="w-4 h-4" />
+              Review
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/kiosk-devices')}
+              className="gap-2"
+            >
+              <Monitor className="w-4 h-4" />
+              Kiosks
+            </Button>
             <Button
               variant="ghost"
               size="sm"
@@ -127,26 +158,26 @@ export const Header = () => {
 
       {/* Right Side - User Menu */}
       <div className="flex items-center gap-2">
-        {(user || studentData) && (
+        {(isTeacher || studentData) && (
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="sm" className="gap-2">
                 <User className="w-4 h-4" />
                 <span className="hidden sm:inline">
-                  {user ? 'Teacher' : studentData?.name}
+                  {isTeacher ? 'Teacher' : studentData?.name}
                 </span>
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-48">
               <DropdownMenuLabel>
-                {user ? 'Teacher Account' : studentData?.roll_no}
+                {isTeacher ? 'Teacher Account' : studentData?.roll_no}
               </DropdownMenuLabel>
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={goHome}>
                 <Home className="w-4 h-4 mr-2" />
                 Home
               </DropdownMenuItem>
-              {user && (
+              {isTeacher && (
                 <>
                   <DropdownMenuItem onClick={() => navigate('/students')}>
                     <Users className="w-4 h-4 mr-2" />
@@ -160,6 +191,18 @@ export const Header = () => {
                     <BarChart3 className="w-4 h-4 mr-2" />
                     Reports
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate('/excuse-requests')}>
+                    <FileCheck className="w-4 h-4 mr-2" />
+                    Excuses
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate('/match-review')}>
+                    <ScanFace className="w-4 h-4 mr-2" />
+                    Review
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => navigate('/kiosk-devices')}>
+                    <Monitor className="w-4 h-4 mr-2" />
+                    Kiosks
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => navigate('/settings')}>
                     <SettingsIcon className="w-4 h-4 mr-2" />
                     Settings
@@ -187,7 +230,7 @@ export const Header = () => {
           </DropdownMenu>
         )}
         
-        {!user && !studentData && (
+        {!isTeacher && !studentData && (
           <Button onClick={() => navigate('/auth')} size="sm">
             Login
           </Button>
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { runIndexBenchmark, IndexBenchmarkResult } from '@/lib/face/benchmark';
+import { getMatchStrategy } from '@/lib/face/matcher';
+import { toast } from 'sonner';
+import { Gauge } from 'lucide-react';
+
+const ROSTER_SIZES = [40, 200, 600, 2000];
+
+// Compares the kiosk's matching index against a full scan on a synthetic roster of this size
+export const IndexBenchmark = () => {
+  const [students, setStudents] = useState('600');
+  const [running, setRunning] = useState(false);
+  const [results, setResults] = useState<IndexBenchmarkResult[]>([]);
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const result = await runIndexBenchmark({ students: parseInt(students), strategy: getMatchStrategy() });
+      setResults((prev) => [result, ...prev.filter((r) => r.students !== result.students)]);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error running benchmark');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label>Matching Benchmark</Label>
+          <p className="text-sm text-muted-foreground">
+            Speed and recall of the kiosk's matching index against a full scan
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={students} onValueChange={setStudents} disabled={running}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROSTER_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)}>
+                  {size} students
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" className="gap-2" onClick={handleRun} disabled={running}>
+            <Gauge className="w-4 h-4" />
+            {running ? 'Running...' : 'Run'}
+          </Button>
+        </div>
+      </div>
+
+      {results.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Students</TableHead>
+              <TableHead>Partitions</TableHead>
+              <TableHead>Build</TableHead>
+              <TableHead>Full scan</TableHead>
+              <TableHead>Index</TableHead>
+              <TableHead>Recall</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {results.map((result) => (
+              <TableRow key={result.students}>
+                <TableCell>{result.students}</TableCell>
+                <TableCell>{result.partitions || 'None (full scan)'}</TableCell>
+                <TableCell>{result.buildMs.toFixed(0)} ms</TableCell>
+                <TableCell>{result.bruteForceMs.toFixed(2)} ms</TableCell>
+                <TableCell>{result.indexMs.toFixed(2)} ms</TableCell>
+                <TableCell>{(result.recall * 100).toFixed(1)}%</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
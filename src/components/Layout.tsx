@@ -1,7 +1,12 @@
+import { useEffect } from 'react';
 import { Header } from '@/components/Header';
-
+import { isLocalMode } from '@/lib/storage/indexeddb';
+import { syncEngine } from '@/lib/sync/engine';
 
 export const Layout = ({ children }: { children: React.ReactNode }) => {
+  // Local Mode devices signed in to Supabase keep syncing in the background
+  useEffect(() => (isLocalMode() ? syncEngine.startAutoSync() : undefined), []);
+
   return (
     <div className="min-h-screen flex flex-col">
       <Header />
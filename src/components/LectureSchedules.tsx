@@ -0,0 +1,321 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { lecturesAPI, lectureSchedulesAPI, LectureSchedule } from '@/lib/storage/data';
+import { toast } from 'sonner';
+import { format, parseISO } from 'date-fns';
+import { CalendarClock, RefreshCw, Pencil, Trash2 } from 'lucide-react';
+import {
+  WEEKDAY_LABELS,
+  describeSchedule,
+  planRegeneration,
+} from '@/lib/schedule/recurrence';
+
+type Schedule = LectureSchedule;
+
+interface LectureSchedulesProps {
+  courseId: string;
+  onLecturesChanged: () => void;
+}
+
+// Holidays are entered one per line or comma separated, as yyyy-MM-dd
+function parseExcludedDates(text: string): string[] {
+  return [...new Set(text.split(/[\s,]+/).filter((d) => /^\d{4}-\d{2}-\d{2}$/.test(d)))].sort();
+}
+
+export const LectureSchedules = ({ courseId, onLecturesChanged }: LectureSchedulesProps) => {
+  const [open, setOpen] = useState(false);
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [weekdays, setWeekdays] = useState<string[]>([]);
+  const [startTime, setStartTime] = useState('09:00');
+  const [duration, setDuration] = useState(60);
+  const [room, setRoom] = useState('');
+  const [termStart, setTermStart] = useState('');
+  const [termEnd, setTermEnd] = useState('');
+  const [excludedDates, setExcludedDates] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchSchedules = async () => {
+    try {
+      setSchedules(await lectureSchedulesAPI.getByCourse(courseId));
+    } catch {
+      toast.error('Error fetching schedules');
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setWeekdays([]);
+    setStartTime('09:00');
+    setDuration(60);
+    setRoom('');
+    setTermStart('');
+    setTermEnd('');
+    setExcludedDates('');
+  };
+
+  const editSchedule = (schedule: Schedule) => {
+    setEditingId(schedule.id);
+    setWeekdays(schedule.weekdays.map(String));
+    setStartTime(schedule.start_time.slice(0, 5));
+    setDuration(schedule.duration_minutes);
+    setRoom(schedule.room || '');
+    setTermStart(schedule.term_start);
+    setTermEnd(schedule.term_end);
+    setExcludedDates(schedule.excluded_dates.join('\n'));
+  };
+
+  // Bring the schedule's upcoming lectures in line with its current rule
+  const regenerate = async (schedule: Schedule) => {
+    const existing = await lecturesAPI.getBySchedule(schedule.id);
+    const plan = planRegeneration(
+      schedule,
+      existing.map((lecture) => ({
+        ...lecture,
+        occurrence_date: lecture.occurrence_date ?? null,
+        is_exception: lecture.is_exception ?? false,
+      }))
+    );
+
+    await lecturesAPI.deleteMany(plan.remove);
+    await lecturesAPI.createMany(
+      plan.create.map((occurrence) => ({
+        course_id: courseId,
+        schedule_id: schedule.id,
+        occurrence_date: occurrence.occurrence_date,
+        starts_at: occurrence.starts_at.toISOString(),
+        ends_at: occurrence.ends_at.toISOString(),
+        room: occurrence.room,
+      }))
+    );
+
+    return plan;
+  };
+
+  const handleSave = async () => {
+    if (weekdays.length === 0 || !startTime || !termStart || !termEnd) {
+      toast.error('Please pick weekdays, a start time and the term dates');
+      return;
+    }
+    if (termEnd < termStart) {
+      toast.error('Term end must be after term start');
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const rule = {
+        course_id: courseId,
+        weekdays: weekdays.map(Number).sort((a, b) => a - b),
+        start_time: startTime,
+        duration_minutes: duration,
+        room: room || null,
+        term_start: termStart,
+        term_end: termEnd,
+        excluded_dates: parseExcludedDates(excludedDates),
+      };
+
+      const schedule = editingId
+        ? await lectureSchedulesAPI.update(editingId, rule)
+        : await lectureSchedulesAPI.create(rule);
+
+      const plan = await regenerate(schedule);
+      toast.success(
+        `Schedule saved: ${plan.create.length} lecture(s) added, ${plan.remove.length} removed`
+      );
+
+      resetForm();
+      fetchSchedules();
+      onLecturesChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error saving schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRegenerate = async (schedule: Schedule) => {
+    try {
+      const plan = await regenerate(schedule);
+      toast.success(
+        `Regenerated: ${plan.create.length} lecture(s) added, ${plan.remove.length} removed, ${plan.keep.length} kept`
+      );
+      onLecturesChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error regenerating lectures');
+    }
+  };
+
+  const handleDelete = async (schedule: Schedule) => {
+    if (!confirm('Delete this schedule and its upcoming lectures? Past lectures, edited lectures and lectures with attendance are kept.')) return;
+
+    try {
+      // With no weekdays nothing is generated, so the plan drops every unlocked lecture
+      await regenerate({ ...schedule, weekdays: [] });
+
+      await lectureSchedulesAPI.delete(schedule.id);
+
+      toast.success('Schedule deleted');
+      if (editingId === schedule.id) resetForm();
+      fetchSchedules();
+      onLecturesChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error deleting schedule');
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (isOpen) fetchSchedules();
+        else resetForm();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <CalendarClock className="w-4 h-4" />
+          Schedules
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recurring Schedules</DialogTitle>
+          <DialogDescription>
+            Generate a term of lectures from a weekly timetable. Lectures you edit by hand are kept when regenerating.
+          </DialogDescription>
+        </DialogHeader>
+
+        {schedules.length > 0 && (
+          <div className="space-y-2 mt-4">
+            {schedules.map((schedule) => (
+              <div
+                key={schedule.id}
+                className="flex items-center justify-between p-3 rounded-lg bg-muted/50"
+              >
+                <div>
+                  <p className="font-medium">{describeSchedule(schedule)}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {format(parseISO(schedule.term_start), 'PP')} - {format(parseISO(schedule.term_end), 'PP')}
+                    {schedule.room && ` · ${schedule.room}`}
+                    {schedule.excluded_dates.length > 0 &&
+                      ` · ${schedule.excluded_dates.length} holiday(s)`}
+                  </p>
+                </div>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleRegenerate(schedule)} title="Regenerate lectures">
+                    <RefreshCw className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => editSchedule(schedule)} title="Edit schedule">
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(schedule)} title="Delete schedule">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 mt-4 p-4 rounded-lg border">
+          <p className="text-sm font-medium">{editingId ? 'Edit Schedule' : 'New Schedule'}</p>
+          <div className="space-y-2">
+            <Label>Weekdays</Label>
+            <ToggleGroup
+              type="multiple"
+              variant="outline"
+              value={weekdays}
+              onValueChange={setWeekdays}
+              className="justify-start flex-wrap"
+            >
+              {WEEKDAY_LABELS.map((label, day) => (
+                <ToggleGroupItem key={day} value={String(day)}>
+                  {label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-start-time">Start Time</Label>
+              <Input
+                id="schedule-start-time"
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-duration">Duration (minutes)</Label>
+              <Input
+                id="schedule-duration"
+                type="number"
+                value={duration}
+                onChange={(e) => setDuration(parseInt(e.target.value))}
+                min={15}
+                max={180}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-room">Room (optional)</Label>
+              <Input
+                id="schedule-room"
+                value={room}
+                onChange={(e) => setRoom(e.target.value)}
+                placeholder="e.g., Room 301"
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-term-start">Term Start</Label>
+              <Input
+                id="schedule-term-start"
+                type="date"
+                value={termStart}
+                onChange={(e) => setTermStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-term-end">Term End</Label>
+              <Input
+                id="schedule-term-end"
+                type="date"
+                value={termEnd}
+                onChange={(e) => setTermEnd(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="schedule-excluded">Holidays (optional)</Label>
+            <Textarea
+              id="schedule-excluded"
+              value={excludedDates}
+              onChange={(e) => setExcludedDates(e.target.value)}
+              placeholder="One date per line, e.g. 2025-12-25"
+              rows={3}
+            />
+          </div>
+          <div className="flex gap-3">
+            {editingId && (
+              <Button variant="outline" onClick={resetForm} className="flex-1">
+                Cancel Edit
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={saving} className="flex-1">
+              {saving ? 'Generating...' : editingId ? 'Save & Regenerate' : 'Create & Generate Lectures'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
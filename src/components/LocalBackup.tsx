@@ -0,0 +1,232 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { format, parseISO } from 'date-fns';
+import { Download, Upload, FileSearch } from 'lucide-react';
+import {
+  exportArchive,
+  importArchive,
+  ArchiveStore,
+  ConflictStrategy,
+  ImportMode,
+  ImportPreview,
+} from '@/lib/storage/archive';
+
+// Export the Local Mode database to a ZIP and restore it on another machine
+export const LocalBackup = () => {
+  const [exporting, setExporting] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [conflicts, setConflicts] = useState<ConflictStrategy>('keep');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [working, setWorking] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await exportArchive();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `attendance-backup-${format(new Date(), 'yyyyMMdd-HHmm')}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success('Backup exported');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error exporting backup');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setWorking(true);
+    try {
+      const result = await importArchive(file, { mode, conflicts, dryRun });
+      setPreview(result);
+
+      if (!dryRun) {
+        toast.success('Backup imported. Reload the page to see the restored data.');
+        setFile(null);
+        setPreview(null);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+      }
+    } catch (error) {
+      setPreview(null);
+      toast.error(error instanceof Error ? error.message : 'Error reading backup');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Any change to the file or options invalidates the preview
+  const resetPreview = () => setPreview(null);
+
+  const changedStores = preview
+    ? (Object.entries(preview.stores) as [ArchiveStore, ImportPreview['stores'][ArchiveStore]][]).filter(
+        ([, s]) => s.incoming > 0 || s.removed > 0
+      )
+    : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label>Export Backup</Label>
+          <p className="text-sm text-muted-foreground">
+            Download every local record and photo as a ZIP archive
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={exporting} className="gap-2">
+          <Download className="w-4 h-4" />
+          {exporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </div>
+
+      <div className="space-y-3 pt-4 border-t">
+        <div className="space-y-0.5">
+          <Label htmlFor="backup-file">Import Backup</Label>
+          <p className="text-sm text-muted-foreground">
+            Preview what will change before anything is written
+          </p>
+        </div>
+        <input
+          id="backup-file"
+          ref={fileInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] ?? null);
+            resetPreview();
+          }}
+          className="block w-full text-sm file:mr-4 file:rounded-md file:border-0 file:bg-muted file:px-3 file:py-2 file:text-sm"
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label>Mode</Label>
+            <Select
+              value={mode}
+              onValueChange={(value) => {
+                setMode(value === 'replace' ? 'replace' : 'merge');
+                resetPreview();
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">Merge into current data</SelectItem>
+                <SelectItem value="replace">Replace all local data</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>On conflict</Label>
+            <Select
+              value={conflicts}
+              onValueChange={(value) => {
+                setConflicts(value === 'overwrite' ? 'overwrite' : 'keep');
+                resetPreview();
+              }}
+              disabled={mode === 'replace'}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="keep">Keep existing records</SelectItem>
+                <SelectItem value="overwrite">Overwrite with backup</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex gap-3">
+          <Button
+            variant="outline"
+            onClick={() => runImport(true)}
+            disabled={!file || working}
+            className="flex-1 gap-2"
+          >
+            <FileSearch className="w-4 h-4" />
+            Preview
+          </Button>
+          <Button
+            onClick={() => {
+              if (mode === 'replace' && !confirm('Replace all local data with this backup? This cannot be undone.')) return;
+              runImport(false);
+            }}
+            disabled={!preview || working}
+            className="flex-1 gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            {working ? 'Working...' : 'Import'}
+          </Button>
+        </div>
+      </div>
+
+      {preview && (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Backup from {format(parseISO(preview.manifest.exported_at), 'PPp')}
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Store</TableHead>
+                <TableHead className="text-right">In backup</TableHead>
+                <TableHead className="text-right">Added</TableHead>
+                <TableHead className="text-right">Updated</TableHead>
+                <TableHead className="text-right">Unchanged</TableHead>
+                <TableHead className="text-right">Skipped</TableHead>
+                {mode === 'replace' && <TableHead className="text-right">Removed</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {changedStores.map(([store, summary]) => (
+                <TableRow key={store}>
+                  <TableCell className="font-mono text-xs">{store}</TableCell>
+                  <TableCell className="text-right">{summary.incoming}</TableCell>
+                  <TableCell className="text-right">{summary.added}</TableCell>
+                  <TableCell className="text-right">{summary.updated}</TableCell>
+                  <TableCell className="text-right">{summary.unchanged}</TableCell>
+                  <TableCell className="text-right">{summary.skipped}</TableCell>
+                  {mode === 'replace' && <TableCell className="text-right">{summary.removed}</TableCell>}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {preview.conflicts.length > 0 && (
+            <div className="space-y-2">
+              <Label>Conflicts ({preview.conflicts.length})</Label>
+              {preview.conflicts.map((conflict) => (
+                <div
+                  key={`${conflict.store}-${conflict.incomingId}`}
+                  className="flex items-center justify-between p-2 rounded-md bg-muted/50 text-sm"
+                >
+                  <span>
+                    {conflict.store}: {conflict.field} <strong>{conflict.value}</strong> already exists locally
+                  </span>
+                  <Badge variant="outline">{conflict.resolution}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {preview.warnings.map((warning) => (
+            <p key={warning} className="text-sm text-warning">
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ambiguousMatchesAPI, studentEmbeddingsAPI, studentsAPI, AmbiguousMatchDetail } from '@/lib/storage/data';
+import { buildGallery, getMatchStrategy, GalleryCandidate } from '@/lib/face/matcher';
+import { findLookAlikes, pairKey, LookAlikePair } from '@/lib/face/lookalikes';
+import { toast } from 'sonner';
+import { format, parseISO } from 'date-fns';
+import { Users } from 'lucide-react';
+
+// Pairs this far past the threshold are listed too: one bad capture away from trouble
+const REPORT_SLACK = 0.1;
+const RECENT_EVENTS = 20;
+
+interface ReportStudent extends GalleryCandidate {
+  roll_no: string;
+  name: string;
+}
+
+const StudentName = ({ student }: { student: Pick<ReportStudent, 'roll_no' | 'name'> | null }) =>
+  student ? (
+    <div>
+      <p className="font-medium">{student.name}</p>
+      <p className="text-xs text-muted-foreground">{student.roll_no}</p>
+    </div>
+  ) : (
+    <p className="text-muted-foreground">Deleted student</p>
+  );
+
+// Enrolled students the kiosk could confuse, and the kiosk faces it refused to guess between
+export const LookAlikeReport = () => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [pairs, setPairs] = useState<LookAlikePair<ReportStudent>[]>([]);
+  const [events, setEvents] = useState<AmbiguousMatchDetail[]>([]);
+  const [threshold, setThreshold] = useState(0.45);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const currentThreshold = parseFloat(localStorage.getItem('recognitionThreshold') || '0.45');
+      const students = await studentsAPI.getAll();
+      const [embeddings, recent] = await Promise.all([
+        studentEmbeddingsAPI.getByStudents(students.map((s) => s.id)),
+        ambiguousMatchesAPI.getRecent(),
+      ]);
+
+      const enrolled = students
+        .map((student) => ({
+          id: student.id,
+          roll_no: student.roll_no,
+          name: student.name,
+          gallery: buildGallery(
+            embeddings.filter((e) => e.student_id === student.id),
+            student.embedding
+          ),
+        }))
+        .filter((student) => student.gallery.length > 0);
+
+      setThreshold(currentThreshold);
+      setEvents(recent);
+      setPairs(await findLookAlikes(enrolled, currentThreshold + REPORT_SLACK, getMatchStrategy()));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error building look-alike report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const eventCounts = new Map<string, number>();
+  events.forEach((event) => {
+    const key = pairKey(event.student_id, event.runner_up_id);
+    eventCounts.set(key, (eventCounts.get(key) ?? 0) + 1);
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        setOpen(isOpen);
+        if (isOpen) fetchReport();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Users className="w-4 h-4" />
+          Look-alikes
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Look-alike Report</DialogTitle>
+          <DialogDescription>
+            Students whose enrolled faces are close enough to be confused at the current threshold of{' '}
+            {threshold.toFixed(2)}. Re-enroll them with fresh, well-lit captures from several angles, or mark
+            them by hand.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-center py-8 text-muted-foreground">Comparing enrolled faces...</p>
+        ) : (
+          <div className="space-y-6">
+            {pairs.length === 0 ? (
+              <p className="text-center py-4 text-muted-foreground">No enrolled students are dangerously alike</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Student</TableHead>
+                    <TableHead>Look-alike</TableHead>
+                    <TableHead className="text-right">Distance</TableHead>
+                    <TableHead>Risk</TableHead>
+                    <TableHead className="text-right">Kiosk conflicts</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {pairs.map(({ first, second, distance }) => (
+                    <TableRow key={pairKey(first.id, second.id)}>
+                      <TableCell>
+                        <StudentName student={first} />
+                      </TableCell>
+                      <TableCell>
+                        <StudentName student={second} />
+                      </TableCell>
+                      <TableCell className="text-right">{distance.toFixed(3)}</TableCell>
+                      <TableCell>
+                        {distance <= threshold ? (
+                          <Badge variant="destructive">Match each other</Badge>
+                        ) : (
+                          <Badge variant="secondary">Close</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{eventCounts.get(pairKey(first.id, second.id)) ?? 0}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Recent ambiguous kiosk matches</h3>
+              <p className="text-sm text-muted-foreground">
+                Faces the kiosk did not mark because a second student was nearly as close
+              </p>
+              {events.length === 0 ? (
+                <p className="text-center py-4 text-muted-foreground">None recorded</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Seen</TableHead>
+                      <TableHead>Closest</TableHead>
+                      <TableHead>Runner-up</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {events.slice(0, RECENT_EVENTS).map((event) => (
+                      <TableRow key={event.id}>
+                        <TableCell>{format(parseISO(event.created_at), 'PPp')}</TableCell>
+                        <TableCell>
+                          <StudentName student={event.student} />
+                          <p className="text-xs text-muted-foreground">distance {event.distance.toFixed(3)}</p>
+                        </TableCell>
+                        <TableCell>
+                          <StudentName student={event.runner_up} />
+                          <p className="text-xs text-muted-foreground">distance {event.runner_up_distance.toFixed(3)}</p>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
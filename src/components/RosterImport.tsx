@@ -0,0 +1,224 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { coursesAPI, CourseSummary } from '@/lib/storage/data';
+import {
+  PHOTO_STATUS_LABELS,
+  RosterPreview,
+  RosterRow,
+  importRoster,
+  importableRows,
+  previewRoster,
+} from '@/lib/roster/import';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { FileSpreadsheet } from 'lucide-react';
+
+interface RosterImportProps {
+  onImported: () => void;
+}
+
+function rowStatus(row: RosterRow): { label: string; variant: 'default' | 'secondary' | 'destructive' } {
+  if (row.errors.length > 0) return { label: 'Error', variant: 'destructive' };
+  if (row.photoStatus === 'ok') return { label: 'Ready', variant: 'default' };
+  if (row.photoStatus === 'missing') return { label: 'Ready, no face data', variant: 'secondary' };
+  return { label: 'Photo rejected', variant: 'destructive' };
+}
+
+export const RosterImport = ({ onImported }: RosterImportProps) => {
+  const [open, setOpen] = useState(false);
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [zipFile, setZipFile] = useState<File | null>(null);
+  const [courses, setCourses] = useState<CourseSummary[]>([]);
+  const [preview, setPreview] = useState<RosterPreview | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const { teacher } = useAuth();
+
+  const reset = () => {
+    setCsvFile(null);
+    setZipFile(null);
+    setPreview(null);
+    setProgress(null);
+  };
+
+  const handleCheck = async () => {
+    if (!csvFile) return;
+
+    setChecking(true);
+    setPreview(null);
+    try {
+      // Students can only be enrolled in courses the teacher belongs to
+      const teacherCourses = await coursesAPI.getForTeacher(teacher!.id);
+      setCourses(teacherCourses);
+      setPreview(
+        await previewRoster(csvFile, zipFile, teacherCourses, (done, total) => setProgress({ done, total }))
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error reading roster');
+    } finally {
+      setChecking(false);
+      setProgress(null);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+
+    setImporting(true);
+    try {
+      const result = await importRoster(preview.rows, courses);
+      toast.success(
+        `Imported ${result.students} student${result.students === 1 ? '' : 's'} and ${result.enrollments} enrollment${result.enrollments === 1 ? '' : 's'}`
+      );
+      setOpen(false);
+      reset();
+      onImported();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error importing roster');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const ready = preview ? importableRows(preview.rows) : [];
+  const withFaces = ready.filter((row) => row.photoStatus === 'ok').length;
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(isOpen) => {
+        if (checking || importing) return;
+        setOpen(isOpen);
+        if (!isOpen) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <FileSpreadsheet className="w-4 h-4" />
+          Import Roster
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Roster</DialogTitle>
+          <DialogDescription>
+            A CSV with roll_no, name and optionally email and courses (course codes separated by
+            semicolons), plus an optional ZIP of photos named by roll number, e.g. CS2024001.jpg
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 mt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="roster-csv">Roster CSV</Label>
+              <Input
+                id="roster-csv"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => {
+                  setCsvFile(e.target.files?.[0] ?? null);
+                  setPreview(null);
+                }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="roster-photos">Photos ZIP (optional)</Label>
+              <Input
+                id="roster-photos"
+                type="file"
+                accept=".zip,application/zip"
+                onChange={(e) => {
+                  setZipFile(e.target.files?.[0] ?? null);
+                  setPreview(null);
+                }}
+              />
+            </div>
+          </div>
+
+          <Button onClick={handleCheck} disabled={!csvFile || checking || importing} className="w-full">
+            {checking ? 'Checking...' : 'Check Roster'}
+          </Button>
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={(progress.done / progress.total) * 100} />
+              <p className="text-xs text-muted-foreground text-center">
+                Detecting faces: {progress.done} of {progress.total} photos
+              </p>
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-4">
+              {preview.errors.map((error) => (
+                <p key={error} className="text-sm text-destructive">{error}</p>
+              ))}
+              {preview.unmatchedPhotos.length > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  {preview.unmatchedPhotos.length} file{preview.unmatchedPhotos.length === 1 ? '' : 's'} in the
+                  ZIP matched no row: {preview.unmatchedPhotos.slice(0, 5).join(', ')}
+                  {preview.unmatchedPhotos.length > 5 && ', ...'}
+                </p>
+              )}
+
+              {preview.rows.length > 0 && (
+                <div className="border rounded-lg max-h-[40vh] overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Line</TableHead>
+                        <TableHead>Roll Number</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Courses</TableHead>
+                        <TableHead>Photo</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.rows.map((row) => {
+                        const status = rowStatus(row);
+                        return (
+                          <TableRow key={row.line}>
+                            <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                            <TableCell className="font-medium">{row.roll_no || '-'}</TableCell>
+                            <TableCell>{row.name || '-'}</TableCell>
+                            <TableCell className="text-sm">{row.course_codes.join(', ') || '-'}</TableCell>
+                            <TableCell className="text-sm">
+                              {/* Photos of rows with errors are not checked */}
+                              {row.photo && row.errors.length > 0 ? 'Not checked' : PHOTO_STATUS_LABELS[row.photoStatus]}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant={status.variant}>{status.label}</Badge>
+                              {row.errors.map((error) => (
+                                <p key={error} className="text-xs text-destructive mt-1">{error}</p>
+                              ))}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <p className="text-sm text-muted-foreground">
+                {ready.length} of {preview.rows.length} rows will be imported, {withFaces} with face data.
+                Rows with errors or a rejected photo are skipped; fix them and import them again.
+              </p>
+
+              <Button onClick={handleImport} disabled={ready.length === 0 || importing} className="w-full">
+                {importing ? 'Importing...' : `Import ${ready.length} Student${ready.length === 1 ? '' : 's'}`}
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,334 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { excuseRequestsAPI, ExcuseRequestDetail, Lecture } from '@/lib/storage/data';
+import { ExcuseStatusBadge } from '@/components/ExcuseStatusBadge';
+import { ATTACHMENT_TYPES, MAX_ATTACHMENT_BYTES, describeExcuseScope } from '@/lib/attendance/excuse';
+import { toast } from 'sonner';
+import { addDays, format, parseISO, startOfDay } from 'date-fns';
+import { FileText, Paperclip, Plus, Trash2 } from 'lucide-react';
+
+type Scope = 'lecture' | 'range';
+
+interface StudentExcusesProps {
+  studentId: string;
+  courses: { id: string; code: string; title: string }[];
+  lectures: Pick<Lecture, 'id' | 'course_id' | 'starts_at' | 'ends_at'>[];
+  // Only the student can file requests; teachers looking at the dashboard just see them
+  canSubmit: boolean;
+}
+
+export const StudentExcuses = ({ studentId, courses, lectures, canSubmit }: StudentExcusesProps) => {
+  const [requests, setRequests] = useState<ExcuseRequestDetail[]>([]);
+  const [open, setOpen] = useState(false);
+  const [courseId, setCourseId] = useState('');
+  const [scope, setScope] = useState<Scope>('lecture');
+  const [lectureId, setLectureId] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [studentId]);
+
+  const fetchRequests = async () => {
+    try {
+      setRequests(await excuseRequestsAPI.getByStudent(studentId));
+    } catch {
+      toast.error('Error fetching excuse requests');
+    }
+  };
+
+  const resetForm = () => {
+    setCourseId('');
+    setScope('lecture');
+    setLectureId('');
+    setFromDate('');
+    setToDate('');
+    setReason('');
+    setAttachment(null);
+  };
+
+  const courseLectures = lectures
+    .filter((l) => l.course_id === courseId)
+    .sort((a, b) => b.starts_at.localeCompare(a.starts_at));
+
+  const handleAttachment = (file: File | undefined) => {
+    if (!file) {
+      setAttachment(null);
+      return;
+    }
+    if (!ATTACHMENT_TYPES.includes(file.type)) {
+      toast.error('Attach an image or a PDF');
+      return;
+    }
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      toast.error('Attachments can be at most 5 MB');
+      return;
+    }
+    setAttachment(file);
+  };
+
+  const handleSubmit = async () => {
+    if (!courseId || !reason.trim()) {
+      toast.error('Choose a course and give a reason');
+      return;
+    }
+
+    let coversFrom: Date;
+    let coversUntil: Date;
+    if (scope === 'lecture') {
+      const lecture = courseLectures.find((l) => l.id === lectureId);
+      if (!lecture) {
+        toast.error('Choose the lecture you missed');
+        return;
+      }
+      coversFrom = parseISO(lecture.starts_at);
+      coversUntil = parseISO(lecture.ends_at);
+    } else {
+      if (!fromDate || !toDate || toDate < fromDate) {
+        toast.error('Choose a valid date range');
+        return;
+      }
+      // Whole local days, from the start of the first to the start of the day after the last
+      coversFrom = startOfDay(parseISO(fromDate));
+      coversUntil = addDays(startOfDay(parseISO(toDate)), 1);
+    }
+
+    setSaving(true);
+    try {
+      await excuseRequestsAPI.create(
+        {
+          student_id: studentId,
+          course_id: courseId,
+          lecture_id: scope === 'lecture' ? lectureId : null,
+          covers_from: coversFrom.toISOString(),
+          covers_until: coversUntil.toISOString(),
+          reason: reason.trim(),
+        },
+        attachment
+      );
+      toast.success('Excuse request sent to your teacher');
+      setOpen(false);
+      resetForm();
+      fetchRequests();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error submitting excuse request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWithdraw = async (request: ExcuseRequestDetail) => {
+    if (!confirm('Withdraw this excuse request?')) return;
+
+    try {
+      await excuseRequestsAPI.withdraw(request);
+      toast.success('Excuse request withdrawn');
+      fetchRequests();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error withdrawing excuse request');
+    }
+  };
+
+  const openAttachment = async (request: ExcuseRequestDetail) => {
+    try {
+      const url = await excuseRequestsAPI.attachmentUrl(request);
+      if (url) window.open(url, '_blank', 'noopener');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error opening attachment');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Excuse Requests</CardTitle>
+            <CardDescription>
+              Approved excuses don't count against the attendance rate
+            </CardDescription>
+          </div>
+          {canSubmit && (
+            <Dialog
+              open={open}
+              onOpenChange={(isOpen) => {
+                setOpen(isOpen);
+                if (!isOpen) resetForm();
+              }}
+            >
+              <DialogTrigger asChild>
+                <Button className="gap-2" disabled={courses.length === 0}>
+                  <Plus className="w-4 h-4" />
+                  Request Excuse
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-lg">
+                <DialogHeader>
+                  <DialogTitle>Request Excuse</DialogTitle>
+                  <DialogDescription>
+                    Explain an absence. Your teacher will approve or reject it.
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 mt-4">
+                  <div className="space-y-2">
+                    <Label>Course</Label>
+                    <Select
+                      value={courseId}
+                      onValueChange={(value) => {
+                        setCourseId(value);
+                        setLectureId('');
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a course" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {courses.map((course) => (
+                          <SelectItem key={course.id} value={course.id}>
+                            {course.code} - {course.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Covers</Label>
+                    <ToggleGroup
+                      type="single"
+                      variant="outline"
+                      value={scope}
+                      onValueChange={(value) => value && setScope(value as Scope)}
+                      className="justify-start"
+                    >
+                      <ToggleGroupItem value="lecture">One lecture</ToggleGroupItem>
+                      <ToggleGroupItem value="range">Date range</ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                  {scope === 'lecture' ? (
+                    <div className="space-y-2">
+                      <Label>Lecture</Label>
+                      <Select value={lectureId} onValueChange={setLectureId} disabled={!courseId}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Choose a lecture" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {courseLectures.map((lecture) => (
+                            <SelectItem key={lecture.id} value={lecture.id}>
+                              {format(parseISO(lecture.starts_at), 'PPp')}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="excuse-from">From</Label>
+                        <Input
+                          id="excuse-from"
+                          type="date"
+                          value={fromDate}
+                          onChange={(e) => setFromDate(e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="excuse-to">To</Label>
+                        <Input
+                          id="excuse-to"
+                          type="date"
+                          value={toDate}
+                          min={fromDate || undefined}
+                          onChange={(e) => setToDate(e.target.value)}
+                        />
+                      </div>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="excuse-reason">Reason</Label>
+                    <Textarea
+                      id="excuse-reason"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder="e.g., Hospital appointment"
+                      rows={3}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="excuse-attachment">Attachment (optional)</Label>
+                    <Input
+                      id="excuse-attachment"
+                      type="file"
+                      accept={ATTACHMENT_TYPES.join(',')}
+                      onChange={(e) => handleAttachment(e.target.files?.[0])}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      A medical note or similar, as an image or PDF up to 5 MB
+                    </p>
+                  </div>
+                  <div className="flex gap-3 pt-4">
+                    <Button variant="outline" onClick={() => setOpen(false)} className="flex-1">
+                      Cancel
+                    </Button>
+                    <Button onClick={handleSubmit} disabled={saving} className="flex-1">
+                      {saving ? 'Sending...' : 'Send Request'}
+                    </Button>
+                  </div>
+                </div>
+              </DialogContent>
+            </Dialog>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {requests.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">No excuse requests</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div key={request.id} className="p-3 rounded-lg bg-muted/50 space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium">
+                      {request.course.code} · {describeExcuseScope(request)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{request.reason}</p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <ExcuseStatusBadge status={request.status} />
+                    {request.attachment_url && (
+                      <Button variant="ghost" size="sm" onClick={() => openAttachment(request)} title="View attachment">
+                        <Paperclip className="w-4 h-4" />
+                      </Button>
+                    )}
+                    {canSubmit && request.status === 'pending' && (
+                      <Button variant="ghost" size="sm" onClick={() => handleWithdraw(request)} title="Withdraw">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {request.reviewer_comment && (
+                  <p className="text-sm flex items-center gap-1">
+                    <FileText className="w-3 h-3 text-muted-foreground" />
+                    {request.reviewer_comment}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,14 +1,22 @@
 import { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { isLocalMode } from '@/lib/storage/indexeddb';
+import { studentAuth, StudentProfile } from '@/lib/auth/student-auth';
+import { teacherAuth, TeacherProfile } from '@/lib/auth/teacher-auth';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
   userType: 'teacher' | 'student' | null;
-  studentData: { id: string; roll_no: string; name: string } | null;
-  setStudentData: (data: { id: string; roll_no: string; name: string } | null) => void;
+  teacher: TeacherProfile | null;
+  studentData: StudentProfile | null;
+  signInTeacher: (email: string, password: string) => Promise<void>;
+  signUpTeacher: (details: { email: string; password: string; name: string }) => Promise<void>;
+  signOutTeacher: () => Promise<void>;
+  signInStudent: (identifier: string, password: string) => Promise<StudentProfile>;
+  signOutStudent: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({
@@ -16,8 +24,19 @@ const AuthContext = createContext<AuthContextType>({
   session: null,
   loading: true,
   userType: null,
+  teacher: null,
   studentData: null,
-  setStudentData: () => {},
+  signInTeacher: async () => {
+    throw new Error('AuthProvider is missing');
+  },
+  signUpTeacher: async () => {
+    throw new Error('AuthProvider is missing');
+  },
+  signOutTeacher: async () => {},
+  signInStudent: async () => {
+    throw new Error('AuthProvider is missing');
+  },
+  signOutStudent: async () => {},
 });
 
 export const useAuth = () => useContext(AuthContext);
@@ -25,10 +44,22 @@ export const useAuth = () => useContext(AuthContext);
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [studentData, setStudentData] = useState<{ id: string; roll_no: string; name: string } | null>(null);
+  const [authLoading, setAuthLoading] = useState(true);
+  const [studentLoading, setStudentLoading] = useState(true);
+  const [studentData, setStudentData] = useState<StudentProfile | null>(null);
+  const [localTeacher, setLocalTeacher] = useState<TeacherProfile | null>(() =>
+    isLocalMode() ? teacherAuth.getLocalSession() : null
+  );
 
-  const userType = studentData ? 'student' : user ? 'teacher' : null;
+  const loading = authLoading || studentLoading;
+  // Local Mode keeps its own teacher session; otherwise any non-student Supabase user is a teacher
+  const teacher = isLocalMode()
+    ? localTeacher
+    : user && !studentData && !studentLoading
+    ? teacherAuth.fromUser(user)
+    : null;
+  const userType = studentData ? 'student' : teacher ? 'teacher' : null;
+  const userId = user?.id;
 
   useEffect(() => {
     // Set up auth state listener
@@ -36,7 +67,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
       (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
-        setLoading(false);
+        setAuthLoading(false);
       }
     );
 
@@ -44,14 +75,79 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
+      setAuthLoading(false);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  // Resolve the student behind the session: a linked students row, or the Local Mode session
+  useEffect(() => {
+    if (authLoading) return;
+
+    if (isLocalMode()) {
+      setStudentData(studentAuth.getLocalSession());
+      setStudentLoading(false);
+      return;
+    }
+
+    if (!userId) {
+      setStudentData(null);
+      setStudentLoading(false);
+      return;
+    }
+
+    setStudentLoading(true);
+    studentAuth
+      .getStudentForUser(userId)
+      .then(setStudentData)
+      .catch((error) => {
+        console.error('Error loading student account:', error);
+        setStudentData(null);
+      })
+      .finally(() => setStudentLoading(false));
+  }, [userId, authLoading]);
+
+  const signInStudent = async (identifier: string, password: string) => {
+    const student = await studentAuth.signIn(identifier, password);
+    setStudentData(student);
+    return student;
+  };
+
+  const signOutStudent = async () => {
+    await studentAuth.signOut();
+    setStudentData(null);
+  };
+
+  const signInTeacher = async (email: string, password: string) => {
+    setLocalTeacher(await teacherAuth.signIn(email, password));
+  };
+
+  const signUpTeacher = async (details: { email: string; password: string; name: string }) => {
+    setLocalTeacher(await teacherAuth.signUp(details));
+  };
+
+  const signOutTeacher = async () => {
+    await teacherAuth.signOut();
+    setLocalTeacher(null);
+  };
+
   return (
-    <AuthContext.Provider value={{ user, session, loading, userType, studentData, setStudentData }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        loading,
+        userType,
+        teacher,
+        studentData,
+        signInTeacher,
+        signUpTeacher,
+        signOutTeacher,
+        signInStudent,
+        signOutStudent,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
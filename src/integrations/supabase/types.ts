@@ -14,35 +14,122 @@ export type Database = {
   }
   public: {
     Tables: {
+      ambiguous_matches: {
+        Row: {
+          created_at: string
+          distance: number
+          id: string
+          kiosk_device_id: string | null
+          lecture_id: string
+          runner_up_distance: number
+          runner_up_id: string
+          student_id: string
+        }
+        Insert: {
+          created_at?: string
+          distance: number
+          id?: string
+          kiosk_device_id?: string | null
+          lecture_id: string
+          runner_up_distance: number
+          runner_up_id: string
+          student_id: string
+        }
+        Update: {
+          created_at?: string
+          distance?: number
+          id?: string
+          kiosk_device_id?: string | null
+          lecture_id?: string
+          runner_up_distance?: number
+          runner_up_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ambiguous_matches_kiosk_device_id_fkey"
+            columns: ["kiosk_device_id"]
+            isOneToOne: false
+            referencedRelation: "kiosk_devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ambiguous_matches_lecture_id_fkey"
+            columns: ["lecture_id"]
+            isOneToOne: false
+            referencedRelation: "lectures"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ambiguous_matches_runner_up_id_fkey"
+            columns: ["runner_up_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ambiguous_matches_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       attendance: {
         Row: {
           confidence: number | null
           id: string
+          idempotency_key: string | null
+          kiosk_device_id: string | null
           lecture_id: string | null
+          liveness: Json | null
           marked_at: string | null
           method: string | null
           photo_url: string | null
+          status: string
           student_id: string | null
+          sync_version: number
+          updated_at: string
         }
         Insert: {
           confidence?: number | null
           id?: string
+          idempotency_key?: string | null
+          kiosk_device_id?: string | null
           lecture_id?: string | null
+          liveness?: Json | null
           marked_at?: string | null
           method?: string | null
           photo_url?: string | null
+          status?: string
           student_id?: string | null
+          sync_version?: number
+          updated_at?: string
         }
         Update: {
           confidence?: number | null
           id?: string
+          idempotency_key?: string | null
+          kiosk_device_id?: string | null
           lecture_id?: string | null
+          liveness?: Json | null
           marked_at?: string | null
           method?: string | null
           photo_url?: string | null
+          status?: string
           student_id?: string | null
+          sync_version?: number
+          updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "attendance_kiosk_device_id_fkey"
+            columns: ["kiosk_device_id"]
+            isOneToOne: false
+            referencedRelation: "kiosk_devices"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "attendance_lecture_id_fkey"
             columns: ["lecture_id"]
@@ -59,27 +146,120 @@ export type Database = {
           },
         ]
       }
+      attendance_audit: {
+        Row: {
+          action: string
+          actor_id: string | null
+          after: Json | null
+          attendance_id: string
+          before: Json | null
+          created_at: string
+          id: string
+          kiosk_device_id: string | null
+          lecture_id: string
+          reason: string | null
+          source: string
+          student_id: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          after?: Json | null
+          attendance_id: string
+          before?: Json | null
+          created_at?: string
+          id?: string
+          kiosk_device_id?: string | null
+          lecture_id: string
+          reason?: string | null
+          source: string
+          student_id: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          after?: Json | null
+          attendance_id?: string
+          before?: Json | null
+          created_at?: string
+          id?: string
+          kiosk_device_id?: string | null
+          lecture_id?: string
+          reason?: string | null
+          source?: string
+          student_id?: string
+        }
+        Relationships: []
+      }
+      course_teachers: {
+        Row: {
+          course_id: string
+          created_at: string | null
+          role: string
+          teacher_id: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          role?: string
+          teacher_id: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string | null
+          role?: string
+          teacher_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_teachers_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "course_teachers_teacher_id_fkey"
+            columns: ["teacher_id"]
+            isOneToOne: false
+            referencedRelation: "teachers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       courses: {
         Row: {
           code: string
           created_at: string | null
           id: string
+          late_cutoff_minutes: number | null
+          snapshot_retention_days: number | null
+          sync_version: number
           teacher: string
           title: string
+          updated_at: string
         }
         Insert: {
           code: string
           created_at?: string | null
           id?: string
+          late_cutoff_minutes?: number | null
+          snapshot_retention_days?: number | null
+          sync_version?: number
           teacher: string
           title: string
+          updated_at?: string
         }
         Update: {
           code?: string
           created_at?: string | null
           id?: string
+          late_cutoff_minutes?: number | null
+          snapshot_retention_days?: number | null
+          sync_version?: number
           teacher?: string
           title?: string
+          updated_at?: string
         }
         Relationships: []
       }
@@ -89,18 +269,24 @@ export type Database = {
           created_at: string | null
           id: string
           student_id: string | null
+          sync_version: number
+          updated_at: string
         }
         Insert: {
           course_id?: string | null
           created_at?: string | null
           id?: string
           student_id?: string | null
+          sync_version?: number
+          updated_at?: string
         }
         Update: {
           course_id?: string | null
           created_at?: string | null
           id?: string
           student_id?: string | null
+          sync_version?: number
+          updated_at?: string
         }
         Relationships: [
           {
@@ -119,42 +305,243 @@ export type Database = {
           },
         ]
       }
+      excuse_requests: {
+        Row: {
+          attachment_url: string | null
+          course_id: string
+          covers_from: string
+          covers_until: string
+          created_at: string
+          id: string
+          lecture_id: string | null
+          reason: string
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewer_comment: string | null
+          status: string
+          student_id: string
+        }
+        Insert: {
+          attachment_url?: string | null
+          course_id: string
+          covers_from: string
+          covers_until: string
+          created_at?: string
+          id?: string
+          lecture_id?: string | null
+          reason: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewer_comment?: string | null
+          status?: string
+          student_id: string
+        }
+        Update: {
+          attachment_url?: string | null
+          course_id?: string
+          covers_from?: string
+          covers_until?: string
+          created_at?: string
+          id?: string
+          lecture_id?: string | null
+          reason?: string
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewer_comment?: string | null
+          status?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "excuse_requests_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "excuse_requests_lecture_id_fkey"
+            columns: ["lecture_id"]
+            isOneToOne: false
+            referencedRelation: "lectures"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "excuse_requests_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "teachers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "excuse_requests_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      kiosk_devices: {
+        Row: {
+          course_id: string | null
+          created_at: string
+          created_by: string
+          id: string
+          last_seen_at: string | null
+          name: string
+          paired_at: string | null
+          pairing_code_hash: string | null
+          pairing_expires_at: string | null
+          revoked_at: string | null
+          room: string | null
+          token_hash: string | null
+        }
+        Insert: {
+          course_id?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          last_seen_at?: string | null
+          name: string
+          paired_at?: string | null
+          pairing_code_hash?: string | null
+          pairing_expires_at?: string | null
+          revoked_at?: string | null
+          room?: string | null
+          token_hash?: string | null
+        }
+        Update: {
+          course_id?: string | null
+          created_at?: string
+          created_by?: string
+          id?: string
+          last_seen_at?: string | null
+          name?: string
+          paired_at?: string | null
+          pairing_code_hash?: string | null
+          pairing_expires_at?: string | null
+          revoked_at?: string | null
+          room?: string | null
+          token_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "kiosk_devices_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lecture_schedules: {
+        Row: {
+          course_id: string
+          created_at: string | null
+          duration_minutes: number
+          excluded_dates: string[]
+          id: string
+          room: string | null
+          start_time: string
+          sync_version: number
+          term_end: string
+          term_start: string
+          updated_at: string
+          weekdays: number[]
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          duration_minutes: number
+          excluded_dates?: string[]
+          id?: string
+          room?: string | null
+          start_time: string
+          sync_version?: number
+          term_end: string
+          term_start: string
+          updated_at?: string
+          weekdays: number[]
+        }
+        Update: {
+          course_id?: string
+          created_at?: string | null
+          duration_minutes?: number
+          excluded_dates?: string[]
+          id?: string
+          room?: string | null
+          start_time?: string
+          sync_version?: number
+          term_end?: string
+          term_start?: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lecture_schedules_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lectures: {
         Row: {
           attendance_enabled: boolean
           course_id: string | null
           created_at: string | null
           ends_at: string
+          finalized_at: string | null
           id: string
+          is_exception: boolean
           latitude: number | null
           longitude: number | null
+          occurrence_date: string | null
           radius: number | null
           room: string | null
+          schedule_id: string | null
           starts_at: string
+          sync_version: number
+          updated_at: string
         }
         Insert: {
           attendance_enabled?: boolean
           course_id?: string | null
           created_at?: string | null
           ends_at: string
+          finalized_at?: string | null
           id?: string
+          is_exception?: boolean
           latitude?: number | null
           longitude?: number | null
+          occurrence_date?: string | null
           radius?: number | null
           room?: string | null
+          schedule_id?: string | null
           starts_at: string
+          sync_version?: number
+          updated_at?: string
         }
         Update: {
           attendance_enabled?: boolean
           course_id?: string | null
           created_at?: string | null
           ends_at?: string
+          finalized_at?: string | null
           id?: string
+          is_exception?: boolean
           latitude?: number | null
           longitude?: number | null
+          occurrence_date?: string | null
           radius?: number | null
           room?: string | null
+          schedule_id?: string | null
           starts_at?: string
+          sync_version?: number
+          updated_at?: string
         }
         Relationships: [
           {
@@ -164,32 +551,140 @@ export type Database = {
             referencedRelation: "courses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "lectures_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "lecture_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_embeddings: {
+        Row: {
+          created_at: string | null
+          embedding: number[]
+          id: string
+          label: string | null
+          photo_url: string | null
+          quality: number | null
+          student_id: string
+          sync_version: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string | null
+          embedding: number[]
+          id?: string
+          label?: string | null
+          photo_url?: string | null
+          quality?: number | null
+          student_id: string
+          sync_version?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string | null
+          embedding?: number[]
+          id?: string
+          label?: string | null
+          photo_url?: string | null
+          quality?: number | null
+          student_id?: string
+          sync_version?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_embeddings_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
         ]
       }
       students: {
         Row: {
           created_at: string | null
+          created_by: string | null
+          email: string | null
           embedding: number[] | null
           id: string
           name: string
           photo_url: string | null
           roll_no: string
+          sync_version: number
+          updated_at: string
+          user_id: string | null
         }
         Insert: {
           created_at?: string | null
+          created_by?: string | null
+          email?: string | null
           embedding?: number[] | null
           id?: string
           name: string
           photo_url?: string | null
           roll_no: string
+          sync_version?: number
+          updated_at?: string
+          user_id?: string | null
         }
         Update: {
           created_at?: string | null
+          created_by?: string | null
+          email?: string | null
           embedding?: number[] | null
           id?: string
           name?: string
           photo_url?: string | null
           roll_no?: string
+          sync_version?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      sync_tombstones: {
+        Row: {
+          deleted_at: string
+          row_id: string
+          sync_version: number
+          table_name: string
+        }
+        Insert: {
+          deleted_at?: string
+          row_id: string
+          sync_version?: number
+          table_name: string
+        }
+        Update: {
+          deleted_at?: string
+          row_id?: string
+          sync_version?: number
+          table_name?: string
+        }
+        Relationships: []
+      }
+      teachers: {
+        Row: {
+          created_at: string | null
+          email: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          id: string
+          name: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          id?: string
+          name?: string
         }
         Relationships: []
       }
@@ -198,7 +693,50 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_manage_kiosk: {
+        Args: { p_course_id: string; p_created_by: string }
+        Returns: boolean
+      }
+      clear_attendance_snapshots: {
+        Args: { p_ids: string[] }
+        Returns: number
+      }
+      current_student_id: { Args: never; Returns: string }
+      expired_attendance_snapshots: {
+        Args: never
+        Returns: {
+          id: string
+          photo_url: string
+        }[]
+      }
+      finalize_ended_lectures: { Args: never; Returns: number }
+      is_course_owner: { Args: { p_course_id: string }; Returns: boolean }
+      is_course_teacher: { Args: { p_course_id: string }; Returns: boolean }
+      is_excused: {
+        Args: { p_lecture_id: string; p_student_id: string }
+        Returns: boolean
+      }
+      is_teacher: { Args: never; Returns: boolean }
+      review_attendance_match: {
+        Args: { p_accept: boolean; p_attendance_id: string }
+        Returns: string
+      }
+      set_attendance_status: {
+        Args: {
+          p_lecture_id: string
+          p_reason?: string
+          p_status: string | null
+          p_student_id: string
+        }
+        Returns: undefined
+      }
+      student_invite_valid: {
+        Args: { p_email: string; p_roll_no: string }
+        Returns: boolean
+      }
+      sync_watermark: { Args: never; Returns: number }
+      taken_roll_numbers: { Args: { p_roll_nos: string[] }; Returns: string[] }
+      teaches_student: { Args: { p_student_id: string }; Returns: boolean }
     }
     Enums: {
       [_ in never]: never
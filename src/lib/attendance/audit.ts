@@ -0,0 +1,56 @@
+import type { Json } from '@/integrations/supabase/types';
+import { STATUS_LABELS, statusOf } from './status';
+
+// Attendance history: who created, edited or deleted a record, from where and why. Supabase
+// writes it in the audit_attendance trigger; Local Mode writes it from the data layer.
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete'] as const;
+export const AUDIT_SOURCES = ['kiosk', 'self', 'manual', 'system'] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+export type AuditSource = (typeof AUDIT_SOURCES)[number];
+
+export const AUDIT_SOURCE_LABELS: Record<AuditSource, string> = {
+  kiosk: 'Kiosk',
+  self: 'Self check-in',
+  manual: 'Manual',
+  system: 'System',
+};
+
+// Fields left out of the before/after snapshots: bookkeeping that changes on every write,
+// and the liveness payload, which is large and never edited
+const UNAUDITED_FIELDS = ['sync_version', 'updated_at', 'liveness'];
+
+export function auditSnapshot(record: object | null | undefined): Json | null {
+  if (!record) return null;
+  return Object.fromEntries(
+    Object.entries(record).filter(([key, value]) => !UNAUDITED_FIELDS.includes(key) && value !== undefined)
+  ) as Json;
+}
+
+// Local Mode counterpart of the trigger's source detection; callers that know better say so
+export function auditSourceOf(record: { method?: string | null; idempotency_key?: string | null }): AuditSource {
+  if (record.method === 'manual') return 'manual';
+  if (record.method === 'auto' || record.method === 'excuse') return 'system';
+  // Only kiosk marks come through the outbox, which keys each mark
+  return record.idempotency_key ? 'kiosk' : 'self';
+}
+
+function statusLabel(snapshot: Json | null): string | null {
+  if (!snapshot || typeof snapshot !== 'object' || Array.isArray(snapshot)) return null;
+  return STATUS_LABELS[statusOf(snapshot as { status?: string | null })];
+}
+
+// One line for the history panel, e.g. "Absent → Excused"
+export function describeAuditChange(entry: { action: AuditAction; before: Json | null; after: Json | null }): string {
+  const before = statusLabel(entry.before);
+  const after = statusLabel(entry.after);
+  switch (entry.action) {
+    case 'create':
+      return `Marked ${after?.toLowerCase()}`;
+    case 'delete':
+      return `Removed (was ${before?.toLowerCase()})`;
+    default:
+      return before === after ? 'Details changed' : `${before} → ${after}`;
+  }
+}
@@ -0,0 +1,52 @@
+import { addDays, format, parseISO } from 'date-fns';
+
+// Excuse requests and which lectures they cover. Must match public.is_excused in the
+// excuse requests migration.
+
+export const EXCUSE_STATUSES = ['pending', 'approved', 'rejected'] as const;
+
+export type ExcuseStatus = (typeof EXCUSE_STATUSES)[number];
+
+export const EXCUSE_STATUS_LABELS: Record<ExcuseStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+// Attachments are read on a phone screen by the teacher; keep them small
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+export const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+interface ExcuseScope {
+  course_id: string;
+  lecture_id: string | null;
+  covers_from: string;
+  covers_until: string;
+}
+
+// A single-lecture excuse covers only that lecture; a date range covers every lecture of
+// the course starting inside [covers_from, covers_until)
+export function excuseCovers(
+  excuse: ExcuseScope,
+  lecture: { id: string; course_id: string; starts_at: string }
+): boolean {
+  if (excuse.course_id !== lecture.course_id) return false;
+  if (excuse.lecture_id) return excuse.lecture_id === lecture.id;
+
+  const startsAt = new Date(lecture.starts_at).getTime();
+  return startsAt >= new Date(excuse.covers_from).getTime() && startsAt < new Date(excuse.covers_until).getTime();
+}
+
+// What a request covers, for lists: the lecture, or the days of its range
+export function describeExcuseScope(
+  excuse: Pick<ExcuseScope, 'covers_from' | 'covers_until'> & { lecture: { starts_at: string } | null }
+): string {
+  if (excuse.lecture) return `Lecture on ${format(parseISO(excuse.lecture.starts_at), 'PPp')}`;
+
+  const from = parseISO(excuse.covers_from);
+  // covers_until is the start of the day after the last excused day
+  const until = addDays(parseISO(excuse.covers_until), -1);
+  return from.toDateString() === until.toDateString()
+    ? format(from, 'PPP')
+    : `${format(from, 'PP')} – ${format(until, 'PP')}`;
+}
@@ -0,0 +1,36 @@
+// Distance checks for lectures that require students to be on site
+
+const EARTH_RADIUS_M = 6371e3;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Geofence extends Coordinates {
+  radius: number;
+}
+
+// The lecture's fence, or null when it has no location set
+export function lectureGeofence(lecture: {
+  latitude?: number | null;
+  longitude?: number | null;
+  radius?: number | null;
+}): Geofence | null {
+  if (lecture.latitude == null || lecture.longitude == null || lecture.radius == null) return null;
+  return { latitude: lecture.latitude, longitude: lecture.longitude, radius: lecture.radius };
+}
+
+// Great-circle (haversine) distance in meters
+export function distanceMeters(a: Coordinates, b: Coordinates): number {
+  const φ1 = (a.latitude * Math.PI) / 180;
+  const φ2 = (b.latitude * Math.PI) / 180;
+  const Δφ = ((b.latitude - a.latitude) * Math.PI) / 180;
+  const Δλ = ((b.longitude - a.longitude) * Math.PI) / 180;
+
+  const h =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+
+  return EARTH_RADIUS_M * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
@@ -0,0 +1,172 @@
+import { supabase } from '@/integrations/supabase/client';
+import { isLocalMode } from '@/lib/storage/indexeddb';
+import {
+  Attendance,
+  attendanceAPI,
+  coursesAPI,
+  enrollmentsAPI,
+  lecturesAPI,
+  snapshotsAPI,
+  studentEmbeddingsAPI,
+  studentsAPI,
+} from '@/lib/storage/data';
+import { buildGallery, galleryDistance, getMatchStrategy, needsReview } from '@/lib/face/matcher';
+import type { LivenessResult } from '@/lib/face/liveness';
+import { Coordinates, distanceMeters, lectureGeofence } from './geofence';
+import { statusForMark } from './status';
+
+// Codes returned by the mark-attendance function
+export type AttendanceErrorCode =
+  | 'UNAUTHORIZED'
+  | 'NOT_A_STUDENT'
+  | 'KIOSK_OUT_OF_SCOPE'
+  | 'INVALID_REQUEST'
+  | 'INVALID_DESCRIPTOR'
+  | 'LIVENESS_FAILED'
+  | 'INVALID_CAPTURE_TIME'
+  | 'LECTURE_NOT_FOUND'
+  | 'LECTURE_NOT_ACTIVE'
+  | 'ATTENDANCE_DISABLED'
+  | 'NOT_ENROLLED'
+  | 'LOCATION_REQUIRED'
+  | 'OUTSIDE_GEOFENCE'
+  | 'STUDENT_NOT_FOUND'
+  | 'NO_FACE_PROFILE'
+  | 'FACE_MISMATCH'
+  | 'INTERNAL_ERROR';
+
+const MESSAGES: Partial<Record<AttendanceErrorCode, string>> = {
+  UNAUTHORIZED: 'Your session has expired. Please sign in again.',
+  NOT_A_STUDENT: 'This account is not linked to a student.',
+  LIVENESS_FAILED: 'Liveness check failed. Blink and turn your head when prompted, and do not use a photo.',
+  LECTURE_NOT_FOUND: 'This lecture no longer exists.',
+  LECTURE_NOT_ACTIVE: 'This lecture is not in progress.',
+  ATTENDANCE_DISABLED: 'Your teacher has not opened attendance for this lecture yet.',
+  NOT_ENROLLED: 'You are not enrolled in this course.',
+  LOCATION_REQUIRED: 'This lecture needs your location. Please enable location services.',
+  OUTSIDE_GEOFENCE: 'You are too far from the lecture location.',
+  NO_FACE_PROFILE: 'No face profile found. Please contact your teacher.',
+  FACE_MISMATCH: 'Face does not match. Please try again.',
+};
+
+function outsideGeofence(distance: number, radius: number): AttendanceError {
+  return new AttendanceError(
+    'OUTSIDE_GEOFENCE',
+    `You are ${Math.round(distance)}m away. Must be within ${radius}m of the lecture location.`
+  );
+}
+
+export class AttendanceError extends Error {
+  constructor(public code: AttendanceErrorCode, message?: string) {
+    super(message ?? MESSAGES[code] ?? 'Failed to mark attendance');
+    this.name = 'AttendanceError';
+  }
+}
+
+export interface SelfMarkRequest {
+  lectureId: string;
+  studentId: string;
+  descriptor: number[];
+  liveness: LivenessResult;
+  location: Coordinates | null;
+  selfie: Blob;
+}
+
+export interface SelfMarkResult {
+  attendance: Attendance;
+  duplicate: boolean;
+}
+
+// Local Mode has no server: the same policies are checked against IndexedDB
+async function markLocally(request: SelfMarkRequest): Promise<SelfMarkResult> {
+  const { lectureId, studentId, descriptor, liveness, location } = request;
+
+  if (!liveness.passed) throw new AttendanceError('LIVENESS_FAILED');
+
+  const lecture = await lecturesAPI.getById(lectureId);
+  if (!lecture) throw new AttendanceError('LECTURE_NOT_FOUND');
+
+  const now = new Date();
+  if (now < new Date(lecture.starts_at) || now > new Date(lecture.ends_at)) {
+    throw new AttendanceError('LECTURE_NOT_ACTIVE');
+  }
+
+  const enrollments = await enrollmentsAPI.getByStudent(studentId);
+  if (!enrollments.some((e) => e.course_id === lecture.course_id)) {
+    throw new AttendanceError('NOT_ENROLLED');
+  }
+
+  if (!lecture.attendance_enabled) throw new AttendanceError('ATTENDANCE_DISABLED');
+
+  const fence = lectureGeofence(lecture);
+  if (fence) {
+    if (!location) throw new AttendanceError('LOCATION_REQUIRED');
+    const distance = distanceMeters(location, fence);
+    if (distance > fence.radius) throw outsideGeofence(distance, fence.radius);
+  }
+
+  const [student, embeddings, course] = await Promise.all([
+    studentsAPI.getById(studentId),
+    studentEmbeddingsAPI.getByStudents([studentId]),
+    coursesAPI.getById(lecture.course_id),
+  ]);
+  const gallery = buildGallery(embeddings, student?.embedding ?? null);
+  if (gallery.length === 0) throw new AttendanceError('NO_FACE_PROFILE');
+
+  const threshold = parseFloat(localStorage.getItem('recognitionThreshold') || '0.45');
+  const distance = galleryDistance(new Float32Array(descriptor), gallery, getMatchStrategy());
+  if (distance > threshold) throw new AttendanceError('FACE_MISMATCH');
+
+  const existing = await attendanceAPI.find(lectureId, studentId);
+  if (existing) return { attendance: existing, duplicate: true };
+
+  const attendance = await attendanceAPI.create({
+    lecture_id: lectureId,
+    student_id: studentId,
+    marked_at: now.toISOString(),
+    status: needsReview(distance, threshold)
+      ? 'pending'
+      : statusForMark(lecture.starts_at, now.toISOString(), course?.late_cutoff_minutes),
+    confidence: Math.max(0, 1 - distance),
+    method: 'face',
+    photo_url: await snapshotsAPI.upload(`${studentId}/selfie-${lectureId}-${Date.now()}.jpg`, request.selfie),
+    liveness,
+  });
+  return { attendance, duplicate: false };
+}
+
+// A student marking their own attendance; enrollment, the lecture's attendance switch
+// and its geofence are enforced by the mark-attendance function
+export async function markOwnAttendance(request: SelfMarkRequest): Promise<SelfMarkResult> {
+  if (isLocalMode()) return markLocally(request);
+
+  const { lectureId, studentId, descriptor, liveness, location, selfie } = request;
+  // Students may only write under their own folder of the snapshot bucket
+  const photoUrl = await snapshotsAPI.upload(`${studentId}/selfie-${lectureId}-${Date.now()}.jpg`, selfie);
+
+  const { data, error } = await supabase.functions.invoke('mark-attendance', {
+    body: {
+      lecture_id: lectureId,
+      student_id: studentId,
+      descriptor,
+      liveness,
+      location,
+      photo_url: photoUrl,
+    },
+  });
+
+  if (error || data?.duplicate) {
+    // The selfie is only kept with the mark it belongs to
+    await snapshotsAPI.remove([photoUrl]).catch(() => undefined);
+  }
+
+  if (error) {
+    // Non-2xx responses carry the function's JSON body in the error context
+    const body = await (error.context as Response | undefined)?.json?.().catch(() => null);
+    if (body?.code === 'OUTSIDE_GEOFENCE') throw outsideGeofence(body.distance, body.radius);
+    if (body?.code) throw new AttendanceError(body.code, MESSAGES[body.code as AttendanceErrorCode] ?? body.error);
+    throw error;
+  }
+
+  return { attendance: data.attendance, duplicate: !!data.duplicate };
+}
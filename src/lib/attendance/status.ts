@@ -0,0 +1,62 @@
+// Attendance statuses and the rules for counting them
+
+// pending: a borderline face match waiting for a teacher to accept or reject it
+export const ATTENDANCE_STATUSES = ['present', 'late', 'excused', 'absent', 'pending'] as const;
+
+export type AttendanceStatus = (typeof ATTENDANCE_STATUSES)[number];
+
+export const STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: 'Present',
+  late: 'Late',
+  excused: 'Excused',
+  absent: 'Absent',
+  pending: 'Needs review',
+};
+
+export function isAttendanceStatus(value: unknown): value is AttendanceStatus {
+  return ATTENDANCE_STATUSES.includes(value as AttendanceStatus);
+}
+
+// Rows from before statuses existed (or from older Local Mode data) were all present
+export function statusOf(record: { status?: string | null }): AttendanceStatus {
+  return isAttendanceStatus(record.status) ? record.status : 'present';
+}
+
+// Late students still attended
+export function countsAsAttended(status: AttendanceStatus): boolean {
+  return status === 'present' || status === 'late';
+}
+
+// Status for a mark taken at markedAt, given the course's late cutoff (null: never late)
+export function statusForMark(
+  lectureStartsAt: string,
+  markedAt: string,
+  lateCutoffMinutes: number | null | undefined
+): 'present' | 'late' {
+  if (lateCutoffMinutes == null) return 'present';
+  const cutoff = new Date(lectureStartsAt).getTime() + lateCutoffMinutes * 60000;
+  return new Date(markedAt).getTime() > cutoff ? 'late' : 'present';
+}
+
+export interface AttendanceSummary {
+  present: number;
+  late: number;
+  excused: number;
+  absent: number;
+  pending: number;
+  attended: number;
+  // Percentage of lectures attended; excused lectures and marks awaiting review are left out of the total
+  rate: number;
+}
+
+// totalLectures covers lectures with no record at all, which count against the rate like absences
+export function summarizeStatuses(statuses: AttendanceStatus[], totalLectures = statuses.length): AttendanceSummary {
+  const counts = { present: 0, late: 0, excused: 0, absent: 0, pending: 0 };
+  statuses.forEach((status) => {
+    counts[status] += 1;
+  });
+
+  const attended = counts.present + counts.late;
+  const expected = Math.max(totalLectures - counts.excused - counts.pending, 0);
+  return { ...counts, attended, rate: expected > 0 ? (attended / expected) * 100 : 0 };
+}
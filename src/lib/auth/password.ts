@@ -0,0 +1,44 @@
+// PBKDF2 password hashing for the Local Mode stand-ins of Supabase auth accounts
+const PBKDF2_ITERATIONS = 100000;
+
+export interface PasswordHash {
+  password_hash: string;
+  salt: string;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string) {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+async function hashPassword(password: string, salt: BufferSource): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    key,
+    256
+  );
+  return toHex(new Uint8Array(bits));
+}
+
+export async function createPasswordHash(password: string): Promise<PasswordHash> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { password_hash: await hashPassword(password, salt), salt: toHex(salt) };
+}
+
+export async function verifyPassword(password: string, stored: PasswordHash): Promise<boolean> {
+  return (await hashPassword(password, fromHex(stored.salt))) === stored.password_hash;
+}
@@ -0,0 +1,147 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getDB, isLocalMode } from '@/lib/storage/indexeddb';
+import { createPasswordHash, verifyPassword } from './password';
+
+export interface StudentProfile {
+  id: string;
+  roll_no: string;
+  name: string;
+}
+
+const LOCAL_SESSION_KEY = 'studentSession';
+
+async function findLocalStudentByRollNo(rollNo: string) {
+  const db = await getDB();
+  const students = await db.getAll('students');
+  const normalized = rollNo.trim().toLowerCase();
+  return students.find((s) => s.roll_no.toLowerCase() === normalized) || null;
+}
+
+function toProfile(student: StudentProfile): StudentProfile {
+  return { id: student.id, roll_no: student.roll_no, name: student.name };
+}
+
+function getLocalSession(): StudentProfile | null {
+  const saved = localStorage.getItem(LOCAL_SESSION_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return null;
+  }
+}
+
+// Student accounts: Supabase auth users linked to a students row, or a
+// roll number + password stored in IndexedDB when running in Local Mode
+export const studentAuth = {
+  // First login: set a password for an invited student
+  async activate({
+    rollNo,
+    email,
+    password,
+  }: {
+    rollNo: string;
+    email: string;
+    password: string;
+  }): Promise<StudentProfile | null> {
+    if (isLocalMode()) {
+      // Same rule as student_invite_valid: the roll number and invite email must both match
+      const student = await findLocalStudentByRollNo(rollNo);
+      if (!student?.email || student.email.toLowerCase() !== email.trim().toLowerCase()) {
+        throw new Error('No pending invite matches this roll number and email. Ask your teacher to invite you.');
+      }
+
+      const db = await getDB();
+      if (await db.get('student_credentials', student.id)) {
+        throw new Error('This account is already activated. Please sign in.');
+      }
+
+      await db.put('student_credentials', {
+        student_id: student.id,
+        ...(await createPasswordHash(password)),
+        created_at: new Date().toISOString(),
+      });
+
+      const profile = toProfile(student);
+      localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(profile));
+      return profile;
+    }
+
+    const { data: valid, error: inviteError } = await supabase.rpc('student_invite_valid', {
+      p_roll_no: rollNo,
+      p_email: email,
+    });
+    if (inviteError) throw inviteError;
+    if (!valid) {
+      throw new Error('No pending invite matches this roll number and email. Ask your teacher to invite you.');
+    }
+
+    const { error } = await supabase.auth.signUp({
+      email: email.trim(),
+      password,
+      options: {
+        emailRedirectTo: `${window.location.origin}/auth`,
+        data: { role: 'student', roll_no: rollNo.trim() },
+      },
+    });
+    if (error) throw error;
+
+    // The session (if email confirmation is off) arrives through onAuthStateChange
+    return null;
+  },
+
+  // identifier is the email for Supabase accounts and the roll number in Local Mode
+  async signIn(identifier: string, password: string): Promise<StudentProfile> {
+    if (isLocalMode()) {
+      const student = await findLocalStudentByRollNo(identifier);
+      const db = await getDB();
+      const credentials = student ? await db.get('student_credentials', student.id) : undefined;
+
+      if (!student || !credentials) {
+        throw new Error('Account not activated. Use "Activate Account" to set a password first.');
+      }
+
+      if (!(await verifyPassword(password, credentials))) {
+        throw new Error('Invalid roll number or password');
+      }
+
+      const profile = toProfile(student);
+      localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(profile));
+      return profile;
+    }
+
+    const { data, error } = await supabase.auth.signInWithPassword({
+      email: identifier.trim(),
+      password,
+    });
+    if (error) throw error;
+
+    const student = await studentAuth.getStudentForUser(data.user.id);
+    if (!student) {
+      await supabase.auth.signOut();
+      throw new Error('This is not a student account. Use the Teacher sign in instead.');
+    }
+    return student;
+  },
+
+  async getStudentForUser(userId: string): Promise<StudentProfile | null> {
+    const { data, error } = await supabase
+      .from('students')
+      .select('id, roll_no, name')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  getLocalSession,
+
+  async signOut(): Promise<void> {
+    if (isLocalMode()) {
+      localStorage.removeItem(LOCAL_SESSION_KEY);
+      return;
+    }
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,120 @@
+import { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { getDB, isLocalMode, generateId } from '@/lib/storage/indexeddb';
+import { createPasswordHash, verifyPassword } from './password';
+
+export interface TeacherProfile {
+  id: string;
+  email: string;
+  name: string;
+}
+
+const LOCAL_SESSION_KEY = 'teacherSession';
+
+function getLocalSession(): TeacherProfile | null {
+  const saved = localStorage.getItem(LOCAL_SESSION_KEY);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch {
+    return null;
+  }
+}
+
+// Teacher accounts: Supabase auth users, or an email + password stored in
+// IndexedDB when running in Local Mode
+export const teacherAuth = {
+  // Returns the signed-in profile in Local Mode; Supabase sessions arrive
+  // through onAuthStateChange (after email confirmation, if enabled)
+  async signUp({
+    email,
+    password,
+    name,
+  }: {
+    email: string;
+    password: string;
+    name: string;
+  }): Promise<TeacherProfile | null> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const normalized = email.trim().toLowerCase();
+      if (await db.getFromIndex('teachers', 'by-email', normalized)) {
+        throw new Error('This email is already registered. Please sign in instead.');
+      }
+
+      const teacher = {
+        id: generateId(),
+        email: normalized,
+        name: name.trim() || normalized.split('@')[0],
+        created_at: new Date().toISOString(),
+      };
+      await db.add('teachers', teacher);
+      await db.put('teacher_credentials', {
+        teacher_id: teacher.id,
+        ...(await createPasswordHash(password)),
+        created_at: teacher.created_at,
+      });
+
+      const profile = { id: teacher.id, email: teacher.email, name: teacher.name };
+      localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(profile));
+      return profile;
+    }
+
+    const { error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        emailRedirectTo: `${window.location.origin}/`,
+        data: { role: 'teacher', name: name.trim() },
+      },
+    });
+    if (error) {
+      if (error.message.includes('already registered')) {
+        throw new Error('This email is already registered. Please sign in instead.');
+      }
+      throw error;
+    }
+    return null;
+  },
+
+  async signIn(email: string, password: string): Promise<TeacherProfile | null> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const teacher = await db.getFromIndex('teachers', 'by-email', email.trim().toLowerCase());
+      const credentials = teacher ? await db.get('teacher_credentials', teacher.id) : undefined;
+
+      if (!teacher || !credentials || !(await verifyPassword(password, credentials))) {
+        throw new Error('Invalid email or password');
+      }
+
+      const profile = { id: teacher.id, email: teacher.email, name: teacher.name };
+      localStorage.setItem(LOCAL_SESSION_KEY, JSON.stringify(profile));
+      return profile;
+    }
+
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    return null;
+  },
+
+  // Profile of a Supabase user that is not a student
+  fromUser(user: User): TeacherProfile {
+    const email = user.email ?? '';
+    return {
+      id: user.id,
+      email,
+      name: (user.user_metadata?.name as string | undefined) || email.split('@')[0],
+    };
+  },
+
+  getLocalSession,
+
+  async signOut(): Promise<void> {
+    if (isLocalMode()) {
+      localStorage.removeItem(LOCAL_SESSION_KEY);
+      return;
+    }
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  },
+};
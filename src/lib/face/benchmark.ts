@@ -0,0 +1,125 @@
+import { createGalleryIndex } from './gallery-index';
+import { GalleryCandidate, galleryDistance, MatchStrategy } from './matcher';
+
+// Benchmark harness for the gallery index: builds a synthetic roster whose descriptors are
+// spread like real ones (captures of one student about 0.35 apart, different students about
+// 0.8), then compares the index against a brute-force scan for the same probes.
+
+export interface IndexBenchmarkOptions {
+  students: number;
+  capturesPerStudent?: number;
+  queries?: number;
+  probes?: number;
+  strategy?: MatchStrategy;
+  seed?: number;
+}
+
+export interface IndexBenchmarkResult {
+  students: number;
+  vectors: number;
+  queries: number;
+  partitions: number;
+  buildMs: number;
+  // Average time per probe
+  bruteForceMs: number;
+  indexMs: number;
+  // Share of probes where the index returns the same nearest student as brute force
+  recall: number;
+}
+
+const DIMENSIONS = 128;
+// Per-dimension noise around the shared face direction, and around a student's own
+const STUDENT_SPREAD = 0.06;
+const CAPTURE_SPREAD = 0.022;
+
+// Small seeded generator (mulberry32), so runs are repeatable
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  // Box-Muller
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - next())) * Math.cos(2 * Math.PI * next());
+  return { next, gaussian };
+}
+
+function jitter(base: number[], spread: number, gaussian: () => number): number[] {
+  const vector = base.map((value) => value + gaussian() * spread);
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return vector.map((v) => v / norm);
+}
+
+export function syntheticRoster(
+  students: number,
+  capturesPerStudent: number,
+  seed = 1
+): { candidates: GalleryCandidate[]; centers: number[][] } {
+  const random = createRandom(seed);
+  const face = jitter(new Array(DIMENSIONS).fill(0), 1, random.gaussian);
+  const centers = Array.from({ length: students }, () => jitter(face, STUDENT_SPREAD, random.gaussian));
+  const candidates = centers.map((center, i) => ({
+    id: `student-${i}`,
+    gallery: Array.from({ length: capturesPerStudent }, () => jitter(center, CAPTURE_SPREAD, random.gaussian)),
+  }));
+  return { candidates, centers };
+}
+
+function nearestByScan(probe: Float32Array, candidates: GalleryCandidate[], strategy: MatchStrategy): string | null {
+  let best: string | null = null;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = galleryDistance(probe, candidate.gallery, strategy);
+    if (distance < bestDistance) {
+      best = candidate.id;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// Yield between phases so the page stays responsive
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+export async function runIndexBenchmark(options: IndexBenchmarkOptions): Promise<IndexBenchmarkResult> {
+  const { students, capturesPerStudent = 3, queries = 200, probes, strategy = 'min', seed = 1 } = options;
+  const { candidates, centers } = syntheticRoster(students, capturesPerStudent, seed);
+
+  // Fresh captures of enrolled students, as the kiosk would see them
+  const random = createRandom(seed + 1);
+  const queryVectors = Array.from({ length: queries }, () => {
+    const center = centers[Math.floor(random.next() * centers.length)];
+    return Float32Array.from(jitter(center, CAPTURE_SPREAD, random.gaussian));
+  });
+
+  await nextTick();
+  const buildStart = performance.now();
+  const index = createGalleryIndex(candidates, { probes });
+  const buildMs = performance.now() - buildStart;
+
+  await nextTick();
+  const scanStart = performance.now();
+  const expected = queryVectors.map((probe) => nearestByScan(probe, candidates, strategy));
+  const bruteForceMs = (performance.now() - scanStart) / queries;
+
+  await nextTick();
+  const indexStart = performance.now();
+  const found = queryVectors.map((probe) => index.nearest(probe, 1, strategy)[0]?.candidate.id ?? null);
+  const indexMs = (performance.now() - indexStart) / queries;
+
+  const agreed = found.filter((id, i) => id === expected[i]).length;
+
+  return {
+    students,
+    vectors: students * capturesPerStudent,
+    queries,
+    partitions: index.partitionCount,
+    buildMs,
+    bruteForceMs,
+    indexMs,
+    recall: queries > 0 ? agreed / queries : 1,
+  };
+}
@@ -0,0 +1,165 @@
+import { galleryDistance, GalleryCandidate, MatchStrategy } from './matcher';
+
+// Threshold calibration from faces whose owner is known. A probe's distance to its own
+// student's gallery is a genuine score, and its distance to every other student's an
+// impostor score. Sweeping the threshold over both gives the false accept rate (impostors
+// within the threshold) and the false reject rate (genuine faces beyond it).
+
+export type ProbeSource = 'enrolled' | 'attendance' | 'capture';
+
+export interface CalibrationProbe {
+  studentId: string;
+  descriptor: Float32Array;
+  source: ProbeSource;
+  // An enrolled capture is left out of its own gallery, or it would match itself exactly
+  galleryIndex?: number;
+}
+
+export interface CalibrationScores {
+  genuine: number[];
+  impostor: number[];
+}
+
+export interface ErrorRatePoint {
+  threshold: number;
+  far: number;
+  frr: number;
+}
+
+export interface ThresholdRecommendation extends ErrorRatePoint {
+  // The best threshold fell outside what Settings allows and was moved to the nearest end
+  clamped: boolean;
+}
+
+// The range of the threshold slider in Settings
+export const THRESHOLD_RANGE = { min: 0.35, max: 0.55 };
+
+const SWEEP = { from: 0.2, to: 0.8, step: 0.005 };
+
+// Scoring yields to the page between chunks so a large roster does not freeze it
+const PROBES_PER_CHUNK = 25;
+
+// Every enrolled capture of a student with at least two, each scored against the rest
+export function enrolledProbes(candidates: GalleryCandidate[]): CalibrationProbe[] {
+  return candidates
+    .filter((candidate) => candidate.gallery.length > 1)
+    .flatMap((candidate) =>
+      candidate.gallery.map((descriptor, galleryIndex) => ({
+        studentId: candidate.id,
+        descriptor: Float32Array.from(descriptor),
+        source: 'enrolled' as const,
+        galleryIndex,
+      }))
+    );
+}
+
+// Probes of students outside the candidates are skipped, so a course's calibration only
+// uses its own roster
+export async function scoreProbes(
+  candidates: GalleryCandidate[],
+  probes: CalibrationProbe[],
+  strategy: MatchStrategy,
+  onProgress?: (done: number, total: number) => void
+): Promise<CalibrationScores> {
+  const byId = new Map(candidates.map((candidate) => [candidate.id, candidate]));
+  const usable = probes.filter((probe) => byId.has(probe.studentId));
+  const scores: CalibrationScores = { genuine: [], impostor: [] };
+
+  for (let start = 0; start < usable.length; start += PROBES_PER_CHUNK) {
+    for (const probe of usable.slice(start, start + PROBES_PER_CHUNK)) {
+      for (const candidate of candidates) {
+        if (candidate.id !== probe.studentId) {
+          scores.impostor.push(galleryDistance(probe.descriptor, candidate.gallery, strategy));
+          continue;
+        }
+        const gallery =
+          probe.galleryIndex === undefined
+            ? candidate.gallery
+            : candidate.gallery.filter((_, index) => index !== probe.galleryIndex);
+        if (gallery.length > 0) scores.genuine.push(galleryDistance(probe.descriptor, gallery, strategy));
+      }
+    }
+    onProgress?.(Math.min(start + PROBES_PER_CHUNK, usable.length), usable.length);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  return scores;
+}
+
+// How many of the sorted values are at most the limit
+function countAtMost(sorted: number[], limit: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] <= limit) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+// FAR and FRR at each threshold of the sweep. A face matches at distance <= threshold, as
+// in findBestMatch.
+export function errorRates(scores: CalibrationScores): ErrorRatePoint[] {
+  const genuine = [...scores.genuine].sort((a, b) => a - b);
+  const impostor = [...scores.impostor].sort((a, b) => a - b);
+  if (genuine.length === 0 || impostor.length === 0) return [];
+
+  const steps = Math.round((SWEEP.to - SWEEP.from) / SWEEP.step);
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const threshold = Number((SWEEP.from + i * SWEEP.step).toFixed(3));
+    return {
+      threshold,
+      far: countAtMost(impostor, threshold) / impostor.length,
+      frr: 1 - countAtMost(genuine, threshold) / genuine.length,
+    };
+  });
+}
+
+// Where false accepts and false rejects are equally likely; the rate there summarises how
+// well the two distributions separate
+export function equalErrorRate(points: ErrorRatePoint[]): { threshold: number; rate: number } | null {
+  if (points.length === 0) return null;
+  const closest = points.reduce((best, point) =>
+    Math.abs(point.far - point.frr) < Math.abs(best.far - best.frr) ? point : best
+  );
+  return { threshold: closest.threshold, rate: (closest.far + closest.frr) / 2 };
+}
+
+// The most lenient threshold that keeps false accepts at or under the target. Marking the
+// wrong student is worse than asking one to try again, so FAR is the constraint.
+export function recommendThreshold(points: ErrorRatePoint[], targetFar: number): ThresholdRecommendation | null {
+  if (points.length === 0) return null;
+
+  const within = points.filter((point) => point.far <= targetFar);
+  const best = within.length > 0 ? within[within.length - 1] : points[0];
+  const threshold = Math.min(THRESHOLD_RANGE.max, Math.max(THRESHOLD_RANGE.min, best.threshold));
+  if (threshold === best.threshold) return { ...best, clamped: false };
+
+  const nearest = points.reduce((a, b) => (Math.abs(b.threshold - threshold) < Math.abs(a.threshold - threshold) ? b : a));
+  return { ...nearest, threshold, clamped: true };
+}
+
+// Share of each distribution per distance bin, for plotting the two side by side
+export function distanceHistogram(
+  scores: CalibrationScores,
+  binWidth = 0.025
+): { distance: number; genuine: number; impostor: number }[] {
+  const bins = Math.round((SWEEP.to - SWEEP.from) / binWidth);
+  const share = (values: number[]) => {
+    const counts = new Array<number>(bins).fill(0);
+    for (const value of values) {
+      const bin = Math.floor((value - SWEEP.from) / binWidth);
+      counts[Math.min(bins - 1, Math.max(0, bin))]++;
+    }
+    return counts.map((count) => (values.length > 0 ? count / values.length : 0));
+  };
+
+  const genuine = share(scores.genuine);
+  const impostor = share(scores.impostor);
+  return genuine.map((_, i) => ({
+    distance: Number((SWEEP.from + (i + 0.5) * binWidth).toFixed(3)),
+    genuine: genuine[i],
+    impostor: impostor[i],
+  }));
+}
@@ -0,0 +1,57 @@
+// Which face detector a deployment runs and how it is tuned, chosen in Settings. The
+// detectors themselves live in the pipeline; this module only describes and stores the choice,
+// so pages can read it without loading face-api.js.
+
+export type DetectorBackend = 'tiny' | 'ssd';
+
+export interface DetectorProfile {
+  backend: DetectorBackend;
+  // Tiny detector only: the frame is scaled to this square before detection. Larger finds
+  // smaller and farther faces, at more cost per frame. Must be a multiple of 32.
+  inputSize: number;
+  // Detections less confident than this are ignored
+  scoreThreshold: number;
+  // Faces smaller than this, in frame pixels, give unreliable descriptors and are skipped
+  minFaceSize: number;
+}
+
+export const DETECTOR_LABELS: Record<DetectorBackend, string> = {
+  tiny: 'Tiny Face Detector',
+  ssd: 'SSD MobileNet v1',
+};
+
+// Model folder under /models for each detector. The SSD weights are not bundled; copy
+// ssd_mobilenetv1_model-weights_manifest.json and its shards from the face-api.js weights
+// into public/models/ssd_mobilenetv1_model to use it.
+export const DETECTOR_MODELS: Record<DetectorBackend, string> = {
+  tiny: 'tiny_face_detector_model',
+  ssd: 'ssd_mobilenetv1_model',
+};
+
+export const TINY_INPUT_SIZES = [160, 224, 320, 416, 512, 608];
+
+export const DEFAULT_DETECTOR_PROFILE: DetectorProfile = {
+  backend: 'tiny',
+  inputSize: 320,
+  scoreThreshold: 0.5,
+  minFaceSize: 150,
+};
+
+export function getDetectorProfile(): DetectorProfile {
+  try {
+    const saved = JSON.parse(localStorage.getItem('detectorProfile') ?? '{}') as Partial<DetectorProfile>;
+    const profile = { ...DEFAULT_DETECTOR_PROFILE, ...saved };
+    return {
+      backend: profile.backend === 'ssd' ? 'ssd' : 'tiny',
+      inputSize: TINY_INPUT_SIZES.includes(profile.inputSize) ? profile.inputSize : DEFAULT_DETECTOR_PROFILE.inputSize,
+      scoreThreshold: Math.min(0.95, Math.max(0.05, Number(profile.scoreThreshold) || DEFAULT_DETECTOR_PROFILE.scoreThreshold)),
+      minFaceSize: Math.max(0, Number(profile.minFaceSize) || 0),
+    };
+  } catch {
+    return DEFAULT_DETECTOR_PROFILE;
+  }
+}
+
+export function saveDetectorProfile(profile: DetectorProfile): void {
+  localStorage.setItem('detectorProfile', JSON.stringify(profile));
+}
@@ -1,124 +1,124 @@
-import * as faceapi from 'face-api.js';
+import { assessFaceQuality, qualityMessage, FaceQuality } from './quality';
+import { faceWorker } from './worker-client';
+import type { MatchOptions } from './pipeline';
+import { getDetectorProfile } from './detector';
 
-const detectionOptions = new faceapi.TinyFaceDetectorOptions({
-  inputSize: 320,
-  scoreThreshold: 0.5,
-});
+// Face detection for the pages. The face-api.js work itself happens in the face worker
+// (see pipeline); frames are handed over as bitmaps.
+
+export { euclideanDistance } from './matcher';
 
 export interface FaceDetectionResult {
   box: { x: number; y: number; width: number; height: number };
   descriptor: Float32Array;
+  // 68-point landmarks in input pixel coordinates
+  landmarks: { x: number; y: number }[];
+  // Closest gallery student within the threshold, when matching was asked for, and the
+  // next-closest student at any distance
+  match?: { id: string; distance: number; runnerUp: { id: string; distance: number } | null } | null;
+}
+
+// An enrollment photo's face, with how well suited the photo is for matching
+export interface EnrollmentFaceResult extends FaceDetectionResult {
+  quality: FaceQuality;
 }
 
+// Why a still image could not be used for enrollment
+export class FaceImageError extends Error {
+  constructor(public reason: 'no_face' | 'multiple_faces' | 'too_small' | 'low_quality', message: string) {
+    super(message);
+    this.name = 'FaceImageError';
+  }
+}
+
+// Smaller faces give unreliable descriptors; the minimum is part of the detector profile
+function isLargeEnough(face: FaceDetectionResult): boolean {
+  const { minFaceSize } = getDetectorProfile();
+  return face.box.width >= minFaceSize && face.box.height >= minFaceSize;
+}
+
+// Live frames are skipped while the worker is still busy with an earlier one, which reads
+// as no face; a capture the user asked for passes droppable: false to always be detected
 export async function getEmbeddingFromVideo(
-  videoEl: HTMLVideoElement
+  videoEl: HTMLVideoElement,
+  { droppable = true }: { droppable?: boolean } = {}
 ): Promise<FaceDetectionResult | null> {
   try {
-    const detection = await faceapi
-      .detectSingleFace(videoEl, detectionOptions)
-      .withFaceLandmarks()
-      .withFaceDescriptor();
-
-    if (!detection) return null;
-
-    const box = detection.detection.box;
-    
-    // Require face region >= 150x150 px
-    if (box.width < 150 || box.height < 150) {
-      return null;
-    }
-
-    return {
-      box: {
-        x: box.x,
-        y: box.y,
-        width: box.width,
-        height: box.height,
-      },
-      descriptor: detection.descriptor,
-    };
+    const faces = await faceWorker.detect(await createImageBitmap(videoEl), 'single', { droppable });
+    const face = faces?.[0];
+    return face && isLargeEnough(face) ? face : null;
   } catch (error) {
     console.error('Error detecting face from video:', error);
     return null;
   }
 }
 
+// With match options each face also carries its closest student in the worker's gallery
+export async function getEmbeddingsFromVideo(
+  videoEl: HTMLVideoElement,
+  { match }: { match?: MatchOptions } = {}
+): Promise<FaceDetectionResult[]> {
+  try {
+    const faces = await faceWorker.detect(await createImageBitmap(videoEl), 'all', { match });
+    // Same minimum as the single-face path
+    return (faces ?? []).filter(isLargeEnough);
+  } catch (error) {
+    console.error('Error detecting faces from video:', error);
+    return [];
+  }
+}
+
 export async function getEmbeddingFromImage(
   input: HTMLImageElement | File
-): Promise<FaceDetectionResult | null> {
+): Promise<EnrollmentFaceResult | null> {
+  let frame: ImageBitmap;
   try {
-    let img: HTMLImageElement;
-
-    if (input instanceof File) {
-      img = await createImageElement(input);
-    } else {
-      img = input;
-    }
+    frame = await createImageBitmap(input, { imageOrientation: 'from-image' });
+  } catch {
+    throw new Error('Failed to load image');
+  }
 
-    const detections = await faceapi
-      .detectAllFaces(img, detectionOptions)
-      .withFaceLandmarks()
-      .withFaceDescriptors();
+  try {
+    // The quality check below reads the frame too, so the worker gets a copy
+    const faces = (await faceWorker.detect(frame, 'all', { droppable: false, keepFrame: true })) ?? [];
 
-    if (detections.length === 0) {
-      throw new Error('No face detected in the image');
+    if (faces.length === 0) {
+      throw new FaceImageError('no_face', 'No face detected in the image');
     }
 
-    if (detections.length > 1) {
-      throw new Error('Multiple faces detected. Please use an image with exactly one face.');
+    if (faces.length > 1) {
+      throw new FaceImageError('multiple_faces', 'Multiple faces detected. Please use an image with exactly one face.');
     }
 
-    const detection = detections[0];
-    const box = detection.detection.box;
+    const face = faces[0];
+    if (!isLargeEnough(face)) {
+      throw new FaceImageError('too_small', 'Face detected is too small. Please use a closer image.');
+    }
 
-    // Require face region >= 150x150 px
-    if (box.width < 150 || box.height < 150) {
-      throw new Error('Face detected is too small. Please use a closer image.');
+    // Blurry, badly lit or side-on photos still yield a descriptor, just one that matches poorly
+    const quality = assessFaceQuality(frame, face);
+    if (!quality.passed) {
+      throw new FaceImageError('low_quality', qualityMessage(quality));
     }
 
-    return {
-      box: {
-        x: box.x,
-        y: box.y,
-        width: box.width,
-        height: box.height,
-      },
-      descriptor: detection.descriptor,
-    };
-  } catch (error) {
-    throw error;
+    return { ...face, quality };
+  } finally {
+    frame.close();
   }
 }
 
-function createImageElement(file: File): Promise<HTMLImageElement> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    const url = URL.createObjectURL(file);
-
-    img.onload = () => {
-      URL.revokeObjectURL(url);
-      resolve(img);
-    };
-
-    img.onerror = () => {
-      URL.revokeObjectURL(url);
-      reject(new Error('Failed to load image'));
-    };
-
-    img.src = url;
-  });
-}
-
-export function euclideanDistance(a: Float32Array, b: number[]): number {
-  if (a.length !== b.length) {
-    throw new Error('Arrays must have the same length');
-  }
-
-  let sum = 0;
-  for (let i = 0; i < a.length; i++) {
-    const diff = a[i] - b[i];
-    sum += diff * diff;
+// The descriptor of a saved photo, such as a kiosk snapshot, for calibration. Snapshots are
+// small crops taken at a distance, so the enrollment checks do not apply; a photo without
+// exactly one face gives null.
+export async function getDescriptorFromPhoto(url: string): Promise<Float32Array | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const frame = await createImageBitmap(await response.blob(), { imageOrientation: 'from-image' });
+    const faces = (await faceWorker.detect(frame, 'all', { droppable: false })) ?? [];
+    return faces.length === 1 ? faces[0].descriptor : null;
+  } catch (error) {
+    console.error('Error detecting face from photo:', error);
+    return null;
   }
-
-  return Math.sqrt(sum);
 }
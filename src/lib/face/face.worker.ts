@@ -0,0 +1,42 @@
+import * as faceapi from 'face-api.js';
+import { createFacePipeline, runFaceCommand } from './pipeline';
+import type { FaceWorkerRequest, FaceWorkerResponse } from './worker-protocol';
+
+// face-api.js expects DOM classes. Here OffscreenCanvas stands in for the canvas, and no
+// input is ever an image or video element, since frames arrive as bitmaps.
+class Unavailable {}
+
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+  Image: Unavailable as unknown as typeof HTMLImageElement,
+  Video: Unavailable as unknown as typeof HTMLVideoElement,
+  ImageData,
+  createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+  createImageElement: () => {
+    throw new Error('Image elements are not available in the face worker');
+  },
+  fetch: (url, init) => fetch(url, init),
+  readFile: () => Promise.reject(new Error('Files are not available in the face worker')),
+});
+
+const pipeline = createFacePipeline();
+
+const respond = (response: FaceWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, { transfer });
+};
+
+self.onmessage = async ({ data: request }: MessageEvent<FaceWorkerRequest>) => {
+  try {
+    const faces = await runFaceCommand(pipeline, request);
+    if (faces) {
+      respond({ id: request.id, type: 'faces', faces }, faces.map((face) => face.descriptor.buffer));
+    } else {
+      respond({ id: request.id, type: 'done' });
+    }
+  } catch (error) {
+    respond({ id: request.id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    if (request.type === 'detect') request.frame.close();
+  }
+};
@@ -0,0 +1,184 @@
+import { findBestMatch, galleryDistance, GalleryCandidate, GalleryMatch, MatchStrategy } from './matcher';
+
+// Approximate nearest-neighbour search over enrolled galleries, for rosters too large to
+// scan on every frame. Captures are normalized and grouped into partitions around k-means
+// centroids; a probe only visits the partitions nearest to it, and the students found there
+// are re-ranked with the exact gallery distance. Small rosters are scanned as before.
+
+export interface GalleryIndexOptions {
+  // Partitions visited per search; more is slower but misses fewer matches
+  probes?: number;
+}
+
+// Below this many captures partitioning costs more than it saves
+const MIN_INDEXED_VECTORS = 256;
+const KMEANS_ITERATIONS = 8;
+const MAX_PARTITIONS = 256;
+const DEFAULT_PROBES = 8;
+// Retrain the partitions once inserts have grown the index this much past its training size
+const RETRAIN_GROWTH = 2;
+
+interface IndexedVector {
+  candidateId: string;
+  vector: Float32Array;
+}
+
+function normalize(values: ArrayLike<number>): Float32Array {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+  return vector;
+}
+
+function squaredDistance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return sum;
+}
+
+function nearestCentroid(vector: Float32Array, centroids: Float32Array[]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < centroids.length; i++) {
+    const distance = squaredDistance(vector, centroids[i]);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+// Lloyd's k-means, seeded with evenly spaced vectors so the same roster gives the same index
+function trainCentroids(vectors: Float32Array[], count: number): Float32Array[] {
+  const step = vectors.length / count;
+  let centroids: Float32Array[] = Array.from({ length: count }, (_, i) => Float32Array.from(vectors[Math.floor(i * step)]));
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centroids.map((c) => new Float32Array(c.length));
+    const sizes = new Array<number>(count).fill(0);
+    for (const vector of vectors) {
+      const i = nearestCentroid(vector, centroids);
+      sizes[i] += 1;
+      for (let d = 0; d < vector.length; d++) sums[i][d] += vector[d];
+    }
+    // An empty partition keeps its old centroid rather than collapsing to zero
+    centroids = sums.map((sum, i) => (sizes[i] > 0 ? normalize(sum) : centroids[i]));
+  }
+  return centroids;
+}
+
+export function createGalleryIndex<T extends GalleryCandidate>(
+  initial: T[] = [],
+  options: GalleryIndexOptions = {}
+) {
+  const probes = options.probes ?? DEFAULT_PROBES;
+  const candidates = new Map<string, T>();
+  let centroids: Float32Array[] = [];
+  let partitions: IndexedVector[][] = [];
+  let trainedSize = 0;
+
+  const vectorsOf = (candidate: T): IndexedVector[] =>
+    candidate.gallery.map((descriptor) => ({ candidateId: candidate.id, vector: normalize(descriptor) }));
+
+  const vectorCount = () => partitions.reduce((sum, p) => sum + p.length, 0);
+
+  const rebuild = () => {
+    const vectors = [...candidates.values()].flatMap(vectorsOf);
+    trainedSize = vectors.length;
+    if (vectors.length < MIN_INDEXED_VECTORS) {
+      centroids = [];
+      partitions = [vectors];
+      return;
+    }
+
+    const count = Math.min(MAX_PARTITIONS, Math.round(Math.sqrt(vectors.length)));
+    centroids = trainCentroids(vectors.map((v) => v.vector), count);
+    partitions = centroids.map(() => []);
+    for (const entry of vectors) {
+      partitions[nearestCentroid(entry.vector, centroids)].push(entry);
+    }
+  };
+
+  const insert = (candidate: T) => {
+    if (candidates.has(candidate.id)) remove(candidate.id);
+    candidates.set(candidate.id, candidate);
+
+    const total = vectorCount() + candidate.gallery.length;
+    if (total >= MIN_INDEXED_VECTORS && total > trainedSize * RETRAIN_GROWTH) {
+      rebuild();
+      return;
+    }
+    for (const entry of vectorsOf(candidate)) {
+      const partition = centroids.length > 0 ? nearestCentroid(entry.vector, centroids) : 0;
+      (partitions[partition] ??= []).push(entry);
+    }
+  };
+
+  const remove = (id: string) => {
+    if (!candidates.delete(id)) return;
+    partitions = partitions.map((partition) => partition.filter((entry) => entry.candidateId !== id));
+  };
+
+  // Students with a capture in the partitions nearest the probe
+  const shortlist = (probe: Float32Array): T[] => {
+    const normalized = normalize(probe);
+    const closest = centroids
+      .map((centroid, i) => ({ i, distance: squaredDistance(normalized, centroid) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, probes);
+
+    const ids = new Set<string>();
+    for (const { i } of closest) {
+      for (const entry of partitions[i]) ids.add(entry.candidateId);
+    }
+    return [...ids].map((id) => candidates.get(id)!);
+  };
+
+  const search = (
+    probe: Float32Array,
+    threshold: number,
+    strategy: MatchStrategy = 'min'
+  ): GalleryMatch<T> | null => {
+    if (centroids.length === 0) {
+      return findBestMatch(probe, [...candidates.values()], threshold, strategy);
+    }
+    return findBestMatch(probe, shortlist(probe), threshold, strategy);
+  };
+
+  // Ranked nearest students regardless of threshold; the kiosk takes two to check the margin
+  // between them
+  const nearest = (probe: Float32Array, k: number, strategy: MatchStrategy = 'min'): GalleryMatch<T>[] => {
+    const pool = centroids.length === 0 ? [...candidates.values()] : shortlist(probe);
+    return pool
+      .map((candidate) => ({ candidate, distance: galleryDistance(probe, candidate.gallery, strategy) }))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, k);
+  };
+
+  initial.forEach((candidate) => candidates.set(candidate.id, candidate));
+  rebuild();
+
+  return {
+    search,
+    nearest,
+    insert,
+    remove,
+    has: (id: string) => candidates.has(id),
+    get size() {
+      return candidates.size;
+    },
+    get partitionCount() {
+      return centroids.length;
+    },
+  };
+}
+
+export type GalleryIndex<T extends GalleryCandidate> = ReturnType<typeof createGalleryIndex<T>>;
@@ -0,0 +1,179 @@
+import { FaceDetectionResult } from './embedding';
+
+type Point = { x: number; y: number };
+
+// passive: blink or natural head motion (kiosk); challenge: blink and a left/right head turn (selfie)
+export type LivenessMode = 'passive' | 'challenge';
+
+// A type alias (not an interface) so results can be stored as JSON columns
+export type LivenessResult = {
+  passed: boolean;
+  mode: LivenessMode;
+  blinkDetected: boolean;
+  turnedLeft: boolean;
+  turnedRight: boolean;
+  yawRange: number;
+  textureScore: number;
+  frames: number;
+};
+
+// Liveness runs here on the client; mark-attendance re-checks the reported scores against the
+// same thresholds (supabase/functions/_shared/liveness.ts), so keep the two in step
+
+// Eye aspect ratio below CLOSED then back above OPEN counts as a blink
+const EAR_CLOSED = 0.21;
+const EAR_OPEN = 0.26;
+// Normalized yaw (-1..1) needed to count as a head turn
+const YAW_TURN = 0.25;
+const PASSIVE_YAW_RANGE = 0.3;
+// Minimum frame-to-frame texture change; a still photo or screen sits near zero
+const MIN_TEXTURE_SCORE = 0.012;
+const MIN_FRAMES = 3;
+
+const PATCH_SIZE = 48;
+let patchCanvas: HTMLCanvasElement | null = null;
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+// EAR = (|p2-p6| + |p3-p5|) / (2 |p1-p4|) over the six eye landmarks
+export function eyeAspectRatio(eye: Point[]): number {
+  const horizontal = distance(eye[0], eye[3]);
+  if (horizontal === 0) return 0;
+  return (distance(eye[1], eye[5]) + distance(eye[2], eye[4])) / (2 * horizontal);
+}
+
+export function averageEyeAspectRatio(landmarks: Point[]): number {
+  return (eyeAspectRatio(landmarks.slice(36, 42)) + eyeAspectRatio(landmarks.slice(42, 48))) / 2;
+}
+
+// Nose tip offset from the jaw midline, normalized by half the jaw width
+export function estimateYaw(landmarks: Point[]): number {
+  const jawLeft = landmarks[0];
+  const jawRight = landmarks[16];
+  const noseTip = landmarks[30];
+  const halfWidth = (jawRight.x - jawLeft.x) / 2;
+  if (halfWidth <= 0) return 0;
+  const midX = (jawLeft.x + jawRight.x) / 2;
+  return Math.max(-1, Math.min(1, (noseTip.x - midX) / halfWidth));
+}
+
+// Downscaled grayscale crop of the face box, size x size pixels
+export function sampleFacePatch(
+  source: CanvasImageSource,
+  box: FaceDetectionResult['box'],
+  size = PATCH_SIZE
+): Float32Array | null {
+  if (!patchCanvas) {
+    patchCanvas = document.createElement('canvas');
+  }
+  if (patchCanvas.width !== size || patchCanvas.height !== size) {
+    patchCanvas.width = size;
+    patchCanvas.height = size;
+  }
+  const ctx = patchCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+
+  ctx.drawImage(source, box.x, box.y, box.width, box.height, 0, 0, size, size);
+  const { data } = ctx.getImageData(0, 0, size, size);
+
+  const gray = new Float32Array(size * size);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+}
+
+// Standard deviation of the per-pixel difference, so uniform lighting shifts cancel out
+function textureVariance(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  let sumSq = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff;
+    sumSq += diff * diff;
+  }
+  const mean = sum / a.length;
+  return Math.sqrt(Math.max(0, sumSq / a.length - mean * mean)) / 255;
+}
+
+export function createLivenessSession(mode: LivenessMode = 'passive') {
+  let frames = 0;
+  let eyesClosed = false;
+  let sawOpenEyes = false;
+  let blinkDetected = false;
+  let minYaw = Infinity;
+  let maxYaw = -Infinity;
+  let previousPatch: Float32Array | null = null;
+  let textureTotal = 0;
+  let textureSamples = 0;
+
+  const result = (): LivenessResult => {
+    const yawRange = frames > 0 ? maxYaw - minYaw : 0;
+    const turnedLeft = minYaw <= -YAW_TURN;
+    const turnedRight = maxYaw >= YAW_TURN;
+    const textureScore = textureSamples > 0 ? textureTotal / textureSamples : 0;
+
+    const motionOk =
+      mode === 'challenge'
+        ? blinkDetected && turnedLeft && turnedRight
+        : blinkDetected || yawRange >= PASSIVE_YAW_RANGE;
+
+    return {
+      passed: frames >= MIN_FRAMES && motionOk && textureScore >= MIN_TEXTURE_SCORE,
+      mode,
+      blinkDetected,
+      turnedLeft,
+      turnedRight,
+      yawRange,
+      textureScore,
+      frames,
+    };
+  };
+
+  const update = (
+    face: Pick<FaceDetectionResult, 'box' | 'landmarks'>,
+    source: CanvasImageSource
+  ): LivenessResult => {
+    frames += 1;
+
+    // Blink: open -> closed -> open
+    const ear = averageEyeAspectRatio(face.landmarks);
+    if (ear >= EAR_OPEN) {
+      if (eyesClosed && sawOpenEyes) blinkDetected = true;
+      sawOpenEyes = true;
+      eyesClosed = false;
+    } else if (ear <= EAR_CLOSED) {
+      eyesClosed = true;
+    }
+
+    const yaw = estimateYaw(face.landmarks);
+    minYaw = Math.min(minYaw, yaw);
+    maxYaw = Math.max(maxYaw, yaw);
+
+    const patch = sampleFacePatch(source, face.box);
+    if (patch && previousPatch) {
+      textureTotal += textureVariance(patch, previousPatch);
+      textureSamples += 1;
+    }
+    previousPatch = patch;
+
+    return result();
+  };
+
+  return { update, result };
+}
+
+export type LivenessSession = ReturnType<typeof createLivenessSession>;
+
+// Next instruction to show the user while a challenge is running
+export function livenessPrompt(result: LivenessResult): string {
+  if (!result.blinkDetected) return 'Blink your eyes';
+  if (result.mode === 'challenge') {
+    if (!result.turnedLeft) return 'Turn your head to the left';
+    if (!result.turnedRight) return 'Turn your head to the right';
+  }
+  if (!result.passed) return 'Hold still and look at the camera';
+  return 'Liveness verified';
+}
@@ -0,0 +1,44 @@
+import { galleryDistance, GalleryCandidate, MatchStrategy } from './matcher';
+
+// Enrolled students whose galleries sit close together. A face of either can land within the
+// threshold of both, which the kiosk's margin check catches as ambiguous; these are the pairs
+// to re-enroll or mark by hand.
+
+export interface LookAlikePair<T extends GalleryCandidate> {
+  first: T;
+  second: T;
+  // How close either student's captures come to the other's gallery
+  distance: number;
+}
+
+// Comparing every pair is quadratic, so the page gets a turn between rows
+const STUDENTS_PER_CHUNK = 20;
+
+export async function findLookAlikes<T extends GalleryCandidate>(
+  candidates: T[],
+  maxDistance: number,
+  strategy: MatchStrategy
+): Promise<LookAlikePair<T>[]> {
+  const probes = candidates.map((candidate) => candidate.gallery.map((descriptor) => Float32Array.from(descriptor)));
+  // With mean distance, A's captures against B's gallery can differ from the reverse
+  const closest = (from: number, to: number) =>
+    Math.min(...probes[from].map((probe) => galleryDistance(probe, candidates[to].gallery, strategy)));
+
+  const pairs: LookAlikePair<T>[] = [];
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const distance = Math.min(closest(i, j), closest(j, i));
+      if (distance <= maxDistance) pairs.push({ first: candidates[i], second: candidates[j], distance });
+    }
+    if (i % STUDENTS_PER_CHUNK === STUDENTS_PER_CHUNK - 1) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  }
+
+  return pairs.sort((a, b) => a.distance - b.distance);
+}
+
+// Order-independent key for a pair of students
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
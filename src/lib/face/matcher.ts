@@ -0,0 +1,121 @@
+export type MatchStrategy = 'min' | 'mean';
+
+export interface GalleryCandidate {
+  id: string;
+  gallery: number[][];
+}
+
+export interface GalleryMatch<T extends GalleryCandidate> {
+  candidate: T;
+  distance: number;
+}
+
+export function getMatchStrategy(): MatchStrategy {
+  return localStorage.getItem('matchStrategy') === 'mean' ? 'mean' : 'min';
+}
+
+// Matches this close to the recognition threshold are recorded for a teacher to review
+// instead of being marked outright. Matches the REVIEW_BAND default of the mark-attendance function.
+export const DEFAULT_REVIEW_BAND = 0.05;
+
+// The band set in Settings, which only applies in Local Mode: with Supabase the server settles
+// marks, and a paired kiosk learns its band from the heartbeat
+export function getReviewBand(): number {
+  const band = parseFloat(localStorage.getItem('reviewBand') ?? '');
+  return isNaN(band) ? DEFAULT_REVIEW_BAND : band;
+}
+
+// A match inside the threshold but within the review band of it
+export function needsReview(distance: number, threshold: number, band = getReviewBand()): boolean {
+  return band > 0 && distance > threshold - band;
+}
+
+// A match must also beat the next-closest student: by at least `gap` in distance, and with
+// its distance at most `ratio` times the runner-up's. Otherwise twins and look-alikes would be
+// marked as whichever happens to be marginally closer. A gap of 0 or a ratio of 1 turns that
+// rule off.
+export interface MatchMargin {
+  gap: number;
+  ratio: number;
+}
+
+// mark-attendance applies the same rule with MATCH_MARGIN_GAP and MATCH_MARGIN_RATIO, which
+// default to these values, and holds such marks for review
+export const DEFAULT_MATCH_MARGIN: MatchMargin = { gap: 0.05, ratio: 0.9 };
+
+export function getMatchMargin(): MatchMargin {
+  const gap = parseFloat(localStorage.getItem('matchMarginGap') ?? '');
+  const ratio = parseFloat(localStorage.getItem('matchMarginRatio') ?? '');
+  return {
+    gap: isNaN(gap) ? DEFAULT_MATCH_MARGIN.gap : gap,
+    ratio: isNaN(ratio) ? DEFAULT_MATCH_MARGIN.ratio : ratio,
+  };
+}
+
+// Whether the best match is too close to the runner-up to say which student it is
+export function isAmbiguous(distance: number, runnerUpDistance: number, margin = getMatchMargin()): boolean {
+  if (!Number.isFinite(runnerUpDistance)) return false;
+  return (
+    (margin.gap > 0 && runnerUpDistance - distance < margin.gap) ||
+    (margin.ratio < 1 && distance > runnerUpDistance * margin.ratio)
+  );
+}
+
+export function euclideanDistance(a: Float32Array, b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Arrays must have the same length');
+  }
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+
+  return Math.sqrt(sum);
+}
+
+// Collect a student's descriptors, falling back to the legacy single embedding
+export function buildGallery(
+  embeddings: { embedding: number[] }[],
+  fallback: number[] | null
+): number[][] {
+  if (embeddings.length > 0) {
+    return embeddings.map((e) => e.embedding);
+  }
+  return fallback ? [fallback] : [];
+}
+
+// Distance from a probe to a gallery: closest capture (min) or average over captures (mean)
+export function galleryDistance(
+  probe: Float32Array,
+  gallery: number[][],
+  strategy: MatchStrategy = 'min'
+): number {
+  if (gallery.length === 0) return Infinity;
+
+  const distances = gallery.map((descriptor) => euclideanDistance(probe, descriptor));
+
+  if (strategy === 'mean') {
+    return distances.reduce((sum, d) => sum + d, 0) / distances.length;
+  }
+  return Math.min(...distances);
+}
+
+export function findBestMatch<T extends GalleryCandidate>(
+  probe: Float32Array,
+  candidates: T[],
+  threshold: number,
+  strategy: MatchStrategy = 'min'
+): GalleryMatch<T> | null {
+  let bestMatch: GalleryMatch<T> | null = null;
+
+  for (const candidate of candidates) {
+    const distance = galleryDistance(probe, candidate.gallery, strategy);
+    if (distance <= threshold && (!bestMatch || distance < bestMatch.distance)) {
+      bestMatch = { candidate, distance };
+    }
+  }
+
+  return bestMatch;
+}
@@ -1,18 +1,20 @@
-import * as faceapi from 'face-api.js';
+import { faceWorker } from './worker-client';
+import { getDetectorProfile } from './detector';
 
-let modelsLoaded = false;
+// The detector profile the worker last loaded, so a change in Settings is picked up by the
+// next page that loads the models
+let loadedProfile: string | null = null;
 
+// Models are loaded where detection runs, which is the face worker
 export async function loadFaceModels(): Promise<void> {
-  if (modelsLoaded) return;
+  const profile = getDetectorProfile();
+  const key = JSON.stringify(profile);
+  if (loadedProfile === key) return;
 
   try {
-    await Promise.all([
-      faceapi.nets.tinyFaceDetector.loadFromUri('/models/tiny_face_detector_model'),
-      faceapi.nets.faceLandmark68Net.loadFromUri('/models/face_landmark_68_model'),
-      faceapi.nets.faceRecognitionNet.loadFromUri('/models/face_recognition_model'),
-    ]);
-    modelsLoaded = true;
-    console.log('Face-api.js models loaded successfully');
+    await faceWorker.load(profile);
+    loadedProfile = key;
+    console.log(`Face-api.js models loaded successfully (${profile.backend} detector)`);
   } catch (error) {
     console.error('Error loading face-api.js models:', error);
     throw error;
@@ -20,5 +22,5 @@ export async function loadFaceModels(): Promise<void> {
 }
 
 export function areModelsLoaded(): boolean {
-  return modelsLoaded;
+  return loadedProfile !== null;
 }
@@ -0,0 +1,145 @@
+import * as faceapi from 'face-api.js';
+import { createGalleryIndex } from './gallery-index';
+import type { GalleryCandidate, MatchStrategy } from './matcher';
+import type { FaceDetectionResult } from './embedding';
+import type { FaceWorkerCommand } from './worker-protocol';
+import { DEFAULT_DETECTOR_PROFILE, DETECTOR_MODELS, DetectorBackend, DetectorProfile } from './detector';
+
+// Everything that runs face-api.js: detection, landmarks, descriptors and gallery matching.
+// Normally hosted by the face worker; pages fall back to running it themselves where a
+// worker cannot (see worker-client). Frames arrive as ImageBitmaps in either case.
+
+// The face-api.js side of each detector backend
+const DETECTORS: Record<
+  DetectorBackend,
+  { net: { loadFromUri: (uri: string) => Promise<void> }; options: (profile: DetectorProfile) => faceapi.FaceDetectionOptions }
+> = {
+  tiny: {
+    net: faceapi.nets.tinyFaceDetector,
+    options: (profile) =>
+      new faceapi.TinyFaceDetectorOptions({ inputSize: profile.inputSize, scoreThreshold: profile.scoreThreshold }),
+  },
+  // SSD works at a fixed input size, so only the score threshold applies
+  ssd: {
+    net: faceapi.nets.ssdMobilenetv1,
+    options: (profile) => new faceapi.SsdMobilenetv1Options({ minConfidence: profile.scoreThreshold }),
+  },
+};
+
+export type DetectMode = 'single' | 'all';
+
+export interface MatchOptions {
+  threshold: number;
+  strategy: MatchStrategy;
+}
+
+export function createFacePipeline() {
+  // Each model is fetched once, whichever detector asked for it first
+  const loadedModels = new Map<string, Promise<void>>();
+  let detectionOptions = DETECTORS[DEFAULT_DETECTOR_PROFILE.backend].options(DEFAULT_DETECTOR_PROFILE);
+  let canvas: HTMLCanvasElement | null = null;
+  let index = createGalleryIndex<GalleryCandidate>();
+
+  const loadModel = (net: { loadFromUri: (uri: string) => Promise<void> }, uri: string): Promise<void> => {
+    if (!loadedModels.has(uri)) {
+      loadedModels.set(
+        uri,
+        net.loadFromUri(uri).catch((error) => {
+          // Let the next call try again
+          loadedModels.delete(uri);
+          throw error;
+        })
+      );
+    }
+    return loadedModels.get(uri)!;
+  };
+
+  // Loads what the profile's detector needs and switches detection over to it
+  const load = async (modelsUrl: string, profile: DetectorProfile): Promise<void> => {
+    const detector = DETECTORS[profile.backend];
+    await Promise.all([
+      loadModel(detector.net, `${modelsUrl}/${DETECTOR_MODELS[profile.backend]}`),
+      loadModel(faceapi.nets.faceLandmark68Net, `${modelsUrl}/face_landmark_68_model`),
+      loadModel(faceapi.nets.faceRecognitionNet, `${modelsUrl}/face_recognition_model`),
+    ]);
+    detectionOptions = detector.options(profile);
+  };
+
+  // face-api.js reads canvases, not bitmaps; the canvas comes from its environment, so it
+  // is an OffscreenCanvas inside the worker
+  const toCanvas = (frame: ImageBitmap): HTMLCanvasElement => {
+    canvas ??= faceapi.env.getEnv().createCanvasElement();
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    canvas.getContext('2d')!.drawImage(frame, 0, 0);
+    return canvas;
+  };
+
+  const detect = async (frame: ImageBitmap, mode: DetectMode, match?: MatchOptions): Promise<FaceDetectionResult[]> => {
+    const input = toCanvas(frame);
+    const detections =
+      mode === 'single'
+        ? [await faceapi.detectSingleFace(input, detectionOptions).withFaceLandmarks().withFaceDescriptor()].filter(
+            (detection) => detection !== undefined
+          )
+        : await faceapi.detectAllFaces(input, detectionOptions).withFaceLandmarks().withFaceDescriptors();
+
+    return detections.map((detection) => {
+      const box = detection.detection.box;
+      // Copied so each descriptor owns its buffer and can be transferred
+      const descriptor = Float32Array.from(detection.descriptor);
+      // The runner-up comes along so the page can tell a clear match from a look-alike
+      const [best, runnerUp] = match ? index.nearest(descriptor, 2, match.strategy) : [];
+      const hit = match && best && best.distance <= match.threshold ? best : null;
+      return {
+        box: { x: box.x, y: box.y, width: box.width, height: box.height },
+        descriptor,
+        landmarks: detection.landmarks.positions.map((p) => ({ x: p.x, y: p.y })),
+        ...(match && {
+          match: hit
+            ? {
+                id: hit.candidate.id,
+                distance: hit.distance,
+                runnerUp: runnerUp ? { id: runnerUp.candidate.id, distance: runnerUp.distance } : null,
+              }
+            : null,
+        }),
+      };
+    });
+  };
+
+  return {
+    load,
+    detect,
+    setGallery: (candidates: GalleryCandidate[]) => {
+      index = createGalleryIndex(candidates);
+    },
+    insert: (candidate: GalleryCandidate) => index.insert(candidate),
+    remove: (id: string) => index.remove(id),
+  };
+}
+
+export type FacePipeline = ReturnType<typeof createFacePipeline>;
+
+// Carries out one command; detections come back as faces, everything else as nothing
+export async function runFaceCommand(
+  pipeline: FacePipeline,
+  command: FaceWorkerCommand
+): Promise<FaceDetectionResult[] | undefined> {
+  switch (command.type) {
+    case 'load':
+      await pipeline.load(command.modelsUrl, command.profile);
+      return;
+    case 'detect':
+      return pipeline.detect(command.frame, command.mode, command.match);
+    case 'setGallery':
+      pipeline.setGallery(command.candidates);
+      return;
+    case 'insert':
+      pipeline.insert(command.candidate);
+      return;
+    case 'remove':
+      pipeline.remove(command.candidateId);
+      return;
+  }
+}
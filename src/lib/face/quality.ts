@@ -0,0 +1,170 @@
+import type { FaceDetectionResult } from './embedding';
+import { averageEyeAspectRatio, estimateYaw, sampleFacePatch } from './liveness';
+
+type Point = { x: number; y: number };
+
+// Enrollment photo quality: a blurry, badly lit, side-on or eyes-closed photo still yields a
+// descriptor, but one that later fails to match the student. Scored on a fixed-size crop of
+// the face box so photos of any resolution are comparable.
+
+export type FaceQualityIssue = 'blurry' | 'too_dark' | 'too_bright' | 'low_contrast' | 'turned' | 'tilted' | 'eyes_closed';
+
+export interface FaceQuality {
+  // 0..1, the mean of the sharpness, lighting, pose and eye sub-scores
+  score: number;
+  passed: boolean;
+  issues: FaceQualityIssue[];
+  // Variance of the Laplacian; low means blurry
+  sharpness: number;
+  // Mean and standard deviation of the gray levels, 0..255
+  brightness: number;
+  contrast: number;
+  // Normalized -1..1; yaw is negative to the image's left, pitch positive looking down
+  yaw: number;
+  pitch: number;
+  // Average eye aspect ratio
+  eyeOpenness: number;
+}
+
+export const QUALITY_ISSUE_MESSAGES: Record<FaceQualityIssue, string> = {
+  blurry: 'Photo is blurry. Hold still and check the focus.',
+  too_dark: 'Face is too dark. Add more light.',
+  too_bright: 'Face is overexposed. Avoid direct light on the face.',
+  low_contrast: 'Face lacks contrast. Avoid flat or hazy lighting.',
+  turned: 'Face is turned too far to the side. Look towards the camera.',
+  tilted: 'Head is tilted too far up or down. Keep it level.',
+  eyes_closed: 'Eyes look closed. Keep them open.',
+};
+
+const QUALITY_SIZE = 128;
+
+// Below MIN fails the gate; at GOOD or better the sub-score is full
+const MIN_SHARPNESS = 40;
+const GOOD_SHARPNESS = 150;
+const MIN_BRIGHTNESS = 50;
+const GOOD_BRIGHTNESS_LOW = 80;
+const GOOD_BRIGHTNESS_HIGH = 180;
+const MAX_BRIGHTNESS = 210;
+const MIN_CONTRAST = 25;
+const GOOD_CONTRAST = 50;
+const MIN_EYE_OPENNESS = 0.18;
+const GOOD_EYE_OPENNESS = 0.25;
+// Enrollment asks for slight left/right turns (about 0.25), so only well beyond that fails
+const MAX_YAW = 0.5;
+const MAX_PITCH = 0.5;
+
+// Nose tip between the eye line and the mouth sits at about this fraction when level
+const LEVEL_NOSE_RATIO = 0.55;
+const PITCH_RANGE = 0.25;
+
+// 0 at `min`, 1 at `good`, linear in between
+function ramp(value: number, min: number, good: number): number {
+  if (good === min) return value >= good ? 1 : 0;
+  return Math.max(0, Math.min(1, (value - min) / (good - min)));
+}
+
+function meanY(points: Point[]): number {
+  return points.reduce((sum, p) => sum + p.y, 0) / points.length;
+}
+
+// Nose tip position between the eye line and the mouth, relative to a level head
+export function estimatePitch(landmarks: Point[]): number {
+  const eyes = meanY(landmarks.slice(36, 48));
+  const mouth = meanY(landmarks.slice(48, 60));
+  const span = mouth - eyes;
+  if (span <= 0) return 0;
+  const ratio = (landmarks[30].y - eyes) / span;
+  return Math.max(-1, Math.min(1, (ratio - LEVEL_NOSE_RATIO) / PITCH_RANGE));
+}
+
+// Variance of the 4-neighbour Laplacian over the patch interior
+export function laplacianVariance(gray: Float32Array, size: number): number {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      const i = y * size + x;
+      const lap = 4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - size] - gray[i + size];
+      sum += lap;
+      sumSq += lap * lap;
+      count += 1;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return Math.max(0, sumSq / count - mean * mean);
+}
+
+function grayStats(gray: Float32Array): { mean: number; stdDev: number } {
+  let sum = 0;
+  let sumSq = 0;
+  for (const value of gray) {
+    sum += value;
+    sumSq += value * value;
+  }
+  const mean = sum / gray.length;
+  return { mean, stdDev: Math.sqrt(Math.max(0, sumSq / gray.length - mean * mean)) };
+}
+
+export function assessFaceQuality(
+  source: CanvasImageSource,
+  face: Pick<FaceDetectionResult, 'box' | 'landmarks'>
+): FaceQuality {
+  const patch = sampleFacePatch(source, face.box, QUALITY_SIZE);
+  const sharpness = patch ? laplacianVariance(patch, QUALITY_SIZE) : 0;
+  const { mean: brightness, stdDev: contrast } = patch ? grayStats(patch) : { mean: 0, stdDev: 0 };
+  const yaw = estimateYaw(face.landmarks);
+  const pitch = estimatePitch(face.landmarks);
+  const eyeOpenness = averageEyeAspectRatio(face.landmarks);
+
+  const issues: FaceQualityIssue[] = [];
+  if (sharpness < MIN_SHARPNESS) issues.push('blurry');
+  if (brightness < MIN_BRIGHTNESS) issues.push('too_dark');
+  if (brightness > MAX_BRIGHTNESS) issues.push('too_bright');
+  if (contrast < MIN_CONTRAST) issues.push('low_contrast');
+  if (Math.abs(yaw) > MAX_YAW) issues.push('turned');
+  if (Math.abs(pitch) > MAX_PITCH) issues.push('tilted');
+  if (eyeOpenness < MIN_EYE_OPENNESS) issues.push('eyes_closed');
+
+  const lighting = Math.min(
+    ramp(brightness, MIN_BRIGHTNESS, GOOD_BRIGHTNESS_LOW),
+    ramp(-brightness, -MAX_BRIGHTNESS, -GOOD_BRIGHTNESS_HIGH),
+    ramp(contrast, MIN_CONTRAST, GOOD_CONTRAST)
+  );
+  const pose = 1 - Math.min(1, Math.max(Math.abs(yaw) / MAX_YAW, Math.abs(pitch) / MAX_PITCH));
+  const subScores = [
+    ramp(sharpness, MIN_SHARPNESS, GOOD_SHARPNESS),
+    lighting,
+    pose,
+    ramp(eyeOpenness, MIN_EYE_OPENNESS, GOOD_EYE_OPENNESS),
+  ];
+
+  return {
+    score: subScores.reduce((sum, s) => sum + s, 0) / subScores.length,
+    passed: issues.length === 0,
+    issues,
+    sharpness,
+    brightness,
+    contrast,
+    yaw,
+    pitch,
+    eyeOpenness,
+  };
+}
+
+// Pass/fail per aspect, for the live checklist in the capture dialog
+export function qualityChecks(quality: FaceQuality): { label: string; passed: boolean }[] {
+  const failed = (...issues: FaceQualityIssue[]) => issues.some((issue) => quality.issues.includes(issue));
+  return [
+    { label: 'Sharp', passed: !failed('blurry') },
+    { label: 'Well lit', passed: !failed('too_dark', 'too_bright', 'low_contrast') },
+    { label: 'Facing camera', passed: !failed('turned', 'tilted') },
+    { label: 'Eyes open', passed: !failed('eyes_closed') },
+  ];
+}
+
+// First thing to fix, for toasts and the capture prompt
+export function qualityMessage(quality: FaceQuality): string {
+  return quality.issues.length > 0 ? QUALITY_ISSUE_MESSAGES[quality.issues[0]] : 'Good photo';
+}
@@ -0,0 +1,138 @@
+import type { FaceDetectionResult } from './embedding';
+import type { GalleryCandidate } from './matcher';
+import type { DetectMode, MatchOptions } from './pipeline';
+import type { DetectorProfile } from './detector';
+import type { FaceWorkerCommand, FaceWorkerResponse } from './worker-protocol';
+
+// The page's side of the face worker. Detection frames go through a queue that keeps the
+// worker to one frame at a time: a live frame waiting its turn is replaced by the next
+// one, so a slow device skips frames instead of falling behind.
+
+type FaceBackend = (command: FaceWorkerCommand, transfer: Transferable[]) => Promise<FaceDetectionResult[] | undefined>;
+
+interface DetectOptions {
+  match?: MatchOptions;
+  // Live video frames may be skipped; a capture the user asked for may not
+  droppable?: boolean;
+  // Send a copy and leave the frame to the caller, who still needs it
+  keepFrame?: boolean;
+}
+
+interface QueuedFrame {
+  frame: ImageBitmap;
+  mode: DetectMode;
+  options: DetectOptions;
+  resolve: (faces: FaceDetectionResult[] | null) => void;
+  reject: (error: unknown) => void;
+}
+
+const MODELS_URL = '/models';
+
+// OffscreenCanvas is what lets face-api.js draw frames without a document
+export function supportsFaceWorker(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+function createWorkerBackend(): FaceBackend {
+  const worker = new Worker(new URL('./face.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (faces?: FaceDetectionResult[]) => void; reject: (error: Error) => void }>();
+  let nextId = 1;
+
+  worker.onmessage = ({ data: response }: MessageEvent<FaceWorkerResponse>) => {
+    const request = pending.get(response.id);
+    if (!request) return;
+    pending.delete(response.id);
+    if (response.type === 'error') request.reject(new Error(response.message));
+    else request.resolve(response.type === 'faces' ? response.faces : undefined);
+  };
+  // The worker failed to start or crashed; nothing in flight will be answered
+  worker.onerror = (event) => {
+    pending.forEach((request) => request.reject(new Error(event.message || 'Face worker failed')));
+    pending.clear();
+  };
+
+  return (command, transfer) =>
+    new Promise((resolve, reject) => {
+      const id = nextId++;
+      pending.set(id, { resolve, reject });
+      worker.postMessage({ ...command, id }, transfer);
+    });
+}
+
+// Same pipeline, run by the page itself; loaded on first use so it stays out of the bundle
+// when the worker is available
+function createInPageBackend(): FaceBackend {
+  const run = import('./pipeline').then(({ createFacePipeline, runFaceCommand }) => {
+    const pipeline = createFacePipeline();
+    return (command: FaceWorkerCommand) => runFaceCommand(pipeline, command);
+  });
+  return async (command) => (await run)(command);
+}
+
+let backend: FaceBackend | null = null;
+const queue: QueuedFrame[] = [];
+let busy = false;
+
+function getBackend(): FaceBackend {
+  backend ??= supportsFaceWorker() ? createWorkerBackend() : createInPageBackend();
+  return backend;
+}
+
+async function drain(): Promise<void> {
+  if (busy) return;
+  const job = queue.shift();
+  if (!job) return;
+
+  busy = true;
+  const { frame, mode, options } = job;
+  try {
+    const transfer = options.keepFrame ? [] : [frame];
+    const faces = await getBackend()({ type: 'detect', frame, mode, match: options.match }, transfer);
+    job.resolve(faces ?? []);
+  } catch (error) {
+    job.reject(error);
+  } finally {
+    // A transferred frame is already detached here, and closing it is a no-op
+    if (!options.keepFrame) frame.close();
+    busy = false;
+    drain();
+  }
+}
+
+export const faceWorker = {
+  async load(profile: DetectorProfile): Promise<void> {
+    await getBackend()({ type: 'load', modelsUrl: MODELS_URL, profile }, []);
+  },
+
+  // Takes ownership of the frame unless keepFrame is set. Resolves to null when a newer
+  // live frame took this one's place in the queue.
+  detect(frame: ImageBitmap, mode: DetectMode, options: DetectOptions = {}): Promise<FaceDetectionResult[] | null> {
+    const { droppable = true } = options;
+    return new Promise((resolve, reject) => {
+      if (droppable) {
+        const waiting = queue.findIndex((job) => job.options.droppable !== false);
+        if (waiting >= 0) {
+          const [skipped] = queue.splice(waiting, 1);
+          if (!skipped.options.keepFrame) skipped.frame.close();
+          skipped.resolve(null);
+        }
+      }
+      queue.push({ frame, mode, options: { ...options, droppable }, resolve, reject });
+      drain();
+    });
+  },
+
+  // The gallery matched against when detect is given match options. Only ids and
+  // descriptors cross to the worker.
+  async setGallery(candidates: GalleryCandidate[]): Promise<void> {
+    await getBackend()({ type: 'setGallery', candidates: candidates.map(({ id, gallery }) => ({ id, gallery })) }, []);
+  },
+
+  async insert(candidate: GalleryCandidate): Promise<void> {
+    await getBackend()({ type: 'insert', candidate: { id: candidate.id, gallery: candidate.gallery } }, []);
+  },
+
+  async remove(candidateId: string): Promise<void> {
+    await getBackend()({ type: 'remove', candidateId }, []);
+  },
+};
@@ -0,0 +1,22 @@
+import type { DetectMode, MatchOptions } from './pipeline';
+import type { FaceDetectionResult } from './embedding';
+import type { DetectorProfile } from './detector';
+import type { GalleryCandidate } from './matcher';
+
+// Messages between pages and the face worker. Every request carries an id that its
+// response echoes; frames are transferred, not copied.
+
+export type FaceWorkerRequest =
+  | { id: number; type: 'load'; modelsUrl: string; profile: DetectorProfile }
+  | { id: number; type: 'detect'; frame: ImageBitmap; mode: DetectMode; match?: MatchOptions }
+  | { id: number; type: 'setGallery'; candidates: GalleryCandidate[] }
+  | { id: number; type: 'insert'; candidate: GalleryCandidate }
+  | { id: number; type: 'remove'; candidateId: string };
+
+export type FaceWorkerResponse =
+  | { id: number; type: 'done' }
+  | { id: number; type: 'faces'; faces: FaceDetectionResult[] }
+  | { id: number; type: 'error'; message: string };
+
+// Requests without their id, as callers write them
+export type FaceWorkerCommand = FaceWorkerRequest extends infer R ? (R extends unknown ? Omit<R, 'id'> : never) : never;
@@ -0,0 +1,112 @@
+import type { AmbiguousMatch } from '@/lib/storage/data';
+
+// This browser's kiosk registration. Pairing trades a one-time code from the Kiosk Devices
+// page for a device token, which authenticates every mark the kiosk sends.
+
+export interface KioskCredential {
+  id: string;
+  name: string;
+  course_id: string | null;
+  room: string | null;
+  token: string;
+  // The threshold and review band mark-attendance settles marks with, from the last heartbeat
+  match_threshold?: number;
+  review_band?: number;
+}
+
+const CREDENTIAL_KEY = 'kioskDevice';
+// Unambiguous characters only, since codes are read off a screen and typed in
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 8;
+
+// Thrown when the server no longer accepts this device's token
+export class KioskRevokedError extends Error {}
+
+function functionUrl(name: string): string {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`;
+}
+
+async function callKioskDevice(body: Record<string, unknown>, token?: string) {
+  const response = await fetch(functionUrl('kiosk-device'), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { 'x-kiosk-token': token } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({ error: response.statusText }));
+  return { response, data };
+}
+
+export function generatePairingCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+  const code = Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+// Must match normalizePairingCode in supabase/functions/_shared/kiosk.ts
+export function normalizePairingCode(code: string): string {
+  return code.replace(/[^a-z0-9]/gi, '').toUpperCase();
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export const kioskDevice = {
+  getCredential(): KioskCredential | null {
+    const saved = localStorage.getItem(CREDENTIAL_KEY);
+    if (!saved) return null;
+    try {
+      return JSON.parse(saved);
+    } catch {
+      return null;
+    }
+  },
+
+  async pair(code: string): Promise<KioskCredential> {
+    const { response, data } = await callKioskDevice({ action: 'pair', code: normalizePairingCode(code) });
+    if (!response.ok) throw new Error(data.error || `Pairing failed (${response.status})`);
+
+    const credential: KioskCredential = { ...data.device, token: data.token };
+    localStorage.setItem(CREDENTIAL_KEY, JSON.stringify(credential));
+    return credential;
+  },
+
+  // Tells the server the kiosk is alive and refreshes its name and scope
+  async heartbeat(): Promise<KioskCredential | null> {
+    const credential = kioskDevice.getCredential();
+    if (!credential) return null;
+
+    const { response, data } = await callKioskDevice({ action: 'heartbeat' }, credential.token);
+    if (response.status === 401) {
+      kioskDevice.forget();
+      throw new KioskRevokedError(data.error || 'This kiosk has been revoked');
+    }
+    if (!response.ok) throw new Error(data.error || `Heartbeat failed (${response.status})`);
+
+    const updated: KioskCredential = {
+      ...data.device,
+      match_threshold: data.match_threshold,
+      review_band: data.review_band,
+      token: credential.token,
+    };
+    localStorage.setItem(CREDENTIAL_KEY, JSON.stringify(updated));
+    return updated;
+  },
+
+  // Records a face the kiosk could not tell apart from a second student
+  async reportAmbiguousMatch(match: Omit<AmbiguousMatch, 'id' | 'created_at'>): Promise<void> {
+    const credential = kioskDevice.getCredential();
+    if (!credential) return;
+
+    const { response, data } = await callKioskDevice({ action: 'ambiguous', ...match }, credential.token);
+    if (!response.ok) throw new Error(data.error || `Report failed (${response.status})`);
+  },
+
+  forget(): void {
+    localStorage.removeItem(CREDENTIAL_KEY);
+  },
+};
@@ -0,0 +1,305 @@
+import JSZip from 'jszip';
+import { FaceImageError, getEmbeddingFromImage } from '@/lib/face/embedding';
+import { loadFaceModels } from '@/lib/face/models';
+import { enrollmentsAPI, photosAPI, studentEmbeddingsAPI, studentsAPI, Course } from '@/lib/storage/data';
+
+// Bulk roster import: a CSV of students (roll_no, name, optional course codes) and an
+// optional ZIP of photos named by roll number, e.g. CS2024001.jpg
+
+export type PhotoStatus = 'ok' | 'missing' | 'no_face' | 'multiple_faces' | 'too_small' | 'low_quality' | 'unreadable';
+
+export interface RosterRow {
+  line: number; // 1-based line in the CSV, for messages
+  roll_no: string;
+  name: string;
+  email: string | null;
+  course_codes: string[];
+  errors: string[];
+  photo?: File;
+  photoStatus: PhotoStatus;
+  descriptor?: Float32Array;
+  quality?: number;
+}
+
+export interface RosterPreview {
+  rows: RosterRow[];
+  // Files in the ZIP that no row claims
+  unmatchedPhotos: string[];
+  // Problems with the files themselves rather than with a row
+  errors: string[];
+}
+
+export interface RosterImportResult {
+  students: number;
+  enrollments: number;
+}
+
+export const PHOTO_STATUS_LABELS: Record<PhotoStatus, string> = {
+  ok: 'Face found',
+  missing: 'No photo',
+  no_face: 'No face detected',
+  multiple_faces: 'Multiple faces',
+  too_small: 'Face too small',
+  low_quality: 'Poor photo quality',
+  unreadable: 'Unreadable image',
+};
+
+// Header cells are compared after normalizing, so "Roll No." and "roll_no" both match
+const COLUMN_ALIASES = {
+  roll_no: ['roll_no', 'roll', 'roll_number', 'rollno', 'student_id'],
+  name: ['name', 'full_name', 'student_name'],
+  email: ['email', 'e_mail'],
+  courses: ['courses', 'course', 'course_codes'],
+} as const;
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+// RFC 4180: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Roll numbers are matched case-insensitively, so "cs2024001.jpg" finds CS2024001
+function rollKey(rollNo: string): string {
+  return rollNo.trim().toUpperCase();
+}
+
+function columnIndexes(header: string[]): Partial<Record<Column, number>> | null {
+  const normalized = header.map((h) => h.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, ''));
+  const indexes: Partial<Record<Column, number>> = {};
+  for (const column of Object.keys(COLUMN_ALIASES) as Column[]) {
+    const index = normalized.findIndex((h) => (COLUMN_ALIASES[column] as readonly string[]).includes(h));
+    if (index >= 0) indexes[column] = index;
+  }
+  return indexes.roll_no !== undefined ? indexes : null;
+}
+
+// Without a header row the columns are roll_no, name, courses
+export function parseRoster(text: string): RosterRow[] {
+  const records = parseCsv(text.replace(/^\uFEFF/, ''));
+  const header = records.length > 0 ? columnIndexes(records[0]) : null;
+  const columns = header ?? { roll_no: 0, name: 1, courses: 2 };
+  const firstLine = header ? 2 : 1;
+
+  return records
+    .slice(header ? 1 : 0)
+    .map((record, i) => {
+      const cell = (column: Column) => {
+        const index = columns[column];
+        return index === undefined ? '' : (record[index] ?? '').trim();
+      };
+      return {
+        line: firstLine + i,
+        roll_no: cell('roll_no'),
+        name: cell('name'),
+        email: cell('email') || null,
+        // Several courses share one cell: "CS101; CS102" or "CS101 CS102"
+        course_codes: [...new Set(cell('courses').split(/[;|\s]+/).filter(Boolean).map((c) => c.toUpperCase()))],
+        errors: [],
+        photoStatus: 'missing' as PhotoStatus,
+      };
+    })
+    .filter((row) => row.roll_no || row.name || row.course_codes.length > 0);
+}
+
+export function validateRoster(
+  rows: RosterRow[],
+  { existingRollNos, courses }: { existingRollNos: string[]; courses: Pick<Course, 'code'>[] }
+): void {
+  const existing = new Set(existingRollNos.map(rollKey));
+  const courseCodes = new Set(courses.map((c) => c.code.toUpperCase()));
+  const seen = new Map<string, number>();
+
+  for (const row of rows) {
+    if (!row.roll_no) row.errors.push('Roll number is missing');
+    if (!row.name) row.errors.push('Name is missing');
+    if (row.email && !/^[^\s@]+@[^\s@]+$/.test(row.email)) row.errors.push(`Email "${row.email}" is not valid`);
+
+    const key = rollKey(row.roll_no);
+    if (row.roll_no && existing.has(key)) row.errors.push('A student with this roll number already exists');
+    if (row.roll_no && seen.has(key)) row.errors.push(`Same roll number as line ${seen.get(key)}`);
+    if (row.roll_no && !seen.has(key)) seen.set(key, row.line);
+
+    const unknown = row.course_codes.filter((code) => !courseCodes.has(code));
+    if (unknown.length > 0) row.errors.push(`Unknown course${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}`);
+  }
+}
+
+// Pairs photos with rows by file name; folders inside the ZIP are ignored
+export async function attachPhotos(rows: RosterRow[], zipFile: Blob): Promise<{ unmatched: string[] }> {
+  const zip = await JSZip.loadAsync(zipFile);
+  const byRoll = new Map(rows.map((row) => [rollKey(row.roll_no), row]));
+  const unmatched: string[] = [];
+
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || entry.name.startsWith('__MACOSX/')) continue;
+
+    const fileName = entry.name.split('/').pop() ?? '';
+    if (fileName.startsWith('.')) continue;
+    const dot = fileName.lastIndexOf('.');
+    const mime = IMAGE_EXTENSIONS[fileName.slice(dot + 1).toLowerCase()];
+    const row = dot > 0 ? byRoll.get(rollKey(fileName.slice(0, dot))) : undefined;
+    if (!mime || !row || row.photo) {
+      unmatched.push(entry.name);
+      continue;
+    }
+
+    row.photo = new File([await entry.async('blob')], fileName, { type: mime });
+  }
+
+  return { unmatched };
+}
+
+// Runs face detection on each row's photo, one at a time to keep the page responsive
+export async function detectFaces(
+  rows: RosterRow[],
+  onProgress?: (done: number, total: number) => void
+): Promise<void> {
+  const withPhotos = rows.filter((row) => row.photo && row.errors.length === 0);
+  if (withPhotos.length === 0) return;
+
+  await loadFaceModels();
+  for (const [i, row] of withPhotos.entries()) {
+    try {
+      const result = await getEmbeddingFromImage(row.photo!);
+      row.descriptor = result?.descriptor;
+      row.quality = result?.quality.score;
+      row.photoStatus = result ? 'ok' : 'no_face';
+    } catch (error) {
+      row.photoStatus = error instanceof FaceImageError ? error.reason : 'unreadable';
+    }
+    onProgress?.(i + 1, withPhotos.length);
+  }
+}
+
+export async function previewRoster(
+  csv: File,
+  photosZip: File | null,
+  courses: Pick<Course, 'code'>[],
+  onProgress?: (done: number, total: number) => void
+): Promise<RosterPreview> {
+  const rows = parseRoster(await csv.text());
+  const errors: string[] = [];
+  if (rows.length === 0) errors.push('The CSV has no student rows');
+
+  // Checked against every student, not just the teacher's, since roll numbers are unique overall
+  const existingRollNos = await studentsAPI.takenRollNos(rows.map((row) => row.roll_no).filter(Boolean));
+  validateRoster(rows, { existingRollNos, courses });
+
+  let unmatchedPhotos: string[] = [];
+  if (photosZip) {
+    try {
+      unmatchedPhotos = (await attachPhotos(rows, photosZip)).unmatched;
+    } catch {
+      errors.push('The photo archive could not be read as a ZIP file');
+    }
+  }
+  await detectFaces(rows, onProgress);
+
+  return { rows, unmatchedPhotos, errors };
+}
+
+// Rows that import: valid, and either without a photo or with exactly one usable face.
+// A photo that failed is not silently dropped; the row waits for a better photo.
+export function importableRows(rows: RosterRow[]): RosterRow[] {
+  return rows.filter((row) => row.errors.length === 0 && (row.photoStatus === 'ok' || row.photoStatus === 'missing'));
+}
+
+export async function importRoster(
+  rows: RosterRow[],
+  courses: Pick<Course, 'id' | 'code'>[]
+): Promise<RosterImportResult> {
+  const ready = importableRows(rows);
+  const courseIds = new Map(courses.map((c) => [c.code.toUpperCase(), c.id]));
+  const photoUrls = new Map<RosterRow, string>();
+
+  try {
+    for (const row of ready) {
+      if (row.photo && row.descriptor) {
+        photoUrls.set(row, await photosAPI.upload(`${row.roll_no}-import-${Date.now()}-${row.photo.name}`, row.photo));
+      }
+    }
+
+    const students = await studentsAPI.createMany(
+      ready.map((row) => ({
+        roll_no: row.roll_no,
+        name: row.name,
+        email: row.email,
+        photo_url: photoUrls.get(row) ?? null,
+        embedding: row.descriptor ? Array.from(row.descriptor) : null,
+      }))
+    );
+
+    const studentIds = new Map(students.map((student) => [rollKey(student.roll_no), student.id]));
+    const studentIdOf = (row: RosterRow) => studentIds.get(rollKey(row.roll_no))!;
+
+    try {
+      await studentEmbeddingsAPI.createMany(
+        ready
+          .filter((row) => row.descriptor)
+          .map((row) => ({
+            student_id: studentIdOf(row),
+            embedding: Array.from(row.descriptor!),
+            photo_url: photoUrls.get(row) ?? null,
+            label: 'import',
+            quality: row.quality ?? null,
+          }))
+      );
+      const enrollments = await enrollmentsAPI.createMany(
+        ready.flatMap((row) =>
+          row.course_codes.map((code) => ({ student_id: studentIdOf(row), course_id: courseIds.get(code)! }))
+        )
+      );
+      return { students: students.length, enrollments: enrollments.length };
+    } catch (error) {
+      // Deleting the students cascades to whatever of the batch made it in
+      await Promise.all(students.map((student) => studentsAPI.delete(student.id)));
+      throw error;
+    }
+  } catch (error) {
+    await photosAPI.remove([...photoUrls.values()]);
+    throw error;
+  }
+}
@@ -0,0 +1,109 @@
+import { addMinutes, eachDayOfInterval, format, getDay, parseISO, setHours, setMinutes } from 'date-fns';
+
+// A weekly timetable entry; dates are 'yyyy-MM-dd', start_time is 'HH:mm' or 'HH:mm:ss'
+export interface ScheduleRule {
+  weekdays: number[]; // 0 = Sunday .. 6 = Saturday
+  start_time: string;
+  duration_minutes: number;
+  room: string | null;
+  term_start: string;
+  term_end: string;
+  excluded_dates: string[];
+}
+
+export interface Occurrence {
+  occurrence_date: string;
+  starts_at: Date;
+  ends_at: Date;
+  room: string | null;
+}
+
+// A lecture already generated from the schedule
+export interface ScheduledLecture {
+  id: string;
+  starts_at: string;
+  ends_at: string;
+  room: string | null;
+  occurrence_date: string | null;
+  is_exception: boolean;
+  attendance_count?: number;
+}
+
+export interface RegenerationPlan {
+  create: Occurrence[];
+  remove: string[];
+  keep: string[];
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function generateOccurrences(rule: ScheduleRule): Occurrence[] {
+  const start = parseISO(rule.term_start);
+  const end = parseISO(rule.term_end);
+  if (end < start) return [];
+
+  const [hours, minutes] = rule.start_time.split(':').map(Number);
+  const weekdays = new Set(rule.weekdays);
+  const excluded = new Set(rule.excluded_dates);
+
+  return eachDayOfInterval({ start, end })
+    .filter((day) => weekdays.has(getDay(day)))
+    .map((day) => ({ day, date: format(day, 'yyyy-MM-dd') }))
+    .filter(({ date }) => !excluded.has(date))
+    .map(({ day, date }) => {
+      const startsAt = setMinutes(setHours(day, hours), minutes);
+      return {
+        occurrence_date: date,
+        starts_at: startsAt,
+        ends_at: addMinutes(startsAt, rule.duration_minutes),
+        room: rule.room,
+      };
+    });
+}
+
+// Work out which future lectures to add or drop after the schedule changed.
+// Past lectures, hand-edited exceptions and lectures with attendance are never touched.
+export function planRegeneration(
+  rule: ScheduleRule,
+  existing: ScheduledLecture[],
+  now: Date = new Date()
+): RegenerationPlan {
+  const occurrences = generateOccurrences(rule).filter((o) => o.starts_at > now);
+  const byDate = new Map(occurrences.map((o) => [o.occurrence_date, o]));
+
+  const keep: string[] = [];
+  const remove: string[] = [];
+  const covered = new Set<string>();
+
+  for (const lecture of existing) {
+    const locked =
+      lecture.is_exception ||
+      new Date(lecture.starts_at) <= now ||
+      (lecture.attendance_count ?? 0) > 0;
+
+    const expected = lecture.occurrence_date ? byDate.get(lecture.occurrence_date) : undefined;
+    const unchanged =
+      !!expected &&
+      new Date(lecture.starts_at).getTime() === expected.starts_at.getTime() &&
+      new Date(lecture.ends_at).getTime() === expected.ends_at.getTime() &&
+      (lecture.room || null) === (expected.room || null);
+
+    if (locked || unchanged) {
+      keep.push(lecture.id);
+      if (lecture.occurrence_date) covered.add(lecture.occurrence_date);
+    } else {
+      remove.push(lecture.id);
+    }
+  }
+
+  return {
+    create: occurrences.filter((o) => !covered.has(o.occurrence_date)),
+    remove,
+    keep,
+  };
+}
+
+export function describeSchedule(rule: Pick<ScheduleRule, 'weekdays' | 'start_time' | 'duration_minutes'>): string {
+  const days = [...rule.weekdays].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]).join('/');
+  return `${days} at ${rule.start_time.slice(0, 5)} for ${rule.duration_minutes} min`;
+}
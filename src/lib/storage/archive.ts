@@ -0,0 +1,598 @@
+import JSZip from 'jszip';
+import { z } from 'zod';
+import type { StoreNames } from 'idb';
+import { getDB, recordKey, DB_VERSION, AttendanceDB, UntypedStore } from './indexeddb';
+import type { Json } from '@/integrations/supabase/types';
+import { isSyncTable, newChange } from '@/lib/sync/changelog';
+import { ATTENDANCE_STATUSES } from '@/lib/attendance/status';
+
+// A backup of the whole Local Mode database:
+//   manifest.json       format, version and record counts
+//   data/<store>.json   every record of the store
+//   photos/<file>       images that were stored as data URLs, referenced as "archive:photos/<file>"
+export const ARCHIVE_FORMAT = 'attendance-archive';
+export const ARCHIVE_VERSION = 1;
+
+export type ArchiveStore = StoreNames<AttendanceDB>;
+
+export type ImportMode = 'merge' | 'replace';
+export type ConflictStrategy = 'keep' | 'overwrite';
+
+export interface ArchiveManifest {
+  format: string;
+  version: number;
+  db_version: number;
+  exported_at: string;
+  counts: Partial<Record<ArchiveStore, number>>;
+}
+
+export interface StoreImportSummary {
+  incoming: number;
+  added: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+  removed: number;
+}
+
+// An incoming record whose unique field already belongs to a different local record
+export interface ImportConflict {
+  store: 'students' | 'courses' | 'teachers';
+  field: 'roll_no' | 'code' | 'email';
+  value: string;
+  incomingId: string;
+  existingId: string;
+  resolution: 'kept existing' | 'overwritten';
+}
+
+export interface ImportPreview {
+  manifest: ArchiveManifest;
+  stores: Record<ArchiveStore, StoreImportSummary>;
+  conflicts: ImportConflict[];
+  warnings: string[];
+}
+
+export interface ImportOptions {
+  mode: ImportMode;
+  conflicts: ConflictStrategy;
+  dryRun: boolean;
+}
+
+export class ArchiveError extends Error {}
+
+const PHOTO_REF_PREFIX = 'archive:';
+
+const nullableString = z.string().nullable().optional();
+const updatedAt = z.string().optional();
+const json = z.custom<Json>(() => true);
+
+const recordSchemas = {
+  students: z.object({
+    id: z.string(),
+    roll_no: z.string().min(1),
+    name: z.string(),
+    email: nullableString,
+    user_id: nullableString,
+    embedding: z.array(z.number()).nullable(),
+    photo_url: nullableString,
+    created_at: z.string(),
+    updated_at: updatedAt,
+  }),
+  student_credentials: z.object({
+    student_id: z.string(),
+    password_hash: z.string(),
+    salt: z.string(),
+    created_at: z.string(),
+  }),
+  teacher_credentials: z.object({
+    teacher_id: z.string(),
+    password_hash: z.string(),
+    salt: z.string(),
+    created_at: z.string(),
+  }),
+  student_embeddings: z.object({
+    id: z.string(),
+    student_id: z.string(),
+    embedding: z.array(z.number()),
+    photo_url: z.string().nullable(),
+    label: z.string().nullable(),
+    quality: z.number().min(0).max(1).nullable().optional(),
+    created_at: z.string(),
+    updated_at: updatedAt,
+  }),
+  courses: z.object({
+    id: z.string(),
+    code: z.string().min(1),
+    title: z.string(),
+    teacher: z.string(),
+    late_cutoff_minutes: z.number().int().min(0).nullable().optional(),
+    snapshot_retention_days: z.number().int().min(1).nullable().optional(),
+    created_at: z.string(),
+    updated_at: updatedAt,
+  }),
+  lectures: z.object({
+    id: z.string(),
+    course_id: z.string(),
+    starts_at: z.string(),
+    ends_at: z.string(),
+    room: z.string().nullable(),
+    latitude: z.number().nullable().optional(),
+    longitude: z.number().nullable().optional(),
+    radius: z.number().nullable().optional(),
+    attendance_enabled: z.boolean().optional(),
+    schedule_id: nullableString,
+    occurrence_date: nullableString,
+    is_exception: z.boolean().optional(),
+    finalized_at: nullableString,
+    created_at: z.string(),
+    updated_at: updatedAt,
+  }),
+  lecture_schedules: z.object({
+    id: z.string(),
+    course_id: z.string(),
+    weekdays: z.array(z.number().int().min(0).max(6)),
+    start_time: z.string(),
+    duration_minutes: z.number(),
+    room: z.string().nullable(),
+    term_start: z.string(),
+    term_end: z.string(),
+    excluded_dates: z.array(z.string()),
+    created_at: z.string(),
+    updated_at: updatedAt,
+  }),
+  enrollments: z.object({
+    id: z.string(),
+    student_id: z.string(),
+    course_id: z.string(),
+    created_at: z.string(),
+    updated_at: updatedAt,
+  }),
+  attendance: z.object({
+    id: z.string(),
+    student_id: z.string(),
+    lecture_id: z.string(),
+    marked_at: z.string(),
+    confidence: z.number().nullable(),
+    method: z.string().nullable(),
+    liveness: json.nullable().optional(),
+    photo_url: nullableString,
+    idempotency_key: nullableString,
+    status: z.enum(ATTENDANCE_STATUSES).optional(),
+    created_at: z.string(),
+    updated_at: updatedAt,
+  }),
+  teachers: z.object({
+    id: z.string(),
+    email: z.string().min(1),
+    name: z.string(),
+    created_at: z.string(),
+  }),
+  attendance_outbox: z.object({
+    id: z.string(),
+    lecture_id: z.string(),
+    student_id: z.string(),
+    descriptor: z.array(z.number()),
+    liveness: json,
+    method: z.string(),
+    confidence: z.number(),
+    frame: nullableString,
+    captured_at: z.string(),
+    status: z.enum(['pending', 'synced', 'rejected']),
+    attempts: z.number(),
+    last_error: z.string().nullable(),
+    synced_at: z.string().nullable(),
+  }),
+  kiosk_rosters: z.object({
+    lecture_id: z.string(),
+    students: z.array(
+      z.object({
+        id: z.string(),
+        roll_no: z.string(),
+        name: z.string(),
+        gallery: z.array(z.array(z.number())),
+      })
+    ),
+    cached_at: z.string(),
+  }),
+  course_teachers: z.object({
+    course_id: z.string(),
+    teacher_id: z.string(),
+    role: z.enum(['owner', 'assistant']),
+    created_at: z.string(),
+  }),
+  excuse_requests: z.object({
+    id: z.string(),
+    student_id: z.string(),
+    course_id: z.string(),
+    lecture_id: z.string().nullable(),
+    covers_from: z.string(),
+    covers_until: z.string(),
+    reason: z.string().min(1),
+    attachment_url: z.string().nullable(),
+    status: z.enum(['pending', 'approved', 'rejected']),
+    reviewer_comment: z.string().nullable(),
+    reviewed_by: z.string().nullable(),
+    reviewed_at: z.string().nullable(),
+    created_at: z.string(),
+  }),
+  attendance_audit: z.object({
+    id: z.string(),
+    attendance_id: z.string(),
+    lecture_id: z.string(),
+    student_id: z.string(),
+    action: z.enum(['create', 'update', 'delete']),
+    source: z.enum(['kiosk', 'self', 'manual', 'system']),
+    actor_id: z.string().nullable(),
+    before: json.nullable(),
+    after: json.nullable(),
+    reason: z.string().nullable(),
+    created_at: z.string(),
+  }),
+  ambiguous_matches: z.object({
+    id: z.string(),
+    lecture_id: z.string(),
+    student_id: z.string(),
+    distance: z.number(),
+    runner_up_id: z.string(),
+    runner_up_distance: z.number(),
+    created_at: z.string(),
+  }),
+  sync_changes: z.object({
+    key: z.string(),
+    table: z.string(),
+    row_id: z.string(),
+    op: z.enum(['upsert', 'delete']),
+    changed_at: z.string(),
+    attempts: z.number(),
+    last_error: z.string().nullable(),
+  }),
+  sync_state: z.object({
+    key: z.string(),
+    value: z.string(),
+  }),
+} satisfies Record<ArchiveStore, z.ZodTypeAny>;
+
+// Parents before children, so references can be remapped as records are read
+const STORE_ORDER: ArchiveStore[] = [
+  'teachers',
+  'teacher_credentials',
+  'students',
+  'student_credentials',
+  'student_embeddings',
+  'courses',
+  'course_teachers',
+  'lecture_schedules',
+  'lectures',
+  'enrollments',
+  'attendance',
+  'excuse_requests',
+  'attendance_audit',
+  'ambiguous_matches',
+  'attendance_outbox',
+  'kiosk_rosters',
+  'sync_changes',
+  'sync_state',
+];
+
+// Fields with a unique index; a clash with a different id is an import conflict
+const UNIQUE_FIELDS = {
+  students: { field: 'roll_no', index: 'by-roll-no' },
+  courses: { field: 'code', index: 'by-code' },
+  teachers: { field: 'email', index: 'by-email' },
+} as const;
+
+type RemappedStore = keyof typeof UNIQUE_FIELDS;
+
+// Foreign keys per store; records pointing at nothing are skipped. attendance_audit is left
+// out on purpose: its history outlives the records it describes.
+const REFERENCES: Partial<Record<ArchiveStore, [string, RemappedStore | 'lectures'][]>> = {
+  teacher_credentials: [['teacher_id', 'teachers']],
+  student_credentials: [['student_id', 'students']],
+  student_embeddings: [['student_id', 'students']],
+  course_teachers: [['course_id', 'courses'], ['teacher_id', 'teachers']],
+  lecture_schedules: [['course_id', 'courses']],
+  lectures: [['course_id', 'courses']],
+  enrollments: [['student_id', 'students'], ['course_id', 'courses']],
+  attendance: [['student_id', 'students'], ['lecture_id', 'lectures']],
+  attendance_outbox: [['student_id', 'students'], ['lecture_id', 'lectures']],
+  excuse_requests: [['student_id', 'students'], ['course_id', 'courses']],
+  ambiguous_matches: [['lecture_id', 'lectures'], ['student_id', 'students'], ['runner_up_id', 'students']],
+};
+
+const PHOTO_FIELDS: Partial<Record<ArchiveStore, string>> = {
+  students: 'photo_url',
+  student_embeddings: 'photo_url',
+  attendance: 'photo_url',
+  excuse_requests: 'attachment_url',
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'application/pdf': 'pdf',
+};
+
+function emptySummary(): StoreImportSummary {
+  return { incoming: 0, added: 0, updated: 0, unchanged: 0, skipped: 0, removed: 0 };
+}
+
+// Validation rebuilds records in schema order, so compare independent of key order
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, v]) => v !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([k, v]) => [k, canonical(v)])
+    );
+  }
+  return value;
+}
+
+function sameRecord(a: unknown, b: unknown): boolean {
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+}
+
+export async function exportArchive(): Promise<Blob> {
+  const db = await getDB();
+  const zip = new JSZip();
+  const counts: ArchiveManifest['counts'] = {};
+  // Students share their first capture with the gallery, so identical images are stored once
+  const photoPaths = new Map<string, string>();
+
+  for (const store of STORE_ORDER) {
+    const records = (await db.getAll(store)) as Record<string, unknown>[];
+    const photoField = PHOTO_FIELDS[store];
+
+    const exported = records.map((record, i) => {
+      const photo = photoField ? record[photoField] : null;
+      if (typeof photo !== 'string' || !photo.startsWith('data:')) return record;
+
+      let path = photoPaths.get(photo);
+      if (!path) {
+        const [header, base64] = photo.split(',', 2);
+        const mime = header.slice('data:'.length).split(';')[0];
+        path = `photos/${store}-${i}.${EXTENSIONS[mime] ?? 'bin'}`;
+        zip.file(path, base64, { base64: true });
+        photoPaths.set(photo, path);
+      }
+      return { ...record, [photoField!]: `${PHOTO_REF_PREFIX}${path}` };
+    });
+
+    zip.file(`data/${store}.json`, JSON.stringify(exported));
+    counts[store] = records.length;
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    db_version: DB_VERSION,
+    exported_at: new Date().toISOString(),
+    counts,
+  };
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+async function readArchive(
+  file: Blob
+): Promise<{ manifest: ArchiveManifest; data: Record<ArchiveStore, Record<string, unknown>[]> }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new ArchiveError('Not a valid archive: the file is not a ZIP');
+  }
+
+  const manifestFile = zip.file('manifest.json');
+  if (!manifestFile) throw new ArchiveError('Not a valid archive: manifest.json is missing');
+
+  const manifest = JSON.parse(await manifestFile.async('string')) as ArchiveManifest;
+  if (manifest.format !== ARCHIVE_FORMAT) {
+    throw new ArchiveError('Not a valid archive: unknown format');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new ArchiveError(
+      `Archive version ${manifest.version} is newer than this app supports (${ARCHIVE_VERSION}). Update the app first.`
+    );
+  }
+
+  const data = {} as Record<ArchiveStore, Record<string, unknown>[]>;
+  const errors: string[] = [];
+
+  for (const store of STORE_ORDER) {
+    const dataFile = zip.file(`data/${store}.json`);
+    // Archives from older app versions may not have every store
+    const raw: unknown = dataFile ? JSON.parse(await dataFile.async('string')) : [];
+
+    const parsed = z.array(recordSchemas[store]).safeParse(raw);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      errors.push(`${store}[${issue.path.join('.')}]: ${issue.message}`);
+      continue;
+    }
+
+    // Photos come back as data URLs
+    const photoField = PHOTO_FIELDS[store];
+    const records = parsed.data as Record<string, unknown>[];
+    for (const record of records) {
+      const ref = photoField ? record[photoField] : null;
+      if (typeof ref !== 'string' || !ref.startsWith(PHOTO_REF_PREFIX)) continue;
+
+      const path = ref.slice(PHOTO_REF_PREFIX.length);
+      const photo = zip.file(path);
+      if (!photo) {
+        errors.push(`${store}: photo ${path} is missing from the archive`);
+        continue;
+      }
+      const extension = path.split('.').pop() ?? '';
+      const mime = Object.keys(EXTENSIONS).find((m) => EXTENSIONS[m] === extension) ?? 'application/octet-stream';
+      record[photoField!] = `data:${mime};base64,${await photo.async('base64')}`;
+    }
+
+    data[store] = records;
+  }
+
+  // Unique indexes would abort the whole import halfway, so catch duplicates up front
+  for (const [store, { field }] of Object.entries(UNIQUE_FIELDS) as [RemappedStore, (typeof UNIQUE_FIELDS)[RemappedStore]][]) {
+    const seen = new Set<string>();
+    for (const record of data[store] ?? []) {
+      const value = record[field] as string;
+      if (seen.has(value)) errors.push(`${store}: duplicate ${field} "${value}" in the archive`);
+      seen.add(value);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new ArchiveError(`Archive failed validation:\n${errors.slice(0, 10).join('\n')}`);
+  }
+
+  return { manifest, data };
+}
+
+// Validate an archive and merge it into (or replace) the local database.
+// With dryRun the same plan is computed in a read-only transaction and nothing is written.
+export async function importArchive(file: Blob, options: ImportOptions): Promise<ImportPreview> {
+  // Everything outside IndexedDB happens first: the transaction commits on the first foreign await
+  const { manifest, data } = await readArchive(file);
+  const db = await getDB();
+
+  const stores = Object.fromEntries(STORE_ORDER.map((s) => [s, emptySummary()])) as Record<
+    ArchiveStore,
+    StoreImportSummary
+  >;
+  const conflicts: ImportConflict[] = [];
+  const warnings: string[] = [];
+  const idMap: Record<RemappedStore, Map<string, string>> = {
+    students: new Map(),
+    courses: new Map(),
+    teachers: new Map(),
+  };
+  const importedIds: Record<RemappedStore | 'lectures', Set<string>> = {
+    students: new Set(),
+    courses: new Set(),
+    teachers: new Set(),
+    lectures: new Set(),
+  };
+
+  const tx = db.transaction(STORE_ORDER, options.dryRun ? 'readonly' : 'readwrite');
+  const storeOf = (store: ArchiveStore) => tx.objectStore(store) as unknown as UntypedStore;
+
+  if (options.mode === 'replace') {
+    for (const store of STORE_ORDER) {
+      stores[store].removed = await storeOf(store).count();
+      if (!options.dryRun) await storeOf(store).clear();
+    }
+  }
+  const replacing = options.mode === 'replace';
+
+  for (const store of STORE_ORDER) {
+    const objectStore = storeOf(store);
+    const summary = stores[store];
+    const orphans = new Set<string>();
+    let orphanCount = 0;
+
+    for (const incoming of data[store]) {
+      summary.incoming += 1;
+      const record: Record<string, unknown> = { ...incoming };
+
+      // Point references at the local records that matched on a unique field
+      for (const [field, target] of REFERENCES[store] ?? []) {
+        if (target !== 'lectures') {
+          record[field] = idMap[target].get(record[field] as string) ?? record[field];
+        }
+      }
+      if (store === 'kiosk_rosters') {
+        record.students = (record.students as { id: string }[]).map((s) => ({
+          ...s,
+          id: idMap.students.get(s.id) ?? s.id,
+        }));
+      }
+
+      // Skip records whose parent is neither in the archive nor already stored
+      let orphaned = false;
+      for (const [field, target] of REFERENCES[store] ?? []) {
+        const id = record[field] as string;
+        if (importedIds[target].has(id)) continue;
+        if (!replacing && (await storeOf(target).getKey(id)) !== undefined) continue;
+        orphaned = true;
+        orphans.add(`${field} ${id}`);
+      }
+      if (orphaned) {
+        summary.skipped += 1;
+        orphanCount += 1;
+        continue;
+      }
+
+      if (!replacing && store in UNIQUE_FIELDS) {
+        const { field, index } = UNIQUE_FIELDS[store as RemappedStore];
+        const existingId = (await objectStore.index(index).getKey(record[field] as string)) as
+          | string
+          | undefined;
+
+        if (existingId !== undefined && existingId !== record.id) {
+          conflicts.push({
+            store: store as RemappedStore,
+            field,
+            value: record[field] as string,
+            incomingId: record.id as string,
+            existingId,
+            resolution: options.conflicts === 'overwrite' ? 'overwritten' : 'kept existing',
+          });
+          idMap[store as RemappedStore].set(record.id as string, existingId);
+          record.id = existingId;
+        }
+      }
+
+      if (store in importedIds) importedIds[store as RemappedStore | 'lectures'].add(record.id as string);
+
+      // One enrollment per student and course, one mark per student and lecture
+      if (!replacing && (store === 'enrollments' || store === 'attendance')) {
+        const [pairField, index] =
+          store === 'enrollments' ? (['course_id', 'by-student'] as const) : (['lecture_id', 'by-student'] as const);
+        const siblings = await objectStore.index(index).getAll(record.student_id as string);
+        const twin = siblings.find((s) => s[pairField] === record[pairField] && s.id !== record.id);
+        if (twin) {
+          summary.unchanged += 1;
+          continue;
+        }
+      }
+
+      const key = recordKey(objectStore.keyPath, record);
+      const existing = replacing ? undefined : await objectStore.get(key);
+
+      if (existing === undefined) {
+        summary.added += 1;
+      } else if (sameRecord(existing, record)) {
+        summary.unchanged += 1;
+        continue;
+      } else if (options.conflicts === 'overwrite') {
+        summary.updated += 1;
+      } else {
+        summary.skipped += 1;
+        continue;
+      }
+
+      if (!options.dryRun) {
+        await objectStore.put(record);
+        // Restored rows still have to reach Supabase
+        if (isSyncTable(store)) await storeOf('sync_changes').put(newChange(store, record.id as string, 'upsert'));
+      }
+    }
+
+    if (orphans.size > 0) {
+      warnings.push(`${store}: ${orphanCount} record(s) skipped, missing ${[...orphans].slice(0, 3).join(', ')}`);
+    }
+  }
+
+  await tx.done;
+
+  if (manifest.db_version > DB_VERSION) {
+    warnings.push('The archive was exported by a newer app version; fields this version does not know were dropped.');
+  }
+
+  return { manifest, stores, conflicts, warnings };
+}
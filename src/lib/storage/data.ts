@@ -1,12 +1,32 @@
-import { getDB, isLocalMode, generateId } from './indexeddb';
+import { getDB, isLocalMode, generateId, AttendanceDB } from './indexeddb';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { trackChange, trackChanges } from '@/lib/sync/changelog';
+import { generatePairingCode, kioskDevice, normalizePairingCode, sha256Hex } from '@/lib/kiosk/device';
+import { AttendanceStatus, countsAsAttended, statusForMark, statusOf } from '@/lib/attendance/status';
+import { ExcuseStatus, excuseCovers } from '@/lib/attendance/excuse';
+import { AuditAction, AuditSource, auditSnapshot, auditSourceOf } from '@/lib/attendance/audit';
 
 // Types
 export interface Student {
   id: string;
   roll_no: string;
   name: string;
+  email?: string | null;
+  user_id?: string | null;
   embedding: number[] | null;
+  photo_url?: string | null;
+  created_at?: string;
+}
+
+export interface StudentEmbedding {
+  id: string;
+  student_id: string;
+  embedding: number[];
+  photo_url: string | null;
+  label: string | null;
+  // 0..1 enrollment photo quality; null for captures from before it was scored
+  quality?: number | null;
   created_at?: string;
 }
 
@@ -15,6 +35,24 @@ export interface Course {
   code: string;
   title: string;
   teacher: string;
+  late_cutoff_minutes?: number | null;
+  snapshot_retention_days?: number | null;
+  created_at?: string;
+}
+
+export type TeacherRole = 'owner' | 'assistant';
+
+export interface Teacher {
+  id: string;
+  email: string;
+  name: string;
+  created_at?: string;
+}
+
+export interface CourseTeacher {
+  course_id: string;
+  teacher_id: string;
+  role: TeacherRole;
   created_at?: string;
 }
 
@@ -24,6 +62,27 @@ export interface Lecture {
   starts_at: string;
   ends_at: string;
   room: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  radius?: number | null;
+  attendance_enabled?: boolean;
+  schedule_id?: string | null;
+  occurrence_date?: string | null;
+  is_exception?: boolean;
+  finalized_at?: string | null;
+  created_at?: string;
+}
+
+export interface LectureSchedule {
+  id: string;
+  course_id: string;
+  weekdays: number[];
+  start_time: string;
+  duration_minutes: number;
+  room: string | null;
+  term_start: string;
+  term_end: string;
+  excluded_dates: string[];
   created_at?: string;
 }
 
@@ -41,31 +100,263 @@ export interface Attendance {
   marked_at: string;
   confidence: number | null;
   method: string | null;
+  liveness?: Json | null;
+  // Path in the private snapshot bucket; older marks hold a public URL, Local Mode a data URL
+  photo_url?: string | null;
+  idempotency_key?: string | null;
+  status?: AttendanceStatus;
   created_at?: string;
 }
 
+export interface AttendanceAuditEntry {
+  id: string;
+  attendance_id: string;
+  lecture_id: string;
+  student_id: string;
+  action: AuditAction;
+  source: AuditSource;
+  actor_id: string | null;
+  before: Json | null;
+  after: Json | null;
+  reason: string | null;
+  created_at: string;
+}
+
+// A kiosk face that came too close to two students to mark either
+export interface AmbiguousMatch {
+  id: string;
+  lecture_id: string;
+  student_id: string;
+  distance: number;
+  runner_up_id: string;
+  runner_up_distance: number;
+  created_at: string;
+}
+
+// Who is changing attendance and why. Supabase works out the source and actor in its audit
+// trigger; Local Mode falls back to guessing the source from the record.
+export interface AuditContext {
+  source?: AuditSource;
+  actorId?: string | null;
+  reason?: string | null;
+}
+
+// A registered kiosk, without its credential hashes
+export interface KioskDevice {
+  id: string;
+  name: string;
+  course_id: string | null;
+  room: string | null;
+  created_at: string;
+  pairing_expires_at: string | null;
+  paired_at: string | null;
+  last_seen_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface ExcuseRequest {
+  id: string;
+  student_id: string;
+  course_id: string;
+  lecture_id: string | null;
+  covers_from: string;
+  covers_until: string;
+  reason: string;
+  attachment_url: string | null;
+  status: ExcuseStatus;
+  reviewer_comment: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+// Joined shapes returned to pages
+export interface StudentWithCaptures extends Student {
+  capture_count: number;
+}
+
+export interface CourseSummary extends Course {
+  role: TeacherRole;
+  enrollment_count: number;
+  lecture_count: number;
+}
+
+export interface CourseTeamMember {
+  teacher_id: string;
+  role: TeacherRole;
+  name: string;
+  email: string;
+}
+
+export interface LectureWithCount extends Lecture {
+  attendance_count: number;
+}
+
+export interface LectureWithCourse extends Lecture {
+  course: Pick<Course, 'code' | 'title' | 'teacher'>;
+}
+
+export interface AttendanceDetail extends Attendance {
+  student: Pick<Student, 'roll_no' | 'name'> & { photo_url: string | null };
+  lecture: Pick<Lecture, 'starts_at' | 'ends_at' | 'room' | 'course_id'> & {
+    course: Pick<Course, 'code' | 'title'>;
+  };
+}
+
+export interface ExcuseRequestDetail extends ExcuseRequest {
+  student: Pick<Student, 'roll_no' | 'name'>;
+  course: Pick<Course, 'code' | 'title'>;
+  lecture: Pick<Lecture, 'starts_at' | 'ends_at'> | null;
+}
+
+export interface AttendanceAuditDetail extends AttendanceAuditEntry {
+  student: Pick<Student, 'roll_no' | 'name'> | null;
+  actor_name: string | null;
+}
+
+export interface AmbiguousMatchDetail extends AmbiguousMatch {
+  student: Pick<Student, 'roll_no' | 'name'> | null;
+  runner_up: Pick<Student, 'roll_no' | 'name'> | null;
+}
+
+export interface AttendanceFilter {
+  lectureId?: string;
+  studentId?: string;
+  courseIds?: string[];
+  since?: Date;
+  status?: AttendanceStatus;
+}
+
+function toRole(role: string | null | undefined): TeacherRole {
+  return role === 'owner' ? 'owner' : 'assistant';
+}
+
+type LocalAttendance = AttendanceDB['attendance']['value'];
+
+function auditEntry(
+  action: AuditAction,
+  before: LocalAttendance | null,
+  after: LocalAttendance | null,
+  context: AuditContext
+): AttendanceDB['attendance_audit']['value'] {
+  const record = (after ?? before)!;
+  return {
+    id: generateId(),
+    attendance_id: record.id,
+    lecture_id: record.lecture_id,
+    student_id: record.student_id,
+    action,
+    source: context.source ?? auditSourceOf(record),
+    actor_id: context.actorId ?? null,
+    before: auditSnapshot(before),
+    after: auditSnapshot(after),
+    reason: context.reason?.trim() || null,
+    created_at: new Date().toISOString(),
+  };
+}
+
+// Statuses that count towards a lecture's attendance figure
+const ATTENDED_STATUSES: AttendanceStatus[] = ['present', 'late'];
+
+async function countAttended(lectureId: string): Promise<number> {
+  const db = await getDB();
+  const records = await db.getAllFromIndex('attendance', 'by-lecture', lectureId);
+  return records.filter((a) => countsAsAttended(statusOf(a))).length;
+}
+
 // Students API
 export const studentsAPI = {
   async getAll(): Promise<Student[]> {
     if (isLocalMode()) {
       const db = await getDB();
-      return db.getAll('students');
+      const students = await db.getAll('students');
+      return students.sort((a, b) => a.roll_no.localeCompare(b.roll_no));
     }
     const { data, error } = await supabase.from('students').select('*').order('roll_no');
     if (error) throw error;
     return data || [];
   },
 
+  // Newest first, with the size of each enrollment gallery
+  async getAllWithCaptureCounts(): Promise<StudentWithCaptures[]> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const [students, embeddings] = await Promise.all([
+        db.getAll('students'),
+        db.getAll('student_embeddings'),
+      ]);
+      return students
+        .map((student) => ({
+          ...student,
+          capture_count: embeddings.filter((e) => e.student_id === student.id).length,
+        }))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    }
+
+    const { data, error } = await supabase
+      .from('students')
+      .select('*, student_embeddings(count)')
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(({ student_embeddings, ...student }) => ({
+      ...student,
+      created_at: student.created_at ?? undefined,
+      capture_count: student_embeddings[0]?.count ?? 0,
+    }));
+  },
+
   async getById(id: string): Promise<Student | null> {
     if (isLocalMode()) {
       const db = await getDB();
-      return db.get('students', id) || null;
+      return (await db.get('students', id)) ?? null;
+    }
+    const { data, error } = await supabase.from('students').select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async getByIds(ids: string[]): Promise<Student[]> {
+    if (ids.length === 0) return [];
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      const students = await Promise.all(ids.map((id) => db.get('students', id)));
+      return students.filter((s): s is NonNullable<typeof s> => !!s);
+    }
+    const { data, error } = await supabase.from('students').select('*').in('id', ids);
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getByRollNo(rollNo: string): Promise<Student | null> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      return (await db.getFromIndex('students', 'by-roll-no', rollNo.trim())) ?? null;
     }
-    const { data, error } = await supabase.from('students').select('*').eq('id', id).single();
+    const { data, error } = await supabase
+      .from('students')
+      .select('*')
+      .eq('roll_no', rollNo.trim())
+      .maybeSingle();
     if (error) throw error;
     return data;
   },
 
+  // Which of the roll numbers already belong to a student, including students the teacher
+  // cannot see; compared case-insensitively, like roster imports
+  async takenRollNos(rollNos: string[]): Promise<string[]> {
+    if (rollNos.length === 0) return [];
+    if (isLocalMode()) {
+      const wanted = new Set(rollNos.map((r) => r.trim().toUpperCase()));
+      const db = await getDB();
+      return (await db.getAll('students')).map((s) => s.roll_no).filter((r) => wanted.has(r.trim().toUpperCase()));
+    }
+
+    const { data, error } = await supabase.rpc('taken_roll_numbers', { p_roll_nos: rollNos });
+    if (error) throw error;
+    return data ?? [];
+  },
+
   async create(student: Omit<Student, 'id' | 'created_at'>): Promise<Student> {
     const newStudent: Student = {
       ...student,
@@ -78,8 +369,10 @@ export const studentsAPI = {
       await db.add('students', {
         ...newStudent,
         created_at: newStudent.created_at!,
+        updated_at: newStudent.created_at,
         embedding: newStudent.embedding || null,
       });
+      await trackChange('students', newStudent.id, 'upsert');
       return newStudent;
     }
 
@@ -88,13 +381,46 @@ export const studentsAPI = {
     return data;
   },
 
+  // One insert for the whole batch, so a roster import either lands completely or not at all
+  async createMany(students: Omit<Student, 'id' | 'created_at'>[]): Promise<Student[]> {
+    const newStudents: Student[] = students.map((student) => ({
+      ...student,
+      id: generateId(),
+      created_at: new Date().toISOString(),
+    }));
+    if (newStudents.length === 0) return [];
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      const tx = db.transaction('students', 'readwrite');
+      await Promise.all([
+        ...newStudents.map((student) =>
+          tx.store.add({
+            ...student,
+            created_at: student.created_at!,
+            updated_at: student.created_at,
+            embedding: student.embedding || null,
+          })
+        ),
+        tx.done,
+      ]);
+      await trackChanges('students', newStudents.map((s) => s.id), 'upsert');
+      return newStudents;
+    }
+
+    const { data, error } = await supabase.from('students').insert(newStudents).select();
+    if (error) throw error;
+    return data || [];
+  },
+
   async update(id: string, updates: Partial<Student>): Promise<Student> {
     if (isLocalMode()) {
       const db = await getDB();
       const existing = await db.get('students', id);
       if (!existing) throw new Error('Student not found');
-      const updated = { ...existing, ...updates };
+      const updated = { ...existing, ...updates, updated_at: new Date().toISOString() };
       await db.put('students', updated);
+      await trackChange('students', id, 'upsert');
       return updated;
     }
 
@@ -112,6 +438,18 @@ export const studentsAPI = {
     if (isLocalMode()) {
       const db = await getDB();
       await db.delete('students', id);
+      await db.delete('student_credentials', id);
+      await studentEmbeddingsAPI.deleteByStudent(id);
+      // Mirror the on delete cascade of the Supabase schema
+      const enrollmentKeys = await db.getAllKeysFromIndex('enrollments', 'by-student', id);
+      const attendanceKeys = await db.getAllKeysFromIndex('attendance', 'by-student', id);
+      await Promise.all([
+        ...enrollmentKeys.map((key) => db.delete('enrollments', key)),
+        ...attendanceKeys.map((key) => db.delete('attendance', key)),
+      ]);
+      await trackChange('students', id, 'delete');
+      await trackChanges('enrollments', enrollmentKeys, 'delete');
+      await trackChanges('attendance', attendanceKeys, 'delete');
       return;
     }
 
@@ -120,6 +458,180 @@ export const studentsAPI = {
   },
 };
 
+// Student Embeddings API
+export const studentEmbeddingsAPI = {
+  async getByStudents(studentIds: string[]): Promise<StudentEmbedding[]> {
+    if (studentIds.length === 0) return [];
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      const index = db.transaction('student_embeddings').store.index('by-student');
+      const results = await Promise.all(studentIds.map((id) => index.getAll(id)));
+      return results.flat();
+    }
+    const { data, error } = await supabase
+      .from('student_embeddings')
+      .select('*')
+      .in('student_id', studentIds);
+    if (error) throw error;
+    return data || [];
+  },
+
+  async createMany(
+    embeddings: Omit<StudentEmbedding, 'id' | 'created_at'>[]
+  ): Promise<StudentEmbedding[]> {
+    const newEmbeddings: StudentEmbedding[] = embeddings.map((embedding) => ({
+      ...embedding,
+      id: generateId(),
+      created_at: new Date().toISOString(),
+    }));
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      const tx = db.transaction('student_embeddings', 'readwrite');
+      await Promise.all([
+        ...newEmbeddings.map((embedding) =>
+          tx.store.add({ ...embedding, created_at: embedding.created_at!, updated_at: embedding.created_at })
+        ),
+        tx.done,
+      ]);
+      await trackChanges('student_embeddings', newEmbeddings.map((e) => e.id), 'upsert');
+      return newEmbeddings;
+    }
+
+    const { data, error } = await supabase
+      .from('student_embeddings')
+      .insert(newEmbeddings)
+      .select();
+    if (error) throw error;
+    return data || [];
+  },
+
+  async deleteByStudent(studentId: string): Promise<void> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const index = db.transaction('student_embeddings').store.index('by-student');
+      const keys = await index.getAllKeys(studentId);
+      await Promise.all(keys.map((key) => db.delete('student_embeddings', key)));
+      await trackChanges('student_embeddings', keys, 'delete');
+      return;
+    }
+
+    const { error } = await supabase.from('student_embeddings').delete().eq('student_id', studentId);
+    if (error) throw error;
+  },
+};
+
+// Photos API: the 'faces' storage bucket, or data URLs kept in the rows in Local Mode
+export const photosAPI = {
+  async upload(fileName: string, file: Blob): Promise<string> {
+    if (isLocalMode()) {
+      return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+      });
+    }
+
+    const { error } = await supabase.storage
+      .from('faces')
+      .upload(fileName, file, { contentType: file.type || 'image/jpeg' });
+    if (error) throw error;
+
+    const { data: { publicUrl } } = supabase.storage.from('faces').getPublicUrl(fileName);
+    return publicUrl;
+  },
+
+  async remove(urls: (string | null | undefined)[]): Promise<void> {
+    // Data URLs go away with the rows that hold them
+    if (isLocalMode()) return;
+
+    const fileNames = urls
+      .filter((url): url is string => !!url && !url.startsWith('data:'))
+      // Everything after the bucket name, so selfies keep their student folder
+      .map((url) => url.split('/faces/').pop())
+      .filter((fileName): fileName is string => !!fileName);
+    if (fileNames.length === 0) return;
+
+    const { error } = await supabase.storage.from('faces').remove([...new Set(fileNames)]);
+    if (error) throw error;
+  },
+};
+
+const SNAPSHOT_BUCKET = 'attendance-snapshots';
+// A signed snapshot link only needs to outlive a look at the page
+const SNAPSHOT_LINK_TTL_SECONDS = 10 * 60;
+
+// Attendance snapshots (kiosk captures and check-in selfies) are private: the record keeps the
+// file's path, and pages get short-lived signed links to show it
+export const snapshotsAPI = {
+  async upload(path: string, file: Blob): Promise<string> {
+    if (isLocalMode()) return photosAPI.upload(path, file);
+
+    const { error } = await supabase.storage
+      .from(SNAPSHOT_BUCKET)
+      .upload(path, file, { contentType: file.type || 'image/jpeg' });
+    if (error) throw error;
+    return path;
+  },
+
+  async remove(paths: (string | null | undefined)[]): Promise<void> {
+    if (isLocalMode()) return;
+
+    const files = paths.filter((path): path is string => !!path && !isUrl(path));
+    if (files.length === 0) return;
+
+    const { error } = await supabase.storage.from(SNAPSHOT_BUCKET).remove([...new Set(files)]);
+    if (error) throw error;
+  },
+
+  // Swaps snapshot paths for signed links; URLs pass through unchanged
+  async withSignedUrls<T extends Pick<Attendance, 'photo_url'>>(records: T[]): Promise<T[]> {
+    const paths = [...new Set(records.map((r) => r.photo_url).filter((p): p is string => !!p && !isUrl(p)))];
+    if (paths.length === 0) return records;
+
+    const { data, error } = await supabase.storage
+      .from(SNAPSHOT_BUCKET)
+      .createSignedUrls(paths, SNAPSHOT_LINK_TTL_SECONDS);
+    if (error) throw error;
+
+    const links = new Map(data.map((link) => [link.path, link.signedUrl]));
+    return records.map((r) => (r.photo_url && links.has(r.photo_url) ? { ...r, photo_url: links.get(r.photo_url) } : r));
+  },
+};
+
+function isUrl(value: string): boolean {
+  return value.startsWith('data:') || /^https?:\/\//.test(value);
+}
+
+// Teachers API
+export const teachersAPI = {
+  async getById(id: string): Promise<Teacher | null> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      return (await db.get('teachers', id)) ?? null;
+    }
+    const { data, error } = await supabase.from('teachers').select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+
+  async getByEmail(email: string): Promise<Teacher | null> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      return (await db.getFromIndex('teachers', 'by-email', email.trim().toLowerCase())) ?? null;
+    }
+    const { data, error } = await supabase
+      .from('teachers')
+      .select('*')
+      .ilike('email', email.trim())
+      .maybeSingle();
+    if (error) throw error;
+    return data;
+  },
+};
+
 // Courses API
 export const coursesAPI = {
   async getAll(): Promise<Course[]> {
@@ -132,17 +644,54 @@ export const coursesAPI = {
     return data || [];
   },
 
+  // Courses the teacher owns or assists on, newest first, with their counts
+  async getForTeacher(teacherId: string): Promise<CourseSummary[]> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const memberships = await db.getAllFromIndex('course_teachers', 'by-teacher', teacherId);
+      const summaries = await Promise.all(
+        memberships.map(async (membership) => {
+          const course = await db.get('courses', membership.course_id);
+          if (!course) return null;
+          return {
+            ...course,
+            role: membership.role,
+            enrollment_count: await db.countFromIndex('enrollments', 'by-course', course.id),
+            lecture_count: await db.countFromIndex('lectures', 'by-course', course.id),
+          };
+        })
+      );
+      return summaries
+        .filter((s): s is NonNullable<typeof s> => !!s)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    }
+
+    const { data, error } = await supabase
+      .from('courses')
+      .select('*, course_teachers!inner(role), enrollments(count), lectures(count)')
+      .eq('course_teachers.teacher_id', teacherId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(({ course_teachers, enrollments, lectures, ...course }) => ({
+      ...course,
+      created_at: course.created_at ?? undefined,
+      role: toRole(course_teachers[0]?.role),
+      enrollment_count: enrollments[0]?.count ?? 0,
+      lecture_count: lectures[0]?.count ?? 0,
+    }));
+  },
+
   async getById(id: string): Promise<Course | null> {
     if (isLocalMode()) {
       const db = await getDB();
-      return db.get('courses', id) || null;
+      return (await db.get('courses', id)) ?? null;
     }
-    const { data, error } = await supabase.from('courses').select('*').eq('id', id).single();
+    const { data, error } = await supabase.from('courses').select('*').eq('id', id).maybeSingle();
     if (error) throw error;
     return data;
   },
 
-  async create(course: Omit<Course, 'id' | 'created_at'>): Promise<Course> {
+  async create(course: Omit<Course, 'id' | 'created_at'>, ownerId: string): Promise<Course> {
     const newCourse: Course = {
       ...course,
       id: generateId(),
@@ -154,13 +703,18 @@ export const coursesAPI = {
       await db.add('courses', {
         ...newCourse,
         created_at: newCourse.created_at!,
+        updated_at: newCourse.created_at,
       });
+      await trackChange('courses', newCourse.id, 'upsert');
+      await courseTeachersAPI.add({ course_id: newCourse.id, teacher_id: ownerId, role: 'owner' });
       return newCourse;
     }
 
-    const { data, error } = await supabase.from('courses').insert(newCourse).select().single();
+    // The owner row is added by a trigger; no .select() because RLS would
+    // hide the returned row until then
+    const { error } = await supabase.from('courses').insert(newCourse);
     if (error) throw error;
-    return data;
+    return newCourse;
   },
 
   async update(id: string, updates: Partial<Course>): Promise<Course> {
@@ -168,8 +722,9 @@ export const coursesAPI = {
       const db = await getDB();
       const existing = await db.get('courses', id);
       if (!existing) throw new Error('Course not found');
-      const updated = { ...existing, ...updates };
+      const updated = { ...existing, ...updates, updated_at: new Date().toISOString() };
       await db.put('courses', updated);
+      await trackChange('courses', id, 'upsert');
       return updated;
     }
 
@@ -186,7 +741,21 @@ export const coursesAPI = {
   async delete(id: string): Promise<void> {
     if (isLocalMode()) {
       const db = await getDB();
+      // Mirror the on delete cascade of the Supabase schema
+      const lectures = await db.getAllFromIndex('lectures', 'by-course', id);
+      await lecturesAPI.deleteMany(lectures.map((l) => l.id));
+      const enrollmentKeys = await db.getAllKeysFromIndex('enrollments', 'by-course', id);
+      const teacherKeys = await db.getAllKeysFromIndex('course_teachers', 'by-course', id);
+      const scheduleKeys = await db.getAllKeysFromIndex('lecture_schedules', 'by-course', id);
+      await Promise.all([
+        ...enrollmentKeys.map((key) => db.delete('enrollments', key)),
+        ...teacherKeys.map((key) => db.delete('course_teachers', key)),
+        ...scheduleKeys.map((key) => db.delete('lecture_schedules', key)),
+      ]);
       await db.delete('courses', id);
+      await trackChanges('enrollments', enrollmentKeys, 'delete');
+      await trackChanges('lecture_schedules', scheduleKeys, 'delete');
+      await trackChange('courses', id, 'delete');
       return;
     }
 
@@ -195,84 +764,433 @@ export const coursesAPI = {
   },
 };
 
-// Lectures API
-export const lecturesAPI = {
-  async getByCourse(courseId: string): Promise<Lecture[]> {
+// Course Teachers API
+export const courseTeachersAPI = {
+  async getByCourse(courseId: string): Promise<CourseTeacher[]> {
     if (isLocalMode()) {
       const db = await getDB();
-      const index = db.transaction('lectures').store.index('by-course');
+      const index = db.transaction('course_teachers').store.index('by-course');
       return index.getAll(courseId);
     }
     const { data, error } = await supabase
-      .from('lectures')
+      .from('course_teachers')
       .select('*')
-      .eq('course_id', courseId)
-      .order('starts_at', { ascending: false });
+      .eq('course_id', courseId);
     if (error) throw error;
-    return data || [];
+    return (data || []) as CourseTeacher[];
   },
 
-  async getById(id: string): Promise<Lecture | null> {
+  // Teachers of a course with their names, for the course's team dialog
+  async getMembers(courseId: string): Promise<CourseTeamMember[]> {
     if (isLocalMode()) {
       const db = await getDB();
-      return db.get('lectures', id) || null;
+      const memberships = await db.getAllFromIndex('course_teachers', 'by-course', courseId);
+      return Promise.all(
+        memberships.map(async (membership) => {
+          const teacher = await db.get('teachers', membership.teacher_id);
+          return {
+            teacher_id: membership.teacher_id,
+            role: membership.role,
+            name: teacher?.name ?? '',
+            email: teacher?.email ?? '',
+          };
+        })
+      );
     }
-    const { data, error } = await supabase.from('lectures').select('*').eq('id', id).single();
+
+    const { data, error } = await supabase
+      .from('course_teachers')
+      .select('teacher_id, role, teachers(name, email)')
+      .eq('course_id', courseId);
     if (error) throw error;
-    return data;
+    return (data || []).map((member) => ({
+      teacher_id: member.teacher_id,
+      role: toRole(member.role),
+      name: member.teachers?.name ?? '',
+      email: member.teachers?.email ?? '',
+    }));
   },
 
-  async create(lecture: Omit<Lecture, 'id' | 'created_at'>): Promise<Lecture> {
-    const newLecture: Lecture = {
-      ...lecture,
-      id: generateId(),
+  async getByTeacher(teacherId: string): Promise<CourseTeacher[]> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const index = db.transaction('course_teachers').store.index('by-teacher');
+      return index.getAll(teacherId);
+    }
+    const { data, error } = await supabase
+      .from('course_teachers')
+      .select('*')
+      .eq('teacher_id', teacherId);
+    if (error) throw error;
+    return (data || []) as CourseTeacher[];
+  },
+
+  async add(courseTeacher: Omit<CourseTeacher, 'created_at'>): Promise<CourseTeacher> {
+    const newCourseTeacher: CourseTeacher = {
+      ...courseTeacher,
       created_at: new Date().toISOString(),
     };
 
     if (isLocalMode()) {
       const db = await getDB();
-      await db.add('lectures', {
-        ...newLecture,
-        created_at: newLecture.created_at!,
-        room: newLecture.room || null,
+      await db.put('course_teachers', {
+        ...newCourseTeacher,
+        created_at: newCourseTeacher.created_at!,
       });
-      return newLecture;
+      return newCourseTeacher;
     }
 
-    const { data, error } = await supabase.from('lectures').insert(newLecture).select().single();
+    const { error } = await supabase.from('course_teachers').insert(newCourseTeacher);
     if (error) throw error;
-    return data;
+    return newCourseTeacher;
   },
 
-  async delete(id: string): Promise<void> {
+  async remove(courseId: string, teacherId: string): Promise<void> {
     if (isLocalMode()) {
       const db = await getDB();
-      await db.delete('lectures', id);
+      await db.delete('course_teachers', [courseId, teacherId]);
       return;
     }
 
-    const { error } = await supabase.from('lectures').delete().eq('id', id);
+    const { error } = await supabase
+      .from('course_teachers')
+      .delete()
+      .eq('course_id', courseId)
+      .eq('teacher_id', teacherId);
     if (error) throw error;
   },
 };
 
-// Enrollments API
-export const enrollmentsAPI = {
-  async getByCourse(courseId: string): Promise<Enrollment[]> {
+// Lectures API
+export const lecturesAPI = {
+  async getByCourse(courseId: string): Promise<Lecture[]> {
     if (isLocalMode()) {
       const db = await getDB();
-      const index = db.transaction('enrollments').store.index('by-course');
-      return index.getAll(courseId);
+      const index = db.transaction('lectures').store.index('by-course');
+      const lectures = await index.getAll(courseId);
+      return lectures.sort((a, b) => b.starts_at.localeCompare(a.starts_at));
     }
     const { data, error } = await supabase
-      .from('enrollments')
+      .from('lectures')
       .select('*')
-      .eq('course_id', courseId);
+      .eq('course_id', courseId)
+      .order('starts_at', { ascending: false });
     if (error) throw error;
-    return data || [];
+    return (data || []) as Lecture[];
   },
 
-  async create(enrollment: Omit<Enrollment, 'id' | 'created_at'>): Promise<Enrollment> {
+  // Newest first, with the number of students marked present
+  async getByCourseWithCounts(courseId: string): Promise<LectureWithCount[]> {
+    if (isLocalMode()) {
+      const lectures = await lecturesAPI.getByCourse(courseId);
+      return Promise.all(
+        lectures.map(async (lecture) => ({
+          ...lecture,
+          attendance_count: await countAttended(lecture.id),
+        }))
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('lectures')
+      .select('*, attendance(count)')
+      .eq('course_id', courseId)
+      .in('attendance.status', ATTENDED_STATUSES)
+      .order('starts_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(({ attendance, ...lecture }) => ({
+      ...(lecture as Lecture),
+      attendance_count: attendance[0]?.count ?? 0,
+    }));
+  },
+
+  async getBySchedule(scheduleId: string): Promise<LectureWithCount[]> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const lectures = (await db.getAll('lectures')).filter((l) => l.schedule_id === scheduleId);
+      return Promise.all(
+        lectures.map(async (lecture) => ({
+          ...lecture,
+          attendance_count: await countAttended(lecture.id),
+        }))
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('lectures')
+      .select('*, attendance(count)')
+      .eq('schedule_id', scheduleId)
+      .in('attendance.status', ATTENDED_STATUSES);
+    if (error) throw error;
+    return (data || []).map(({ attendance, ...lecture }) => ({
+      ...(lecture as Lecture),
+      attendance_count: attendance[0]?.count ?? 0,
+    }));
+  },
+
+  // Lectures of several courses with course details, optionally from a date or running at a time
+  async getByCourses(
+    courseIds: string[],
+    { since, activeAt }: { since?: Date; activeAt?: Date } = {}
+  ): Promise<LectureWithCourse[]> {
+    if (courseIds.length === 0) return [];
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      const courses = new Map((await db.getAll('courses')).map((c) => [c.id, c]));
+      const lectures = (
+        await Promise.all(courseIds.map((id) => db.getAllFromIndex('lectures', 'by-course', id)))
+      ).flat();
+      return lectures
+        .filter((l) => !since || new Date(l.starts_at) >= since)
+        .filter(
+          (l) => !activeAt || (new Date(l.starts_at) <= activeAt && new Date(l.ends_at) >= activeAt)
+        )
+        .map((lecture) => {
+          const course = courses.get(lecture.course_id);
+          return {
+            ...lecture,
+            course: { code: course?.code ?? '', title: course?.title ?? '', teacher: course?.teacher ?? '' },
+          };
+        });
+    }
+
+    let query = supabase
+      .from('lectures')
+      .select('*, courses!inner(code, title, teacher)')
+      .in('course_id', courseIds);
+    if (since) query = query.gte('starts_at', since.toISOString());
+    if (activeAt) {
+      query = query.lte('starts_at', activeAt.toISOString()).gte('ends_at', activeAt.toISOString());
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(({ courses, ...lecture }) => ({
+      ...(lecture as Lecture),
+      course: courses,
+    }));
+  },
+
+  async getById(id: string): Promise<Lecture | null> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      return (await db.get('lectures', id)) ?? null;
+    }
+    const { data, error } = await supabase.from('lectures').select('*').eq('id', id).maybeSingle();
+    if (error) throw error;
+    return data as Lecture | null;
+  },
+
+  async getWithCourse(id: string): Promise<LectureWithCourse | null> {
+    const lecture = await lecturesAPI.getById(id);
+    if (!lecture) return null;
+    const course = await coursesAPI.getById(lecture.course_id);
+    if (!course) return null;
+    return { ...lecture, course: { code: course.code, title: course.title, teacher: course.teacher } };
+  },
+
+  async create(lecture: Omit<Lecture, 'id' | 'created_at'>): Promise<Lecture> {
+    const [created] = await lecturesAPI.createMany([lecture]);
+    return created;
+  },
+
+  async createMany(lectures: Omit<Lecture, 'id' | 'created_at'>[]): Promise<Lecture[]> {
+    const newLectures: Lecture[] = lectures.map((lecture) => ({
+      attendance_enabled: false,
+      is_exception: false,
+      ...lecture,
+      id: generateId(),
+      created_at: new Date().toISOString(),
+    }));
+    if (newLectures.length === 0) return [];
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      const tx = db.transaction('lectures', 'readwrite');
+      await Promise.all([
+        ...newLectures.map((lecture) =>
+          tx.store.add({
+            ...lecture,
+            created_at: lecture.created_at!,
+            updated_at: lecture.created_at,
+            room: lecture.room || null,
+          })
+        ),
+        tx.done,
+      ]);
+      await trackChanges('lectures', newLectures.map((l) => l.id), 'upsert');
+      return newLectures;
+    }
+
+    const { data, error } = await supabase.from('lectures').insert(newLectures).select();
+    if (error) throw error;
+    return (data || []) as Lecture[];
+  },
+
+  async update(id: string, updates: Partial<Lecture>): Promise<Lecture> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const existing = await db.get('lectures', id);
+      if (!existing) throw new Error('Lecture not found');
+      const updated = { ...existing, ...updates, updated_at: new Date().toISOString() };
+      await db.put('lectures', updated);
+      await trackChange('lectures', id, 'upsert');
+      return updated;
+    }
+
+    const { data, error } = await supabase
+      .from('lectures')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data as Lecture;
+  },
+
+  async delete(id: string): Promise<void> {
+    await lecturesAPI.deleteMany([id]);
+  },
+
+  async deleteMany(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      for (const id of ids) {
+        // Mirror the on delete cascade of the Supabase schema
+        const attendanceKeys = await db.getAllKeysFromIndex('attendance', 'by-lecture', id);
+        await Promise.all(attendanceKeys.map((key) => db.delete('attendance', key)));
+        await db.delete('lectures', id);
+        await trackChanges('attendance', attendanceKeys, 'delete');
+        await trackChange('lectures', id, 'delete');
+      }
+      return;
+    }
+
+    const { error } = await supabase.from('lectures').delete().in('id', ids);
+    if (error) throw error;
+  },
+};
+
+// Lecture Schedules API
+export const lectureSchedulesAPI = {
+  async getByCourse(courseId: string): Promise<LectureSchedule[]> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const index = db.transaction('lecture_schedules').store.index('by-course');
+      const schedules = await index.getAll(courseId);
+      return schedules.sort((a, b) => a.created_at.localeCompare(b.created_at));
+    }
+    const { data, error } = await supabase
+      .from('lecture_schedules')
+      .select('*')
+      .eq('course_id', courseId)
+      .order('created_at');
+    if (error) throw error;
+    return data || [];
+  },
+
+  async create(schedule: Omit<LectureSchedule, 'id' | 'created_at'>): Promise<LectureSchedule> {
+    const newSchedule: LectureSchedule = {
+      ...schedule,
+      id: generateId(),
+      created_at: new Date().toISOString(),
+    };
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      await db.add('lecture_schedules', {
+        ...newSchedule,
+        created_at: newSchedule.created_at!,
+        updated_at: newSchedule.created_at,
+      });
+      await trackChange('lecture_schedules', newSchedule.id, 'upsert');
+      return newSchedule;
+    }
+
+    const { data, error } = await supabase.from('lecture_schedules').insert(newSchedule).select().single();
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id: string, updates: Partial<LectureSchedule>): Promise<LectureSchedule> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const existing = await db.get('lecture_schedules', id);
+      if (!existing) throw new Error('Schedule not found');
+      const updated = { ...existing, ...updates, updated_at: new Date().toISOString() };
+      await db.put('lecture_schedules', updated);
+      await trackChange('lecture_schedules', id, 'upsert');
+      return updated;
+    }
+
+    const { data, error } = await supabase
+      .from('lecture_schedules')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async delete(id: string): Promise<void> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      // Mirror on delete set null: generated lectures stay, detached from the schedule
+      const lectures = (await db.getAll('lectures')).filter((l) => l.schedule_id === id);
+      const now = new Date().toISOString();
+      await Promise.all(lectures.map((l) => db.put('lectures', { ...l, schedule_id: null, updated_at: now })));
+      await db.delete('lecture_schedules', id);
+      await trackChanges('lectures', lectures.map((l) => l.id), 'upsert');
+      await trackChange('lecture_schedules', id, 'delete');
+      return;
+    }
+
+    const { error } = await supabase.from('lecture_schedules').delete().eq('id', id);
+    if (error) throw error;
+  },
+};
+
+// Enrollments API
+export const enrollmentsAPI = {
+  async getByCourse(courseId: string): Promise<Enrollment[]> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const index = db.transaction('enrollments').store.index('by-course');
+      return index.getAll(courseId);
+    }
+    const { data, error } = await supabase
+      .from('enrollments')
+      .select('*')
+      .eq('course_id', courseId);
+    if (error) throw error;
+    return (data || []) as Enrollment[];
+  },
+
+  async getByStudent(studentId: string): Promise<Enrollment[]> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      const index = db.transaction('enrollments').store.index('by-student');
+      return index.getAll(studentId);
+    }
+    const { data, error } = await supabase
+      .from('enrollments')
+      .select('*')
+      .eq('student_id', studentId);
+    if (error) throw error;
+    return (data || []) as Enrollment[];
+  },
+
+  async getCoursesForStudent(studentId: string): Promise<Course[]> {
+    const enrollments = await enrollmentsAPI.getByStudent(studentId);
+    const courses = await Promise.all(enrollments.map((e) => coursesAPI.getById(e.course_id)));
+    return courses.filter((c): c is Course => !!c);
+  },
+
+  async create(enrollment: Omit<Enrollment, 'id' | 'created_at'>): Promise<Enrollment> {
     const newEnrollment: Enrollment = {
       ...enrollment,
       id: generateId(),
@@ -284,7 +1202,9 @@ export const enrollmentsAPI = {
       await db.add('enrollments', {
         ...newEnrollment,
         created_at: newEnrollment.created_at!,
+        updated_at: newEnrollment.created_at,
       });
+      await trackChange('enrollments', newEnrollment.id, 'upsert');
       return newEnrollment;
     }
 
@@ -294,7 +1214,33 @@ export const enrollmentsAPI = {
       .select()
       .single();
     if (error) throw error;
-    return data;
+    return data as Enrollment;
+  },
+
+  async createMany(enrollments: Omit<Enrollment, 'id' | 'created_at'>[]): Promise<Enrollment[]> {
+    const newEnrollments: Enrollment[] = enrollments.map((enrollment) => ({
+      ...enrollment,
+      id: generateId(),
+      created_at: new Date().toISOString(),
+    }));
+    if (newEnrollments.length === 0) return [];
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      const tx = db.transaction('enrollments', 'readwrite');
+      await Promise.all([
+        ...newEnrollments.map((enrollment) =>
+          tx.store.add({ ...enrollment, created_at: enrollment.created_at!, updated_at: enrollment.created_at })
+        ),
+        tx.done,
+      ]);
+      await trackChanges('enrollments', newEnrollments.map((e) => e.id), 'upsert');
+      return newEnrollments;
+    }
+
+    const { data, error } = await supabase.from('enrollments').insert(newEnrollments).select();
+    if (error) throw error;
+    return (data || []) as Enrollment[];
   },
 
   async delete(studentId: string, courseId: string): Promise<void> {
@@ -305,6 +1251,7 @@ export const enrollmentsAPI = {
       const enrollment = enrollments.find((e) => e.student_id === studentId);
       if (enrollment) {
         await db.delete('enrollments', enrollment.id);
+        await trackChange('enrollments', enrollment.id, 'delete');
       }
       return;
     }
@@ -331,11 +1278,121 @@ export const attendanceAPI = {
       .select('*')
       .eq('lecture_id', lectureId);
     if (error) throw error;
-    return data || [];
+    return (data || []) as Attendance[];
+  },
+
+  async getByLectures(lectureIds: string[]): Promise<Attendance[]> {
+    if (lectureIds.length === 0) return [];
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      const results = await Promise.all(
+        lectureIds.map((id) => db.getAllFromIndex('attendance', 'by-lecture', id))
+      );
+      return results.flat();
+    }
+    const { data, error } = await supabase
+      .from('attendance')
+      .select('*')
+      .in('lecture_id', lectureIds);
+    if (error) throw error;
+    return (data || []) as Attendance[];
+  },
+
+  async find(lectureId: string, studentId: string): Promise<Attendance | null> {
+    if (isLocalMode()) {
+      const records = await attendanceAPI.getByLecture(lectureId);
+      return records.find((a) => a.student_id === studentId) ?? null;
+    }
+    const { data, error } = await supabase
+      .from('attendance')
+      .select('*')
+      .eq('lecture_id', lectureId)
+      .eq('student_id', studentId)
+      .maybeSingle();
+    if (error) throw error;
+    return data as Attendance | null;
+  },
+
+  // Attendance joined with student, lecture and course, newest first
+  async getDetails(filter: AttendanceFilter): Promise<AttendanceDetail[]> {
+    if (filter.courseIds && filter.courseIds.length === 0) return [];
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      const [records, students, lectures, courses] = await Promise.all([
+        db.getAll('attendance'),
+        db.getAll('students'),
+        db.getAll('lectures'),
+        db.getAll('courses'),
+      ]);
+      const studentMap = new Map(students.map((s) => [s.id, s]));
+      const lectureMap = new Map(lectures.map((l) => [l.id, l]));
+      const courseMap = new Map(courses.map((c) => [c.id, c]));
+
+      return records
+        .filter((a) => !filter.lectureId || a.lecture_id === filter.lectureId)
+        .filter((a) => !filter.studentId || a.student_id === filter.studentId)
+        .filter((a) => !filter.since || new Date(a.marked_at) >= filter.since)
+        .filter((a) => !filter.status || statusOf(a) === filter.status)
+        .flatMap((a) => {
+          const student = studentMap.get(a.student_id);
+          const lecture = lectureMap.get(a.lecture_id);
+          const course = lecture && courseMap.get(lecture.course_id);
+          if (!student || !lecture || !course) return [];
+          if (filter.courseIds && !filter.courseIds.includes(course.id)) return [];
+          return [
+            {
+              ...a,
+              student: { roll_no: student.roll_no, name: student.name, photo_url: student.photo_url ?? null },
+              lecture: {
+                starts_at: lecture.starts_at,
+                ends_at: lecture.ends_at,
+                room: lecture.room,
+                course_id: lecture.course_id,
+                course: { code: course.code, title: course.title },
+              },
+            },
+          ];
+        })
+        .sort((a, b) => b.marked_at.localeCompare(a.marked_at));
+    }
+
+    let query = supabase
+      .from('attendance')
+      .select(`
+        *,
+        students!inner(roll_no, name, photo_url),
+        lectures!inner(starts_at, ends_at, room, course_id, courses!inner(code, title))
+      `)
+      .order('marked_at', { ascending: false });
+
+    if (filter.lectureId) query = query.eq('lecture_id', filter.lectureId);
+    if (filter.studentId) query = query.eq('student_id', filter.studentId);
+    if (filter.courseIds) query = query.in('lectures.course_id', filter.courseIds);
+    if (filter.since) query = query.gte('marked_at', filter.since.toISOString());
+    if (filter.status) query = query.eq('status', filter.status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return snapshotsAPI.withSignedUrls(
+      (data || []).map(({ students, lectures, ...record }) => ({
+        ...(record as Attendance),
+        student: students,
+        lecture: {
+          starts_at: lectures.starts_at,
+          ends_at: lectures.ends_at,
+          room: lectures.room,
+          course_id: lectures.course_id ?? '',
+          course: lectures.courses,
+        },
+      }))
+    );
   },
 
-  async create(attendance: Omit<Attendance, 'id' | 'created_at'>): Promise<Attendance> {
+  async create(attendance: Omit<Attendance, 'id' | 'created_at'>, audit: AuditContext = {}): Promise<Attendance> {
     const newAttendance: Attendance = {
+      status: 'present',
       ...attendance,
       id: generateId(),
       created_at: new Date().toISOString(),
@@ -343,12 +1400,20 @@ export const attendanceAPI = {
 
     if (isLocalMode()) {
       const db = await getDB();
-      await db.add('attendance', {
+      const record: LocalAttendance = {
         ...newAttendance,
         created_at: newAttendance.created_at!,
+        updated_at: newAttendance.created_at,
         confidence: newAttendance.confidence || null,
         method: newAttendance.method || null,
-      });
+      };
+      const tx = db.transaction(['attendance', 'attendance_audit'], 'readwrite');
+      await Promise.all([
+        tx.objectStore('attendance').add(record),
+        tx.objectStore('attendance_audit').add(auditEntry('create', null, record, audit)),
+        tx.done,
+      ]);
+      await trackChange('attendance', newAttendance.id, 'upsert');
       return newAttendance;
     }
 
@@ -358,17 +1423,23 @@ export const attendanceAPI = {
       .select()
       .single();
     if (error) throw error;
-    return data;
+    return data as Attendance;
   },
 
-  async delete(lectureId: string, studentId: string): Promise<void> {
+  async delete(lectureId: string, studentId: string, audit: AuditContext = {}): Promise<void> {
     if (isLocalMode()) {
       const db = await getDB();
       const index = db.transaction('attendance').store.index('by-lecture');
       const records = await index.getAll(lectureId);
       const record = records.find((a) => a.student_id === studentId);
       if (record) {
-        await db.delete('attendance', record.id);
+        const tx = db.transaction(['attendance', 'attendance_audit'], 'readwrite');
+        await Promise.all([
+          tx.objectStore('attendance').delete(record.id),
+          tx.objectStore('attendance_audit').add(auditEntry('delete', record, null, audit)),
+          tx.done,
+        ]);
+        await trackChange('attendance', record.id, 'delete');
       }
       return;
     }
@@ -380,6 +1451,599 @@ export const attendanceAPI = {
       .eq('student_id', studentId);
     if (error) throw error;
   },
+
+  // Present or late for a mark taken at markedAt, per the lecture's course cutoff
+  async statusForMark(lectureId: string, markedAt: string): Promise<AttendanceStatus> {
+    const lecture = await lecturesAPI.getById(lectureId);
+    if (!lecture) return 'present';
+    const course = await coursesAPI.getById(lecture.course_id);
+    return statusForMark(lecture.starts_at, markedAt, course?.late_cutoff_minutes);
+  },
+
+  // Teacher override from the manual dialog; null clears the student's record. The reason
+  // ends up in the attendance history.
+  async setStatus(
+    lectureId: string,
+    studentId: string,
+    status: AttendanceStatus | null,
+    audit: Omit<AuditContext, 'source'> = {}
+  ): Promise<void> {
+    if (!isLocalMode()) {
+      const { error } = await supabase.rpc('set_attendance_status', {
+        p_lecture_id: lectureId,
+        p_student_id: studentId,
+        p_status: status,
+        p_reason: audit.reason?.trim() || undefined,
+      });
+      if (error) throw error;
+      return;
+    }
+
+    const manual: AuditContext = { ...audit, source: 'manual' };
+    if (!status) return attendanceAPI.delete(lectureId, studentId, manual);
+
+    const existing = await attendanceAPI.find(lectureId, studentId);
+    if (!existing) {
+      await attendanceAPI.create(
+        {
+          lecture_id: lectureId,
+          student_id: studentId,
+          status,
+          method: 'manual',
+          confidence: null,
+          marked_at: new Date().toISOString(),
+        },
+        manual
+      );
+      return;
+    }
+
+    const db = await getDB();
+    const record = await db.get('attendance', existing.id);
+    if (!record || record.status === status) return;
+    const updated = { ...record, status, updated_at: new Date().toISOString() };
+    const tx = db.transaction(['attendance', 'attendance_audit'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('attendance').put(updated),
+      tx.objectStore('attendance_audit').add(auditEntry('update', record, updated, manual)),
+      tx.done,
+    ]);
+    await trackChange('attendance', existing.id, 'upsert');
+  },
+
+  // Settles a borderline face match. Accepted marks become present or late; rejected ones become
+  // absent once the lecture is over, and are removed while it runs so the student can still check
+  // in. Returns the new status, or null when the mark was removed. Mirrors review_attendance_match.
+  async reviewMatch(id: string, accept: boolean, actorId: string): Promise<AttendanceStatus | null> {
+    if (!isLocalMode()) {
+      const { data, error } = await supabase.rpc('review_attendance_match', {
+        p_attendance_id: id,
+        p_accept: accept,
+      });
+      if (error) throw error;
+      return data ? statusOf({ status: data }) : null;
+    }
+
+    const db = await getDB();
+    const record = await db.get('attendance', id);
+    if (!record || record.status !== 'pending') throw new Error('This mark is not waiting for review');
+
+    const audit: AuditContext = {
+      source: 'manual',
+      actorId,
+      reason: accept ? 'Face match accepted in review' : 'Face match rejected in review',
+    };
+    const lecture = await lecturesAPI.getById(record.lecture_id);
+    if (!accept && lecture && new Date(lecture.ends_at) >= new Date()) {
+      await attendanceAPI.delete(record.lecture_id, record.student_id, audit);
+      return null;
+    }
+
+    const status = accept ? await attendanceAPI.statusForMark(record.lecture_id, record.marked_at) : 'absent';
+    const updated = { ...record, status, updated_at: new Date().toISOString() };
+    const tx = db.transaction(['attendance', 'attendance_audit'], 'readwrite');
+    await Promise.all([
+      tx.objectStore('attendance').put(updated),
+      tx.objectStore('attendance_audit').add(auditEntry('update', record, updated, audit)),
+      tx.done,
+    ]);
+    await trackChange('attendance', id, 'upsert');
+    return status;
+  },
+
+  // Clears snapshots older than their course's retention period from the records; marks waiting
+  // for review keep theirs. Supabase does this on a schedule, deleting the files too; Local Mode
+  // catches up whenever lectures are looked at. Returns how many were purged.
+  async purgeExpiredSnapshots(): Promise<number> {
+    if (!isLocalMode()) return 0;
+
+    const db = await getDB();
+    const now = new Date();
+    const audit: AuditContext = { source: 'system', reason: 'Snapshot retention period ended' };
+    const purged: LocalAttendance[] = [];
+    const entries: AttendanceDB['attendance_audit']['value'][] = [];
+
+    for (const course of await db.getAll('courses')) {
+      if (course.snapshot_retention_days == null) continue;
+      const cutoff = now.getTime() - course.snapshot_retention_days * 24 * 60 * 60 * 1000;
+      for (const lecture of await db.getAllFromIndex('lectures', 'by-course', course.id)) {
+        for (const record of await db.getAllFromIndex('attendance', 'by-lecture', lecture.id)) {
+          if (!record.photo_url || record.status === 'pending' || new Date(record.marked_at).getTime() >= cutoff) continue;
+          const updated = { ...record, photo_url: null, updated_at: now.toISOString() };
+          purged.push(updated);
+          entries.push(auditEntry('update', record, updated, audit));
+        }
+      }
+    }
+    if (purged.length === 0) return 0;
+
+    const tx = db.transaction(['attendance', 'attendance_audit'], 'readwrite');
+    await Promise.all([
+      ...purged.map((a) => tx.objectStore('attendance').put(a)),
+      ...entries.map((e) => tx.objectStore('attendance_audit').add(e)),
+      tx.done,
+    ]);
+    await trackChanges('attendance', purged.map((a) => a.id), 'upsert');
+    return purged.length;
+  },
+
+  // Record enrolled students without a mark as absent (or excused) once a lecture has ended. Supabase
+  // does this on a schedule; Local Mode catches up whenever attendance is looked at.
+  async finalizeEndedLectures(): Promise<number> {
+    if (!isLocalMode()) return 0;
+
+    const db = await getDB();
+    const now = new Date();
+    const ended = (await db.getAll('lectures')).filter((l) => !l.finalized_at && new Date(l.ends_at) < now);
+    let recorded = 0;
+
+    for (const lecture of ended) {
+      const [enrollments, records, excuses] = await Promise.all([
+        db.getAllFromIndex('enrollments', 'by-course', lecture.course_id),
+        db.getAllFromIndex('attendance', 'by-lecture', lecture.id),
+        db.getAllFromIndex('excuse_requests', 'by-course', lecture.course_id),
+      ]);
+      const marked = new Set(records.map((a) => a.student_id));
+      const excused = new Set(
+        excuses.filter((r) => r.status === 'approved' && excuseCovers(r, lecture)).map((r) => r.student_id)
+      );
+      const absences = enrollments
+        .filter((e) => !marked.has(e.student_id))
+        .map((e) => ({
+          id: generateId(),
+          lecture_id: lecture.id,
+          student_id: e.student_id,
+          status: excused.has(e.student_id) ? ('excused' as const) : ('absent' as const),
+          method: 'auto',
+          confidence: null,
+          marked_at: lecture.ends_at,
+          created_at: now.toISOString(),
+          updated_at: now.toISOString(),
+        }));
+
+      const tx = db.transaction(['attendance', 'attendance_audit', 'lectures'], 'readwrite');
+      await Promise.all([
+        ...absences.map((a) => tx.objectStore('attendance').add(a)),
+        ...absences.map((a) => tx.objectStore('attendance_audit').add(auditEntry('create', null, a, {}))),
+        tx.objectStore('lectures').put({ ...lecture, finalized_at: now.toISOString(), updated_at: now.toISOString() }),
+        tx.done,
+      ]);
+      await trackChanges('attendance', absences.map((a) => a.id), 'upsert');
+      await trackChange('lectures', lecture.id, 'upsert');
+      recorded += absences.length;
+    }
+
+    return recorded;
+  },
+};
+
+// Attendance Audit API: read-only, entries are written alongside every attendance change
+export const attendanceAuditAPI = {
+  async getByLecture(lectureId: string): Promise<AttendanceAuditDetail[]> {
+    let entries: AttendanceAuditEntry[];
+    let students: Pick<Student, 'id' | 'roll_no' | 'name'>[];
+    let teachers: { id: string; name: string }[];
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      entries = await db.getAllFromIndex('attendance_audit', 'by-lecture', lectureId);
+      [students, teachers] = await Promise.all([db.getAll('students'), db.getAll('teachers')]);
+    } else {
+      const { data, error } = await supabase
+        .from('attendance_audit')
+        .select('*')
+        .eq('lecture_id', lectureId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      entries = (data || []) as AttendanceAuditEntry[];
+
+      const studentIds = [...new Set(entries.map((e) => e.student_id))];
+      const actorIds = [...new Set(entries.flatMap((e) => (e.actor_id ? [e.actor_id] : [])))];
+      const [studentResult, teacherResult] = await Promise.all([
+        supabase.from('students').select('id, roll_no, name').in('id', studentIds),
+        supabase.from('teachers').select('id, name').in('id', actorIds),
+      ]);
+      if (studentResult.error) throw studentResult.error;
+      if (teacherResult.error) throw teacherResult.error;
+      students = studentResult.data || [];
+      teachers = teacherResult.data || [];
+    }
+
+    const studentMap = new Map(students.map((s) => [s.id, { roll_no: s.roll_no, name: s.name }]));
+    const teacherNames = new Map(teachers.map((t) => [t.id, t.name]));
+    return entries
+      .map((entry) => {
+        const student = studentMap.get(entry.student_id) ?? null;
+        return {
+          ...entry,
+          student,
+          // A self check-in is the student's own doing; anything else was a teacher or nobody
+          actor_name:
+            entry.source === 'self' ? student?.name ?? null : entry.actor_id ? teacherNames.get(entry.actor_id) ?? null : null,
+        };
+      })
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+};
+
+// Ambiguous Matches API: recorded by kiosks, read by the look-alike report. In Supabase the
+// kiosk reports through the kiosk-device function, as it has no user to write as.
+export const ambiguousMatchesAPI = {
+  async getRecent(limit = 200): Promise<AmbiguousMatchDetail[]> {
+    let matches: AmbiguousMatch[];
+    let students: Pick<Student, 'id' | 'roll_no' | 'name'>[];
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      matches = (await db.getAll('ambiguous_matches'))
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit);
+      students = await db.getAll('students');
+    } else {
+      const { data, error } = await supabase
+        .from('ambiguous_matches')
+        .select('id, lecture_id, student_id, distance, runner_up_id, runner_up_distance, created_at')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+      matches = data || [];
+
+      const studentIds = [...new Set(matches.flatMap((m) => [m.student_id, m.runner_up_id]))];
+      const { data: studentData, error: studentError } = await supabase
+        .from('students')
+        .select('id, roll_no, name')
+        .in('id', studentIds);
+      if (studentError) throw studentError;
+      students = studentData || [];
+    }
+
+    const studentMap = new Map(students.map((s) => [s.id, { roll_no: s.roll_no, name: s.name }]));
+    return matches.map((match) => ({
+      ...match,
+      student: studentMap.get(match.student_id) ?? null,
+      runner_up: studentMap.get(match.runner_up_id) ?? null,
+    }));
+  },
+
+  async record(match: Omit<AmbiguousMatch, 'id' | 'created_at'>): Promise<void> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      await db.add('ambiguous_matches', { ...match, id: generateId(), created_at: new Date().toISOString() });
+      return;
+    }
+    await kioskDevice.reportAmbiguousMatch(match);
+  },
+};
+
+// How long a pairing code stays valid once issued
+const PAIRING_CODE_TTL_MS = 15 * 60 * 1000;
+const KIOSK_DEVICE_COLUMNS =
+  'id, name, course_id, room, created_at, pairing_expires_at, paired_at, last_seen_at, revoked_at';
+
+// Kiosk Devices API: Supabase only, a Local Mode kiosk is the machine holding the data
+export const kioskDevicesAPI = {
+  async getAll(): Promise<KioskDevice[]> {
+    if (isLocalMode()) return [];
+    const { data, error } = await supabase
+      .from('kiosk_devices')
+      .select(KIOSK_DEVICE_COLUMNS)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Registers the device and returns the one-time code the kiosk pairs with
+  async create(device: Pick<KioskDevice, 'name' | 'course_id' | 'room'>): Promise<{ device: KioskDevice; pairingCode: string }> {
+    if (isLocalMode()) throw new Error('Kiosk devices can only be registered when connected to Supabase');
+
+    const pairingCode = generatePairingCode();
+    const { data, error } = await supabase
+      .from('kiosk_devices')
+      .insert({
+        ...device,
+        pairing_code_hash: await sha256Hex(normalizePairingCode(pairingCode)),
+        pairing_expires_at: new Date(Date.now() + PAIRING_CODE_TTL_MS).toISOString(),
+      })
+      .select(KIOSK_DEVICE_COLUMNS)
+      .single();
+    if (error) throw error;
+    return { device: data, pairingCode };
+  },
+
+  // A fresh code re-pairs the device; its current token stops working once it does
+  async issuePairingCode(id: string): Promise<string> {
+    const pairingCode = generatePairingCode();
+    const { error } = await supabase
+      .from('kiosk_devices')
+      .update({
+        pairing_code_hash: await sha256Hex(normalizePairingCode(pairingCode)),
+        pairing_expires_at: new Date(Date.now() + PAIRING_CODE_TTL_MS).toISOString(),
+        revoked_at: null,
+      })
+      .eq('id', id);
+    if (error) throw error;
+    return pairingCode;
+  },
+
+  async update(id: string, updates: Partial<Pick<KioskDevice, 'name' | 'course_id' | 'room'>>): Promise<void> {
+    const { error } = await supabase.from('kiosk_devices').update(updates).eq('id', id);
+    if (error) throw error;
+  },
+
+  // Revoking drops the token and any outstanding code, so the device cannot mark again until re-paired
+  async revoke(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('kiosk_devices')
+      .update({
+        revoked_at: new Date().toISOString(),
+        token_hash: null,
+        pairing_code_hash: null,
+        pairing_expires_at: null,
+      })
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase.from('kiosk_devices').delete().eq('id', id);
+    if (error) throw error;
+  },
 };
 
+const EXCUSE_BUCKET = 'excuse-attachments';
+// Signed links to private attachments only need to outlive a look at the file
+const ATTACHMENT_LINK_TTL_SECONDS = 10 * 60;
+const EXCUSE_REQUEST_COLUMNS = `
+  *,
+  students!inner(roll_no, name),
+  courses!inner(code, title),
+  lectures(starts_at, ends_at)
+`;
+
+async function withExcuseDetails(requests: ExcuseRequest[]): Promise<ExcuseRequestDetail[]> {
+  const db = await getDB();
+  const details = await Promise.all(
+    requests.map(async (request) => {
+      const [student, course, lecture] = await Promise.all([
+        db.get('students', request.student_id),
+        db.get('courses', request.course_id),
+        request.lecture_id ? db.get('lectures', request.lecture_id) : undefined,
+      ]);
+      if (!student || !course) return null;
+      return {
+        ...request,
+        student: { roll_no: student.roll_no, name: student.name },
+        course: { code: course.code, title: course.title },
+        lecture: lecture ? { starts_at: lecture.starts_at, ends_at: lecture.ends_at } : null,
+      };
+    })
+  );
+  return details
+    .filter((d): d is ExcuseRequestDetail => d !== null)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+// Local Mode counterpart of the apply_approved_excuse trigger: absences in covered lectures
+// become excused, and covered lectures that were finalized without a row get one
+async function applyApprovedExcuse(excuse: ExcuseRequest): Promise<void> {
+  const audit: AuditContext = { source: 'system', actorId: excuse.reviewed_by, reason: 'Excuse approved' };
+  const db = await getDB();
+  const now = new Date().toISOString();
+  const lectures = (await db.getAllFromIndex('lectures', 'by-course', excuse.course_id)).filter((l) =>
+    excuseCovers(excuse, l)
+  );
+  const records = await db.getAllFromIndex('attendance', 'by-student', excuse.student_id);
+  const byLecture = new Map(records.map((a) => [a.lecture_id, a]));
+
+  const changed = lectures.flatMap((lecture) => {
+    const existing = byLecture.get(lecture.id);
+    if (existing) {
+      if (existing.status !== 'absent') return [];
+      const updated = { ...existing, status: 'excused' as const, updated_at: now };
+      return [{ record: updated, audit: auditEntry('update', existing, updated, audit) }];
+    }
+    if (!lecture.finalized_at) return [];
+    const record: LocalAttendance = {
+      id: generateId(),
+      lecture_id: lecture.id,
+      student_id: excuse.student_id,
+      status: 'excused',
+      method: 'excuse',
+      confidence: null,
+      marked_at: lecture.ends_at,
+      created_at: now,
+      updated_at: now,
+    };
+    return [{ record, audit: auditEntry('create', null, record, audit) }];
+  });
+  if (changed.length === 0) return;
+
+  const tx = db.transaction(['attendance', 'attendance_audit'], 'readwrite');
+  await Promise.all([
+    ...changed.map((c) => tx.objectStore('attendance').put(c.record)),
+    ...changed.map((c) => tx.objectStore('attendance_audit').add(c.audit)),
+    tx.done,
+  ]);
+  await trackChanges('attendance', changed.map((c) => c.record.id), 'upsert');
+}
+
+// Excuse Requests API
+export const excuseRequestsAPI = {
+  async getByStudent(studentId: string): Promise<ExcuseRequestDetail[]> {
+    if (isLocalMode()) {
+      const db = await getDB();
+      return withExcuseDetails(await db.getAllFromIndex('excuse_requests', 'by-student', studentId));
+    }
+    const { data, error } = await supabase
+      .from('excuse_requests')
+      .select(EXCUSE_REQUEST_COLUMNS)
+      .eq('student_id', studentId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []).map(({ students, courses, lectures, ...request }) => ({
+      ...(request as ExcuseRequest),
+      student: students,
+      course: courses,
+      lecture: lectures,
+    }));
+  },
+
+  // The review queue: requests for the given courses, optionally only those with one status
+  async getForCourses(courseIds: string[], status?: ExcuseStatus): Promise<ExcuseRequestDetail[]> {
+    if (courseIds.length === 0) return [];
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      const requests = await Promise.all(
+        courseIds.map((id) => db.getAllFromIndex('excuse_requests', 'by-course', id))
+      );
+      return withExcuseDetails(requests.flat().filter((r) => !status || r.status === status));
+    }
 
+    let query = supabase
+      .from('excuse_requests')
+      .select(EXCUSE_REQUEST_COLUMNS)
+      .in('course_id', courseIds)
+      .order('created_at', { ascending: false });
+    if (status) query = query.eq('status', status);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(({ students, courses, lectures, ...request }) => ({
+      ...(request as ExcuseRequest),
+      student: students,
+      course: courses,
+      lecture: lectures,
+    }));
+  },
+
+  async create(
+    request: Pick<ExcuseRequest, 'student_id' | 'course_id' | 'lecture_id' | 'covers_from' | 'covers_until' | 'reason'>,
+    attachment?: File | null
+  ): Promise<ExcuseRequest> {
+    const id = generateId();
+
+    if (isLocalMode()) {
+      const newRequest: ExcuseRequest = {
+        ...request,
+        id,
+        attachment_url: attachment ? await photosAPI.upload(attachment.name, attachment) : null,
+        status: 'pending',
+        reviewer_comment: null,
+        reviewed_by: null,
+        reviewed_at: null,
+        created_at: new Date().toISOString(),
+      };
+      const db = await getDB();
+      await db.add('excuse_requests', newRequest);
+      return newRequest;
+    }
+
+    // Storage policies only let a student write under their own id
+    let attachmentPath: string | null = null;
+    if (attachment) {
+      attachmentPath = `${request.student_id}/${id}-${attachment.name.replace(/[^\w.-]+/g, '_')}`;
+      const { error } = await supabase.storage
+        .from(EXCUSE_BUCKET)
+        .upload(attachmentPath, attachment, { contentType: attachment.type || undefined });
+      if (error) throw error;
+    }
+
+    const { data, error } = await supabase
+      .from('excuse_requests')
+      .insert({ ...request, id, attachment_url: attachmentPath })
+      .select()
+      .single();
+    if (error) {
+      if (attachmentPath) await supabase.storage.from(EXCUSE_BUCKET).remove([attachmentPath]);
+      throw error;
+    }
+    return data as ExcuseRequest;
+  },
+
+  // Students can take back a request until it has been reviewed
+  async withdraw(request: ExcuseRequest): Promise<void> {
+    if (request.status !== 'pending') throw new Error('Only pending requests can be withdrawn');
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      await db.delete('excuse_requests', request.id);
+      return;
+    }
+
+    const { error } = await supabase.from('excuse_requests').delete().eq('id', request.id);
+    if (error) throw error;
+    if (request.attachment_url) {
+      await supabase.storage.from(EXCUSE_BUCKET).remove([request.attachment_url]);
+    }
+  },
+
+  // Decisions are final; approving marks the covered absences as excused
+  async review(
+    id: string,
+    decision: { status: Exclude<ExcuseStatus, 'pending'>; comment: string | null; reviewerId: string }
+  ): Promise<ExcuseRequest> {
+    const review = {
+      status: decision.status,
+      reviewer_comment: decision.comment,
+      reviewed_by: decision.reviewerId,
+      reviewed_at: new Date().toISOString(),
+    };
+
+    if (isLocalMode()) {
+      const db = await getDB();
+      const existing = await db.get('excuse_requests', id);
+      if (!existing) throw new Error('Excuse request not found');
+      if (existing.status !== 'pending') throw new Error('This request has already been reviewed');
+
+      const reviewed = { ...existing, ...review };
+      await db.put('excuse_requests', reviewed);
+      if (reviewed.status === 'approved') await applyApprovedExcuse(reviewed);
+      return reviewed;
+    }
+
+    // The apply_approved_excuse trigger updates attendance on approval
+    const { data, error } = await supabase
+      .from('excuse_requests')
+      .update(review)
+      .eq('id', id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new Error('This request has already been reviewed');
+    return data as ExcuseRequest;
+  },
+
+  // Local attachments are data URLs; Supabase ones live in a private bucket behind signed links
+  async attachmentUrl(request: Pick<ExcuseRequest, 'attachment_url'>): Promise<string | null> {
+    if (!request.attachment_url) return null;
+    if (request.attachment_url.startsWith('data:')) return request.attachment_url;
+
+    const { data, error } = await supabase.storage
+      .from(EXCUSE_BUCKET)
+      .createSignedUrl(request.attachment_url, ATTACHMENT_LINK_TTL_SECONDS);
+    if (error) throw error;
+    return data.signedUrl;
+  },
+};
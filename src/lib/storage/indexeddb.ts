@@ -1,17 +1,54 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { Json } from '@/integrations/supabase/types';
 
-interface AttendanceDB extends DBSchema {
+export interface AttendanceDB extends DBSchema {
   students: {
     key: string;
     value: {
       id: string;
       roll_no: string;
       name: string;
+      email?: string | null;
+      user_id?: string | null;
       embedding: number[] | null;
+      photo_url?: string | null;
       created_at: string;
+      updated_at?: string;
     };
     indexes: { 'by-roll-no': string };
   };
+  student_credentials: {
+    key: string;
+    value: {
+      student_id: string;
+      password_hash: string;
+      salt: string;
+      created_at: string;
+    };
+  };
+  teacher_credentials: {
+    key: string;
+    value: {
+      teacher_id: string;
+      password_hash: string;
+      salt: string;
+      created_at: string;
+    };
+  };
+  student_embeddings: {
+    key: string;
+    value: {
+      id: string;
+      student_id: string;
+      embedding: number[];
+      photo_url: string | null;
+      label: string | null;
+      quality?: number | null;
+      created_at: string;
+      updated_at?: string;
+    };
+    indexes: { 'by-student': string };
+  };
   courses: {
     key: string;
     value: {
@@ -19,7 +56,10 @@ interface AttendanceDB extends DBSchema {
       code: string;
       title: string;
       teacher: string;
+      late_cutoff_minutes?: number | null;
+      snapshot_retention_days?: number | null;
       created_at: string;
+      updated_at?: string;
     };
     indexes: { 'by-code': string };
   };
@@ -31,10 +71,36 @@ interface AttendanceDB extends DBSchema {
       starts_at: string;
       ends_at: string;
       room: string | null;
+      latitude?: number | null;
+      longitude?: number | null;
+      radius?: number | null;
+      attendance_enabled?: boolean;
+      schedule_id?: string | null;
+      occurrence_date?: string | null;
+      is_exception?: boolean;
+      finalized_at?: string | null;
       created_at: string;
+      updated_at?: string;
     };
     indexes: { 'by-course': string; 'by-date': string };
   };
+  lecture_schedules: {
+    key: string;
+    value: {
+      id: string;
+      course_id: string;
+      weekdays: number[];
+      start_time: string;
+      duration_minutes: number;
+      room: string | null;
+      term_start: string;
+      term_end: string;
+      excluded_dates: string[];
+      created_at: string;
+      updated_at?: string;
+    };
+    indexes: { 'by-course': string };
+  };
   enrollments: {
     key: string;
     value: {
@@ -42,6 +108,7 @@ interface AttendanceDB extends DBSchema {
       student_id: string;
       course_id: string;
       created_at: string;
+      updated_at?: string;
     };
     indexes: { 'by-student': string; 'by-course': string };
   };
@@ -54,7 +121,12 @@ interface AttendanceDB extends DBSchema {
       marked_at: string;
       confidence: number | null;
       method: string | null;
+      liveness?: Json | null;
+      photo_url?: string | null;
+      idempotency_key?: string | null;
+      status?: 'present' | 'late' | 'excused' | 'absent' | 'pending';
       created_at: string;
+      updated_at?: string;
     };
     indexes: { 'by-student': string; 'by-lecture': string; 'by-date': string };
   };
@@ -68,14 +140,128 @@ interface AttendanceDB extends DBSchema {
     };
     indexes: { 'by-email': string };
   };
+  attendance_outbox: {
+    key: string;
+    value: {
+      id: string;
+      lecture_id: string;
+      student_id: string;
+      descriptor: number[];
+      liveness: Json;
+      method: string;
+      confidence: number;
+      frame?: string | null;
+      captured_at: string;
+      status: 'pending' | 'synced' | 'rejected';
+      attempts: number;
+      last_error: string | null;
+      synced_at: string | null;
+    };
+    indexes: { 'by-lecture': string; 'by-status': string };
+  };
+  kiosk_rosters: {
+    key: string;
+    value: {
+      lecture_id: string;
+      students: {
+        id: string;
+        roll_no: string;
+        name: string;
+        gallery: number[][];
+      }[];
+      cached_at: string;
+    };
+  };
+  sync_changes: {
+    key: string;
+    value: {
+      key: string; // `${table}:${row_id}`, so repeated edits of a row collapse into one change
+      table: string;
+      row_id: string;
+      op: 'upsert' | 'delete';
+      changed_at: string;
+      attempts: number;
+      last_error: string | null;
+    };
+    indexes: { 'by-changed-at': string };
+  };
+  sync_state: {
+    key: string;
+    value: {
+      key: string;
+      value: string;
+    };
+  };
+  excuse_requests: {
+    key: string;
+    value: {
+      id: string;
+      student_id: string;
+      course_id: string;
+      lecture_id: string | null;
+      covers_from: string;
+      covers_until: string;
+      reason: string;
+      attachment_url: string | null;
+      status: 'pending' | 'approved' | 'rejected';
+      reviewer_comment: string | null;
+      reviewed_by: string | null;
+      reviewed_at: string | null;
+      created_at: string;
+    };
+    indexes: { 'by-student': string; 'by-course': string };
+  };
+  attendance_audit: {
+    key: string;
+    value: {
+      id: string;
+      attendance_id: string;
+      lecture_id: string;
+      student_id: string;
+      action: 'create' | 'update' | 'delete';
+      source: 'kiosk' | 'self' | 'manual' | 'system';
+      actor_id: string | null;
+      before: Json | null;
+      after: Json | null;
+      reason: string | null;
+      created_at: string;
+    };
+    indexes: { 'by-lecture': string; 'by-student': string };
+  };
+  ambiguous_matches: {
+    key: string;
+    value: {
+      id: string;
+      lecture_id: string;
+      student_id: string;
+      distance: number;
+      runner_up_id: string;
+      runner_up_distance: number;
+      created_at: string;
+    };
+    indexes: { 'by-lecture': string };
+  };
+  course_teachers: {
+    key: [string, string];
+    value: {
+      course_id: string;
+      teacher_id: string;
+      role: 'owner' | 'assistant';
+      created_at: string;
+    };
+    indexes: { 'by-course': string; 'by-teacher': string };
+  };
 }
 
+// Bump when stores or indexes change; also recorded in exported archives
+export const DB_VERSION = 11;
+
 let dbInstance: IDBPDatabase<AttendanceDB> | null = null;
 
 export async function getDB(): Promise<IDBPDatabase<AttendanceDB>> {
   if (dbInstance) return dbInstance;
 
-  dbInstance = await openDB<AttendanceDB>('attendance-db', 1, {
+  dbInstance = await openDB<AttendanceDB>('attendance-db', DB_VERSION, {
     upgrade(db) {
       // Students store
       if (!db.objectStoreNames.contains('students')) {
@@ -83,6 +269,22 @@ export async function getDB(): Promise<IDBPDatabase<AttendanceDB>> {
         studentStore.createIndex('by-roll-no', 'roll_no', { unique: true });
       }
 
+      // Student embeddings store (enrollment gallery)
+      if (!db.objectStoreNames.contains('student_embeddings')) {
+        const embeddingStore = db.createObjectStore('student_embeddings', { keyPath: 'id' });
+        embeddingStore.createIndex('by-student', 'student_id');
+      }
+
+      // Student credentials store (Local Mode stand-in for student accounts)
+      if (!db.objectStoreNames.contains('student_credentials')) {
+        db.createObjectStore('student_credentials', { keyPath: 'student_id' });
+      }
+
+      // Teacher credentials store (Local Mode stand-in for teacher accounts)
+      if (!db.objectStoreNames.contains('teacher_credentials')) {
+        db.createObjectStore('teacher_credentials', { keyPath: 'teacher_id' });
+      }
+
       // Courses store
       if (!db.objectStoreNames.contains('courses')) {
         const courseStore = db.createObjectStore('courses', { keyPath: 'id' });
@@ -96,6 +298,24 @@ export async function getDB(): Promise<IDBPDatabase<AttendanceDB>> {
         lectureStore.createIndex('by-date', 'starts_at');
       }
 
+      // Kiosk outbox: marks are written here first and replayed to the server
+      if (!db.objectStoreNames.contains('attendance_outbox')) {
+        const outboxStore = db.createObjectStore('attendance_outbox', { keyPath: 'id' });
+        outboxStore.createIndex('by-lecture', 'lecture_id');
+        outboxStore.createIndex('by-status', 'status');
+      }
+
+      // Kiosk rosters: enrolled galleries cached per lecture for offline recognition
+      if (!db.objectStoreNames.contains('kiosk_rosters')) {
+        db.createObjectStore('kiosk_rosters', { keyPath: 'lecture_id' });
+      }
+
+      // Lecture schedules store (recurring timetable)
+      if (!db.objectStoreNames.contains('lecture_schedules')) {
+        const scheduleStore = db.createObjectStore('lecture_schedules', { keyPath: 'id' });
+        scheduleStore.createIndex('by-course', 'course_id');
+      }
+
       // Enrollments store
       if (!db.objectStoreNames.contains('enrollments')) {
         const enrollmentStore = db.createObjectStore('enrollments', { keyPath: 'id' });
@@ -116,19 +336,81 @@ export async function getDB(): Promise<IDBPDatabase<AttendanceDB>> {
         const teacherStore = db.createObjectStore('teachers', { keyPath: 'id' });
         teacherStore.createIndex('by-email', 'email', { unique: true });
       }
+
+      // Course teachers store (owner/assistant per course)
+      if (!db.objectStoreNames.contains('course_teachers')) {
+        const courseTeacherStore = db.createObjectStore('course_teachers', {
+          keyPath: ['course_id', 'teacher_id'],
+        });
+        courseTeacherStore.createIndex('by-course', 'course_id');
+        courseTeacherStore.createIndex('by-teacher', 'teacher_id');
+      }
+
+      // Excuse requests store (absences explained by students, reviewed by teachers)
+      if (!db.objectStoreNames.contains('excuse_requests')) {
+        const excuseStore = db.createObjectStore('excuse_requests', { keyPath: 'id' });
+        excuseStore.createIndex('by-student', 'student_id');
+        excuseStore.createIndex('by-course', 'course_id');
+      }
+
+      // Attendance audit store (append-only history of attendance changes)
+      if (!db.objectStoreNames.contains('attendance_audit')) {
+        const auditStore = db.createObjectStore('attendance_audit', { keyPath: 'id' });
+        auditStore.createIndex('by-lecture', 'lecture_id');
+        auditStore.createIndex('by-student', 'student_id');
+      }
+
+      // Ambiguous matches store (kiosk faces too close to two students to mark)
+      if (!db.objectStoreNames.contains('ambiguous_matches')) {
+        const ambiguousStore = db.createObjectStore('ambiguous_matches', { keyPath: 'id' });
+        ambiguousStore.createIndex('by-lecture', 'lecture_id');
+      }
+
+      // Sync change log: local edits waiting to be pushed to Supabase
+      if (!db.objectStoreNames.contains('sync_changes')) {
+        const changeStore = db.createObjectStore('sync_changes', { keyPath: 'key' });
+        changeStore.createIndex('by-changed-at', 'changed_at');
+      }
+
+      // Sync cursors and timestamps
+      if (!db.objectStoreNames.contains('sync_state')) {
+        db.createObjectStore('sync_state', { keyPath: 'key' });
+      }
     },
   });
 
   return dbInstance;
 }
 
+// Code that walks every store the same way (archive import, sync) works on untyped records
+export interface UntypedStore {
+  keyPath: string | string[];
+  count(): Promise<number>;
+  clear(): Promise<void>;
+  get(key: IDBValidKey): Promise<Record<string, unknown> | undefined>;
+  getAll(): Promise<Record<string, unknown>[]>;
+  getKey(key: IDBValidKey): Promise<IDBValidKey | undefined>;
+  put(value: unknown): Promise<IDBValidKey>;
+  delete(key: IDBValidKey): Promise<void>;
+  index(name: string): {
+    getKey(key: IDBValidKey): Promise<IDBValidKey | undefined>;
+    getAll(key: IDBValidKey): Promise<Record<string, unknown>[]>;
+  };
+}
+
+export function recordKey(keyPath: string | string[], record: Record<string, unknown>): IDBValidKey {
+  return Array.isArray(keyPath)
+    ? keyPath.map((path) => record[path] as string)
+    : (record[keyPath] as string);
+}
+
 export function isLocalMode(): boolean {
   return localStorage.getItem('localMode') === 'true';
 }
 
-// Helper to generate IDs
+// Helper to generate IDs; UUIDs so local rows can be pushed to Supabase as they are
 export function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  return crypto.randomUUID();
 }
 
 
@@ -0,0 +1,191 @@
+import { getDB, isLocalMode } from './indexeddb';
+import { attendanceAPI } from './data';
+import type { Json } from '@/integrations/supabase/types';
+import { kioskDevice } from '@/lib/kiosk/device';
+import { needsReview } from '@/lib/face/matcher';
+
+export type OutboxStatus = 'pending' | 'synced' | 'rejected';
+
+export interface OutboxEntry {
+  id: string; // doubles as the idempotency key sent to mark-attendance
+  lecture_id: string;
+  student_id: string;
+  descriptor: number[];
+  liveness: Json;
+  method: string;
+  confidence: number;
+  // JPEG data URL of the matched face, stored with the attendance record as evidence
+  frame?: string | null;
+  captured_at: string;
+  status: OutboxStatus;
+  attempts: number;
+  last_error: string | null;
+  synced_at: string | null;
+}
+
+export interface RosterStudent {
+  id: string;
+  roll_no: string;
+  name: string;
+  gallery: number[][];
+}
+
+export interface SyncResult {
+  synced: OutboxEntry[];
+  rejected: OutboxEntry[];
+  pending: number;
+}
+
+// Thrown for responses that will never succeed on retry (face mismatch, lecture over, ...)
+class RejectedError extends Error {}
+
+let syncInProgress: Promise<SyncResult> | null = null;
+
+// Local Mode has no server to verify against: the kiosk's own match is recorded directly
+async function recordLocally(entry: OutboxEntry): Promise<void> {
+  if (await attendanceAPI.find(entry.lecture_id, entry.student_id)) return;
+
+  const threshold = parseFloat(localStorage.getItem('recognitionThreshold') || '0.45');
+  const pending = needsReview(1 - entry.confidence, threshold);
+
+  await attendanceAPI.create({
+    lecture_id: entry.lecture_id,
+    student_id: entry.student_id,
+    marked_at: entry.captured_at,
+    status: pending ? 'pending' : await attendanceAPI.statusForMark(entry.lecture_id, entry.captured_at),
+    confidence: entry.confidence,
+    method: entry.method,
+    liveness: entry.liveness,
+    photo_url: entry.frame ?? null,
+    idempotency_key: entry.id,
+  });
+}
+
+async function postAttendance(entry: OutboxEntry): Promise<void> {
+  if (isLocalMode()) return recordLocally(entry);
+
+  const kioskToken = kioskDevice.getCredential()?.token ?? '';
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mark-attendance`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-kiosk-token': kioskToken,
+    },
+    body: JSON.stringify({
+      lecture_id: entry.lecture_id,
+      student_id: entry.student_id,
+      descriptor: entry.descriptor,
+      liveness: entry.liveness,
+      method: entry.method,
+      idempotency_key: entry.id,
+      captured_at: entry.captured_at,
+      frame: entry.frame ?? undefined,
+    }),
+  });
+
+  if (response.ok) return;
+
+  const { error } = await response.json().catch(() => ({ error: response.statusText }));
+  // 401 means the kiosk is unpaired or revoked; keep the mark until it is paired again
+  if (response.status >= 400 && response.status < 500 && ![401, 408, 429].includes(response.status)) {
+    throw new RejectedError(error || `Rejected (${response.status})`);
+  }
+  throw new Error(error || `Server error (${response.status})`);
+}
+
+export const outbox = {
+  async enqueue(
+    entry: Pick<OutboxEntry, 'lecture_id' | 'student_id' | 'descriptor' | 'liveness' | 'method' | 'confidence' | 'frame'>
+  ): Promise<OutboxEntry> {
+    const newEntry: OutboxEntry = {
+      ...entry,
+      id: crypto.randomUUID(),
+      captured_at: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      last_error: null,
+      synced_at: null,
+    };
+
+    const db = await getDB();
+    await db.add('attendance_outbox', newEntry);
+    return newEntry;
+  },
+
+  async getByLecture(lectureId: string): Promise<OutboxEntry[]> {
+    const db = await getDB();
+    const index = db.transaction('attendance_outbox').store.index('by-lecture');
+    return index.getAll(lectureId);
+  },
+
+  async countPending(): Promise<number> {
+    const db = await getDB();
+    return db.countFromIndex('attendance_outbox', 'by-status', 'pending');
+  },
+
+  // Replay pending entries oldest first; stops at the first network failure
+  sync(): Promise<SyncResult> {
+    if (syncInProgress) return syncInProgress;
+
+    syncInProgress = (async () => {
+      const db = await getDB();
+      const pending = (await db.getAllFromIndex('attendance_outbox', 'by-status', 'pending')).sort(
+        (a, b) => a.captured_at.localeCompare(b.captured_at)
+      );
+
+      const synced: OutboxEntry[] = [];
+      const rejected: OutboxEntry[] = [];
+
+      for (const entry of pending) {
+        try {
+          await postAttendance(entry);
+          // The frame now lives with the attendance record
+          const done = { ...entry, frame: null, status: 'synced' as const, synced_at: new Date().toISOString() };
+          await db.put('attendance_outbox', done);
+          synced.push(done);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+
+          if (error instanceof RejectedError) {
+            const failed = { ...entry, status: 'rejected' as const, attempts: entry.attempts + 1, last_error: message };
+            await db.put('attendance_outbox', failed);
+            rejected.push(failed);
+            continue;
+          }
+
+          await db.put('attendance_outbox', { ...entry, attempts: entry.attempts + 1, last_error: message });
+          break;
+        }
+      }
+
+      return {
+        synced,
+        rejected,
+        pending: await db.countFromIndex('attendance_outbox', 'by-status', 'pending'),
+      };
+    })().finally(() => {
+      syncInProgress = null;
+    });
+
+    return syncInProgress;
+  },
+};
+
+// Enrolled galleries per lecture, so the kiosk can still recognize faces offline
+export const rosterCache = {
+  async get(lectureId: string): Promise<RosterStudent[] | null> {
+    const db = await getDB();
+    const roster = await db.get('kiosk_rosters', lectureId);
+    return roster ? roster.students : null;
+  },
+
+  async put(lectureId: string, students: RosterStudent[]): Promise<void> {
+    const db = await getDB();
+    await db.put('kiosk_rosters', {
+      lecture_id: lectureId,
+      students,
+      cached_at: new Date().toISOString(),
+    });
+  },
+};
@@ -0,0 +1,61 @@
+import { getDB } from '@/lib/storage/indexeddb';
+
+// Tables shared between Local Mode and Supabase, parents before children
+export const SYNC_TABLES = [
+  'students',
+  'student_embeddings',
+  'courses',
+  'lecture_schedules',
+  'lectures',
+  'enrollments',
+  'attendance',
+] as const;
+
+export type SyncTable = (typeof SYNC_TABLES)[number];
+
+export type ChangeOp = 'upsert' | 'delete';
+
+export interface Change {
+  key: string;
+  table: string;
+  row_id: string;
+  op: ChangeOp;
+  changed_at: string;
+  attempts: number;
+  last_error: string | null;
+}
+
+export function isSyncTable(table: string): table is SyncTable {
+  return (SYNC_TABLES as readonly string[]).includes(table);
+}
+
+export function changeKey(table: SyncTable, rowId: string): string {
+  return `${table}:${rowId}`;
+}
+
+export function newChange(table: SyncTable, rowId: string, op: ChangeOp): Change {
+  return {
+    key: changeKey(table, rowId),
+    table,
+    row_id: rowId,
+    op,
+    changed_at: new Date().toISOString(),
+    attempts: 0,
+    last_error: null,
+  };
+}
+
+// Record a local write so the sync engine pushes it; the latest op for a row wins
+export async function trackChange(table: SyncTable, rowId: string, op: ChangeOp): Promise<void> {
+  const db = await getDB();
+  await db.put('sync_changes', newChange(table, rowId, op));
+}
+
+export async function trackChanges(table: SyncTable, rowIds: string[], op: ChangeOp): Promise<void> {
+  await Promise.all(rowIds.map((id) => trackChange(table, id, op)));
+}
+
+export async function getPendingChanges(): Promise<Change[]> {
+  const db = await getDB();
+  return db.getAllFromIndex('sync_changes', 'by-changed-at');
+}
@@ -0,0 +1,36 @@
+// Deterministic conflict rules: every device resolves the same pair of rows the same way
+
+export type Winner = 'local' | 'remote';
+
+interface Versioned {
+  updated_at?: string | null;
+}
+
+interface Mark extends Versioned {
+  id: string;
+  marked_at: string;
+}
+
+function time(value: string | null | undefined): number {
+  return value ? new Date(value).getTime() : 0;
+}
+
+// Roster edits: last writer wins; on a tie the server copy is kept
+export function resolveLastWriter(local: Versioned, remote: Versioned): Winner {
+  return time(local.updated_at) > time(remote.updated_at) ? 'local' : 'remote';
+}
+
+// Attendance rows. Two separate marks for the same student and lecture, merged on
+// (lecture_id, student_id): the earliest marked_at wins, and on a tie the server copy is kept.
+// Two copies of one mark are an edit of it (a teacher's review), so the last writer wins.
+export function resolveAttendance(local: Mark, remote: Mark, merged: boolean): Winner {
+  if (!merged) return resolveLastWriter(local, remote);
+
+  const diff = time(local.marked_at) - time(remote.marked_at);
+  return diff < 0 ? 'local' : 'remote';
+}
+
+// An edit and a delete of the same row: whichever happened later wins
+export function resolveDelete(editedAt: string | null | undefined, deletedAt: string): 'keep' | 'delete' {
+  return time(editedAt) > time(deletedAt) ? 'keep' : 'delete';
+}
@@ -0,0 +1,487 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getDB, isLocalMode, recordKey, AttendanceDB, UntypedStore } from '@/lib/storage/indexeddb';
+import { teacherAuth } from '@/lib/auth/teacher-auth';
+import type { StoreNames } from 'idb';
+import {
+  SYNC_TABLES,
+  SyncTable,
+  Change,
+  changeKey,
+  getPendingChanges,
+  isSyncTable,
+  trackChange,
+} from './changelog';
+import { resolveAttendance, resolveDelete, resolveLastWriter } from './conflicts';
+
+export interface SyncReport {
+  pushed: number;
+  pulled: number;
+  deleted: number;
+  conflicts: number;
+  failed: number;
+}
+
+export interface SyncStatus {
+  pending: number;
+  failed: number;
+  lastSyncedAt: string | null;
+}
+
+type Row = Record<string, unknown> & { id: string; updated_at?: string };
+
+// Rows per request when pulling
+const PAGE_SIZE = 500;
+const AUTO_SYNC_INTERVAL_MS = 60000;
+const LAST_SYNCED_KEY = 'last_synced_at';
+
+// Thrown when the network drops mid-sync; everything not yet pushed stays queued
+class OfflineError extends Error {}
+
+// Mirrors the unique constraints in Supabase: a local row matching a server row on
+// these fields is the same row and takes over the server's id
+const NATURAL_KEYS: Partial<Record<SyncTable, string[]>> = {
+  students: ['roll_no'],
+  courses: ['code'],
+  enrollments: ['student_id', 'course_id'],
+  attendance: ['lecture_id', 'student_id'],
+};
+
+// Local stores holding each table's id, updated when a row is rekeyed
+const REFERENCES: Record<SyncTable, [StoreNames<AttendanceDB>, string][]> = {
+  students: [
+    ['student_embeddings', 'student_id'],
+    ['student_credentials', 'student_id'],
+    ['enrollments', 'student_id'],
+    ['attendance', 'student_id'],
+    ['attendance_outbox', 'student_id'],
+  ],
+  student_embeddings: [],
+  courses: [
+    ['course_teachers', 'course_id'],
+    ['lecture_schedules', 'course_id'],
+    ['lectures', 'course_id'],
+    ['enrollments', 'course_id'],
+  ],
+  lecture_schedules: [['lectures', 'schedule_id']],
+  lectures: [
+    ['attendance', 'lecture_id'],
+    ['attendance_outbox', 'lecture_id'],
+    ['kiosk_rosters', 'lecture_id'],
+  ],
+  enrollments: [],
+  attendance: [],
+};
+
+// Columns local rows carry that the Supabase table does not have
+const LOCAL_ONLY_FIELDS: Partial<Record<SyncTable, string[]>> = {
+  attendance: ['created_at'],
+};
+
+let syncInProgress: Promise<SyncReport> | null = null;
+
+async function storeOf(name: StoreNames<AttendanceDB>): Promise<UntypedStore> {
+  const db = await getDB();
+  return db.transaction(name, 'readwrite').objectStore(name) as unknown as UntypedStore;
+}
+
+// supabase-js cannot type a query over a union of tables
+function remoteTable(table: SyncTable | 'sync_tombstones') {
+  return supabase.from(table as 'students');
+}
+
+function isNetworkError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? '');
+  return !navigator.onLine || /failed to fetch|networkerror|network request failed/i.test(message);
+}
+
+function toLocal(remote: Row): Row {
+  const { sync_version: _version, ...row } = remote;
+  return row as Row;
+}
+
+function toRemote(table: SyncTable, local: Row): Row {
+  const row = { ...local };
+  for (const field of LOCAL_ONLY_FIELDS[table] ?? []) delete row[field];
+  return row;
+}
+
+async function getState(key: string): Promise<string | null> {
+  const db = await getDB();
+  return (await db.get('sync_state', key))?.value ?? null;
+}
+
+async function setState(key: string, value: string): Promise<void> {
+  const db = await getDB();
+  await db.put('sync_state', { key, value });
+}
+
+async function findLocalTwin(table: SyncTable, row: Row): Promise<Row | undefined> {
+  const db = await getDB();
+  switch (table) {
+    case 'students':
+      return db.getFromIndex('students', 'by-roll-no', row.roll_no as string) as Promise<Row | undefined>;
+    case 'courses':
+      return db.getFromIndex('courses', 'by-code', row.code as string) as Promise<Row | undefined>;
+    case 'enrollments':
+      return (await db.getAllFromIndex('enrollments', 'by-student', row.student_id as string)).find(
+        (e) => e.course_id === row.course_id
+      ) as Row | undefined;
+    case 'attendance':
+      return (await db.getAllFromIndex('attendance', 'by-lecture', row.lecture_id as string)).find(
+        (a) => a.student_id === row.student_id
+      ) as Row | undefined;
+    default:
+      return undefined;
+  }
+}
+
+async function findRemoteTwin(table: SyncTable, row: Row): Promise<Row | null> {
+  const fields = NATURAL_KEYS[table];
+  if (!fields) return null;
+
+  let query = remoteTable(table).select('*');
+  for (const field of fields) query = query.eq(field as 'id', row[field] as string);
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return data as Row | null;
+}
+
+// Move a local row (and everything pointing at it) onto the id the server uses
+async function rekey(table: SyncTable, oldId: string, newId: string): Promise<void> {
+  const db = await getDB();
+  const rows = await storeOf(table);
+  const row = await rows.get(oldId);
+  if (!row) return;
+  await rows.delete(oldId);
+  await (await storeOf(table)).put({ ...row, id: newId });
+
+  for (const [name, field] of REFERENCES[table]) {
+    const store = await storeOf(name);
+    const keyPath = store.keyPath;
+    const children = (await store.getAll()).filter((child) => child[field] === oldId);
+
+    for (const child of children) {
+      const target = await storeOf(name);
+      if ((Array.isArray(keyPath) ? keyPath : [keyPath]).includes(field)) {
+        await target.delete(recordKey(keyPath, child));
+      }
+      await (await storeOf(name)).put({ ...child, [field]: newId });
+      if (isSyncTable(name)) await trackChange(name, child.id as string, 'upsert');
+    }
+  }
+
+  // The row's pending change follows it to the new id
+  const change = await db.get('sync_changes', changeKey(table, oldId));
+  if (change) {
+    await db.delete('sync_changes', change.key);
+    await db.put('sync_changes', { ...change, key: changeKey(table, newId), row_id: newId });
+  }
+}
+
+// Drop a change once pushed, unless the row was edited again in the meantime
+async function settle(change: Change, rowId: string): Promise<void> {
+  const db = await getDB();
+  const key = changeKey(change.table as SyncTable, rowId);
+  const current = await db.get('sync_changes', key);
+  if (current && current.changed_at === change.changed_at) await db.delete('sync_changes', key);
+}
+
+async function pushUpsert(table: SyncTable, id: string, report: SyncReport): Promise<string> {
+  let local = (await (await storeOf(table)).get(id)) as Row | undefined;
+  if (!local) return id;
+
+  // A separate row for the same natural key, as opposed to an earlier copy of this one
+  const twin = await findRemoteTwin(table, local);
+  let merged = false;
+  if (twin && twin.id !== local.id) {
+    merged = true;
+    await rekey(table, local.id, twin.id);
+    local = { ...local, id: twin.id };
+    report.conflicts += 1;
+  }
+
+  const { data: remote, error: fetchError } = await remoteTable(table)
+    .select('*')
+    .eq('id', local.id)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+
+  if (remote) {
+    const winner =
+      table === 'attendance'
+        ? resolveAttendance(
+            local as Row & { marked_at: string },
+            remote as unknown as Row & { marked_at: string },
+            merged
+          )
+        : resolveLastWriter(local, remote);
+    if (winner === 'remote') {
+      await (await storeOf(table)).put(toLocal(remote as unknown as Row));
+      report.conflicts += 1;
+      return local.id;
+    }
+  }
+
+  const { error } = await remoteTable(table).upsert(toRemote(table, local) as never);
+  if (error) throw error;
+  report.pushed += 1;
+  return local.id;
+}
+
+async function pushDelete(table: SyncTable, change: Change, report: SyncReport): Promise<void> {
+  const id = change.row_id;
+  const { data: remote, error: fetchError } = await remoteTable(table)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+  if (fetchError) throw fetchError;
+  if (!remote) return;
+
+  // Deleted here, edited there since: the later of the two wins, as when pulling
+  if (resolveDelete((remote as unknown as Row).updated_at, change.changed_at) === 'keep') {
+    await (await storeOf(table)).put(toLocal(remote as unknown as Row));
+    report.conflicts += 1;
+    return;
+  }
+
+  const { error } = await remoteTable(table).delete().eq('id', id);
+  if (error) throw error;
+  report.pushed += 1;
+}
+
+async function push(report: SyncReport): Promise<void> {
+  const db = await getDB();
+  const changes = await getPendingChanges();
+  const order = (c: Change) => SYNC_TABLES.indexOf(c.table as SyncTable);
+
+  // Parents are created before their children and deleted after them
+  const upserts = changes.filter((c) => c.op === 'upsert').sort((a, b) => order(a) - order(b));
+  const deletes = changes.filter((c) => c.op === 'delete').sort((a, b) => order(b) - order(a));
+
+  for (const change of [...upserts, ...deletes]) {
+    if (!isSyncTable(change.table)) {
+      await db.delete('sync_changes', change.key);
+      continue;
+    }
+
+    try {
+      if (change.op === 'upsert') {
+        const id = await pushUpsert(change.table, change.row_id, report);
+        await settle(change, id);
+      } else {
+        await pushDelete(change.table, change, report);
+        await settle(change, change.row_id);
+      }
+    } catch (error) {
+      if (isNetworkError(error)) throw new OfflineError('Connection lost while syncing');
+
+      // Rejected by the server (e.g. RLS); keep it queued and surface the error
+      const current = await db.get('sync_changes', change.key);
+      if (current) {
+        await db.put('sync_changes', {
+          ...current,
+          attempts: current.attempts + 1,
+          last_error: error instanceof Error ? error.message : String((error as { message?: string }).message),
+        });
+      }
+      report.failed += 1;
+    }
+  }
+}
+
+async function applyRemote(table: SyncTable, remote: Row, report: SyncReport): Promise<void> {
+  const db = await getDB();
+  let local = (await (await storeOf(table)).get(remote.id)) as Row | undefined;
+
+  // A row created on both sides under different ids
+  let merged = false;
+  if (!local && NATURAL_KEYS[table]) {
+    const twin = await findLocalTwin(table, remote);
+    if (twin) {
+      merged = true;
+      await rekey(table, twin.id, remote.id);
+      local = { ...twin, id: remote.id };
+      report.conflicts += 1;
+    }
+  }
+
+  const pending = await db.get('sync_changes', changeKey(table, remote.id));
+
+  if (pending?.op === 'delete') {
+    // Deleted here, edited there: the later of the two wins
+    if (resolveDelete(remote.updated_at, pending.changed_at) === 'delete') return;
+    await db.delete('sync_changes', pending.key);
+  } else if (pending && local) {
+    const winner =
+      table === 'attendance'
+        ? resolveAttendance(local as Row & { marked_at: string }, remote as Row & { marked_at: string }, merged)
+        : resolveLastWriter(local, remote);
+    // The local edit stays queued and goes up on the next push. A local mark that beat a
+    // separate server mark now replaces it, so it counts as the newer write of that row.
+    if (winner === 'local') {
+      if (merged) await (await storeOf(table)).put({ ...local, updated_at: new Date().toISOString() });
+      return;
+    }
+    await db.delete('sync_changes', pending.key);
+    report.conflicts += 1;
+  }
+
+  await (await storeOf(table)).put(toLocal(remote));
+  report.pulled += 1;
+}
+
+async function applyTombstone(tableName: string, rowId: string, deletedAt: string, report: SyncReport) {
+  if (!isSyncTable(tableName)) return;
+  const db = await getDB();
+  const local = await (await storeOf(tableName)).get(rowId);
+  const pending = await db.get('sync_changes', changeKey(tableName, rowId));
+
+  if (pending?.op === 'upsert' && local && resolveDelete(local.updated_at as string, deletedAt) === 'keep') {
+    return;
+  }
+  if (pending) await db.delete('sync_changes', pending.key);
+  if (local) {
+    await (await storeOf(tableName)).delete(rowId);
+    report.deleted += 1;
+  }
+}
+
+// Pages through the rows written by transactions in [from, to), in version then id order. Every
+// transaction in that range has finished, so the set cannot change under the cursor.
+async function pullRange<T extends { sync_version: number }>(
+  query: () => ReturnType<typeof remoteTable>,
+  idField: string,
+  from: number,
+  to: number,
+  apply: (row: T) => Promise<void>
+): Promise<void> {
+  let after: { version: number; id: string } | null = null;
+  for (;;) {
+    let page = query().select('*').gte('sync_version', from).lt('sync_version', to);
+    if (after) {
+      page = page.or(`sync_version.gt.${after.version},and(sync_version.eq.${after.version},${idField}.gt.${after.id})`);
+    }
+    const { data, error } = await page
+      .order('sync_version')
+      .order(idField as 'id')
+      .limit(PAGE_SIZE);
+    if (error) throw error;
+
+    const rows = (data || []) as unknown as (T & Record<string, unknown>)[];
+    for (const row of rows) {
+      await apply(row);
+      after = { version: row.sync_version, id: String(row[idField]) };
+    }
+    if (rows.length < PAGE_SIZE) break;
+  }
+}
+
+async function pull(userId: string, report: SyncReport): Promise<void> {
+  // Versions are the writing transaction's id, so the cursor only moves up to the oldest
+  // transaction still running: a row written before it commits cannot be skipped
+  const { data: watermark, error: watermarkError } = await supabase.rpc('sync_watermark');
+  if (watermarkError) throw watermarkError;
+
+  for (const table of SYNC_TABLES) {
+    const from = Number((await getState(`watermark:${table}`)) ?? 0);
+    await pullRange<Row & { sync_version: number }>(() => remoteTable(table), 'id', from, watermark, (remote) =>
+      applyRemote(table, remote, report)
+    );
+    await setState(`watermark:${table}`, String(watermark));
+  }
+
+  const tombstonesFrom = Number((await getState('watermark:sync_tombstones')) ?? 0);
+  await pullRange<{ table_name: string; row_id: string; deleted_at: string; sync_version: number }>(
+    () => remoteTable('sync_tombstones'),
+    'row_id',
+    tombstonesFrom,
+    watermark,
+    (tombstone) => applyTombstone(tombstone.table_name, tombstone.row_id, tombstone.deleted_at, report)
+  );
+  await setState('watermark:sync_tombstones', String(watermark));
+
+  // Pulled courses belong to the local teacher with the role they have on the server
+  const teacher = teacherAuth.getLocalSession();
+  if (!teacher) return;
+
+  const { data: memberships, error } = await supabase
+    .from('course_teachers')
+    .select('course_id, role')
+    .eq('teacher_id', userId);
+  if (error) throw error;
+
+  const db = await getDB();
+  for (const membership of memberships || []) {
+    if (!(await db.get('courses', membership.course_id))) continue;
+    if (await db.get('course_teachers', [membership.course_id, teacher.id])) continue;
+    await db.put('course_teachers', {
+      course_id: membership.course_id,
+      teacher_id: teacher.id,
+      role: membership.role === 'owner' ? 'owner' : 'assistant',
+      created_at: new Date().toISOString(),
+    });
+  }
+}
+
+export const syncEngine = {
+  // Push local changes, then pull everything changed on the server since the last sync
+  run(): Promise<SyncReport> {
+    if (syncInProgress) return syncInProgress;
+
+    syncInProgress = (async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Sign in to Supabase to sync');
+
+      const report: SyncReport = { pushed: 0, pulled: 0, deleted: 0, conflicts: 0, failed: 0 };
+      try {
+        await push(report);
+        await pull(session.user.id, report);
+      } catch (error) {
+        if (error instanceof OfflineError || isNetworkError(error)) {
+          throw new OfflineError('Offline: changes stay queued until the connection is back');
+        }
+        throw error;
+      }
+
+      await setState(LAST_SYNCED_KEY, new Date().toISOString());
+      return report;
+    })().finally(() => {
+      syncInProgress = null;
+    });
+
+    return syncInProgress;
+  },
+
+  async status(): Promise<SyncStatus> {
+    const changes = await getPendingChanges();
+    return {
+      pending: changes.length,
+      failed: changes.filter((c) => c.last_error).length,
+      lastSyncedAt: await getState(LAST_SYNCED_KEY),
+    };
+  },
+
+  // Sync in the background whenever the browser is online; returns a cleanup function
+  startAutoSync(onSynced?: (report: SyncReport) => void): () => void {
+    const attempt = async () => {
+      if (!isLocalMode() || !navigator.onLine) return;
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      try {
+        onSynced?.(await syncEngine.run());
+      } catch (error) {
+        console.warn('Background sync failed:', error);
+      }
+    };
+
+    window.addEventListener('online', attempt);
+    const interval = setInterval(attempt, AUTO_SYNC_INTERVAL_MS);
+    attempt();
+
+    return () => {
+      window.removeEventListener('online', attempt);
+      clearInterval(interval);
+    };
+  },
+};
@@ -6,37 +6,16 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { supabase } from '@/integrations/supabase/client';
+import { attendanceAPI, lecturesAPI, AttendanceDetail, LectureWithCourse } from '@/lib/storage/data';
+import { AttendanceStatusBadge } from '@/components/AttendanceStatusBadge';
+import { AttendanceHistory } from '@/components/AttendanceHistory';
+import { statusOf, summarizeStatuses } from '@/lib/attendance/status';
 import { toast } from 'sonner';
 import { ArrowLeft, Calendar, MapPin, User, Clock, Camera } from 'lucide-react';
 import { format } from 'date-fns';
 
-interface Lecture {
-  id: string;
-  starts_at: string;
-  ends_at: string;
-  room: string | null;
-  latitude: number | null;
-  longitude: number | null;
-  radius: number | null;
-  courses: {
-    code: string;
-    title: string;
-  };
-}
-
-interface AttendanceRecord {
-  id: string;
-  marked_at: string;
-  method: string | null;
-  confidence: number | null;
-  photo_url: string | null;
-  students: {
-    roll_no: string;
-    name: string;
-    photo_url: string | null;
-  };
-}
+type Lecture = LectureWithCourse;
+type AttendanceRecord = AttendanceDetail;
 
 const AttendanceDetails = () => {
   const { lectureId } = useParams<{ lectureId: string }>();
@@ -56,48 +35,23 @@ const AttendanceDetails = () => {
     setLoading(true);
     try {
       // Fetch lecture details
-      const { data: lectureData, error: lectureError } = await supabase
-        .from('lectures')
-        .select(`
-          id,
-          starts_at,
-          ends_at,
-          room,
-          latitude,
-          longitude,
-          radius,
-          courses!inner(code, title)
-        `)
-        .eq('id', lectureId)
-        .single();
-
-      if (lectureError) throw lectureError;
+      const lectureData = await lecturesAPI.getWithCourse(lectureId!);
+      if (!lectureData) throw new Error('Lecture not found');
       setLecture(lectureData);
 
-      // Fetch attendance records
-      const { data: attendanceData, error: attendanceError } = await supabase
-        .from('attendance')
-        .select(`
-          id,
-          marked_at,
-          method,
-          confidence,
-          photo_url,
-          students!inner(roll_no, name, photo_url)
-        `)
-        .eq('lecture_id', lectureId)
-        .order('marked_at', { ascending: false });
-
-      if (attendanceError) throw attendanceError;
-      setAttendance(attendanceData || []);
-    } catch (error: any) {
-      toast.error(error.message || 'Error fetching attendance details');
+      // Fetch attendance records, including absences for a lecture that has just ended
+      await attendanceAPI.finalizeEndedLectures();
+      setAttendance(await attendanceAPI.getDetails({ lectureId }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error fetching attendance details');
       navigate('/courses');
     } finally {
       setLoading(false);
     }
   };
 
+  const summary = summarizeStatuses(attendance.map(statusOf));
+
   if (loading || !lecture) {
     return (
       <Layout>
@@ -126,8 +80,8 @@ const AttendanceDetails = () => {
           <CardHeader>
             <div className="flex items-start justify-between">
               <div>
-                <Badge variant="secondary" className="mb-2">{lecture.courses.code}</Badge>
-                <CardTitle className="text-2xl">{lecture.courses.title}</CardTitle>
+                <Badge variant="secondary" className="mb-2">{lecture.course.code}</Badge>
+                <CardTitle className="text-2xl">{lecture.course.title}</CardTitle>
                 <CardDescription className="mt-2">
                   Attendance Details for Lecture
                 </CardDescription>
@@ -157,8 +111,10 @@ const AttendanceDetails = () => {
               <div className="flex items-center gap-2 text-sm">
                 <User className="w-4 h-4 text-muted-foreground" />
                 <div>
-                  <p className="font-medium">Total Present</p>
-                  <p className="text-muted-foreground">{attendance.length} students</p>
+                  <p className="font-medium">{summary.attended} attended</p>
+                  <p className="text-muted-foreground">
+                    {summary.present} present · {summary.late} late · {summary.excused} excused · {summary.absent} absent
+                  </p>
                 </div>
               </div>
             </div>
@@ -181,7 +137,7 @@ const AttendanceDetails = () => {
           <CardHeader>
             <CardTitle>Attendance Records</CardTitle>
             <CardDescription>
-              Detailed view of all students who marked attendance
+              Detailed view of every student's attendance status
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -196,10 +152,11 @@ const AttendanceDetails = () => {
                     <TableRow>
                       <TableHead>Student</TableHead>
                       <TableHead>Roll Number</TableHead>
+                      <TableHead>Status</TableHead>
                       <TableHead>Timestamp</TableHead>
                       <TableHead>Method</TableHead>
                       <TableHead>Confidence</TableHead>
-                      <TableHead>Selfie</TableHead>
+                      <TableHead>Photo</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
@@ -207,10 +164,10 @@ const AttendanceDetails = () => {
                       <TableRow key={record.id}>
                         <TableCell>
                           <div className="flex items-center gap-2">
-                            {record.students.photo_url ? (
+                            {record.student.photo_url ? (
                               <img
-                                src={record.students.photo_url}
-                                alt={record.students.name}
+                                src={record.student.photo_url}
+                                alt={record.student.name}
                                 className="w-8 h-8 rounded-full object-cover"
                               />
                             ) : (
@@ -218,10 +175,13 @@ const AttendanceDetails = () => {
                                 <User className="w-4 h-4" />
                               </div>
                             )}
-                            <span className="font-medium">{record.students.name}</span>
+                            <span className="font-medium">{record.student.name}</span>
                           </div>
                         </TableCell>
-                        <TableCell>{record.students.roll_no}</TableCell>
+                        <TableCell>{record.student.roll_no}</TableCell>
+                        <TableCell>
+                          <AttendanceStatusBadge status={statusOf(record)} />
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-1 text-sm">
                             <Clock className="w-3 h-3 text-muted-foreground" />
@@ -264,17 +224,19 @@ const AttendanceDetails = () => {
           </CardContent>
         </Card>
 
-        {/* Selfie Preview Dialog */}
+        <AttendanceHistory lectureId={lecture.id} />
+
+        {/* Photo Preview Dialog */}
         <Dialog open={!!selectedPhoto} onOpenChange={() => setSelectedPhoto(null)}>
           <DialogContent className="max-w-2xl">
             <DialogHeader>
-              <DialogTitle>Attendance Selfie</DialogTitle>
+              <DialogTitle>Attendance Photo</DialogTitle>
             </DialogHeader>
             {selectedPhoto && (
               <div className="flex justify-center">
                 <img
                   src={selectedPhoto}
-                  alt="Attendance selfie"
+                  alt="Attendance photo"
                   className="max-w-full max-h-[70vh] rounded-lg object-contain"
                 />
               </div>
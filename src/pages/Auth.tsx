@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { studentAuth } from '@/lib/auth/student-auth';
+import { isLocalMode } from '@/lib/storage/indexeddb';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -13,44 +14,37 @@ import { GraduationCap } from 'lucide-react';
 const Auth = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [teacherName, setTeacherName] = useState('');
   const [rollNo, setRollNo] = useState('');
+  const [studentEmail, setStudentEmail] = useState('');
+  const [studentPassword, setStudentPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [loginType, setLoginType] = useState<'teacher' | 'student'>('teacher');
   const navigate = useNavigate();
-  const { user, studentData, setStudentData } = useAuth();
+  const { userType, signInTeacher, signUpTeacher, signInStudent } = useAuth();
+  const localMode = isLocalMode();
 
   useEffect(() => {
-    if (user) {
+    if (userType === 'teacher') {
       navigate('/students');
-    } else if (studentData) {
+    } else if (userType === 'student') {
       navigate('/student-attendance');
     }
-  }, [user, studentData, navigate]);
+  }, [userType, navigate]);
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
 
-    const redirectUrl = `${window.location.origin}/`;
-
-    const { error } = await supabase.auth.signUp({
-      email,
-      password,
-      options: {
-        emailRedirectTo: redirectUrl,
-      },
-    });
-
-    setLoading(false);
-
-    if (error) {
-      if (error.message.includes('already registered')) {
-        toast.error('This email is already registered. Please sign in instead.');
-      } else {
-        toast.error(error.message);
-      }
-    } else {
-      toast.success('Account created successfully! You can now sign in.');
+    try {
+      await signUpTeacher({ email, password, name: teacherName });
+      toast.success(
+        localMode ? 'Account created! Welcome.' : 'Account created successfully! You can now sign in.'
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Sign up failed');
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -58,18 +52,14 @@ const Auth = () => {
     e.preventDefault();
     setLoading(true);
 
-    const { error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
-    });
-
-    setLoading(false);
-
-    if (error) {
-      toast.error(error.message);
-    } else {
+    try {
+      await signInTeacher(email, password);
       toast.success('Signed in successfully!');
       navigate('/students');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Sign in failed');
+    } finally {
+      setLoading(false);
     }
   };
 
@@ -78,19 +68,8 @@ const Auth = () => {
     setLoading(true);
 
     try {
-      const { data: student, error } = await supabase
-        .from('students')
-        .select('id, roll_no, name')
-        .ilike('roll_no', rollNo.trim())
-        .single();
-
-      if (error || !student) {
-        toast.error('Student not found. Please check your roll number.');
-        setLoading(false);
-        return;
-      }
-
-      setStudentData(student);
+      // Local Mode accounts sign in by roll number, Supabase accounts by email
+      const student = await signInStudent(localMode ? rollNo : studentEmail, studentPassword);
       toast.success(`Welcome ${student.name}!`);
       navigate('/student-attendance');
     } catch (error: any) {
@@ -100,6 +79,27 @@ const Auth = () => {
     }
   };
 
+  const handleStudentActivate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await studentAuth.activate({ rollNo, email: studentEmail, password: studentPassword });
+
+      if (localMode) {
+        const student = await signInStudent(rollNo, studentPassword);
+        toast.success(`Account activated. Welcome ${student.name}!`);
+        navigate('/student-attendance');
+      } else {
+        toast.success('Account activated! Check your email to confirm, then sign in.');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Activation failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-primary/5 p-4">
       <Card className="w-full max-w-md shadow-strong">
@@ -173,6 +173,17 @@ const Auth = () => {
                 </TabsContent>
                 <TabsContent value="signup">
                   <form onSubmit={handleSignUp} className="space-y-4 mt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signup-name">Full Name</Label>
+                      <Input
+                        id="signup-name"
+                        type="text"
+                        placeholder="e.g., Dr. Smith"
+                        value={teacherName}
+                        onChange={(e) => setTeacherName(e.target.value)}
+                        required
+                      />
+                    </div>
                     <div className="space-y-2">
                       <Label htmlFor="signup-email">Email</Label>
                       <Input
@@ -205,25 +216,99 @@ const Auth = () => {
 
             {/* Student Login */}
             {loginType === 'student' && (
-              <form onSubmit={handleStudentLogin} className="space-y-4 mt-4">
-                <div className="space-y-2">
-                  <Label htmlFor="student-roll">Roll Number / PRN</Label>
-                  <Input
-                    id="student-roll"
-                    type="text"
-                    placeholder="e.g., CS2024001"
-                    value={rollNo}
-                    onChange={(e) => setRollNo(e.target.value)}
-                    required
-                  />
-                </div>
-                <Button type="submit" className="w-full" disabled={loading}>
-                  {loading ? 'Logging in...' : 'Login as Student'}
-                </Button>
-                <p className="text-xs text-muted-foreground text-center">
-                  Your roll number is your student ID assigned by your teacher
-                </p>
-              </form>
+              <Tabs defaultValue="signin" className="w-full">
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="signin">Sign In</TabsTrigger>
+                  <TabsTrigger value="activate">Activate Account</TabsTrigger>
+                </TabsList>
+                <TabsContent value="signin">
+                  <form onSubmit={handleStudentLogin} className="space-y-4 mt-4">
+                    {localMode ? (
+                      <div className="space-y-2">
+                        <Label htmlFor="student-roll">Roll Number / PRN</Label>
+                        <Input
+                          id="student-roll"
+                          type="text"
+                          placeholder="e.g., CS2024001"
+                          value={rollNo}
+                          onChange={(e) => setRollNo(e.target.value)}
+                          required
+                        />
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <Label htmlFor="student-email">Email</Label>
+                        <Input
+                          id="student-email"
+                          type="email"
+                          placeholder="student@college.edu"
+                          value={studentEmail}
+                          onChange={(e) => setStudentEmail(e.target.value)}
+                          required
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="student-password">Password</Label>
+                      <Input
+                        id="student-password"
+                        type="password"
+                        value={studentPassword}
+                        onChange={(e) => setStudentPassword(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <Button type="submit" className="w-full" disabled={loading}>
+                      {loading ? 'Logging in...' : 'Login as Student'}
+                    </Button>
+                  </form>
+                </TabsContent>
+                <TabsContent value="activate">
+                  <form onSubmit={handleStudentActivate} className="space-y-4 mt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="activate-roll">Roll Number / PRN</Label>
+                      <Input
+                        id="activate-roll"
+                        type="text"
+                        placeholder="e.g., CS2024001"
+                        value={rollNo}
+                        onChange={(e) => setRollNo(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="activate-email">Invite Email</Label>
+                      <Input
+                        id="activate-email"
+                        type="email"
+                        placeholder="student@college.edu"
+                        value={studentEmail}
+                        onChange={(e) => setStudentEmail(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="activate-password">Choose a Password</Label>
+                      <Input
+                        id="activate-password"
+                        type="password"
+                        value={studentPassword}
+                        onChange={(e) => setStudentPassword(e.target.value)}
+                        required
+                        minLength={6}
+                      />
+                    </div>
+                    <Button type="submit" className="w-full" disabled={loading}>
+                      {loading ? 'Activating...' : 'Activate Account'}
+                    </Button>
+                    <p className="text-xs text-muted-foreground text-center">
+                      {localMode
+                        ? 'Use the email your teacher invited you with, then set a password for this device'
+                        : 'Use the email your teacher invited you with'}
+                    </p>
+                  </form>
+                </TabsContent>
+              </Tabs>
             )}
           </div>
         </CardContent>
@@ -0,0 +1,578 @@
+import { useState, useEffect, useRef } from 'react';
+import { Layout } from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  attendanceAPI,
+  coursesAPI,
+  enrollmentsAPI,
+  studentEmbeddingsAPI,
+  studentsAPI,
+  CourseSummary,
+} from '@/lib/storage/data';
+import { buildGallery, getMatchStrategy, GalleryCandidate } from '@/lib/face/matcher';
+import {
+  CalibrationProbe,
+  CalibrationScores,
+  ErrorRatePoint,
+  THRESHOLD_RANGE,
+  distanceHistogram,
+  enrolledProbes,
+  equalErrorRate,
+  errorRates,
+  recommendThreshold,
+  scoreProbes,
+} from '@/lib/face/calibration';
+import { getDescriptorFromPhoto, getEmbeddingFromVideo } from '@/lib/face/embedding';
+import { loadFaceModels } from '@/lib/face/models';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { Area, AreaChart, CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Camera, CameraOff, Check, Images, Play } from 'lucide-react';
+
+const ALL = 'all';
+
+const TARGET_FARS = [0.01, 0.001, 0.0001];
+
+// Newest first; each photo is fetched and run through the detector
+const MAX_ATTENDANCE_PHOTOS = 200;
+
+// The ROC's FAR axis is logarithmic, so rates of zero are drawn at this floor
+const MIN_PLOTTED_FAR = 0.0001;
+
+interface RosterStudent extends GalleryCandidate {
+  name: string;
+  roll_no: string;
+}
+
+interface CourseCalibration {
+  course: CourseSummary;
+  genuine: number;
+  points: ErrorRatePoint[];
+}
+
+interface CalibrationResult {
+  scores: CalibrationScores;
+  points: ErrorRatePoint[];
+  perCourse: CourseCalibration[];
+}
+
+const percent = (rate: number) => `${(rate * 100).toFixed(rate > 0 && rate < 0.01 ? 2 : 1)}%`;
+
+const Calibration = () => {
+  const [courses, setCourses] = useState<CourseSummary[]>([]);
+  const [scope, setScope] = useState(ALL);
+  const [roster, setRoster] = useState<RosterStudent[]>([]);
+  const [courseRosters, setCourseRosters] = useState<Map<string, string[]>>(new Map());
+  const [loadingRoster, setLoadingRoster] = useState(true);
+  const [useEnrolled, setUseEnrolled] = useState(true);
+  const [attendanceProbes, setAttendanceProbes] = useState<CalibrationProbe[]>([]);
+  const [photoProgress, setPhotoProgress] = useState<{ done: number; total: number } | null>(null);
+  const [captureProbes, setCaptureProbes] = useState<CalibrationProbe[]>([]);
+  const [captureStudent, setCaptureStudent] = useState('');
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [capturing, setCapturing] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const [targetFar, setTargetFar] = useState(TARGET_FARS[0]);
+  const [threshold, setThreshold] = useState(() => parseFloat(localStorage.getItem('recognitionThreshold') || '0.45'));
+  const { teacher } = useAuth();
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    fetchCourses();
+  }, []);
+
+  useEffect(() => {
+    fetchRoster();
+  }, [courses, scope]);
+
+  useEffect(() => {
+    return () => {
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [stream]);
+
+  const scopeCourses = scope === ALL ? courses : courses.filter((c) => c.id === scope);
+
+  const fetchCourses = async () => {
+    try {
+      setCourses(await coursesAPI.getForTeacher(teacher!.id));
+    } catch {
+      toast.error('Error fetching courses');
+    }
+  };
+
+  const fetchRoster = async () => {
+    setLoadingRoster(true);
+    setResult(null);
+    try {
+      const enrollments = await Promise.all(
+        scopeCourses.map(async (course) => [course.id, (await enrollmentsAPI.getByCourse(course.id)).map((e) => e.student_id)] as const)
+      );
+      const studentIds = [...new Set(enrollments.flatMap(([, ids]) => ids))];
+      const [students, embeddings] = await Promise.all([
+        studentsAPI.getByIds(studentIds),
+        studentEmbeddingsAPI.getByStudents(studentIds),
+      ]);
+
+      setCourseRosters(new Map(enrollments));
+      setRoster(
+        students
+          .map((student) => ({
+            id: student.id,
+            name: student.name,
+            roll_no: student.roll_no,
+            gallery: buildGallery(
+              embeddings.filter((e) => e.student_id === student.id),
+              student.embedding
+            ),
+          }))
+          .filter((student) => student.gallery.length > 0)
+          .sort((a, b) => a.roll_no.localeCompare(b.roll_no))
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error fetching enrolled students');
+    }
+    setLoadingRoster(false);
+  };
+
+  // Accepted kiosk marks are labelled by the student they were marked for. They were
+  // accepted at the threshold in force at the time, so on their own they understate
+  // false rejects.
+  const handleLoadPhotos = async () => {
+    try {
+      await loadFaceModels();
+      const marks = (await attendanceAPI.getDetails({ courseIds: scopeCourses.map((c) => c.id) }))
+        .filter((mark) => (mark.status === 'present' || mark.status === 'late') && mark.photo_url)
+        .slice(0, MAX_ATTENDANCE_PHOTOS);
+
+      const probes: CalibrationProbe[] = [];
+      setPhotoProgress({ done: 0, total: marks.length });
+      for (const [i, mark] of marks.entries()) {
+        const descriptor = await getDescriptorFromPhoto(mark.photo_url!);
+        if (descriptor) probes.push({ studentId: mark.student_id, descriptor, source: 'attendance' });
+        setPhotoProgress({ done: i + 1, total: marks.length });
+      }
+
+      setAttendanceProbes(probes);
+      setResult(null);
+      toast.success(`Used ${probes.length} of ${marks.length} attendance photos`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error loading attendance photos');
+    } finally {
+      setPhotoProgress(null);
+    }
+  };
+
+  const startCamera = async () => {
+    try {
+      await loadFaceModels();
+      const mediaStream = await navigator.mediaDevices.getUserMedia({
+        video: { width: { ideal: 1280 }, height: { ideal: 720 }, facingMode: 'user' },
+      });
+      setStream(mediaStream);
+      if (videoRef.current) {
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to access camera');
+    }
+  };
+
+  const stopCamera = () => {
+    stream?.getTracks().forEach((track) => track.stop());
+    setStream(null);
+    if (videoRef.current) videoRef.current.srcObject = null;
+  };
+
+  // The teacher vouches for who is in front of the camera
+  const handleCapture = async () => {
+    const student = roster.find((s) => s.id === captureStudent);
+    if (!student || !videoRef.current) return;
+
+    setCapturing(true);
+    try {
+      const face = await getEmbeddingFromVideo(videoRef.current, { droppable: false });
+      if (!face) {
+        toast.error('No face detected. Make sure the face is clearly visible.');
+        return;
+      }
+      setCaptureProbes((prev) => [...prev, { studentId: student.id, descriptor: face.descriptor, source: 'capture' }]);
+      setResult(null);
+      toast.success(`Captured ${student.name}`);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const handleCompute = async () => {
+    const probes = [...(useEnrolled ? enrolledProbes(roster) : []), ...attendanceProbes, ...captureProbes];
+    const strategy = getMatchStrategy();
+
+    setProgress({ done: 0, total: probes.length });
+    try {
+      const scores = await scoreProbes(roster, probes, strategy, (done, total) => setProgress({ done, total }));
+      const points = errorRates(scores);
+      if (points.length === 0) {
+        toast.error('Not enough labelled faces: add captures or enroll more photos per student');
+        setResult(null);
+        return;
+      }
+
+      // Each course against its own roster, as its kiosks see it
+      const perCourse: CourseCalibration[] = [];
+      if (scope === ALL) {
+        for (const course of courses) {
+          const ids = new Set(courseRosters.get(course.id) ?? []);
+          const courseScores = await scoreProbes(
+            roster.filter((s) => ids.has(s.id)),
+            probes,
+            strategy
+          );
+          perCourse.push({ course, genuine: courseScores.genuine.length, points: errorRates(courseScores) });
+        }
+      }
+
+      setResult({ scores, points, perCourse });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error computing calibration');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleApply = (value: number) => {
+    const rounded = Number(value.toFixed(2));
+    localStorage.setItem('recognitionThreshold', rounded.toString());
+    setThreshold(rounded);
+    toast.success(`Threshold updated to ${rounded.toFixed(2)}`);
+  };
+
+  const recommendation = result ? recommendThreshold(result.points, targetFar) : null;
+  const eer = result ? equalErrorRate(result.points) : null;
+  const atCurrent = result?.points.reduce((a, b) => (Math.abs(b.threshold - threshold) < Math.abs(a.threshold - threshold) ? b : a));
+  // Fewer impostor comparisons than this and a rate as small as the target cannot be told from zero
+  const tooFewImpostors = result !== null && result.scores.impostor.length * targetFar < 10;
+  const probeCount =
+    (useEnrolled ? roster.filter((s) => s.gallery.length > 1).reduce((sum, s) => sum + s.gallery.length, 0) : 0) +
+    attendanceProbes.filter((p) => roster.some((s) => s.id === p.studentId)).length +
+    captureProbes.filter((p) => roster.some((s) => s.id === p.studentId)).length;
+  const busy = progress !== null || photoProgress !== null;
+
+  return (
+    <Layout>
+      <div className="container mx-auto p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Threshold Calibration</h1>
+          <p className="text-muted-foreground mt-1">
+            Measure false matches and missed students on your own roster, and pick a recognition threshold from them
+          </p>
+        </div>
+
+        <Select value={scope} onValueChange={setScope} disabled={busy}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All Courses</SelectItem>
+            {courses.map((course) => (
+              <SelectItem key={course.id} value={course.id}>
+                {course.code} - {course.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Labelled Faces</CardTitle>
+            <CardDescription>
+              {loadingRoster
+                ? 'Loading enrolled students...'
+                : `${roster.length} enrolled students with face data · ${probeCount} labelled faces`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label>Enrolled captures</Label>
+                <p className="text-sm text-muted-foreground">
+                  Each enrollment photo scored against the student's other photos and everyone else's
+                </p>
+              </div>
+              <Switch checked={useEnrolled} onCheckedChange={setUseEnrolled} disabled={busy} />
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label>Attendance photos</Label>
+                <p className="text-sm text-muted-foreground">
+                  {attendanceProbes.length > 0
+                    ? `${attendanceProbes.length} photos from accepted kiosk marks`
+                    : `Up to ${MAX_ATTENDANCE_PHOTOS} recent snapshots from accepted kiosk marks`}
+                </p>
+              </div>
+              <Button variant="outline" className="gap-2" onClick={handleLoadPhotos} disabled={busy || loadingRoster}>
+                <Images className="w-4 h-4" />
+                {photoProgress ? `${photoProgress.done} / ${photoProgress.total}` : 'Load'}
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label>Camera captures</Label>
+                  <p className="text-sm text-muted-foreground">
+                    {captureProbes.length > 0
+                      ? `${captureProbes.length} captures this session`
+                      : 'Pick a student, have them face the camera and capture'}
+                  </p>
+                </div>
+                <Button variant="outline" className="gap-2" onClick={stream ? stopCamera : startCamera} disabled={busy}>
+                  {stream ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+                  {stream ? 'Stop camera' : 'Start camera'}
+                </Button>
+              </div>
+              <div className={stream ? 'flex flex-col md:flex-row gap-4' : 'hidden'}>
+                <video ref={videoRef} autoPlay playsInline muted className="w-full md:w-80 rounded-lg bg-muted" />
+                <div className="flex-1 space-y-3">
+                  <Select value={captureStudent} onValueChange={setCaptureStudent}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select student" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roster.map((student) => (
+                        <SelectItem key={student.id} value={student.id}>
+                          {student.roll_no} - {student.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button className="w-full gap-2" onClick={handleCapture} disabled={!captureStudent || capturing}>
+                    <Camera className="w-4 h-4" />
+                    {capturing ? 'Capturing...' : 'Capture'}
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <Button className="gap-2" onClick={handleCompute} disabled={busy || loadingRoster || probeCount === 0}>
+              <Play className="w-4 h-4" />
+              {progress ? `Scoring ${progress.done} / ${progress.total}...` : 'Compute'}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {result && recommendation && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Recommendation</CardTitle>
+                <CardDescription>
+                  {result.scores.genuine.length} genuine and {result.scores.impostor.length} impostor comparisons,
+                  using {getMatchStrategy()} gallery distance
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-center gap-4">
+                  <Label>Allowed false matches</Label>
+                  <Select value={String(targetFar)} onValueChange={(value) => setTargetFar(parseFloat(value))}>
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TARGET_FARS.map((far) => (
+                        <SelectItem key={far} value={String(far)}>
+                          {percent(far)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid gap-4 md:grid-cols-3">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Recommended threshold</p>
+                    <p className="text-3xl font-bold">{recommendation.threshold.toFixed(2)}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {percent(recommendation.far)} false matches · {percent(recommendation.frr)} missed
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Current threshold</p>
+                    <p className="text-3xl font-bold">{threshold.toFixed(2)}</p>
+                    {atCurrent && (
+                      <p className="text-sm text-muted-foreground">
+                        {percent(atCurrent.far)} false matches · {percent(atCurrent.frr)} missed
+                      </p>
+                    )}
+                  </div>
+                  {eer && (
+                    <div>
+                      <p className="text-sm text-muted-foreground">Equal error rate</p>
+                      <p className="text-3xl font-bold">{percent(eer.rate)}</p>
+                      <p className="text-sm text-muted-foreground">at {eer.threshold.toFixed(2)}</p>
+                    </div>
+                  )}
+                </div>
+
+                {recommendation.clamped && (
+                  <p className="text-sm text-muted-foreground">
+                    The best threshold lies outside the {THRESHOLD_RANGE.min}–{THRESHOLD_RANGE.max} range Settings
+                    allows, so the nearest end is recommended.
+                  </p>
+                )}
+                {tooFewImpostors && (
+                  <p className="text-sm text-warning">
+                    Too few impostor comparisons to measure a {percent(targetFar)} false match rate reliably. Add more
+                    labelled faces or allow more false matches.
+                  </p>
+                )}
+
+                <Button
+                  className="gap-2"
+                  onClick={() => handleApply(recommendation.threshold)}
+                  disabled={recommendation.threshold.toFixed(2) === threshold.toFixed(2)}
+                >
+                  <Check className="w-4 h-4" />
+                  Apply {recommendation.threshold.toFixed(2)}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Distance Distributions</CardTitle>
+                <CardDescription>
+                  Genuine faces should sit well left of impostors; where they overlap, no threshold avoids errors
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={300}>
+                  <AreaChart data={distanceHistogram(result.scores)}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="distance" type="number" domain={[0.2, 0.8]} />
+                    <YAxis tickFormatter={(value: number) => `${Math.round(value * 100)}%`} />
+                    <Tooltip formatter={(value: number) => percent(value)} />
+                    <Legend />
+                    <ReferenceLine x={threshold} stroke="#6b7280" strokeDasharray="4 4" label="Current" />
+                    <Area type="monotone" dataKey="genuine" name="Genuine" stroke="#10b981" fill="#10b981" fillOpacity={0.3} />
+                    <Area type="monotone" dataKey="impostor" name="Impostor" stroke="#ef4444" fill="#ef4444" fillOpacity={0.3} />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle>FAR / FRR</CardTitle>
+                  <CardDescription>False match and missed student rates at each threshold</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <LineChart data={result.points}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="threshold" type="number" domain={[0.2, 0.8]} />
+                      <YAxis tickFormatter={(value: number) => `${Math.round(value * 100)}%`} />
+                      <Tooltip formatter={(value: number) => percent(value)} labelFormatter={(value: number) => `Threshold ${value}`} />
+                      <Legend />
+                      <ReferenceLine x={threshold} stroke="#6b7280" strokeDasharray="4 4" label="Current" />
+                      <ReferenceLine x={recommendation.threshold} stroke="#10b981" strokeDasharray="4 4" label="Recommended" />
+                      <Line type="monotone" dataKey="far" name="False matches (FAR)" stroke="#ef4444" strokeWidth={2} dot={false} />
+                      <Line type="monotone" dataKey="frr" name="Missed (FRR)" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>ROC</CardTitle>
+                  <CardDescription>Students recognized against false matches allowed, over all thresholds</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ResponsiveContainer width="100%" height={300}>
+                    <LineChart
+                      data={result.points.map((point) => ({
+                        far: Math.max(MIN_PLOTTED_FAR, point.far),
+                        tar: 1 - point.frr,
+                      }))}
+                    >
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis
+                        dataKey="far"
+                        type="number"
+                        scale="log"
+                        domain={[MIN_PLOTTED_FAR, 1]}
+                        allowDataOverflow
+                        tickFormatter={(value: number) => percent(value)}
+                      />
+                      <YAxis domain={[0, 1]} tickFormatter={(value: number) => `${Math.round(value * 100)}%`} />
+                      <Tooltip formatter={(value: number) => percent(value)} labelFormatter={(value: number) => `FAR ${percent(value)}`} />
+                      <Line type="monotone" dataKey="tar" name="Recognized (TAR)" stroke="#3b82f6" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            {result.perCourse.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>By Course</CardTitle>
+                  <CardDescription>
+                    Each course against its own roster. The threshold setting applies to every course.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Course</TableHead>
+                        <TableHead className="text-right">Genuine faces</TableHead>
+                        <TableHead className="text-right">Recommended</TableHead>
+                        <TableHead className="text-right">Missed</TableHead>
+                        <TableHead className="text-right">Equal error rate</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {result.perCourse.map(({ course, genuine, points }) => {
+                        const courseRecommendation = recommendThreshold(points, targetFar);
+                        const courseEer = equalErrorRate(points);
+                        return (
+                          <TableRow key={course.id}>
+                            <TableCell>
+                              {course.code} - {course.title}
+                            </TableCell>
+                            <TableCell className="text-right">{genuine}</TableCell>
+                            <TableCell className="text-right">
+                              {courseRecommendation ? courseRecommendation.threshold.toFixed(2) : '—'}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {courseRecommendation ? percent(courseRecommendation.frr) : '—'}
+                            </TableCell>
+                            <TableCell className="text-right">{courseEer ? percent(courseEer.rate) : '—'}</TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Calibration;
@@ -8,18 +8,12 @@ import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { supabase } from '@/integrations/supabase/client';
+import { coursesAPI, CourseSummary } from '@/lib/storage/data';
+import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import { Plus, Trash2, Users, Calendar } from 'lucide-react';
 
-interface Course {
-  id: string;
-  code: string;
-  title: string;
-  teacher: string;
-  enrollment_count?: number;
-  lecture_count?: number;
-}
+type Course = CourseSummary;
 
 const Courses = () => {
   const [courses, setCourses] = useState<Course[]>([]);
@@ -30,46 +24,22 @@ const Courses = () => {
   const [teacher, setTeacher] = useState('');
   const [saving, setSaving] = useState(false);
   const navigate = useNavigate();
+  const { teacher: currentTeacher } = useAuth();
 
   useEffect(() => {
     fetchCourses();
+    // Default the course's teacher name to the signed-in teacher
+    setTeacher(currentTeacher!.name);
   }, []);
 
   const fetchCourses = async () => {
     setLoading(true);
-    const { data: coursesData, error: coursesError } = await supabase
-      .from('courses')
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (coursesError) {
+    try {
+      // Only courses the signed-in teacher owns or assists on
+      setCourses(await coursesAPI.getForTeacher(currentTeacher!.id));
+    } catch {
       toast.error('Error fetching courses');
-      setLoading(false);
-      return;
     }
-
-    // Fetch enrollment counts
-    const coursesWithCounts = await Promise.all(
-      (coursesData || []).map(async (course) => {
-        const { count: enrollmentCount } = await supabase
-          .from('enrollments')
-          .select('*', { count: 'exact', head: true })
-          .eq('course_id', course.id);
-
-        const { count: lectureCount } = await supabase
-          .from('lectures')
-          .select('*', { count: 'exact', head: true })
-          .eq('course_id', course.id);
-
-        return {
-          ...course,
-          enrollment_count: enrollmentCount || 0,
-          lecture_count: lectureCount || 0,
-        };
-      })
-    );
-
-    setCourses(coursesWithCounts);
     setLoading(false);
   };
 
@@ -82,17 +52,7 @@ const Courses = () => {
     setSaving(true);
 
     try {
-      const { data, error } = await supabase
-        .from('courses')
-        .insert({
-          code,
-          title,
-          teacher,
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+      await coursesAPI.create({ code, title, teacher }, currentTeacher!.id);
 
       toast.success('Course created successfully!');
       // Refresh the list
@@ -110,9 +70,7 @@ const Courses = () => {
     if (!confirm('Are you sure? This will delete all lectures and attendance records.')) return;
 
     try {
-      const { error } = await supabase.from('courses').delete().eq('id', id);
-
-      if (error) throw error;
+      await coursesAPI.delete(id);
 
       toast.success('Course deleted successfully');
       fetchCourses();
@@ -124,7 +82,6 @@ const Courses = () => {
   const resetForm = () => {
     setCode('');
     setTitle('');
-    setTeacher('');
   };
 
   return (
@@ -133,7 +90,7 @@ const Courses = () => {
         <div className="flex justify-between items-center">
           <div>
             <h1 className="text-3xl font-bold text-foreground">Courses</h1>
-            <p className="text-muted-foreground mt-1">Manage courses and lectures</p>
+            <p className="text-muted-foreground mt-1">Courses you teach or assist on</p>
           </div>
           <Dialog open={dialogOpen} onOpenChange={(open) => {
             setDialogOpen(open);
@@ -229,20 +186,25 @@ const Courses = () => {
                 <CardHeader>
                   <div className="flex justify-between items-start">
                     <div className="space-y-1">
-                      <Badge variant="secondary" className="mb-2">{course.code}</Badge>
+                      <div className="flex gap-2 mb-2">
+                        <Badge variant="secondary">{course.code}</Badge>
+                        {course.role === 'assistant' && <Badge variant="outline">Assistant</Badge>}
+                      </div>
                       <CardTitle className="text-xl">{course.title}</CardTitle>
                       <CardDescription>{course.teacher}</CardDescription>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDelete(course.id);
-                      }}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
+                    {course.role === 'owner' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDelete(course.id);
+                        }}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -0,0 +1,251 @@
+import { useState, useEffect } from 'react';
+import { Layout } from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ExcuseStatusBadge } from '@/components/ExcuseStatusBadge';
+import { coursesAPI, excuseRequestsAPI, CourseSummary, ExcuseRequestDetail } from '@/lib/storage/data';
+import { EXCUSE_STATUSES, EXCUSE_STATUS_LABELS, ExcuseStatus, describeExcuseScope } from '@/lib/attendance/excuse';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { Paperclip } from 'lucide-react';
+
+const ALL = 'all';
+
+const ExcuseRequests = () => {
+  const [requests, setRequests] = useState<ExcuseRequestDetail[]>([]);
+  const [courses, setCourses] = useState<CourseSummary[]>([]);
+  const [courseFilter, setCourseFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState<string>('pending');
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<ExcuseRequestDetail | null>(null);
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { teacher } = useAuth();
+
+  useEffect(() => {
+    fetchCourses();
+  }, []);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [courses, courseFilter, statusFilter]);
+
+  const fetchCourses = async () => {
+    try {
+      setCourses(await coursesAPI.getForTeacher(teacher!.id));
+    } catch {
+      toast.error('Error fetching courses');
+    }
+  };
+
+  const fetchRequests = async () => {
+    setLoading(true);
+    try {
+      const courseIds = courseFilter === ALL ? courses.map((c) => c.id) : [courseFilter];
+      const status = statusFilter === ALL ? undefined : (statusFilter as ExcuseStatus);
+      setRequests(await excuseRequestsAPI.getForCourses(courseIds, status));
+    } catch {
+      toast.error('Error fetching excuse requests');
+    }
+    setLoading(false);
+  };
+
+  const openReview = (request: ExcuseRequestDetail) => {
+    setReviewing(request);
+    setComment('');
+  };
+
+  const handleReview = async (status: 'approved' | 'rejected') => {
+    if (!reviewing) return;
+
+    setSaving(true);
+    try {
+      await excuseRequestsAPI.review(reviewing.id, {
+        status,
+        comment: comment.trim() || null,
+        reviewerId: teacher!.id,
+      });
+      toast.success(status === 'approved' ? 'Excuse approved' : 'Excuse rejected');
+      setReviewing(null);
+      fetchRequests();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error reviewing excuse request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openAttachment = async (request: ExcuseRequestDetail) => {
+    try {
+      const url = await excuseRequestsAPI.attachmentUrl(request);
+      if (url) window.open(url, '_blank', 'noopener');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error opening attachment');
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Excuse Requests</h1>
+          <p className="text-muted-foreground mt-1">
+            Approving an excuse records the covered absences as excused
+          </p>
+        </div>
+
+        <div className="flex gap-4">
+          <Select value={courseFilter} onValueChange={setCourseFilter}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All Courses</SelectItem>
+              {courses.map((course) => (
+                <SelectItem key={course.id} value={course.id}>
+                  {course.code} - {course.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXCUSE_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {EXCUSE_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+              <SelectItem value={ALL}>All</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {loading ? (
+          <Card>
+            <CardContent className="py-8">
+              <p className="text-center text-muted-foreground">Loading...</p>
+            </CardContent>
+          </Card>
+        ) : requests.length === 0 ? (
+          <Card>
+            <CardContent className="py-8">
+              <p className="text-center text-muted-foreground">No excuse requests</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Student</TableHead>
+                  <TableHead>Course</TableHead>
+                  <TableHead>Covers</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Submitted</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell>
+                      <p className="font-medium">{request.student.name}</p>
+                      <p className="text-sm text-muted-foreground">{request.student.roll_no}</p>
+                    </TableCell>
+                    <TableCell>{request.course.code}</TableCell>
+                    <TableCell className="text-sm">{describeExcuseScope(request)}</TableCell>
+                    <TableCell className="max-w-xs">
+                      <p className="text-sm truncate" title={request.reason}>{request.reason}</p>
+                      {request.reviewer_comment && (
+                        <p className="text-xs text-muted-foreground truncate" title={request.reviewer_comment}>
+                          Comment: {request.reviewer_comment}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <ExcuseStatusBadge status={request.status} />
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(parseISO(request.created_at), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {request.attachment_url && (
+                          <Button variant="ghost" size="sm" onClick={() => openAttachment(request)} title="View attachment">
+                            <Paperclip className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {request.status === 'pending' && (
+                          <Button variant="outline" size="sm" onClick={() => openReview(request)}>
+                            Review
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+
+        <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Review Excuse</DialogTitle>
+              <DialogDescription>
+                {reviewing && `${reviewing.student.name} · ${reviewing.course.code} · ${describeExcuseScope(reviewing)}`}
+              </DialogDescription>
+            </DialogHeader>
+            {reviewing && (
+              <div className="space-y-4 mt-4">
+                <div className="p-3 rounded-lg bg-muted/50 text-sm whitespace-pre-wrap">{reviewing.reason}</div>
+                {reviewing.attachment_url && (
+                  <Button variant="outline" size="sm" className="gap-2" onClick={() => openAttachment(reviewing)}>
+                    <Paperclip className="w-4 h-4" />
+                    View attachment
+                  </Button>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="review-comment">Comment for the student (optional)</Label>
+                  <Textarea
+                    id="review-comment"
+                    value={comment}
+                    onChange={(e) => setComment(e.target.value)}
+                    rows={3}
+                  />
+                </div>
+                <div className="flex gap-3 pt-4">
+                  <Button
+                    variant="destructive"
+                    onClick={() => handleReview('rejected')}
+                    disabled={saving}
+                    className="flex-1"
+                  >
+                    Reject
+                  </Button>
+                  <Button onClick={() => handleReview('approved')} disabled={saving} className="flex-1">
+                    Approve
+                  </Button>
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </Layout>
+  );
+};
+
+export default ExcuseRequests;
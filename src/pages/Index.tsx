@@ -60,7 +60,7 @@ const Index = () => {
             </CardHeader>
             <CardContent className="space-y-4">
               <p className="text-sm text-muted-foreground">
-                Login with your roll number to mark attendance for active lectures using face recognition and view your attendance records.
+                Sign in with your student account to mark attendance for active lectures using face recognition and view your attendance records.
               </p>
               <Link to="/auth">
                 <Button variant="outline" className="w-full">
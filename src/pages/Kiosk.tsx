@@ -1,23 +1,95 @@
 import { useState, useEffect, useRef } from 'react';
-import { useParams } from 'react-router-dom';
-import { supabase } from '@/integrations/supabase/client';
+import { Link, useParams } from 'react-router-dom';
+import { ambiguousMatchesAPI, enrollmentsAPI, lecturesAPI, studentEmbeddingsAPI, studentsAPI } from '@/lib/storage/data';
 import { loadFaceModels } from '@/lib/face/models';
-import { getEmbeddingFromVideo, euclideanDistance } from '@/lib/face/embedding';
+import { getEmbeddingsFromVideo, FaceDetectionResult } from '@/lib/face/embedding';
+import {
+  buildGallery,
+  DEFAULT_REVIEW_BAND,
+  getMatchMargin,
+  getMatchStrategy,
+  getReviewBand,
+  isAmbiguous,
+  needsReview,
+} from '@/lib/face/matcher';
+import { faceWorker } from '@/lib/face/worker-client';
+import { createLivenessSession, LivenessResult, LivenessSession } from '@/lib/face/liveness';
+import { outbox, rosterCache, RosterStudent } from '@/lib/storage/outbox';
+import { isLocalMode } from '@/lib/storage/indexeddb';
+import { kioskDevice, KioskCredential, KioskRevokedError } from '@/lib/kiosk/device';
+import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
-import { CheckCircle2, UserX } from 'lucide-react';
+import { CheckCircle2, Clock, Hourglass, Monitor, Wifi, WifiOff } from 'lucide-react';
 
-interface EnrolledStudent {
-  id: string;
-  roll_no: string;
-  name: string;
-  embedding: number[];
+type EnrolledStudent = RosterStudent;
+
+interface FaceMatch {
+  student: EnrolledStudent;
+  distance: number;
+  descriptor: Float32Array;
+  liveness: LivenessResult;
+  box: FaceDetectionResult['box'];
+}
+
+interface FaceTrack {
+  id: number;
+  box: FaceDetectionResult['box'];
+  session: LivenessSession;
+  lastSeen: number;
+  // An ambiguous match is logged once per face, not on every frame
+  ambiguityReported: boolean;
+}
+
+interface LabelledFace {
+  box: FaceDetectionResult['box'];
+  label: string;
+  state: 'matched' | 'unknown' | 'verifying' | 'ambiguous';
 }
 
+// A track is dropped once its face has been out of view this long
+const TRACK_TIMEOUT_MS = 2000;
+// Retry queued marks this often while the kiosk is open
+const SYNC_INTERVAL_MS = 15000;
+// Report to the server that this kiosk is alive
+const HEARTBEAT_INTERVAL_MS = 60000;
+// Pick up students enrolled while the kiosk is open
+const ROSTER_REFRESH_INTERVAL_MS = 5 * 60000;
+// Longest side, in pixels, of the face snapshot kept with each mark
+const SNAPSHOT_SIZE = 240;
+
 interface MarkedStudent {
+  entryId: string;
   roll_no: string;
   name: string;
   confidence: number;
   timestamp: Date;
+  synced: boolean;
+  needsReview: boolean;
+}
+
+// Changes whenever any enrolled descriptor does, so a student re-enrolled with the same number
+// of captures is noticed too
+function galleryFingerprint(gallery: number[][]): string {
+  let hash = 2166136261;
+  for (const descriptor of gallery) {
+    for (const value of descriptor) {
+      hash = Math.imul(hash ^ Math.round(value * 1e6), 16777619) >>> 0;
+    }
+  }
+  return `${gallery.length}:${hash}`;
+}
+
+// The server settles marks with its own threshold and review band, which a paired kiosk learns
+// from its heartbeat; Settings only applies in Local Mode
+function kioskMatchSettings(): { threshold: number; band: number } {
+  const localThreshold = parseFloat(localStorage.getItem('recognitionThreshold') || '0.45');
+  if (isLocalMode()) return { threshold: localThreshold, band: getReviewBand() };
+
+  const credential = kioskDevice.getCredential();
+  return {
+    threshold: credential?.match_threshold ?? localThreshold,
+    band: credential?.review_band ?? DEFAULT_REVIEW_BAND,
+  };
 }
 
 const Kiosk = () => {
@@ -26,10 +98,21 @@ const Kiosk = () => {
   const [markedStudents, setMarkedStudents] = useState<Set<string>>(new Set());
   const [recentMarks, setRecentMarks] = useState<MarkedStudent[]>([]);
   const [status, setStatus] = useState('Initializing...');
-  const [faceBox, setFaceBox] = useState<any>(null);
+  const [facesInView, setFacesInView] = useState(0);
+  const [online, setOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  // Supabase only accepts marks from a paired kiosk; Local Mode records them on this machine
+  const [device, setDevice] = useState<KioskCredential | null>(() => kioskDevice.getCredential());
+  const needsPairing = !isLocalMode() && !device;
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const lockoutMap = useRef<Map<string, number>>(new Map());
+  // The recognition loop outlives renders, so it reads roster and marks through refs
+  const studentsRef = useRef<EnrolledStudent[]>([]);
+  const markedRef = useRef<Set<string>>(new Set());
+  // Faces followed across frames so each one accumulates its own liveness evidence
+  const tracksRef = useRef<FaceTrack[]>([]);
+  const nextTrackId = useRef(1);
   const processingRef = useRef(false);
 
   useEffect(() => {
@@ -41,7 +124,59 @@ const Kiosk = () => {
     };
   }, [lectureId]);
 
+  // Replay the outbox whenever connectivity returns, and periodically as a fallback
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      syncOutbox();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    const interval = setInterval(syncOutbox, SYNC_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(interval);
+    };
+  }, []);
+
+  // Keeps last_seen_at fresh and notices when a teacher revokes the device
+  useEffect(() => {
+    if (isLocalMode()) return;
+
+    const beat = async () => {
+      if (!navigator.onLine) return;
+      try {
+        setDevice(await kioskDevice.heartbeat());
+      } catch (error) {
+        if (error instanceof KioskRevokedError) {
+          setDevice(null);
+          toast.error(error.message);
+        } else {
+          console.warn('Kiosk heartbeat failed:', error);
+        }
+      }
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const interval = setInterval(refreshRoster, ROSTER_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [lectureId]);
+
   const initialize = async () => {
+    if (!isLocalMode() && !kioskDevice.getCredential()) {
+      setStatus('This device is not paired as a kiosk');
+      return;
+    }
+
     try {
       setStatus('Loading face models...');
       await loadFaceModels();
@@ -54,6 +189,8 @@ const Kiosk = () => {
 
       setStatus('Loading enrolled students...');
       await fetchEnrolledStudents();
+      await restoreMarks();
+      syncOutbox();
 
       setStatus('Ready - Scanning for faces...');
       startRecognitionLoop();
@@ -63,29 +200,112 @@ const Kiosk = () => {
     }
   };
 
+  // Load the roster from the server and cache it; fall back to the cache when offline
   const fetchEnrolledStudents = async () => {
-    const { data: lecture } = await supabase
-      .from('lectures')
-      .select('course_id')
-      .eq('id', lectureId)
-      .single();
+    let enrolled: EnrolledStudent[];
+    try {
+      enrolled = await fetchRosterFromServer();
+      await rosterCache.put(lectureId!, enrolled);
+    } catch (error) {
+      const cached = await rosterCache.get(lectureId!);
+      if (!cached) throw error;
+      console.warn('Using cached roster:', error);
+      toast.warning('Offline: using the cached class roster');
+      enrolled = cached;
+    }
+
+    // Matching happens in the face worker, against an index built once from the roster
+    await faceWorker.setGallery(enrolled);
+    studentsRef.current = enrolled;
+    setStudents(enrolled);
+  };
+
+  // Brings the index up to date without rebuilding it: new and re-enrolled students are
+  // inserted, and students no longer on the roster removed
+  const refreshRoster = async () => {
+    if (!navigator.onLine) return;
+
+    try {
+      const enrolled = await fetchRosterFromServer();
+      const previous = new Map(studentsRef.current.map((s) => [s.id, s]));
+      const current = new Set(enrolled.map((s) => s.id));
+
+      await Promise.all([
+        ...[...previous.keys()].filter((id) => !current.has(id)).map((id) => faceWorker.remove(id)),
+        ...enrolled
+          .filter((student) => {
+            const before = previous.get(student.id);
+            return !before || galleryFingerprint(before.gallery) !== galleryFingerprint(student.gallery);
+          })
+          .map((student) => faceWorker.insert(student)),
+      ]);
+
+      await rosterCache.put(lectureId!, enrolled);
+      studentsRef.current = enrolled;
+      setStudents(enrolled);
+    } catch (error) {
+      console.warn('Roster refresh failed:', error);
+    }
+  };
 
+  const fetchRosterFromServer = async (): Promise<EnrolledStudent[]> => {
+    const lecture = await lecturesAPI.getById(lectureId!);
     if (!lecture) throw new Error('Lecture not found');
 
-    const { data: enrollments } = await supabase
-      .from('enrollments')
-      .select('student_id')
-      .eq('course_id', lecture.course_id);
+    const enrollments = await enrollmentsAPI.getByCourse(lecture.course_id);
+    const studentIds = enrollments.map(e => e.student_id);
+
+    const [students, embeddings] = await Promise.all([
+      studentsAPI.getByIds(studentIds),
+      studentEmbeddingsAPI.getByStudents(studentIds),
+    ]);
+
+    return students
+      .map((student) => ({
+        id: student.id,
+        roll_no: student.roll_no,
+        name: student.name,
+        gallery: buildGallery(
+          embeddings.filter((e) => e.student_id === student.id),
+          student.embedding
+        ),
+      }))
+      .filter((student) => student.gallery.length > 0);
+  };
+
+  // Marks queued in an earlier session still count, so a reload does not re-mark anyone
+  const restoreMarks = async () => {
+    const entries = (await outbox.getByLecture(lectureId!)).filter((e) => e.status !== 'rejected');
+    entries.forEach((entry) => markedRef.current.add(entry.student_id));
+    setMarkedStudents(new Set(markedRef.current));
+    setPendingCount(entries.filter((e) => e.status === 'pending').length);
+  };
 
-    const studentIds = enrollments?.map(e => e.student_id) || [];
+  const syncOutbox = async () => {
+    try {
+      const { synced, rejected, pending } = await outbox.sync();
+      setPendingCount(pending);
 
-    const { data: students } = await supabase
-      .from('students')
-      .select('id, roll_no, name, embedding')
-      .in('id', studentIds)
-      .not('embedding', 'is', null);
+      const syncedIds = new Set(synced.map((e) => e.id));
+      if (syncedIds.size > 0) {
+        setRecentMarks(prev => prev.map(m => (syncedIds.has(m.entryId) ? { ...m, synced: true } : m)));
+      }
 
-    setStudents(students || []);
+      // The server had the last word: undo marks it refused
+      const refused = rejected.filter((e) => e.lecture_id === lectureId);
+      if (refused.length > 0) {
+        const refusedIds = new Set(refused.map((e) => e.id));
+        refused.forEach((entry) => {
+          markedRef.current.delete(entry.student_id);
+          const student = studentsRef.current.find((s) => s.id === entry.student_id);
+          toast.error(`Not marked: ${student?.name ?? entry.student_id} — ${entry.last_error}`);
+        });
+        setMarkedStudents(new Set(markedRef.current));
+        setRecentMarks(prev => prev.filter(m => !refusedIds.has(m.entryId)));
+      }
+    } catch (error) {
+      console.error('Outbox sync error:', error);
+    }
   };
 
   const startRecognitionLoop = () => {
@@ -97,14 +317,54 @@ const Kiosk = () => {
 
       processingRef.current = true;
       try {
-        const result = await getEmbeddingFromVideo(videoRef.current);
-        
-        if (result) {
-          setFaceBox(result.box);
-          drawFaceBox(result.box);
-          await matchFace(result.descriptor);
+        const { threshold } = kioskMatchSettings();
+        const results = await getEmbeddingsFromVideo(videoRef.current, {
+          match: { threshold, strategy: getMatchStrategy() },
+        });
+        setFacesInView(results.length);
+
+        const video = videoRef.current;
+        const now = Date.now();
+        const claimed = new Set<number>();
+        const tracks = results.map((result) => assignTrack(result.box, now, claimed));
+        const livenessResults = results.map((result, i) => tracks[i].session.update(result, video));
+        tracksRef.current = tracksRef.current.filter((t) => now - t.lastSeen < TRACK_TIMEOUT_MS);
+
+        if (results.length > 0) {
+          // Match every live face in the frame independently; a face as close to a second
+          // student as to the first is not marked as either
+          const margin = getMatchMargin();
+          const ambiguous = results.map(
+            (result, i) =>
+              livenessResults[i].passed &&
+              !!result.match?.runnerUp &&
+              isAmbiguous(result.match.distance, result.match.runnerUp.distance, margin)
+          );
+          ambiguous.forEach((isAmbiguousMatch, i) => isAmbiguousMatch && reportAmbiguity(results[i], tracks[i]));
+          const matches = results.map((result, i) =>
+            livenessResults[i].passed && !ambiguous[i] ? matchFace(result, livenessResults[i]) : null
+          );
+          drawFaceBoxes(
+            results.map((result, i) => ({
+              box: result.box,
+              label: !livenessResults[i].passed
+                ? 'Verifying...'
+                : ambiguous[i]
+                ? 'Not sure - see your teacher'
+                : matches[i]
+                ? matches[i].student.name
+                : 'Unknown',
+              state: !livenessResults[i].passed
+                ? 'verifying'
+                : ambiguous[i]
+                ? 'ambiguous'
+                : matches[i]
+                ? 'matched'
+                : 'unknown',
+            }))
+          );
+          await markMatches(matches.filter((m): m is FaceMatch => m !== null));
         } else {
-          setFaceBox(null);
           clearCanvas();
         }
       } catch (error) {
@@ -117,67 +377,157 @@ const Kiosk = () => {
     loop();
   };
 
-  const matchFace = async (descriptor: Float32Array) => {
-    const threshold = parseFloat(localStorage.getItem('recognitionThreshold') || '0.45');
-    const lockoutMinutes = parseInt(localStorage.getItem('lockoutMinutes') || '10');
-    
-    let bestMatch: { student: EnrolledStudent; distance: number } | null = null;
-
-    for (const student of students) {
-      const distance = euclideanDistance(descriptor, student.embedding);
-      if (distance <= threshold && (!bestMatch || distance < bestMatch.distance)) {
-        bestMatch = { student, distance };
+  // Follow a face to the nearest track from the previous frames, or start a new one
+  const assignTrack = (box: FaceDetectionResult['box'], now: number, claimed: Set<number>): FaceTrack => {
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+
+    let nearest: FaceTrack | null = null;
+    let nearestDistance = Infinity;
+    for (const track of tracksRef.current) {
+      if (claimed.has(track.id)) continue;
+      const distance = Math.hypot(
+        track.box.x + track.box.width / 2 - cx,
+        track.box.y + track.box.height / 2 - cy
+      );
+      if (distance < box.width / 2 && distance < nearestDistance) {
+        nearest = track;
+        nearestDistance = distance;
       }
     }
 
-    if (bestMatch) {
-      const { student, distance } = bestMatch;
-      const confidence = 1 - distance;
+    const track = nearest || {
+      id: nextTrackId.current++,
+      box,
+      session: createLivenessSession('passive'),
+      lastSeen: now,
+      ambiguityReported: false,
+    };
+    if (!nearest) tracksRef.current.push(track);
+
+    track.box = box;
+    track.lastSeen = now;
+    claimed.add(track.id);
+    return track;
+  };
+
+  // The worker already matched the face against the roster; this only attaches the student
+  const matchFace = (result: FaceDetectionResult, liveness: LivenessResult): FaceMatch | null => {
+    const student = result.match && studentsRef.current.find((s) => s.id === result.match!.id);
+    return student
+      ? { student, distance: result.match!.distance, descriptor: result.descriptor, liveness, box: result.box }
+      : null;
+  };
+
+  // Kept for the look-alike report on the Students page; the kiosk carries on either way
+  const reportAmbiguity = (result: FaceDetectionResult, track: FaceTrack) => {
+    const match = result.match;
+    if (track.ambiguityReported || !match?.runnerUp) return;
+    track.ambiguityReported = true;
+
+    ambiguousMatchesAPI
+      .record({
+        lecture_id: lectureId!,
+        student_id: match.id,
+        distance: match.distance,
+        runner_up_id: match.runnerUp.id,
+        runner_up_distance: match.runnerUp.distance,
+      })
+      .catch((error) => console.warn('Could not record ambiguous match:', error));
+  };
+
+  // The face with some margin around it, small enough to queue offline. Kept with the mark as
+  // evidence, and shown beside the enrolled photo when a borderline match is reviewed.
+  const captureFace = (box: FaceDetectionResult['box']): string | null => {
+    const video = videoRef.current;
+    if (!video) return null;
+
+    const margin = box.width / 2;
+    const x = Math.max(0, box.x - margin);
+    const y = Math.max(0, box.y - margin);
+    const width = Math.min(video.videoWidth - x, box.width + margin * 2);
+    const height = Math.min(video.videoHeight - y, box.height + margin * 2);
+    const scale = Math.min(1, SNAPSHOT_SIZE / Math.max(width, height));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(video, x, y, width, height, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.85);
+  };
+
+  const markMatches = async (matches: FaceMatch[]) => {
+    const lockoutMinutes = parseInt(localStorage.getItem('lockoutMinutes') || '10');
+    const seen = new Set<string>();
+
+    const toMark = matches.filter(({ student }) => {
+      // The same student can only be marked once per frame
+      if (seen.has(student.id)) return false;
+      seen.add(student.id);
 
       // Check lockout
       const lastMarked = lockoutMap.current.get(student.id);
       if (lastMarked && Date.now() - lastMarked < lockoutMinutes * 60000) {
-        return;
+        return false;
       }
 
       // Check if already marked
-      if (markedStudents.has(student.id)) {
-        return;
-      }
-
-      // Mark attendance
-      await markAttendance(student.id, confidence);
-      
-      lockoutMap.current.set(student.id, Date.now());
-      setMarkedStudents(prev => new Set(prev).add(student.id));
-      setRecentMarks(prev => [
-        { roll_no: student.roll_no, name: student.name, confidence, timestamp: new Date() },
-        ...prev.slice(0, 4)
-      ]);
-
-      toast.success(`Present: ${student.roll_no} — ${student.name} (${(confidence * 100).toFixed(0)}%)`);
-    }
-  };
+      return !markedRef.current.has(student.id);
+    });
 
-  const markAttendance = async (studentId: string, confidence: number) => {
-    const kioskToken = localStorage.getItem('KIOSK_TOKEN') || '';
-    
-    await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mark-attendance`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-kiosk-token': kioskToken,
-      },
-      body: JSON.stringify({
-        lecture_id: lectureId,
-        student_id: studentId,
-        confidence,
-        method: 'face',
-      }),
+    if (toMark.length === 0) return;
+
+    // Borderline matches are recorded for a teacher to review
+    const { threshold, band } = kioskMatchSettings();
+    const borderline = toMark.map(({ distance }) => needsReview(distance, threshold, band));
+
+    // Write every match to the outbox first so a dropped connection loses nothing;
+    // the server re-verifies each face when the outbox is replayed
+    const now = Date.now();
+    const entries = await Promise.all(
+      toMark.map(({ student, descriptor, liveness, distance, box }, i) =>
+        outbox.enqueue({
+          lecture_id: lectureId!,
+          student_id: student.id,
+          descriptor: Array.from(descriptor),
+          liveness,
+          method: 'face',
+          confidence: 1 - distance,
+          frame: captureFace(box),
+        })
+      )
+    );
+
+    toMark.forEach(({ student }) => {
+      lockoutMap.current.set(student.id, now);
+      markedRef.current.add(student.id);
     });
+    setMarkedStudents(new Set(markedRef.current));
+    setPendingCount(count => count + entries.length);
+    setRecentMarks(prev => [
+      ...toMark.map(({ student, distance }, i) => ({
+        entryId: entries[i].id,
+        roll_no: student.roll_no,
+        name: student.name,
+        confidence: 1 - distance,
+        timestamp: new Date(now),
+        synced: false,
+        needsReview: borderline[i],
+      })),
+      ...prev,
+    ].slice(0, 5));
+
+    toMark.forEach(({ student, distance }, i) => {
+      const label = borderline[i] ? 'Recorded for review' : 'Present';
+      toast.success(`${label}: ${student.roll_no} — ${student.name} (${((1 - distance) * 100).toFixed(0)}%)`);
+    });
+
+    syncOutbox();
   };
 
-  const drawFaceBox = (box: any) => {
+  const drawFaceBoxes = (faces: LabelledFace[]) => {
     const canvas = canvasRef.current;
     const video = videoRef.current;
     if (!canvas || !video) return;
@@ -188,9 +538,26 @@ const Kiosk = () => {
     if (!ctx) return;
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
-    ctx.strokeStyle = '#10b981';
     ctx.lineWidth = 3;
-    ctx.strokeRect(box.x, box.y, box.width, box.height);
+    ctx.font = '600 20px sans-serif';
+    ctx.textBaseline = 'bottom';
+
+    const colors = { matched: '#10b981', unknown: '#f59e0b', verifying: '#3b82f6', ambiguous: '#ef4444' };
+
+    faces.forEach(({ box, label: text, state }) => {
+      const color = colors[state];
+
+      ctx.strokeStyle = color;
+      ctx.strokeRect(box.x, box.y, box.width, box.height);
+
+      // Label tag above the box, or inside it when the face touches the top edge
+      const textWidth = ctx.measureText(text).width;
+      const tagY = box.y >= 30 ? box.y : box.y + 30;
+      ctx.fillStyle = color;
+      ctx.fillRect(box.x - 1.5, tagY - 30, textWidth + 16, 30);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(text, box.x + 6.5, tagY - 4);
+    });
   };
 
   const clearCanvas = () => {
@@ -206,8 +573,23 @@ const Kiosk = () => {
     <div className="min-h-screen bg-background flex flex-col">
       <div className="bg-primary text-primary-foreground px-6 py-4 flex items-center justify-between">
         <h1 className="text-2xl font-bold">Attendance Kiosk</h1>
-        <div className="text-sm">
-          <span className="font-medium">{markedStudents.size}</span> / {students.length} Present
+        <div className="text-sm flex items-center gap-3">
+          {device && (
+            <span className="flex items-center gap-1 opacity-80">
+              <Monitor className="w-4 h-4" />
+              {device.name}
+            </span>
+          )}
+          <span>
+            <span className="font-medium">{markedStudents.size}</span> / {students.length} Present
+          </span>
+          {facesInView > 0 && (
+            <span className="opacity-80">· {facesInView} in view</span>
+          )}
+          <span className="flex items-center gap-1 opacity-80">
+            {online ? <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+            {pendingCount > 0 ? `${pendingCount} pending sync` : 'All synced'}
+          </span>
         </div>
       </div>
 
@@ -224,8 +606,22 @@ const Kiosk = () => {
             className="absolute top-0 left-0 w-full h-full pointer-events-none"
           />
           <div className="absolute bottom-6 left-1/2 -translate-x-1/2 bg-card/90 backdrop-blur px-6 py-3 rounded-full shadow-strong">
-            <p className="text-lg font-medium">{status}</p>
+            <p className="text-lg font-medium">{needsPairing ? 'This device is not paired as a kiosk' : status}</p>
           </div>
+          {needsPairing && (
+            <div className="absolute inset-0 flex items-center justify-center bg-background/80">
+              <div className="bg-card border rounded-lg p-6 max-w-sm text-center space-y-4">
+                <Monitor className="w-10 h-10 mx-auto text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">
+                  Register this device on the Kiosk Devices page, then enter the pairing code here.
+                  Marks taken before pairing stay queued.
+                </p>
+                <Button asChild>
+                  <Link to={`/kiosk/pair?next=${encodeURIComponent(`/kiosk/${lectureId}`)}`}>Pair this kiosk</Link>
+                </Button>
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="w-80 bg-card border-l border-border p-4 space-y-4 overflow-y-auto">
@@ -234,8 +630,8 @@ const Kiosk = () => {
             <p className="text-sm text-muted-foreground">No attendance marked yet</p>
           ) : (
             <div className="space-y-2">
-              {recentMarks.map((mark, i) => (
-                <div key={i} className="bg-success/10 border border-success/20 rounded-lg p-3">
+              {recentMarks.map((mark) => (
+                <div key={mark.entryId} className="bg-success/10 border border-success/20 rounded-lg p-3">
                   <div className="flex items-start gap-2">
                     <CheckCircle2 className="w-5 h-5 text-success mt-0.5" />
                     <div className="flex-1 min-w-0">
@@ -244,6 +640,18 @@ const Kiosk = () => {
                       <p className="text-xs text-muted-foreground mt-1">
                         {mark.timestamp.toLocaleTimeString()} · {(mark.confidence * 100).toFixed(0)}% confidence
                       </p>
+                      {mark.needsReview && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                          <Hourglass className="w-3 h-3" />
+                          Awaiting teacher review
+                        </p>
+                      )}
+                      {!mark.synced && (
+                        <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                          <Clock className="w-3 h-3" />
+                          Pending sync
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
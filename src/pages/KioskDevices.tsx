@@ -0,0 +1,329 @@
+import { useState, useEffect } from 'react';
+import { Layout } from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { QRCodeSVG } from 'qrcode.react';
+import { coursesAPI, kioskDevicesAPI, CourseSummary, KioskDevice } from '@/lib/storage/data';
+import { isLocalMode } from '@/lib/storage/indexeddb';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { formatDistanceToNow, parseISO } from 'date-fns';
+import { Plus, Trash2, Ban, QrCode } from 'lucide-react';
+
+const ANY_COURSE = 'any';
+// A kiosk that has not checked in for this long is shown as offline
+const ONLINE_WINDOW_MS = 3 * 60 * 1000;
+
+interface Pairing {
+  deviceName: string;
+  code: string;
+}
+
+function deviceStatus(device: KioskDevice): { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' } {
+  if (device.revoked_at) return { label: 'Revoked', variant: 'destructive' };
+  if (!device.paired_at) return { label: 'Awaiting pairing', variant: 'outline' };
+  if (device.last_seen_at && Date.now() - parseISO(device.last_seen_at).getTime() < ONLINE_WINDOW_MS) {
+    return { label: 'Online', variant: 'default' };
+  }
+  return { label: 'Offline', variant: 'secondary' };
+}
+
+const KioskDevices = () => {
+  const [devices, setDevices] = useState<KioskDevice[]>([]);
+  const [courses, setCourses] = useState<CourseSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [courseId, setCourseId] = useState(ANY_COURSE);
+  const [room, setRoom] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [pairing, setPairing] = useState<Pairing | null>(null);
+  const { teacher } = useAuth();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setLoading(true);
+    try {
+      const [devices, courses] = await Promise.all([
+        kioskDevicesAPI.getAll(),
+        coursesAPI.getForTeacher(teacher!.id),
+      ]);
+      setDevices(devices);
+      setCourses(courses);
+    } catch {
+      toast.error('Error fetching kiosk devices');
+    }
+    setLoading(false);
+  };
+
+  const resetForm = () => {
+    setName('');
+    setCourseId(ANY_COURSE);
+    setRoom('');
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Please give the kiosk a name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { device, pairingCode } = await kioskDevicesAPI.create({
+        name: name.trim(),
+        course_id: courseId === ANY_COURSE ? null : courseId,
+        room: room.trim() || null,
+      });
+      setDialogOpen(false);
+      resetForm();
+      setPairing({ deviceName: device.name, code: pairingCode });
+      await fetchData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error registering kiosk');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRepair = async (device: KioskDevice) => {
+    try {
+      setPairing({ deviceName: device.name, code: await kioskDevicesAPI.issuePairingCode(device.id) });
+      await fetchData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error issuing pairing code');
+    }
+  };
+
+  const handleRevoke = async (device: KioskDevice) => {
+    if (!confirm(`Revoke "${device.name}"? It will stop marking attendance immediately.`)) return;
+
+    try {
+      await kioskDevicesAPI.revoke(device.id);
+      toast.success('Kiosk revoked');
+      await fetchData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error revoking kiosk');
+    }
+  };
+
+  const handleDelete = async (device: KioskDevice) => {
+    if (!confirm(`Delete "${device.name}"? Attendance it recorded is kept.`)) return;
+
+    try {
+      await kioskDevicesAPI.delete(device.id);
+      toast.success('Kiosk deleted');
+      await fetchData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error deleting kiosk');
+    }
+  };
+
+  const courseLabel = (id: string | null) => {
+    if (!id) return 'Any course';
+    const course = courses.find((c) => c.id === id);
+    return course ? course.code : 'Other course';
+  };
+
+  const pairingUrl = pairing ? `${window.location.origin}/kiosk/pair?code=${pairing.code}` : '';
+
+  if (isLocalMode()) {
+    return (
+      <Layout>
+        <div className="container mx-auto p-6 space-y-6">
+          <h1 className="text-3xl font-bold text-foreground">Kiosk Devices</h1>
+          <Card>
+            <CardContent className="py-8">
+              <p className="text-center text-muted-foreground">
+                In Local Mode the kiosk runs on this machine and needs no registration.
+                Turn off Local Mode to register kiosks with Supabase.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto p-6 space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Kiosk Devices</h1>
+            <p className="text-muted-foreground mt-1">
+              Each kiosk pairs once and holds its own credential, which you can revoke at any time
+            </p>
+          </div>
+          <Dialog open={dialogOpen} onOpenChange={(open) => {
+            setDialogOpen(open);
+            if (!open) resetForm();
+          }}>
+            <DialogTrigger asChild>
+              <Button className="gap-2">
+                <Plus className="w-4 h-4" />
+                Register Kiosk
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Register Kiosk</DialogTitle>
+                <DialogDescription>
+                  Optionally limit the kiosk to one course or room
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 mt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="kiosk-name">Name</Label>
+                  <Input
+                    id="kiosk-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g., Room 101 tablet"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Course</Label>
+                  <Select value={courseId} onValueChange={setCourseId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_COURSE}>Any course</SelectItem>
+                      {courses.map((course) => (
+                        <SelectItem key={course.id} value={course.id}>
+                          {course.code} - {course.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="kiosk-room">Room</Label>
+                  <Input
+                    id="kiosk-room"
+                    value={room}
+                    onChange={(e) => setRoom(e.target.value)}
+                    placeholder="Any room"
+                  />
+                </div>
+                <div className="flex gap-3 pt-4">
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setDialogOpen(false);
+                      resetForm();
+                    }}
+                    className="flex-1"
+                  >
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSave} disabled={saving} className="flex-1">
+                    {saving ? 'Registering...' : 'Register'}
+                  </Button>
+                </div>
+              </div>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        <Dialog open={!!pairing} onOpenChange={(open) => !open && setPairing(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Pair {pairing?.deviceName}</DialogTitle>
+              <DialogDescription>
+                Scan the code with the kiosk, or open /kiosk/pair on it and type the code. It expires in 15 minutes.
+              </DialogDescription>
+            </DialogHeader>
+            {pairing && (
+              <div className="flex flex-col items-center gap-4 py-4">
+                <div className="bg-white p-4 rounded-lg">
+                  <QRCodeSVG value={pairingUrl} size={200} />
+                </div>
+                <p className="text-3xl font-mono font-bold tracking-widest">{pairing.code}</p>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+
+        {loading ? (
+          <Card>
+            <CardContent className="py-8">
+              <p className="text-center text-muted-foreground">Loading...</p>
+            </CardContent>
+          </Card>
+        ) : devices.length === 0 ? (
+          <Card>
+            <CardContent className="py-8">
+              <p className="text-center text-muted-foreground">
+                No kiosks registered yet. Click "Register Kiosk" to add one.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last seen</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {devices.map((device) => {
+                  const status = deviceStatus(device);
+                  return (
+                    <TableRow key={device.id}>
+                      <TableCell className="font-medium">{device.name}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {courseLabel(device.course_id)}
+                        {device.room && ` · Room ${device.room}`}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {device.last_seen_at
+                          ? formatDistanceToNow(parseISO(device.last_seen_at), { addSuffix: true })
+                          : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-1">
+                          <Button variant="ghost" size="sm" onClick={() => handleRepair(device)} title="New pairing code">
+                            <QrCode className="w-4 h-4" />
+                          </Button>
+                          {!device.revoked_at && (
+                            <Button variant="ghost" size="sm" onClick={() => handleRevoke(device)} title="Revoke">
+                              <Ban className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="sm" onClick={() => handleDelete(device)} title="Delete">
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default KioskDevices;
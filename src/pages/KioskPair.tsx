@@ -0,0 +1,98 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { kioskDevice, KioskCredential } from '@/lib/kiosk/device';
+import { toast } from 'sonner';
+import { Monitor } from 'lucide-react';
+
+// Opened on the kiosk itself, usually by scanning the QR code from the Kiosk Devices page
+const KioskPair = () => {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const [code, setCode] = useState(searchParams.get('code') ?? '');
+  const [pairing, setPairing] = useState(false);
+  const [device, setDevice] = useState<KioskCredential | null>(() => kioskDevice.getCredential());
+  const next = searchParams.get('next');
+
+  const pair = async (value: string) => {
+    if (!value.trim()) return;
+
+    setPairing(true);
+    try {
+      const credential = await kioskDevice.pair(value);
+      setDevice(credential);
+      toast.success(`Paired as ${credential.name}`);
+      if (next?.startsWith('/')) navigate(next);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error pairing kiosk');
+    } finally {
+      setPairing(false);
+    }
+  };
+
+  // A scanned QR code carries the code in the URL, so pair right away
+  useEffect(() => {
+    const scanned = searchParams.get('code');
+    if (scanned && !kioskDevice.getCredential()) pair(scanned);
+  }, []);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background via-background to-primary/5 p-6">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="w-12 h-12 mx-auto rounded-full bg-primary/10 flex items-center justify-center">
+            <Monitor className="w-6 h-6 text-primary" />
+          </div>
+          <CardTitle>Pair Kiosk</CardTitle>
+          <CardDescription>
+            {device
+              ? `This device is paired as "${device.name}". Pairing again replaces its registration.`
+              : 'Enter the pairing code shown on the Kiosk Devices page'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              pair(code);
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="pairing-code">Pairing code</Label>
+              <Input
+                id="pairing-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="XXXX-XXXX"
+                className="font-mono text-center text-lg tracking-widest"
+                autoComplete="off"
+              />
+            </div>
+            <Button type="submit" disabled={pairing || !code.trim()} className="w-full">
+              {pairing ? 'Pairing...' : 'Pair'}
+            </Button>
+            {device && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => {
+                  kioskDevice.forget();
+                  setDevice(null);
+                }}
+              >
+                Unpair this device
+              </Button>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default KioskPair;
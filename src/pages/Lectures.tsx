@@ -9,26 +9,32 @@ import { Input } from '@/components/ui/input';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
-import { supabase } from '@/integrations/supabase/client';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  attendanceAPI,
+  coursesAPI,
+  courseTeachersAPI,
+  enrollmentsAPI,
+  lecturesAPI,
+  studentsAPI,
+  teachersAPI,
+  Course,
+  CourseTeamMember,
+  Lecture as LectureRecord,
+  LectureWithCount,
+} from '@/lib/storage/data';
+import { useAuth } from '@/contexts/AuthContext';
+import { LectureSchedules } from '@/components/LectureSchedules';
+import { AttendanceStatusBadge } from '@/components/AttendanceStatusBadge';
+import { ATTENDANCE_STATUSES, AttendanceStatus, STATUS_LABELS, isAttendanceStatus, statusOf } from '@/lib/attendance/status';
 import { toast } from 'sonner';
-import { Plus, ExternalLink, Calendar, ArrowLeft, UserCheck, MapPin } from 'lucide-react';
-import { format, addMinutes } from 'date-fns';
+import { Plus, ExternalLink, Calendar, ArrowLeft, UserCheck, MapPin, Trash2, Pencil } from 'lucide-react';
+import { format, addMinutes, differenceInMinutes } from 'date-fns';
 
-interface Course {
-  id: string;
-  code: string;
-  title: string;
-  teacher: string;
-}
+type CourseTeacher = CourseTeamMember;
+type Lecture = LectureWithCount;
 
-interface Lecture {
-  id: string;
-  starts_at: string;
-  ends_at: string;
-  room: string | null;
-  attendance_count?: number;
-  attendance_enabled: boolean;
-}
+const NOT_MARKED = 'none';
 
 interface Student {
   id: string;
@@ -40,7 +46,11 @@ interface Student {
 const Lectures = () => {
   const { courseId } = useParams<{ courseId: string }>();
   const navigate = useNavigate();
+  const { teacher } = useAuth();
   const [course, setCourse] = useState<Course | null>(null);
+  const [courseTeachers, setCourseTeachers] = useState<CourseTeacher[]>([]);
+  const [teachersDialogOpen, setTeachersDialogOpen] = useState(false);
+  const [assistantEmail, setAssistantEmail] = useState('');
   const [lectures, setLectures] = useState<Lecture[]>([]);
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
@@ -55,8 +65,16 @@ const Lectures = () => {
   const [saving, setSaving] = useState(false);
   const [attendanceDialogOpen, setAttendanceDialogOpen] = useState(false);
   const [selectedLectureId, setSelectedLectureId] = useState<string | null>(null);
-  const [lectureAttendance, setLectureAttendance] = useState<{ [studentId: string]: boolean }>({});
+  const [lectureAttendance, setLectureAttendance] = useState<{ [studentId: string]: AttendanceStatus }>({});
   const [loadingAttendance, setLoadingAttendance] = useState(false);
+  const [changeReason, setChangeReason] = useState('');
+  const [editingLecture, setEditingLecture] = useState<Lecture | null>(null);
+  const [editStartsAt, setEditStartsAt] = useState('');
+  const [editDuration, setEditDuration] = useState(60);
+  const [editRoom, setEditRoom] = useState('');
+  const [policyDialogOpen, setPolicyDialogOpen] = useState(false);
+  const [lateCutoff, setLateCutoff] = useState('');
+  const [retentionDays, setRetentionDays] = useState('');
 
   useEffect(() => {
     if (courseId) {
@@ -66,89 +84,93 @@ const Lectures = () => {
     }
   }, [courseId]);
 
-  const fetchCourse = async () => {
-    const { data, error } = await supabase
-      .from('courses')
-      .select('*')
-      .eq('id', courseId)
-      .single();
+  const isOwner = courseTeachers.some(
+    (t) => t.teacher_id === teacher?.id && t.role === 'owner'
+  );
 
-    if (error) {
+  const fetchCourse = async () => {
+    try {
+      // RLS only returns courses the signed-in teacher belongs to
+      const courseData = await coursesAPI.getById(courseId!);
+      if (!courseData) throw new Error('Course not found');
+
+      setCourse(courseData);
+      setLateCutoff(courseData.late_cutoff_minutes?.toString() ?? '');
+      setRetentionDays(courseData.snapshot_retention_days?.toString() ?? '');
+      setCourseTeachers(await courseTeachersAPI.getMembers(courseId!));
+    } catch {
       toast.error('Error fetching course');
       navigate('/courses');
-    } else {
-      setCourse(data);
     }
   };
 
-  const fetchLectures = async () => {
-    setLoading(true);
-    const { data, error } = await supabase
-      .from('lectures')
-      .select('id, starts_at, ends_at, room, attendance_enabled')
-      .eq('course_id', courseId)
-      .order('starts_at', { ascending: false });
+  const handleAddAssistant = async () => {
+    if (!assistantEmail.trim()) return;
 
-    if (error) {
-      toast.error('Error fetching lectures');
-      setLoading(false);
-      return;
+    try {
+      const assistant = await teachersAPI.getByEmail(assistantEmail);
+      if (!assistant) {
+        toast.error('No teacher account uses this email');
+        return;
+      }
+
+      await courseTeachersAPI.add({ course_id: courseId!, teacher_id: assistant.id, role: 'assistant' });
+
+      toast.success('Assistant added');
+      setAssistantEmail('');
+      fetchCourse();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error adding assistant');
     }
+  };
 
-    const lecturesWithCounts = await Promise.all(
-      (data || []).map(async (lecture) => {
-        const { count } = await supabase
-          .from('attendance')
-          .select('*', { count: 'exact', head: true })
-          .eq('lecture_id', lecture.id);
+  const handleRemoveTeacher = async (teacherId: string) => {
+    try {
+      await courseTeachersAPI.remove(courseId!, teacherId);
 
-        return { ...lecture, attendance_count: count || 0 };
-      })
-    );
+      toast.success('Teacher removed from course');
+      fetchCourse();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error removing teacher');
+    }
+  };
 
-    setLectures(lecturesWithCounts);
+  const fetchLectures = async () => {
+    setLoading(true);
+    try {
+      await attendanceAPI.finalizeEndedLectures();
+      // Nothing on the page depends on it, so a failed purge is retried next time
+      attendanceAPI.purgeExpiredSnapshots().catch((error) => console.error('Error purging snapshots:', error));
+      setLectures(await lecturesAPI.getByCourseWithCounts(courseId!));
+    } catch {
+      toast.error('Error fetching lectures');
+    }
     setLoading(false);
   };
 
   const fetchStudents = async () => {
-    const { data: allStudents, error: studentsError } = await supabase
-      .from('students')
-      .select('*')
-      .order('roll_no');
+    try {
+      const [allStudents, enrollments] = await Promise.all([
+        studentsAPI.getAll(),
+        enrollmentsAPI.getByCourse(courseId!),
+      ]);
 
-    if (studentsError) {
-      toast.error('Error fetching students');
-      return;
-    }
+      const enrolledIds = new Set(enrollments.map((e) => e.student_id));
 
-    const { data: enrollments, error: enrollError } = await supabase
-      .from('enrollments')
-      .select('student_id')
-      .eq('course_id', courseId);
+      const studentsWithEnrollment = allStudents.map((student) => ({
+        ...student,
+        enrolled: enrolledIds.has(student.id),
+      }));
 
-    if (enrollError) {
-      toast.error('Error fetching enrollments');
-      return;
+      setStudents(studentsWithEnrollment);
+    } catch {
+      toast.error('Error fetching students');
     }
-
-    const enrolledIds = new Set(enrollments?.map((e) => e.student_id) || []);
-
-    const studentsWithEnrollment = (allStudents || []).map((student) => ({
-      ...student,
-      enrolled: enrolledIds.has(student.id),
-    }));
-
-    setStudents(studentsWithEnrollment);
   };
 
   const toggleLectureAttendance = async (lectureId: string, currentStatus: boolean) => {
     try {
-      const { error } = await supabase
-        .from('lectures')
-        .update({ attendance_enabled: !currentStatus })
-        .eq('id', lectureId);
-
-      if (error) throw error;
+      await lecturesAPI.update(lectureId, { attendance_enabled: !currentStatus });
 
       toast.success(`Attendance ${!currentStatus ? 'enabled' : 'disabled'} for lecture`);
       fetchLectures();
@@ -175,8 +197,8 @@ const Lectures = () => {
       const startsAtDate = new Date(startsAt);
       const endsAtDate = addMinutes(startsAtDate, duration);
 
-      const lectureData: any = {
-        course_id: courseId,
+      const lectureData: Omit<LectureRecord, 'id' | 'created_at'> = {
+        course_id: courseId!,
         starts_at: startsAtDate.toISOString(),
         ends_at: endsAtDate.toISOString(),
         room: room || null,
@@ -189,9 +211,7 @@ const Lectures = () => {
         lectureData.radius = parseFloat(radius) || 100;
       }
 
-      const { error } = await supabase.from('lectures').insert(lectureData);
-
-      if (error) throw error;
+      await lecturesAPI.create(lectureData);
 
       toast.success('Lecture created successfully!');
       fetchLectures();
@@ -209,25 +229,49 @@ const Lectures = () => {
     }
   };
 
+  const openEditDialog = (lecture: Lecture) => {
+    const starts = new Date(lecture.starts_at);
+    setEditingLecture(lecture);
+    setEditStartsAt(format(starts, "yyyy-MM-dd'T'HH:mm"));
+    setEditDuration(differenceInMinutes(new Date(lecture.ends_at), starts));
+    setEditRoom(lecture.room || '');
+  };
+
+  // Editing one occurrence of a schedule turns it into an exception, so regenerating leaves it alone
+  const handleUpdateLecture = async () => {
+    if (!editingLecture || !editStartsAt) return;
+
+    setSaving(true);
+
+    try {
+      const startsAtDate = new Date(editStartsAt);
+
+      await lecturesAPI.update(editingLecture.id, {
+        starts_at: startsAtDate.toISOString(),
+        ends_at: addMinutes(startsAtDate, editDuration).toISOString(),
+        room: editRoom || null,
+        is_exception: !!editingLecture.schedule_id,
+      });
+
+      toast.success('Lecture updated');
+      setEditingLecture(null);
+      fetchLectures();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error updating lecture');
+    } finally {
+      setSaving(false);
+    }
+  };
+
   const toggleEnrollment = async (studentId: string, enrolled: boolean) => {
     try {
       if (enrolled) {
-        const { error } = await supabase
-          .from('enrollments')
-          .delete()
-          .eq('student_id', studentId)
-          .eq('course_id', courseId);
-
-        if (error) throw error;
+        await enrollmentsAPI.delete(studentId, courseId!);
       } else {
-        const { error } = await supabase
-          .from('enrollments')
-          .insert({
-            student_id: studentId,
-            course_id: courseId,
-          });
-
-        if (error) throw error;
+        await enrollmentsAPI.create({
+          student_id: studentId,
+          course_id: courseId!,
+        });
       }
 
       setStudents((prev) =>
@@ -246,6 +290,7 @@ const Lectures = () => {
 
   const openAttendanceDialog = async (lectureId: string) => {
     setSelectedLectureId(lectureId);
+    setChangeReason('');
     setAttendanceDialogOpen(true);
     await fetchLectureAttendance(lectureId);
   };
@@ -257,67 +302,70 @@ const Lectures = () => {
       const enrolledStudents = students.filter(s => s.enrolled);
       
       // Get existing attendance
-      const { data: attendance, error } = await supabase
-        .from('attendance')
-        .select('student_id')
-        .eq('lecture_id', lectureId);
+      const attendance = await attendanceAPI.getByLecture(lectureId);
 
-      if (error) throw error;
+      const enrolledIds = new Set(enrolledStudents.map(s => s.id));
+      const attendanceMap: { [studentId: string]: AttendanceStatus } = {};
 
-      const markedStudentIds = new Set((attendance || []).map(a => a.student_id));
-      const attendanceMap: { [studentId: string]: boolean } = {};
-      
-      enrolledStudents.forEach(student => {
-        attendanceMap[student.id] = markedStudentIds.has(student.id);
-      });
+      attendance
+        .filter(a => enrolledIds.has(a.student_id))
+        .forEach(a => {
+          attendanceMap[a.student_id] = statusOf(a);
+        });
 
       setLectureAttendance(attendanceMap);
-    } catch (error: any) {
-      toast.error(error.message || 'Error fetching attendance');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error fetching attendance');
     } finally {
       setLoadingAttendance(false);
     }
   };
 
-  const toggleAttendance = async (studentId: string, isPresent: boolean) => {
+  const updateAttendanceStatus = async (studentId: string, value: string) => {
     if (!selectedLectureId) return;
 
+    const status = isAttendanceStatus(value) ? value : null;
     try {
-      if (isPresent) {
-        // Remove attendance
-        const { error } = await supabase
-          .from('attendance')
-          .delete()
-          .eq('lecture_id', selectedLectureId)
-          .eq('student_id', studentId);
-
-        if (error) throw error;
-        toast.success('Attendance removed');
-      } else {
-        // Add attendance
-        const { error } = await supabase
-          .from('attendance')
-          .insert({
-            lecture_id: selectedLectureId,
-            student_id: studentId,
-            method: 'manual',
-            marked_at: new Date().toISOString(),
-          });
-
-        if (error) throw error;
-        toast.success('Attendance marked');
-      }
+      await attendanceAPI.setStatus(selectedLectureId, studentId, status, {
+        actorId: teacher?.id,
+        reason: changeReason,
+      });
+      toast.success(status ? `Marked ${STATUS_LABELS[status].toLowerCase()}` : 'Attendance removed');
 
-      // Update local state
-      setLectureAttendance(prev => ({
-        ...prev,
-        [studentId]: !isPresent,
-      }));
+      setLectureAttendance(prev => {
+        const next = { ...prev };
+        if (status) next[studentId] = status;
+        else delete next[studentId];
+        return next;
+      });
 
       // Refresh lecture list
       fetchLectures();
-    } catch (error: any) {
-      toast.error(error.message || 'Error updating attendance');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error updating attendance');
+    }
+  };
+
+  const handleSavePolicy = async () => {
+    const minutes = lateCutoff.trim() === '' ? null : parseInt(lateCutoff, 10);
+    if (minutes !== null && (isNaN(minutes) || minutes < 0)) {
+      toast.error('Late cutoff must be a number of minutes');
+      return;
+    }
+    const days = retentionDays.trim() === '' ? null : parseInt(retentionDays, 10);
+    if (days !== null && (isNaN(days) || days < 1)) {
+      toast.error('Photos must be kept for at least a day');
+      return;
+    }
+
+    try {
+      setCourse(
+        await coursesAPI.update(courseId!, { late_cutoff_minutes: minutes, snapshot_retention_days: days })
+      );
+      toast.success('Attendance policy saved');
+      setPolicyDialogOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error saving attendance policy');
     }
   };
 
@@ -352,6 +400,110 @@ const Lectures = () => {
             <p className="text-muted-foreground mt-1">{course.teacher}</p>
           </div>
           <div className="flex gap-3">
+            <LectureSchedules courseId={courseId!} onLecturesChanged={fetchLectures} />
+            {/* Course settings are the owner's; assistants run lectures and attendance */}
+            {isOwner && (
+              <Dialog open={policyDialogOpen} onOpenChange={setPolicyDialogOpen}>
+                <DialogTrigger asChild>
+                  <Button variant="outline">Attendance Policy</Button>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Attendance Policy</DialogTitle>
+                    <DialogDescription>
+                      Students marked after the grace period are recorded as late. Enrolled students
+                      with no mark are recorded as absent once a lecture ends.
+                    </DialogDescription>
+                  </DialogHeader>
+                  <div className="space-y-4 mt-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="late-cutoff">Grace period (minutes after start)</Label>
+                      <Input
+                        id="late-cutoff"
+                        type="number"
+                        min="0"
+                        value={lateCutoff}
+                        onChange={(e) => setLateCutoff(e.target.value)}
+                        placeholder="Never mark late"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="retention-days">Keep attendance photos for (days)</Label>
+                      <Input
+                        id="retention-days"
+                        type="number"
+                        min="1"
+                        value={retentionDays}
+                        onChange={(e) => setRetentionDays(e.target.value)}
+                        placeholder="Keep indefinitely"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Kiosk snapshots and check-in selfies older than this are deleted
+                      </p>
+                    </div>
+                    <div className="flex gap-3 pt-4">
+                      <Button variant="outline" onClick={() => setPolicyDialogOpen(false)} className="flex-1">
+                        Cancel
+                      </Button>
+                      <Button onClick={handleSavePolicy} className="flex-1">
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                </DialogContent>
+              </Dialog>
+            )}
+            <Dialog open={teachersDialogOpen} onOpenChange={setTeachersDialogOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline">Teachers</Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Course Teachers</DialogTitle>
+                  <DialogDescription>
+                    Assistants can run lectures, manage enrollments and mark attendance
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-2 mt-4">
+                  {courseTeachers.map((teacher) => (
+                    <div
+                      key={teacher.teacher_id}
+                      className="flex items-center justify-between p-3 rounded-lg bg-muted/50"
+                    >
+                      <div>
+                        <p className="font-medium">{teacher.name}</p>
+                        <p className="text-sm text-muted-foreground">{teacher.email}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={teacher.role === 'owner' ? 'default' : 'secondary'}>
+                          {teacher.role === 'owner' ? 'Owner' : 'Assistant'}
+                        </Badge>
+                        {isOwner && teacher.role !== 'owner' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveTeacher(teacher.teacher_id)}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {isOwner && (
+                  <div className="flex gap-2 pt-4">
+                    <Input
+                      type="email"
+                      placeholder="assistant@college.edu"
+                      value={assistantEmail}
+                      onChange={(e) => setAssistantEmail(e.target.value)}
+                    />
+                    <Button onClick={handleAddAssistant}>Add Assistant</Button>
+                  </div>
+                )}
+              </DialogContent>
+            </Dialog>
             <Dialog open={enrollDialogOpen} onOpenChange={setEnrollDialogOpen}>
               <DialogTrigger asChild>
                 <Button variant="outline">Manage Enrollments</Button>
@@ -539,6 +691,11 @@ const Lectures = () => {
                             <p className="text-sm text-muted-foreground">
                               {format(starts, 'p')} - {format(ends, 'p')}
                             </p>
+                            {lecture.schedule_id && (
+                              <Badge variant="outline" className="mt-1">
+                                {lecture.is_exception ? 'Edited' : 'Recurring'}
+                              </Badge>
+                            )}
                           </div>
                         </TableCell>
                         <TableCell>{durationMin} min</TableCell>
@@ -569,6 +726,14 @@ const Lectures = () => {
                         </TableCell>
                         <TableCell className="text-right">
                           <div className="flex justify-end gap-2">
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => openEditDialog(lecture)}
+                              title="Edit lecture"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </Button>
                             <Button
                               size="sm"
                               variant="outline"
@@ -607,15 +772,88 @@ const Lectures = () => {
           </CardContent>
         </Card>
 
+        {/* Edit Lecture Dialog */}
+        <Dialog open={!!editingLecture} onOpenChange={(open) => !open && setEditingLecture(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Edit Lecture</DialogTitle>
+              <DialogDescription>
+                {editingLecture?.schedule_id
+                  ? 'Changes apply to this occurrence only and are kept when the schedule is regenerated'
+                  : 'Change the time or room of this lecture'}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 mt-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-starts-at">Start Time</Label>
+                <Input
+                  id="edit-starts-at"
+                  type="datetime-local"
+                  value={editStartsAt}
+                  onChange={(e) => setEditStartsAt(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-duration">Duration (minutes)</Label>
+                <Input
+                  id="edit-duration"
+                  type="number"
+                  value={editDuration}
+                  onChange={(e) => setEditDuration(parseInt(e.target.value))}
+                  min={15}
+                  max={180}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-room">Room (optional)</Label>
+                <Input
+                  id="edit-room"
+                  value={editRoom}
+                  onChange={(e) => setEditRoom(e.target.value)}
+                  placeholder="e.g., Room 301"
+                />
+              </div>
+              <div className="flex gap-3 pt-4">
+                <Button
+                  variant="outline"
+                  onClick={() => setEditingLecture(null)}
+                  className="flex-1"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleUpdateLecture}
+                  disabled={saving}
+                  className="flex-1"
+                >
+                  {saving ? 'Saving...' : 'Save Changes'}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Manual Attendance Dialog */}
         <Dialog open={attendanceDialogOpen} onOpenChange={setAttendanceDialogOpen}>
           <DialogContent className="max-w-2xl max-h-[600px] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Manage Attendance</DialogTitle>
               <DialogDescription>
-                Manually mark or unmark student attendance for this lecture
+                Set each student's attendance status for this lecture
               </DialogDescription>
             </DialogHeader>
+            <div className="space-y-2 mt-4">
+              <Label htmlFor="change-reason">Reason for changes (optional)</Label>
+              <Input
+                id="change-reason"
+                value={changeReason}
+                onChange={(e) => setChangeReason(e.target.value)}
+                placeholder="e.g., Student showed a doctor's note"
+              />
+              <p className="text-xs text-muted-foreground">
+                Recorded with every change you make here, in the lecture's attendance history
+              </p>
+            </div>
             <div className="space-y-2 mt-4">
               {loadingAttendance ? (
                 <p className="text-center py-8 text-muted-foreground">Loading...</p>
@@ -625,12 +863,6 @@ const Lectures = () => {
                     key={student.id}
                     className="flex items-center space-x-3 p-3 rounded-lg hover:bg-muted/50"
                   >
-                    <Checkbox
-                      checked={lectureAttendance[student.id] || false}
-                      onCheckedChange={() =>
-                        toggleAttendance(student.id, lectureAttendance[student.id] || false)
-                      }
-                    />
                     <div className="flex-1">
                       <p className="font-medium">{student.name}</p>
                       <p className="text-sm text-muted-foreground">
@@ -638,11 +870,27 @@ const Lectures = () => {
                       </p>
                     </div>
                     {lectureAttendance[student.id] && (
-                      <Badge variant="default" className="bg-success text-success-foreground">
-                        <UserCheck className="w-3 h-3 mr-1" />
-                        Present
-                      </Badge>
+                      <AttendanceStatusBadge status={lectureAttendance[student.id]} />
                     )}
+                    <Select
+                      value={lectureAttendance[student.id] ?? NOT_MARKED}
+                      onValueChange={(value) => updateAttendanceStatus(student.id, value)}
+                    >
+                      <SelectTrigger className="w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MARKED}>Not marked</SelectItem>
+                        {/* Borderline matches are settled on the Review page */}
+                        {ATTENDANCE_STATUSES.filter(
+                          (status) => status !== 'pending' || lectureAttendance[student.id] === 'pending'
+                        ).map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {STATUS_LABELS[status]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
                 ))
               )}
@@ -0,0 +1,171 @@
+import { useState, useEffect } from 'react';
+import { Layout } from '@/components/Layout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { attendanceAPI, coursesAPI, AttendanceDetail, CourseSummary } from '@/lib/storage/data';
+import { STATUS_LABELS } from '@/lib/attendance/status';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { format, parseISO } from 'date-fns';
+import { Check, User, X } from 'lucide-react';
+
+const ALL = 'all';
+
+const FacePhoto = ({ src, label }: { src: string | null | undefined; label: string }) => (
+  <div className="flex-1 space-y-1">
+    {src ? (
+      <img src={src} alt={label} className="w-full aspect-square rounded-lg object-cover bg-muted" />
+    ) : (
+      <div className="w-full aspect-square rounded-lg bg-muted flex flex-col items-center justify-center text-muted-foreground">
+        <User className="w-8 h-8" />
+        <span className="text-xs mt-1">No photo</span>
+      </div>
+    )}
+    <p className="text-xs text-center text-muted-foreground">{label}</p>
+  </div>
+);
+
+const MatchReview = () => {
+  const [marks, setMarks] = useState<AttendanceDetail[]>([]);
+  const [courses, setCourses] = useState<CourseSummary[]>([]);
+  const [courseFilter, setCourseFilter] = useState(ALL);
+  const [loading, setLoading] = useState(true);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const { teacher } = useAuth();
+
+  useEffect(() => {
+    fetchCourses();
+  }, []);
+
+  useEffect(() => {
+    fetchMarks();
+  }, [courses, courseFilter]);
+
+  const fetchCourses = async () => {
+    try {
+      setCourses(await coursesAPI.getForTeacher(teacher!.id));
+    } catch {
+      toast.error('Error fetching courses');
+    }
+  };
+
+  const fetchMarks = async () => {
+    setLoading(true);
+    try {
+      const courseIds = courseFilter === ALL ? courses.map((c) => c.id) : [courseFilter];
+      const pending = await attendanceAPI.getDetails({ courseIds, status: 'pending' });
+      // Oldest first, so nothing waits forever
+      setMarks(pending.reverse());
+    } catch {
+      toast.error('Error fetching marks to review');
+    }
+    setLoading(false);
+  };
+
+  const handleReview = async (mark: AttendanceDetail, accept: boolean) => {
+    setReviewingId(mark.id);
+    try {
+      const status = await attendanceAPI.reviewMatch(mark.id, accept, teacher!.id);
+      toast.success(
+        accept
+          ? `${mark.student.name} marked ${STATUS_LABELS[status ?? 'present'].toLowerCase()}`
+          : status
+          ? `${mark.student.name} marked absent`
+          : `Mark removed; ${mark.student.name} can still check in`
+      );
+      setMarks((prev) => prev.filter((m) => m.id !== mark.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error reviewing mark');
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="container mx-auto p-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Match Review</h1>
+          <p className="text-muted-foreground mt-1">
+            Face matches too close to the recognition threshold to mark on their own
+          </p>
+        </div>
+
+        <Select value={courseFilter} onValueChange={setCourseFilter}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All Courses</SelectItem>
+            {courses.map((course) => (
+              <SelectItem key={course.id} value={course.id}>
+                {course.code} - {course.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {loading ? (
+          <Card>
+            <CardContent className="py-8">
+              <p className="text-center text-muted-foreground">Loading...</p>
+            </CardContent>
+          </Card>
+        ) : marks.length === 0 ? (
+          <Card>
+            <CardContent className="py-8">
+              <p className="text-center text-muted-foreground">No marks waiting for review</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+            {marks.map((mark) => (
+              <Card key={mark.id}>
+                <CardContent className="pt-6 space-y-4">
+                  <div className="flex gap-3">
+                    <FacePhoto src={mark.photo_url} label="Captured" />
+                    <FacePhoto src={mark.student.photo_url} label="Enrolled" />
+                  </div>
+                  <div>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium truncate">{mark.student.name}</p>
+                      <Badge variant="secondary">{mark.lecture.course.code}</Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground">{mark.student.roll_no}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {format(parseISO(mark.marked_at), 'PPp')}
+                      {mark.confidence != null && ` · ${(mark.confidence * 100).toFixed(1)}% confidence`}
+                    </p>
+                  </div>
+                  <div className="flex gap-3">
+                    <Button
+                      variant="destructive"
+                      className="flex-1 gap-2"
+                      disabled={reviewingId === mark.id}
+                      onClick={() => handleReview(mark, false)}
+                    >
+                      <X className="w-4 h-4" />
+                      Reject
+                    </Button>
+                    <Button
+                      className="flex-1 gap-2"
+                      disabled={reviewingId === mark.id}
+                      onClick={() => handleReview(mark, true)}
+                    >
+                      <Check className="w-4 h-4" />
+                      Accept
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default MatchReview;
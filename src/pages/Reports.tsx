@@ -5,7 +5,10 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import { supabase } from '@/integrations/supabase/client';
+import { attendanceAPI, coursesAPI, enrollmentsAPI, lecturesAPI } from '@/lib/storage/data';
+import { useAuth } from '@/contexts/AuthContext';
+import { AttendanceStatusBadge } from '@/components/AttendanceStatusBadge';
+import { AttendanceStatus, STATUS_LABELS, countsAsAttended, statusOf } from '@/lib/attendance/status';
 import { toast } from 'sonner';
 import { Download, BarChart3, TrendingUp, Users, Calendar } from 'lucide-react';
 import { format, parseISO, subDays, startOfDay, endOfDay } from 'date-fns';
@@ -21,6 +24,7 @@ interface AttendanceRecord {
   course_code: string;
   course_title: string;
   marked_at: string;
+  status: AttendanceStatus;
   confidence: number | null;
   method: string | null;
 }
@@ -42,6 +46,7 @@ const Reports = () => {
   const [courseStats, setCourseStats] = useState<CourseStats[]>([]);
   const [loading, setLoading] = useState(true);
   const [chartData, setChartData] = useState<any[]>([]);
+  const { teacher } = useAuth();
 
   useEffect(() => {
     fetchCourses();
@@ -55,17 +60,17 @@ const Reports = () => {
   }, [selectedCourse, dateRange, courses]);
 
   const fetchCourses = async () => {
-    const { data, error } = await supabase
-      .from('courses')
-      .select('id, code, title')
-      .order('code');
-
-    if (error) {
+    // Only courses the signed-in teacher owns or assists on
+    try {
+      const data = await coursesAPI.getForTeacher(teacher!.id);
+      setCourses(
+        data
+          .map(({ id, code, title }) => ({ id, code, title }))
+          .sort((a, b) => a.code.localeCompare(b.code))
+      );
+    } catch {
       toast.error('Error fetching courses');
-      return;
     }
-
-    setCourses(data || []);
   };
 
   const fetchAttendanceData = async () => {
@@ -75,55 +80,32 @@ const Reports = () => {
         ? undefined 
         : subDays(new Date(), parseInt(dateRange));
 
-      let query = supabase
-        .from('attendance')
-        .select(`
-          id,
-          student_id,
-          marked_at,
-          confidence,
-          method,
-          lecture_id,
-          students!inner(name, roll_no),
-          lectures!inner(
-            starts_at,
-            course_id,
-            courses!inner(code, title)
-          )
-        `)
-        .order('marked_at', { ascending: false });
-
-      if (selectedCourse !== 'all') {
-        query = query.eq('lectures.course_id', selectedCourse);
-      }
-
-      if (dateFilter) {
-        query = query.gte('marked_at', dateFilter.toISOString());
-      }
-
-      const { data, error } = await query;
-
-      if (error) throw error;
-
-      const records: AttendanceRecord[] = (data || []).map((item: any) => ({
+      await attendanceAPI.finalizeEndedLectures();
+      const data = await attendanceAPI.getDetails({
+        courseIds: selectedCourse !== 'all' ? [selectedCourse] : courses.map((c) => c.id),
+        since: dateFilter,
+      });
+
+      const records: AttendanceRecord[] = data.map((item) => ({
         id: item.id,
         student_id: item.student_id,
-        student_name: item.students.name,
-        student_roll_no: item.students.roll_no,
+        student_name: item.student.name,
+        student_roll_no: item.student.roll_no,
         lecture_id: item.lecture_id,
-        lecture_date: item.lectures.starts_at,
-        course_code: item.lectures.courses.code,
-        course_title: item.lectures.courses.title,
+        lecture_date: item.lecture.starts_at,
+        course_code: item.lecture.course.code,
+        course_title: item.lecture.course.title,
         marked_at: item.marked_at,
+        status: statusOf(item),
         confidence: item.confidence,
         method: item.method,
       }));
 
       setAttendanceRecords(records);
 
-      // Prepare chart data
+      // Prepare chart data from the students who actually attended
       const dailyData: { [key: string]: number } = {};
-      records.forEach(record => {
+      records.filter(record => countsAsAttended(record.status)).forEach(record => {
         const date = format(parseISO(record.marked_at), 'yyyy-MM-dd');
         dailyData[date] = (dailyData[date] || 0) + 1;
       });
@@ -149,31 +131,20 @@ const Reports = () => {
         ? undefined 
         : subDays(new Date(), parseInt(dateRange));
 
-      let lecturesQuery = supabase
-        .from('lectures')
-        .select('id, course_id, starts_at, courses!inner(code, title)');
-
-      if (selectedCourse !== 'all') {
-        lecturesQuery = lecturesQuery.eq('course_id', selectedCourse);
-      }
-
-      if (dateFilter) {
-        lecturesQuery = lecturesQuery.gte('starts_at', dateFilter.toISOString());
-      }
-
-      const { data: lectures, error: lecturesError } = await lecturesQuery;
-
-      if (lecturesError) throw lecturesError;
+      const lectures = await lecturesAPI.getByCourses(
+        selectedCourse !== 'all' ? [selectedCourse] : courses.map((c) => c.id),
+        { since: dateFilter }
+      );
 
       const statsMap: { [key: string]: CourseStats } = {};
 
-      (lectures || []).forEach((lecture: any) => {
+      lectures.forEach((lecture) => {
         const courseId = lecture.course_id;
         if (!statsMap[courseId]) {
           statsMap[courseId] = {
             course_id: courseId,
-            course_code: lecture.courses.code,
-            course_title: lecture.courses.title,
+            course_code: lecture.course.code,
+            course_title: lecture.course.title,
             total_lectures: 0,
             total_attendance: 0,
             avg_attendance_rate: 0,
@@ -183,42 +154,24 @@ const Reports = () => {
       });
 
       // Get attendance counts per course
-      const lectureIds = (lectures || []).map((l: any) => l.id);
-      
-      if (lectureIds.length > 0) {
-        const { data: attendance, error: attendanceError } = await supabase
-          .from('attendance')
-          .select('lecture_id')
-          .in('lecture_id', lectureIds);
-
-        if (!attendanceError && attendance) {
-          attendance.forEach((a) => {
-            const lecture = lectures?.find((l: any) => l.id === a.lecture_id);
-            if (lecture) {
-              const courseId = lecture.course_id;
-              if (statsMap[courseId]) {
-                statsMap[courseId].total_attendance += 1;
-              }
-            }
-          });
+      const attendance = await attendanceAPI.getByLectures(lectures.map((l) => l.id));
+      attendance.filter((a) => countsAsAttended(statusOf(a))).forEach((a) => {
+        const lecture = lectures.find((l) => l.id === a.lecture_id);
+        if (lecture && statsMap[lecture.course_id]) {
+          statsMap[lecture.course_id].total_attendance += 1;
         }
-      }
-
-      // Calculate average attendance rate
-      Object.values(statsMap).forEach(stat => {
-        // Get enrolled students count for each course
-        supabase
-          .from('enrollments')
-          .select('student_id', { count: 'exact', head: false })
-          .eq('course_id', stat.course_id)
-          .then(({ count }) => {
-            const enrolledCount = count || 0;
-            stat.avg_attendance_rate = enrolledCount > 0 
-              ? (stat.total_attendance / (stat.total_lectures * enrolledCount)) * 100 
-              : 0;
-          });
       });
 
+      // Calculate average attendance rate from each course's enrollment count
+      await Promise.all(
+        Object.values(statsMap).map(async (stat) => {
+          const enrolledCount = (await enrollmentsAPI.getByCourse(stat.course_id)).length;
+          stat.avg_attendance_rate = enrolledCount > 0
+            ? (stat.total_attendance / (stat.total_lectures * enrolledCount)) * 100
+            : 0;
+        })
+      );
+
       setCourseStats(Object.values(statsMap));
     } catch (error: any) {
       console.error('Error fetching course stats:', error);
@@ -231,13 +184,14 @@ const Reports = () => {
       return;
     }
 
-    const headers = ['Date', 'Course Code', 'Course Title', 'Student Roll No', 'Student Name', 'Marked At', 'Confidence', 'Method'];
+    const headers = ['Date', 'Course Code', 'Course Title', 'Student Roll No', 'Student Name', 'Status', 'Marked At', 'Confidence', 'Method'];
     const rows = attendanceRecords.map(record => [
       format(parseISO(record.lecture_date), 'yyyy-MM-dd'),
       record.course_code,
       record.course_title,
       record.student_roll_no,
       record.student_name,
+      STATUS_LABELS[record.status],
       format(parseISO(record.marked_at), 'yyyy-MM-dd HH:mm:ss'),
       record.confidence?.toFixed(2) || 'N/A',
       record.method || 'face',
@@ -261,8 +215,9 @@ const Reports = () => {
     toast.success('CSV exported successfully');
   };
 
-  const totalAttendance = attendanceRecords.length;
-  const uniqueStudents = new Set(attendanceRecords.map(r => r.student_id)).size;
+  const attendedRecords = attendanceRecords.filter(r => countsAsAttended(r.status));
+  const totalAttendance = attendedRecords.length;
+  const uniqueStudents = new Set(attendedRecords.map(r => r.student_id)).size;
   const avgConfidence = attendanceRecords
     .filter(r => r.confidence !== null)
     .reduce((sum, r) => sum + (r.confidence || 0), 0) / 
@@ -421,6 +376,7 @@ const Reports = () => {
                       <TableHead>Course</TableHead>
                       <TableHead>Student</TableHead>
                       <TableHead>Roll No</TableHead>
+                      <TableHead>Status</TableHead>
                       <TableHead>Marked At</TableHead>
                       <TableHead>Confidence</TableHead>
                       <TableHead>Method</TableHead>
@@ -438,6 +394,9 @@ const Reports = () => {
                         </TableCell>
                         <TableCell>{record.student_name}</TableCell>
                         <TableCell>{record.student_roll_no}</TableCell>
+                        <TableCell>
+                          <AttendanceStatusBadge status={record.status} />
+                        </TableCell>
                         <TableCell>{format(parseISO(record.marked_at), 'HH:mm:ss')}</TableCell>
                         <TableCell>
                           {record.confidence !== null ? (
@@ -1,30 +1,65 @@
 import { useState, useEffect } from 'react';
 import { Layout } from '@/components/Layout';
+import { Link } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LocalBackup } from '@/components/LocalBackup';
+import { CloudSync } from '@/components/CloudSync';
+import { IndexBenchmark } from '@/components/IndexBenchmark';
+import { DEFAULT_MATCH_MARGIN, DEFAULT_REVIEW_BAND, MatchMargin, MatchStrategy, getMatchMargin } from '@/lib/face/matcher';
+import {
+  DEFAULT_DETECTOR_PROFILE,
+  DETECTOR_LABELS,
+  DETECTOR_MODELS,
+  TINY_INPUT_SIZES,
+  DetectorProfile,
+  getDetectorProfile,
+  saveDetectorProfile,
+} from '@/lib/face/detector';
 import { toast } from 'sonner';
+import { Crosshair } from 'lucide-react';
 
 const Settings = () => {
   const [threshold, setThreshold] = useState(0.45);
+  const [reviewBand, setReviewBand] = useState(DEFAULT_REVIEW_BAND);
+  const [matchStrategy, setMatchStrategy] = useState<MatchStrategy>('min');
+  const [margin, setMargin] = useState<MatchMargin>(DEFAULT_MATCH_MARGIN);
   const [lockoutMinutes, setLockoutMinutes] = useState(10);
   const [showKioskTips, setShowKioskTips] = useState(true);
   const [localMode, setLocalMode] = useState(false);
+  const [detector, setDetector] = useState<DetectorProfile>(DEFAULT_DETECTOR_PROFILE);
 
   useEffect(() => {
     // Load settings from localStorage
     const savedThreshold = localStorage.getItem('recognitionThreshold');
+    const savedReviewBand = localStorage.getItem('reviewBand');
+    const savedStrategy = localStorage.getItem('matchStrategy');
     const savedLockout = localStorage.getItem('lockoutMinutes');
     const savedTips = localStorage.getItem('showKioskTips');
     const savedLocalMode = localStorage.getItem('localMode');
 
     if (savedThreshold) setThreshold(parseFloat(savedThreshold));
+    if (savedReviewBand) setReviewBand(parseFloat(savedReviewBand));
+    if (savedStrategy) setMatchStrategy(savedStrategy === 'mean' ? 'mean' : 'min');
     if (savedLockout) setLockoutMinutes(parseInt(savedLockout));
     if (savedTips) setShowKioskTips(savedTips === 'true');
     if (savedLocalMode) setLocalMode(savedLocalMode === 'true');
+    setMargin(getMatchMargin());
+    setDetector(getDetectorProfile());
   }, []);
 
+  // Pages load the models for the new profile the next time they open
+  const updateDetector = (changes: Partial<DetectorProfile>, message: string) => {
+    const next = { ...detector, ...changes };
+    setDetector(next);
+    saveDetectorProfile(next);
+    toast.success(message);
+  };
+
   const handleThresholdChange = (value: number[]) => {
     const newThreshold = value[0];
     setThreshold(newThreshold);
@@ -32,6 +67,34 @@ const Settings = () => {
     toast.success(`Threshold updated to ${newThreshold.toFixed(2)}`);
   };
 
+  const handleReviewBandChange = (value: number[]) => {
+    const newBand = value[0];
+    setReviewBand(newBand);
+    localStorage.setItem('reviewBand', newBand.toString());
+    toast.success(newBand > 0 ? `Review band updated to ${newBand.toFixed(2)}` : 'Review band turned off');
+  };
+
+  const handleStrategyChange = (value: string) => {
+    const newStrategy: MatchStrategy = value === 'mean' ? 'mean' : 'min';
+    setMatchStrategy(newStrategy);
+    localStorage.setItem('matchStrategy', newStrategy);
+    toast.success(`Gallery matching set to ${newStrategy} distance`);
+  };
+
+  const handleMarginGapChange = (value: number[]) => {
+    const gap = value[0];
+    setMargin((prev) => ({ ...prev, gap }));
+    localStorage.setItem('matchMarginGap', gap.toString());
+    toast.success(gap > 0 ? `Minimum gap updated to ${gap.toFixed(2)}` : 'Minimum gap turned off');
+  };
+
+  const handleMarginRatioChange = (value: number[]) => {
+    const ratio = value[0];
+    setMargin((prev) => ({ ...prev, ratio }));
+    localStorage.setItem('matchMarginRatio', ratio.toString());
+    toast.success(ratio < 1 ? `Maximum ratio updated to ${ratio.toFixed(2)}` : 'Maximum ratio turned off');
+  };
+
   const handleLockoutChange = (value: number[]) => {
     const newLockout = value[0];
     setLockoutMinutes(newLockout);
@@ -88,6 +151,203 @@ const Settings = () => {
                 <span>Lenient (0.55)</span>
               </div>
             </div>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Review band</Label>
+                <span className="text-sm font-medium">
+                  {reviewBand > 0 ? `${(threshold - reviewBand).toFixed(2)} – ${threshold.toFixed(2)}` : 'Off'}
+                </span>
+              </div>
+              <Slider
+                min={0}
+                max={0.1}
+                step={0.01}
+                value={[reviewBand]}
+                onValueChange={handleReviewBandChange}
+                disabled={!localMode}
+              />
+              <p className="text-xs text-muted-foreground">
+                Matches this close to the threshold are recorded as needing review, with the captured face,
+                until a teacher accepts or rejects them.{' '}
+                {localMode
+                  ? `Default: ${DEFAULT_REVIEW_BAND.toFixed(2)}`
+                  : 'With Supabase the band is set by REVIEW_BAND on the mark-attendance function, and kiosks pick it up when they check in.'}
+              </p>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground">
+                Measure false matches and missed students on your enrolled faces to choose a threshold
+              </p>
+              <Button variant="outline" className="gap-2" asChild>
+                <Link to="/calibration">
+                  <Crosshair className="w-4 h-4" />
+                  Calibrate
+                </Link>
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Gallery Matching</CardTitle>
+            <CardDescription>
+              How a face is scored against a student's enrolled captures.
+              Default: closest capture
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label>Distance</Label>
+                <p className="text-sm text-muted-foreground">
+                  Closest capture is more forgiving of pose; average is stricter
+                </p>
+              </div>
+              <Select value={matchStrategy} onValueChange={handleStrategyChange}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="min">Closest capture (min)</SelectItem>
+                  <SelectItem value="mean">Average of captures (mean)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <IndexBenchmark />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Look-alike Margin</CardTitle>
+            <CardDescription>
+              A kiosk match must be clearly closer than the next student, or the face is logged as ambiguous
+              and not marked. Default: gap {DEFAULT_MATCH_MARGIN.gap.toFixed(2)}, ratio{' '}
+              {DEFAULT_MATCH_MARGIN.ratio.toFixed(2)}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Minimum gap</Label>
+                <span className="text-sm font-medium">{margin.gap > 0 ? margin.gap.toFixed(2) : 'Off'}</span>
+              </div>
+              <Slider min={0} max={0.15} step={0.01} value={[margin.gap]} onValueChange={handleMarginGapChange} />
+              <p className="text-xs text-muted-foreground">
+                The runner-up must be at least this much farther away than the best match
+              </p>
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Maximum ratio</Label>
+                <span className="text-sm font-medium">{margin.ratio < 1 ? margin.ratio.toFixed(2) : 'Off'}</span>
+              </div>
+              <Slider min={0.7} max={1} step={0.01} value={[margin.ratio]} onValueChange={handleMarginRatioChange} />
+              <p className="text-xs text-muted-foreground">
+                The best match's distance may be at most this fraction of the runner-up's. Students flagged
+                this way show up in the look-alike report on the Students page.
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Face Detector</CardTitle>
+            <CardDescription>
+              Which detector finds faces in camera frames and photos on this device.
+              Default: {DETECTOR_LABELS[DEFAULT_DETECTOR_PROFILE.backend]} at {DEFAULT_DETECTOR_PROFILE.inputSize} px
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label>Detector</Label>
+                <p className="text-sm text-muted-foreground">
+                  {detector.backend === 'ssd'
+                    ? `More accurate with small, angled or partly hidden faces, but slower. Needs its model files in public/models/${DETECTOR_MODELS.ssd}.`
+                    : 'Fast enough for any kiosk; may miss small or angled faces'}
+                </p>
+              </div>
+              <Select
+                value={detector.backend}
+                onValueChange={(value) =>
+                  updateDetector(
+                    { backend: value === 'ssd' ? 'ssd' : 'tiny' },
+                    `Detector set to ${DETECTOR_LABELS[value === 'ssd' ? 'ssd' : 'tiny']}`
+                  )
+                }
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="tiny">{DETECTOR_LABELS.tiny}</SelectItem>
+                  <SelectItem value="ssd">{DETECTOR_LABELS.ssd}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {detector.backend === 'tiny' && (
+              <div className="flex items-center justify-between gap-4">
+                <div className="space-y-0.5">
+                  <Label>Input size</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Larger finds smaller, farther faces at more cost per frame
+                  </p>
+                </div>
+                <Select
+                  value={String(detector.inputSize)}
+                  onValueChange={(value) => updateDetector({ inputSize: parseInt(value) }, `Input size set to ${value} px`)}
+                >
+                  <SelectTrigger className="w-[200px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TINY_INPUT_SIZES.map((size) => (
+                      <SelectItem key={size} value={String(size)}>
+                        {size} px
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Minimum confidence</Label>
+                <span className="text-sm font-medium">{detector.scoreThreshold.toFixed(2)}</span>
+              </div>
+              <Slider
+                min={0.1}
+                max={0.9}
+                step={0.05}
+                value={[detector.scoreThreshold]}
+                onValueChange={(value) =>
+                  updateDetector({ scoreThreshold: value[0] }, `Minimum confidence updated to ${value[0].toFixed(2)}`)
+                }
+              />
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>More faces (0.10)</span>
+                <span>Fewer false faces (0.90)</span>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label>Minimum face size</Label>
+                <span className="text-sm font-medium">{detector.minFaceSize} px</span>
+              </div>
+              <Slider
+                min={80}
+                max={300}
+                step={10}
+                value={[detector.minFaceSize]}
+                onValueChange={(value) => updateDetector({ minFaceSize: value[0] }, `Minimum face size updated to ${value[0]} px`)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Smaller faces are ignored; their descriptors match poorly. Default: {DEFAULT_DETECTOR_PROFILE.minFaceSize} px
+              </p>
+            </div>
           </CardContent>
         </Card>
 
@@ -156,7 +416,7 @@ const Settings = () => {
               <div className="space-y-0.5">
                 <Label htmlFor="local-toggle">Enable Local Mode</Label>
                 <p className="text-sm text-muted-foreground">
-                  All data stored locally. Export/Import available in future updates.
+                  All data stored locally. Back it up below to move it between machines.
                 </p>
               </div>
               <Switch
@@ -168,14 +428,39 @@ const Settings = () => {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Cloud Sync</CardTitle>
+            <CardDescription>
+              Keep Local Mode data in step with Supabase. Changes made offline are queued and sent once the device is back online.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CloudSync />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Backup &amp; Restore</CardTitle>
+            <CardDescription>
+              Export the Local Mode database with its photos, or import a backup from another kiosk.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <LocalBackup />
+          </CardContent>
+        </Card>
+
         <Card className="bg-muted/30">
           <CardHeader>
             <CardTitle className="text-base">About Face Recognition</CardTitle>
           </CardHeader>
           <CardContent className="space-y-2 text-sm text-muted-foreground">
             <p>
-              <strong>Threshold tuning:</strong> Start with 0.45. If you get false matches, decrease to 0.40-0.43. 
-              If genuine students aren't recognized, increase to 0.47-0.50.
+              <strong>Threshold tuning:</strong> Start with 0.45, then use Calibrate to measure how often your roster
+              gets false matches and missed students at each threshold and apply the recommended value. Calibrate
+              again after enrolling a new cohort.
             </p>
             <p>
               <strong>Best practices:</strong> Ensure good lighting, have students face the camera directly, 
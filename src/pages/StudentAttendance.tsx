@@ -3,15 +3,21 @@ import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { supabase } from '@/integrations/supabase/client';
+import { enrollmentsAPI, lecturesAPI } from '@/lib/storage/data';
 import { useAuth } from '@/contexts/AuthContext';
 import { Header } from '@/components/Header';
 import { toast } from 'sonner';
 import { Camera, MapPin, User, Loader2 } from 'lucide-react';
 import { loadFaceModels } from '@/lib/face/models';
-import { getEmbeddingFromVideo } from '@/lib/face/embedding';
+import { getEmbeddingFromVideo, FaceDetectionResult } from '@/lib/face/embedding';
+import { createLivenessSession, livenessPrompt, LivenessResult } from '@/lib/face/liveness';
+import { markOwnAttendance } from '@/lib/attendance/self-service';
+import { distanceMeters, lectureGeofence } from '@/lib/attendance/geofence';
 import { format } from 'date-fns';
 
+// How long the blink / head-turn challenge may take before giving up
+const LIVENESS_TIMEOUT_MS = 10000;
+
 interface Lecture {
   id: string;
   starts_at: string;
@@ -30,7 +36,7 @@ interface Lecture {
 
 const StudentAttendance = () => {
   const navigate = useNavigate();
-  const { studentData, setStudentData } = useAuth();
+  const { studentData, signOutStudent, loading: authLoading } = useAuth();
   const [loading, setLoading] = useState(false);
   const [activeLectures, setActiveLectures] = useState<Lecture[]>([]);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
@@ -38,10 +44,12 @@ const StudentAttendance = () => {
   const [cameraActive, setCameraActive] = useState(false);
   const [selectedLecture, setSelectedLecture] = useState<Lecture | null>(null);
   const [modelsLoaded, setModelsLoaded] = useState(false);
+  const [challengePrompt, setChallengePrompt] = useState<string | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
 
   useEffect(() => {
+    if (authLoading) return;
     if (!studentData) {
       navigate('/auth');
       return;
@@ -53,7 +61,7 @@ const StudentAttendance = () => {
 
     const interval = setInterval(fetchActiveLectures, 30000);
     return () => clearInterval(interval);
-  }, [studentData]);
+  }, [studentData, authLoading]);
 
   const loadModels = async () => {
     try {
@@ -90,15 +98,10 @@ const StudentAttendance = () => {
     if (!studentData) return;
 
     try {
-      const now = new Date().toISOString();
-
       // Get enrolled courses
-      const { data: enrollments } = await supabase
-        .from('enrollments')
-        .select('course_id')
-        .eq('student_id', studentData.id);
+      const enrollments = await enrollmentsAPI.getByStudent(studentData.id);
 
-      if (!enrollments || enrollments.length === 0) {
+      if (enrollments.length === 0) {
         setActiveLectures([]);
         return;
       }
@@ -106,84 +109,44 @@ const StudentAttendance = () => {
       const courseIds = enrollments.map((e) => e.course_id);
 
       // Get active lectures
-      const { data: lectures, error } = await supabase
-        .from('lectures')
-        .select(`
-          id,
-          starts_at,
-          ends_at,
-          room,
-          latitude,
-          longitude,
-          radius,
-          attendance_enabled,
-          courses!inner(code, title, teacher)
-        `)
-        .in('course_id', courseIds)
-        .lte('starts_at', now)
-        .gte('ends_at', now);
-
-      if (error) throw error;
-
-      const formattedLectures: Lecture[] = (lectures || []).map((l: any) => ({
+      const lectures = await lecturesAPI.getByCourses(courseIds, { activeAt: new Date() });
+
+      const formattedLectures: Lecture[] = lectures.map((l) => ({
         id: l.id,
         starts_at: l.starts_at,
         ends_at: l.ends_at,
         room: l.room,
-        latitude: l.latitude,
-        longitude: l.longitude,
-        radius: l.radius,
+        latitude: l.latitude ?? null,
+        longitude: l.longitude ?? null,
+        radius: l.radius ?? null,
         attendance_enabled: l.attendance_enabled || false,
-        course: {
-          code: l.courses.code,
-          title: l.courses.title,
-          teacher: l.courses.teacher,
-        },
+        course: l.course,
       }));
 
       setActiveLectures(formattedLectures);
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error fetching lectures:', error);
     }
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371e3; // Earth's radius in meters
-    const φ1 = (lat1 * Math.PI) / 180;
-    const φ2 = (lat2 * Math.PI) / 180;
-    const Δφ = ((lat2 - lat1) * Math.PI) / 180;
-    const Δλ = ((lon2 - lon1) * Math.PI) / 180;
-
-    const a =
-      Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-      Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-
-    return R * c;
-  };
-
   const startCamera = async (lecture: Lecture) => {
     if (!modelsLoaded) {
       toast.error('Face recognition models are still loading');
       return;
     }
 
-    // Check location if required
-    if (lecture.latitude && lecture.longitude && lecture.radius) {
+    // Catch an obvious miss before the camera opens; the server makes the final call
+    const fence = lectureGeofence(lecture);
+    if (fence) {
       if (!userLocation) {
         toast.error('Unable to verify location. Please enable location services.');
         return;
       }
 
-      const distance = calculateDistance(
-        userLocation.lat,
-        userLocation.lng,
-        lecture.latitude,
-        lecture.longitude
-      );
+      const distance = distanceMeters({ latitude: userLocation.lat, longitude: userLocation.lng }, fence);
 
-      if (distance > lecture.radius) {
-        toast.error(`You are ${Math.round(distance)}m away. Must be within ${lecture.radius}m of the lecture location.`);
+      if (distance > fence.radius) {
+        toast.error(`You are ${Math.round(distance)}m away. Must be within ${fence.radius}m of the lecture location.`);
         return;
       }
     }
@@ -221,8 +184,8 @@ const StudentAttendance = () => {
     setLoading(true);
 
     try {
-      // Get face embedding from video
-      const result = await getEmbeddingFromVideo(videoRef.current);
+      // Run the liveness challenge before anything is matched or uploaded
+      const { result, liveness } = await runLivenessChallenge(videoRef.current);
 
       if (!result) {
         toast.error('No face detected. Please ensure your face is clearly visible.');
@@ -230,6 +193,12 @@ const StudentAttendance = () => {
         return;
       }
 
+      if (!liveness.passed) {
+        toast.error('Liveness check failed. Blink and turn your head when prompted, and do not use a photo.');
+        setLoading(false);
+        return;
+      }
+
       // Capture selfie from video
       const canvas = document.createElement('canvas');
       canvas.width = videoRef.current.videoWidth;
@@ -244,98 +213,61 @@ const StudentAttendance = () => {
         canvas.toBlob((blob) => resolve(blob!), 'image/jpeg', 0.85);
       });
 
-      // Get student's stored embedding
-      const { data: student } = await supabase
-        .from('students')
-        .select('embedding')
-        .eq('id', studentData.id)
-        .single();
-
-      if (!student?.embedding) {
-        toast.error('No face profile found. Please contact your teacher.');
-        setLoading(false);
-        return;
-      }
-
-      // Calculate similarity
-      const storedEmbedding = student.embedding;
-      const capturedEmbedding = Array.from(result.descriptor);
-
-      let distance = 0;
-      for (let i = 0; i < storedEmbedding.length; i++) {
-        distance += Math.pow(storedEmbedding[i] - capturedEmbedding[i], 2);
-      }
-      distance = Math.sqrt(distance);
-
-      const confidence = Math.max(0, 1 - distance);
-
-      if (confidence < 0.6) {
-        toast.error('Face does not match. Please try again.');
-        setLoading(false);
-        return;
-      }
-
-      // Check if already marked
-      const { data: existingAttendance } = await supabase
-        .from('attendance')
-        .select('id')
-        .eq('lecture_id', selectedLecture.id)
-        .eq('student_id', studentData.id)
-        .single();
+      // Enrollment, the lecture's attendance switch, the geofence and the face match
+      // are all checked by the server
+      const { attendance, duplicate } = await markOwnAttendance({
+        lectureId: selectedLecture.id,
+        studentId: studentData.id,
+        descriptor: Array.from(result.descriptor),
+        liveness,
+        location: userLocation ? { latitude: userLocation.lat, longitude: userLocation.lng } : null,
+        selfie: blob,
+      });
 
-      if (existingAttendance) {
+      if (duplicate) {
         toast.info('Attendance already marked for this lecture');
-        stopCamera();
-        setLoading(false);
-        return;
-      }
-
-      // Upload selfie to storage
-      const fileName = `attendance-${selectedLecture.id}-${studentData.id}-${Date.now()}.jpg`;
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('faces')
-        .upload(fileName, blob, {
-          contentType: 'image/jpeg',
-          upsert: false,
-        });
-
-      if (uploadError) {
-        console.error('Upload error:', uploadError);
-        toast.error('Failed to upload selfie');
-        setLoading(false);
-        return;
+      } else if (attendance.status === 'pending') {
+        toast.info('Check-in recorded. Your teacher will confirm it, as the face match was not certain.');
+      } else {
+        const confidence = attendance.confidence ?? 0;
+        toast.success(`Attendance marked successfully! Confidence: ${(confidence * 100).toFixed(1)}%`);
       }
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('faces')
-        .getPublicUrl(fileName);
-
-      // Mark attendance with selfie
-      const { error: attendanceError } = await supabase
-        .from('attendance')
-        .insert({
-          lecture_id: selectedLecture.id,
-          student_id: studentData.id,
-          confidence: confidence,
-          method: 'face',
-          photo_url: publicUrl,
-        });
-
-      if (attendanceError) throw attendanceError;
-
-      toast.success(`Attendance marked successfully! Confidence: ${(confidence * 100).toFixed(1)}%`);
       stopCamera();
       fetchActiveLectures();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Error marking attendance:', error);
-      toast.error(error.message || 'Failed to mark attendance');
+      toast.error(error instanceof Error ? error.message : 'Failed to mark attendance');
     } finally {
       setLoading(false);
+      setChallengePrompt(null);
     }
   };
 
-  const handleLogout = () => {
-    setStudentData(null);
+  const runLivenessChallenge = async (
+    video: HTMLVideoElement
+  ): Promise<{ result: FaceDetectionResult | null; liveness: LivenessResult }> => {
+    const session = createLivenessSession('challenge');
+    const deadline = Date.now() + LIVENESS_TIMEOUT_MS;
+    let result: FaceDetectionResult | null = null;
+    let liveness = session.result();
+    setChallengePrompt(livenessPrompt(liveness));
+
+    while (Date.now() < deadline) {
+      const frame = await getEmbeddingFromVideo(video);
+      if (frame) {
+        result = frame;
+        liveness = session.update(frame, video);
+        setChallengePrompt(livenessPrompt(liveness));
+        if (liveness.passed) break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+
+    return { result, liveness };
+  };
+
+  const handleLogout = async () => {
+    await signOutStudent();
     navigate('/auth');
   };
 
@@ -397,13 +329,18 @@ const StudentAttendance = () => {
                   muted
                   className="w-full h-full object-cover"
                 />
+                {challengePrompt && (
+                  <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-card/90 backdrop-blur px-4 py-2 rounded-full shadow-strong">
+                    <p className="text-sm font-medium">{challengePrompt}</p>
+                  </div>
+                )}
               </div>
               <div className="flex gap-2">
                 <Button onClick={captureAndMarkAttendance} disabled={loading} className="flex-1">
                   {loading ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      Processing...
+                      {challengePrompt ? 'Verifying...' : 'Processing...'}
                     </>
                   ) : (
                     <>
@@ -7,7 +7,11 @@ import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Header } from '@/components/Header';
-import { supabase } from '@/integrations/supabase/client';
+import { StudentExcuses } from '@/components/StudentExcuses';
+import { attendanceAPI, enrollmentsAPI, lecturesAPI, studentsAPI, Lecture } from '@/lib/storage/data';
+import { useAuth } from '@/contexts/AuthContext';
+import { AttendanceStatusBadge } from '@/components/AttendanceStatusBadge';
+import { AttendanceStatus, statusOf, summarizeStatuses } from '@/lib/attendance/status';
 import { toast } from 'sonner';
 import { User, Calendar, TrendingUp, BookOpen, CheckCircle2 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
@@ -30,9 +34,11 @@ interface AttendanceRecord {
   id: string;
   lecture_id: string;
   marked_at: string;
+  status?: AttendanceStatus;
   confidence: number | null;
   method: string | null;
   lecture: {
+    course_id: string;
     starts_at: string;
     ends_at: string;
     room: string | null;
@@ -49,29 +55,46 @@ interface CourseStats {
   course_title: string;
   total_lectures: number;
   attended_lectures: number;
+  late_lectures: number;
+  excused_lectures: number;
+  absent_lectures: number;
   attendance_rate: number;
 }
 
 const StudentDashboard = () => {
   const { rollNo: rollNoParam } = useParams<{ rollNo?: string }>();
+  const navigate = useNavigate();
+  const { userType, studentData, loading: authLoading } = useAuth();
   const [rollNo, setRollNo] = useState(rollNoParam || '');
   const [student, setStudent] = useState<Student | null>(null);
   const [loading, setLoading] = useState(false);
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
   const [courseStats, setCourseStats] = useState<CourseStats[]>([]);
   const [enrolledCourses, setEnrolledCourses] = useState<Course[]>([]);
+  const [courseLectures, setCourseLectures] = useState<Lecture[]>([]);
   const [stats, setStats] = useState({
     totalLectures: 0,
     totalAttended: 0,
+    totalLate: 0,
+    totalExcused: 0,
+    totalAbsent: 0,
     overallAttendanceRate: 0,
   });
 
+  // Students only ever see their own record; teachers can look anyone up
   useEffect(() => {
-    if (rollNoParam) {
+    if (authLoading) return;
+
+    if (!userType) {
+      navigate('/auth');
+    } else if (userType === 'student' && studentData) {
+      setRollNo(studentData.roll_no);
+      loadStudentData(studentData.roll_no);
+    } else if (rollNoParam) {
       setRollNo(rollNoParam);
       loadStudentData(rollNoParam);
     }
-  }, [rollNoParam]);
+  }, [rollNoParam, userType, studentData, authLoading, navigate]);
 
   const loadStudentData = async (rollNumber: string) => {
     if (!rollNumber.trim()) {
@@ -82,72 +105,24 @@ const StudentDashboard = () => {
     setLoading(true);
     try {
       // Find student by roll number
-      const { data: studentData, error: studentError } = await supabase
-        .from('students')
-        .select('*')
-        .eq('roll_no', rollNumber.trim())
-        .single();
+      const studentData = await studentsAPI.getByRollNo(rollNumber);
 
-      if (studentError || !studentData) {
+      if (!studentData) {
         toast.error('Student not found. Please check your roll number.');
         setStudent(null);
         setLoading(false);
         return;
       }
 
-      setStudent(studentData);
+      setStudent({ ...studentData, photo_url: studentData.photo_url ?? null });
 
       // Load enrolled courses
-      const { data: enrollments } = await supabase
-        .from('enrollments')
-        .select('course_id, courses(*)')
-        .eq('student_id', studentData.id);
-
-      const courses = (enrollments || []).map((e: any) => ({
-        id: e.course_id,
-        code: e.courses.code,
-        title: e.courses.title,
-        teacher: e.courses.teacher,
-      }));
+      const courses = await enrollmentsAPI.getCoursesForStudent(studentData.id);
       setEnrolledCourses(courses);
 
-      // Load attendance records
-      const { data: attendanceData, error: attendanceError } = await supabase
-        .from('attendance')
-        .select(`
-          id,
-          lecture_id,
-          marked_at,
-          confidence,
-          method,
-          lectures!inner(
-            starts_at,
-            ends_at,
-            room,
-            courses!inner(code, title)
-          )
-        `)
-        .eq('student_id', studentData.id)
-        .order('marked_at', { ascending: false });
-
-      if (attendanceError) throw attendanceError;
-
-      const records: AttendanceRecord[] = (attendanceData || []).map((item: any) => ({
-        id: item.id,
-        lecture_id: item.lecture_id,
-        marked_at: item.marked_at,
-        confidence: item.confidence,
-        method: item.method,
-        lecture: {
-          starts_at: item.lectures.starts_at,
-          ends_at: item.lectures.ends_at,
-          room: item.lectures.room,
-          course: {
-            code: item.lectures.courses.code,
-            title: item.lectures.courses.title,
-          },
-        },
-      }));
+      // Load attendance records, including absences from lectures that have ended
+      await attendanceAPI.finalizeEndedLectures();
+      const records: AttendanceRecord[] = await attendanceAPI.getDetails({ studentId: studentData.id });
 
       setAttendanceRecords(records);
 
@@ -161,6 +136,9 @@ const StudentDashboard = () => {
           course_title: course.title,
           total_lectures: 0,
           attended_lectures: 0,
+          late_lectures: 0,
+          excused_lectures: 0,
+          absent_lectures: 0,
           attendance_rate: 0,
         };
       });
@@ -168,33 +146,26 @@ const StudentDashboard = () => {
       // Get all lectures for enrolled courses
       const courseIds = courses.map((c) => c.id);
       if (courseIds.length > 0) {
-        const { data: lecturesData } = await supabase
-          .from('lectures')
-          .select('id, course_id')
-          .in('course_id', courseIds);
+        const lecturesData = await lecturesAPI.getByCourses(courseIds);
+        setCourseLectures(lecturesData);
 
-        (lecturesData || []).forEach((lecture) => {
+        lecturesData.forEach((lecture) => {
           if (courseStatsMap[lecture.course_id]) {
             courseStatsMap[lecture.course_id].total_lectures += 1;
           }
         });
 
-        // Count attended lectures per course
-        records.forEach((record) => {
-          const courseId = courses.find(
-            (c) => c.code === record.lecture.course.code
-          )?.id;
-          if (courseId && courseStatsMap[courseId]) {
-            courseStatsMap[courseId].attended_lectures += 1;
-          }
-        });
-
-        // Calculate attendance rates
+        // Summarize statuses per course; excused lectures don't count against the rate
         Object.values(courseStatsMap).forEach((stat) => {
-          stat.attendance_rate =
-            stat.total_lectures > 0
-              ? (stat.attended_lectures / stat.total_lectures) * 100
-              : 0;
+          const summary = summarizeStatuses(
+            records.filter((r) => r.lecture.course_id === stat.course_id).map(statusOf),
+            stat.total_lectures
+          );
+          stat.attended_lectures = summary.attended;
+          stat.late_lectures = summary.late;
+          stat.excused_lectures = summary.excused;
+          stat.absent_lectures = summary.absent;
+          stat.attendance_rate = summary.rate;
         });
 
         setCourseStats(Object.values(courseStatsMap));
@@ -204,13 +175,18 @@ const StudentDashboard = () => {
           (sum, stat) => sum + stat.total_lectures,
           0
         );
-        const totalAttended = records.length;
+        const overall = summarizeStatuses(
+          records.filter((r) => courseStatsMap[r.lecture.course_id]).map(statusOf),
+          totalLectures
+        );
 
         setStats({
           totalLectures,
-          totalAttended,
-          overallAttendanceRate:
-            totalLectures > 0 ? (totalAttended / totalLectures) * 100 : 0,
+          totalAttended: overall.attended,
+          totalLate: overall.late,
+          totalExcused: overall.excused,
+          totalAbsent: overall.absent,
+          overallAttendanceRate: overall.rate,
         });
       }
     } catch (error: any) {
@@ -225,7 +201,7 @@ const StudentDashboard = () => {
     loadStudentData(rollNo);
   };
 
-  if (!student && !rollNoParam) {
+  if (!student && !rollNoParam && userType === 'teacher') {
     return (
       <div className="min-h-screen flex flex-col">
         <Header />
@@ -234,7 +210,7 @@ const StudentDashboard = () => {
             <CardHeader>
               <CardTitle className="text-2xl">Student Dashboard</CardTitle>
               <CardDescription>
-                Enter your roll number to view your attendance records
+                Enter a roll number to view that student's attendance records
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -262,7 +238,7 @@ const StudentDashboard = () => {
     );
   }
 
-  if (loading) {
+  if (loading || authLoading) {
     return (
       <div className="min-h-screen flex flex-col">
         <Header />
@@ -324,15 +300,17 @@ const StudentDashboard = () => {
                   </CardDescription>
                 </div>
               </div>
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setStudent(null);
-                  setRollNo('');
-                }}
-              >
-                Search Another
-              </Button>
+              {userType === 'teacher' && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setStudent(null);
+                    setRollNo('');
+                  }}
+                >
+                  Search Another
+                </Button>
+              )}
             </div>
           </CardHeader>
         </Card>
@@ -349,7 +327,8 @@ const StudentDashboard = () => {
                 {stats.overallAttendanceRate.toFixed(1)}%
               </div>
               <p className="text-xs text-muted-foreground">
-                {stats.totalAttended} of {stats.totalLectures} lectures
+                {stats.totalAttended} of {stats.totalLectures - stats.totalExcused} lectures
+                {stats.totalExcused > 0 && ` (${stats.totalExcused} excused)`}
               </p>
             </CardContent>
           </Card>
@@ -372,7 +351,9 @@ const StudentDashboard = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{stats.totalAttended}</div>
-              <p className="text-xs text-muted-foreground">Records marked</p>
+              <p className="text-xs text-muted-foreground">
+                {stats.totalLate} late · {stats.totalAbsent} absent
+              </p>
             </CardContent>
           </Card>
         </div>
@@ -410,7 +391,10 @@ const StudentDashboard = () => {
                     <div className="flex items-center gap-2 text-sm text-muted-foreground">
                       <CheckCircle2 className="w-4 h-4" />
                       <span>
-                        {stat.attended_lectures} / {stat.total_lectures} lectures
+                        {stat.attended_lectures} / {stat.total_lectures - stat.excused_lectures} lectures
+                        {stat.late_lectures > 0 && ` · ${stat.late_lectures} late`}
+                        {stat.excused_lectures > 0 && ` · ${stat.excused_lectures} excused`}
+                        {stat.absent_lectures > 0 && ` · ${stat.absent_lectures} absent`}
                       </span>
                     </div>
                     <div className="h-2 bg-muted rounded-full overflow-hidden">
@@ -426,6 +410,14 @@ const StudentDashboard = () => {
           </Card>
         )}
 
+        {/* Excuse Requests */}
+        <StudentExcuses
+          studentId={student.id}
+          courses={enrolledCourses}
+          lectures={courseLectures}
+          canSubmit={userType === 'student'}
+        />
+
         {/* Attendance Records */}
         <Card>
           <CardHeader>
@@ -477,10 +469,7 @@ const StudentDashboard = () => {
                           </Badge>
                         </TableCell>
                         <TableCell>
-                          <Badge variant="default" className="bg-success text-success-foreground">
-                            <CheckCircle2 className="w-3 h-3 mr-1" />
-                            Present
-                          </Badge>
+                          <AttendanceStatusBadge status={statusOf(record)} />
                         </TableCell>
                       </TableRow>
                     ))}
@@ -6,34 +6,49 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { supabase } from '@/integrations/supabase/client';
+import { studentsAPI, studentEmbeddingsAPI, photosAPI, StudentWithCaptures } from '@/lib/storage/data';
 import { toast } from 'sonner';
 import { loadFaceModels } from '@/lib/face/models';
 import { getEmbeddingFromImage, getEmbeddingFromVideo } from '@/lib/face/embedding';
-import { Plus, Camera, Upload, Trash2 } from 'lucide-react';
-
-interface Student {
-  id: string;
-  roll_no: string;
-  name: string;
-  photo_url: string | null;
-  embedding: number[] | null;
+import { assessFaceQuality, qualityChecks, qualityMessage, FaceQuality } from '@/lib/face/quality';
+import { RosterImport } from '@/components/RosterImport';
+import { LookAlikeReport } from '@/components/LookAlikeReport';
+import { Plus, Camera, Upload, Trash2, Mail, Check, X } from 'lucide-react';
+
+type Student = StudentWithCaptures;
+
+interface FaceCapture {
+  label: string;
+  descriptor: Float32Array;
+  file: File;
+  previewUrl: string;
+  quality: FaceQuality;
 }
 
+// How often the live quality check runs while the camera is open
+const QUALITY_CHECK_INTERVAL_MS = 400;
+
+// Angles captured from the webcam, in order
+const ENROLLMENT_POSES = [
+  { label: 'front', prompt: 'Look straight at the camera' },
+  { label: 'left', prompt: 'Turn your head slightly to the left' },
+  { label: 'right', prompt: 'Turn your head slightly to the right' },
+];
+
 const Students = () => {
   const [students, setStudents] = useState<Student[]>([]);
   const [loading, setLoading] = useState(true);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [rollNo, setRollNo] = useState('');
   const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
   const [useCamera, setUseCamera] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [faceDetected, setFaceDetected] = useState(false);
+  const [captures, setCaptures] = useState<FaceCapture[]>([]);
   const [saving, setSaving] = useState(false);
-  const [descriptor, setDescriptor] = useState<Float32Array | null>(null);
   const [cameraReady, setCameraReady] = useState(false);
+  // Quality of the face currently in view; null while no usable face is
+  const [liveQuality, setLiveQuality] = useState<FaceQuality | null>(null);
   
   const videoRef = useRef<HTMLVideoElement>(null);
 
@@ -50,17 +65,34 @@ const Students = () => {
     };
   }, [stream]);
 
+  useEffect(() => {
+    if (!useCamera || !cameraReady) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+    const check = async () => {
+      const video = videoRef.current;
+      if (video && video.readyState >= 2) {
+        const result = await getEmbeddingFromVideo(video);
+        if (cancelled) return;
+        setLiveQuality(result ? assessFaceQuality(video, result) : null);
+      }
+      timer = setTimeout(check, QUALITY_CHECK_INTERVAL_MS);
+    };
+    check();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [useCamera, cameraReady]);
+
   const fetchStudents = async () => {
     setLoading(true);
-    const { data, error } = await supabase
-      .from('students')
-      .select('*')
-      .order('created_at', { ascending: false });
-
-    if (error) {
+    try {
+      setStudents(await studentsAPI.getAllWithCaptureCounts());
+    } catch {
       toast.error('Error fetching students');
-    } else {
-      setStudents(data || []);
     }
     setLoading(false);
   };
@@ -119,12 +151,18 @@ const Students = () => {
       // Ensure models are loaded
       await loadFaceModels();
       
-      const result = await getEmbeddingFromVideo(video);
+      const result = await getEmbeddingFromVideo(video, { droppable: false });
       if (!result) {
         toast.error('No face detected or face too small. Move closer to the camera.');
         return;
       }
 
+      const quality = assessFaceQuality(video, result);
+      if (!quality.passed) {
+        toast.error(qualityMessage(quality));
+        return;
+      }
+
       // Create canvas to capture frame
       const canvas = document.createElement('canvas');
       canvas.width = video.videoWidth;
@@ -143,92 +181,123 @@ const Students = () => {
         }, 'image/jpeg', 0.9);
       });
       
-      const file = new File([blob], `capture-${Date.now()}.jpg`, { type: 'image/jpeg' });
-      setImageFile(file);
-      setPreviewUrl(canvas.toDataURL('image/jpeg'));
-      setDescriptor(result.descriptor);
-      setFaceDetected(true);
-      
-      // Stop camera after capture
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-        setStream(null);
+      const pose = ENROLLMENT_POSES[captures.length] || ENROLLMENT_POSES[0];
+      const file = new File([blob], `capture-${pose.label}-${Date.now()}.jpg`, { type: 'image/jpeg' });
+      setCaptures((prev) => [
+        ...prev,
+        {
+          label: pose.label,
+          descriptor: result.descriptor,
+          file,
+          previewUrl: canvas.toDataURL('image/jpeg'),
+          quality,
+        },
+      ]);
+
+      // Stop camera once every angle has been captured
+      if (captures.length + 1 >= ENROLLMENT_POSES.length) {
+        stopCamera();
+        toast.success('All angles captured!');
+      } else {
+        toast.success(`Captured ${pose.label} view. Next: ${ENROLLMENT_POSES[captures.length + 1].prompt.toLowerCase()}`);
       }
-      setUseCamera(false);
-      if (videoRef.current) {
-        videoRef.current.srcObject = null;
-      }
-      toast.success('Face captured successfully!');
     } catch (error: any) {
       console.error('Capture error:', error);
       toast.error(error.message || 'Error capturing face. Make sure your face is clearly visible.');
     }
   };
 
+  const stopCamera = () => {
+    if (stream) {
+      stream.getTracks().forEach(track => track.stop());
+      setStream(null);
+    }
+    setUseCamera(false);
+    setCameraReady(false);
+    setLiveQuality(null);
+    if (videoRef.current) {
+      videoRef.current.srcObject = null;
+    }
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    // Ensure models are loaded
+    await loadFaceModels();
+
+    const uploaded: FaceCapture[] = [];
+    for (const file of files) {
+      try {
+        const result = await getEmbeddingFromImage(file);
+        uploaded.push({
+          label: 'upload',
+          descriptor: result.descriptor,
+          file,
+          previewUrl: URL.createObjectURL(file),
+          quality: result.quality,
+        });
+      } catch (error: any) {
+        console.error('Upload error:', error);
+        toast.error(`${file.name}: ${error.message || 'Error processing image. Make sure the image contains a clear face.'}`);
+      }
+    }
 
-    try {
-      // Ensure models are loaded
-      await loadFaceModels();
-      
-      const result = await getEmbeddingFromImage(file);
-      setImageFile(file);
-      setPreviewUrl(URL.createObjectURL(file));
-      setDescriptor(result.descriptor);
-      setFaceDetected(true);
-      toast.success('Face detected successfully!');
-    } catch (error: any) {
-      console.error('Upload error:', error);
-      toast.error(error.message || 'Error processing image. Make sure the image contains a clear face.');
-      setFaceDetected(false);
-      setImageFile(null);
-      setPreviewUrl(null);
-      setDescriptor(null);
+    if (uploaded.length > 0) {
+      setCaptures((prev) => [...prev, ...uploaded]);
+      toast.success(`Face detected in ${uploaded.length} image${uploaded.length > 1 ? 's' : ''}`);
     }
   };
 
+  const removeCapture = (index: number) => {
+    setCaptures((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const handleSave = async () => {
     if (!rollNo || !name) {
       toast.error('Please fill in all fields');
       return;
     }
 
-    if (!descriptor || !imageFile) {
+    if (captures.length === 0) {
       toast.error('Please capture or upload a face image');
       return;
     }
 
     setSaving(true);
+    const photoUrls: string[] = [];
 
     try {
-      // Upload image to storage
-      const fileName = `${rollNo}-${Date.now()}.jpg`;
-      const { error: uploadError, data: uploadData } = await supabase.storage
-        .from('faces')
-        .upload(fileName, imageFile);
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('faces')
-        .getPublicUrl(fileName);
-
-      // Save student with embedding
-      const { error: insertError } = await supabase
-        .from('students')
-        .insert({
-          roll_no: rollNo,
-          name,
-          photo_url: publicUrl,
-          embedding: Array.from(descriptor),
-        });
+      // Upload every capture to storage
+      for (const [i, capture] of captures.entries()) {
+        const fileName = `${rollNo}-${capture.label}-${i}-${Date.now()}.jpg`;
+        photoUrls.push(await photosAPI.upload(fileName, capture.file));
+      }
 
-      if (insertError) {
-        // Clean up uploaded image if insert fails
-        await supabase.storage.from('faces').remove([fileName]);
-        throw insertError;
+      // Save student; the first capture doubles as profile photo and primary embedding
+      const student = await studentsAPI.create({
+        roll_no: rollNo,
+        name,
+        email: email.trim() || null,
+        photo_url: photoUrls[0],
+        embedding: Array.from(captures[0].descriptor),
+      });
+
+      try {
+        await studentEmbeddingsAPI.createMany(
+          captures.map((capture, i) => ({
+            student_id: student.id,
+            embedding: Array.from(capture.descriptor),
+            photo_url: photoUrls[i],
+            label: capture.label,
+            quality: capture.quality.score,
+          }))
+        );
+      } catch (galleryError) {
+        await studentsAPI.delete(student.id);
+        throw galleryError;
       }
 
       toast.success('Student enrolled successfully!');
@@ -236,6 +305,8 @@ const Students = () => {
       resetForm();
       setDialogOpen(false);
     } catch (error: any) {
+      // Clean up uploaded images if saving fails
+      await photosAPI.remove(photoUrls);
       toast.error(error.message || 'Error saving student');
     } finally {
       setSaving(false);
@@ -246,21 +317,14 @@ const Students = () => {
     if (!confirm('Are you sure you want to delete this student?')) return;
 
     try {
+      // Collect gallery photos before the rows cascade away
+      const gallery = await studentEmbeddingsAPI.getByStudents([id]);
+
       // Delete from database
-      const { error: deleteError } = await supabase
-        .from('students')
-        .delete()
-        .eq('id', id);
-
-      if (deleteError) throw deleteError;
-
-      // Delete photo from storage if exists
-      if (photoUrl) {
-        const fileName = photoUrl.split('/').pop();
-        if (fileName) {
-          await supabase.storage.from('faces').remove([fileName]);
-        }
-      }
+      await studentsAPI.delete(id);
+
+      // Delete photos from storage if they exist
+      await photosAPI.remove([photoUrl, ...gallery.map((g) => g.photo_url)]);
 
       toast.success('Student deleted successfully');
       fetchStudents();
@@ -269,22 +333,26 @@ const Students = () => {
     }
   };
 
+  // Set or change the email a student activates their account with
+  const handleInvite = async (student: Student) => {
+    const inviteEmail = prompt(`Invite email for ${student.name}:`, student.email || '');
+    if (inviteEmail === null) return;
+
+    try {
+      await studentsAPI.update(student.id, { email: inviteEmail.trim() || null });
+      toast.success(inviteEmail.trim() ? 'Invite saved. The student can now activate their account.' : 'Invite removed');
+      fetchStudents();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error saving invite');
+    }
+  };
+
   const resetForm = () => {
     setRollNo('');
     setName('');
-    setImageFile(null);
-    setPreviewUrl(null);
-    setFaceDetected(false);
-    setDescriptor(null);
-    setUseCamera(false);
-    setCameraReady(false);
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-      setStream(null);
-    }
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
-    }
+    setEmail('');
+    setCaptures([]);
+    stopCamera();
   };
 
   return (
@@ -295,171 +363,228 @@ const Students = () => {
             <h1 className="text-3xl font-bold text-foreground">Students</h1>
             <p className="text-muted-foreground mt-1">Manage student enrollment and face data</p>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={(open) => {
-            setDialogOpen(open);
-            if (!open) resetForm();
-          }}>
-            <DialogTrigger asChild>
-              <Button className="gap-2">
-                <Plus className="w-4 h-4" />
-                Enroll Student
-              </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl">
-              <DialogHeader>
-                <DialogTitle>Enroll New Student</DialogTitle>
-                <DialogDescription>
-                  Capture or upload a clear face photo for automatic attendance
-                </DialogDescription>
-              </DialogHeader>
-              <div className="space-y-4 mt-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="roll-no">Roll Number</Label>
-                    <Input
-                      id="roll-no"
-                      value={rollNo}
-                      onChange={(e) => setRollNo(e.target.value)}
-                      placeholder="e.g., CS2024001"
-                    />
+          <div className="flex gap-2">
+            <LookAlikeReport />
+            <RosterImport onImported={fetchStudents} />
+            <Dialog open={dialogOpen} onOpenChange={(open) => {
+              setDialogOpen(open);
+              if (!open) resetForm();
+            }}>
+              <DialogTrigger asChild>
+                <Button className="gap-2">
+                  <Plus className="w-4 h-4" />
+                  Enroll Student
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Enroll New Student</DialogTitle>
+                  <DialogDescription>
+                    Capture the face from several angles, or upload clear photos, for automatic attendance
+                  </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4 mt-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="roll-no">Roll Number</Label>
+                      <Input
+                        id="roll-no"
+                        value={rollNo}
+                        onChange={(e) => setRollNo(e.target.value)}
+                        placeholder="e.g., CS2024001"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="name">Full Name</Label>
+                      <Input
+                        id="name"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="e.g., John Doe"
+                      />
+                    </div>
                   </div>
                   <div className="space-y-2">
-                    <Label htmlFor="name">Full Name</Label>
+                    <Label htmlFor="email">Email (optional)</Label>
                     <Input
-                      id="name"
-                      value={name}
-                      onChange={(e) => setName(e.target.value)}
-                      placeholder="e.g., John Doe"
+                      id="email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      placeholder="e.g., john.doe@college.edu"
                     />
+                    <p className="text-xs text-muted-foreground">
+                      The student activates their account with this email to sign in and mark attendance
+                    </p>
                   </div>
-                </div>
 
-                <div className="space-y-4">
-                  {!useCamera && !previewUrl && (
-                    <div className="flex gap-3">
-                      <Button
-                        type="button"
-                        variant="outline"
-                        onClick={startCamera}
-                        className="flex-1 gap-2"
-                      >
-                        <Camera className="w-4 h-4" />
-                        Capture from Webcam
-                      </Button>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        onClick={() => document.getElementById('file-upload')?.click()}
-                        className="flex-1 gap-2"
-                      >
-                        <Upload className="w-4 h-4" />
-                        Upload Image
-                      </Button>
-                      <input
-                        id="file-upload"
-                        type="file"
-                        accept="image/*"
-                        onChange={handleFileUpload}
-                        className="hidden"
-                      />
-                    </div>
-                  )}
-
-                  {useCamera && (
-                    <div className="space-y-3">
-                      <div className="relative w-full bg-black rounded-lg overflow-hidden" style={{ aspectRatio: '16/9' }}>
-                        <video
-                          ref={videoRef}
-                          autoPlay
-                          playsInline
-                          muted
-                          className="w-full h-full object-cover"
-                          style={{ minHeight: '400px' }}
+                  <div className="space-y-4">
+                    {!useCamera && captures.length < ENROLLMENT_POSES.length && (
+                      <div className="flex gap-3">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={startCamera}
+                          className="flex-1 gap-2"
+                        >
+                          <Camera className="w-4 h-4" />
+                          {captures.length > 0 ? 'Capture More Angles' : 'Capture from Webcam'}
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => document.getElementById('file-upload')?.click()}
+                          className="flex-1 gap-2"
+                        >
+                          <Upload className="w-4 h-4" />
+                          Upload Images
+                        </Button>
+                        <input
+                          id="file-upload"
+                          type="file"
+                          accept="image/*"
+                          multiple
+                          onChange={handleFileUpload}
+                          className="hidden"
                         />
-                        {!cameraReady && (
-                          <div className="absolute inset-0 flex items-center justify-center text-white bg-black/80 rounded-lg">
-                            <div className="text-center">
-                              <Camera className="w-12 h-12 mx-auto mb-2 opacity-50 animate-pulse" />
-                              <p className="text-sm">Starting camera...</p>
+                      </div>
+                    )}
+
+                    {useCamera && (
+                      <div className="space-y-3">
+                        <p className="text-sm font-medium">
+                          Step {Math.min(captures.length + 1, ENROLLMENT_POSES.length)} of {ENROLLMENT_POSES.length}:{' '}
+                          {ENROLLMENT_POSES[Math.min(captures.length, ENROLLMENT_POSES.length - 1)].prompt}
+                        </p>
+                        <div className="relative w-full bg-black rounded-lg overflow-hidden" style={{ aspectRatio: '16/9' }}>
+                          <video
+                            ref={videoRef}
+                            autoPlay
+                            playsInline
+                            muted
+                            className="w-full h-full object-cover"
+                            style={{ minHeight: '400px' }}
+                          />
+                          {!cameraReady && (
+                            <div className="absolute inset-0 flex items-center justify-center text-white bg-black/80 rounded-lg">
+                              <div className="text-center">
+                                <Camera className="w-12 h-12 mx-auto mb-2 opacity-50 animate-pulse" />
+                                <p className="text-sm">Starting camera...</p>
+                              </div>
+                            </div>
+                          )}
+                        </div>
+                        {cameraReady && (
+                          <div className="rounded-lg border p-3 space-y-2">
+                            <div className="flex items-center justify-between text-sm">
+                              <span className={liveQuality?.passed ? 'text-success font-medium' : 'text-muted-foreground'}>
+                                {liveQuality ? qualityMessage(liveQuality) : 'No face in view. Move closer to the camera.'}
+                              </span>
+                              {liveQuality && (
+                                <span className="text-muted-foreground">
+                                  Quality {Math.round(liveQuality.score * 100)}%
+                                </span>
+                              )}
                             </div>
+                            {liveQuality && (
+                              <div className="flex flex-wrap gap-2">
+                                {qualityChecks(liveQuality).map((check) => (
+                                  <span
+                                    key={check.label}
+                                    className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs ${
+                                      check.passed ? 'bg-success/10 text-success' : 'bg-destructive/10 text-destructive'
+                                    }`}
+                                  >
+                                    {check.passed ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                                    {check.label}
+                                  </span>
+                                ))}
+                              </div>
+                            )}
                           </div>
                         )}
+                        <div className="flex gap-3">
+                          <Button 
+                            onClick={captureFromCamera} 
+                            className="flex-1"
+                            disabled={!cameraReady || !stream}
+                          >
+                            {cameraReady ? 'Capture Photo' : 'Camera Loading...'}
+                          </Button>
+                          <Button variant="outline" onClick={stopCamera}>
+                            {captures.length > 0 ? 'Done' : 'Cancel'}
+                          </Button>
+                        </div>
                       </div>
-                      <div className="flex gap-3">
-                        <Button 
-                          onClick={captureFromCamera} 
-                          className="flex-1"
-                          disabled={!cameraReady || !stream}
-                        >
-                          {cameraReady ? 'Capture Photo' : 'Camera Loading...'}
-                        </Button>
+                    )}
+
+                    {captures.length > 0 && (
+                      <div className="space-y-3">
+                        <div className="grid grid-cols-3 gap-3">
+                          {captures.map((capture, i) => (
+                            <div key={i} className="relative">
+                              <img
+                                src={capture.previewUrl}
+                                alt={`${capture.label} capture`}
+                                className="w-full h-28 object-cover rounded-lg border"
+                              />
+                              <div className="absolute bottom-1 left-1 bg-success text-success-foreground px-2 py-0.5 rounded-full text-xs font-medium capitalize">
+                                {capture.label} ✓
+                              </div>
+                              <div
+                                className="absolute top-1 left-1 bg-background/90 px-2 py-0.5 rounded-full text-xs font-medium"
+                                title="Photo quality"
+                              >
+                                {Math.round(capture.quality.score * 100)}%
+                              </div>
+                              <Button
+                                variant="secondary"
+                                size="sm"
+                                onClick={() => removeCapture(i)}
+                                className="absolute top-1 right-1 h-7 w-7 p-0"
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
                         <Button
                           variant="outline"
                           onClick={() => {
-                            if (stream) {
-                              stream.getTracks().forEach(track => track.stop());
-                              setStream(null);
-                            }
-                            setUseCamera(false);
-                            setCameraReady(false);
-                            if (videoRef.current) {
-                              videoRef.current.srcObject = null;
-                            }
+                            setCaptures([]);
+                            stopCamera();
                           }}
+                          className="w-full"
                         >
-                          Cancel
+                          Start Over
                         </Button>
                       </div>
-                    </div>
-                  )}
-
-                  {previewUrl && (
-                    <div className="space-y-3">
-                      <div className="relative">
-                        <img
-                          src={previewUrl}
-                          alt="Preview"
-                          className="w-full max-h-64 object-contain rounded-lg border"
-                        />
-                        {faceDetected && (
-                          <div className="absolute top-2 right-2 bg-success text-success-foreground px-3 py-1 rounded-full text-sm font-medium">
-                            Face Detected ✓
-                          </div>
-                        )}
-                      </div>
-                      <Button
-                        variant="outline"
-                        onClick={resetForm}
-                        className="w-full"
-                      >
-                        Retake / Choose Different Image
-                      </Button>
-                    </div>
-                  )}
-                </div>
+                    )}
+                  </div>
 
-                <div className="flex gap-3 pt-4">
-                  <Button
-                    variant="outline"
-                    onClick={() => {
-                      setDialogOpen(false);
-                      resetForm();
-                    }}
-                    className="flex-1"
-                  >
-                    Cancel
-                  </Button>
-                  <Button
-                    onClick={handleSave}
-                    disabled={!faceDetected || saving}
-                    className="flex-1"
-                  >
-                    {saving ? 'Saving...' : 'Enroll Student'}
-                  </Button>
+                  <div className="flex gap-3 pt-4">
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setDialogOpen(false);
+                        resetForm();
+                      }}
+                      className="flex-1"
+                    >
+                      Cancel
+                    </Button>
+                    <Button
+                      onClick={handleSave}
+                      disabled={captures.length === 0 || saving}
+                      className="flex-1"
+                    >
+                      {saving ? 'Saving...' : 'Enroll Student'}
+                    </Button>
+                  </div>
                 </div>
-              </div>
-            </DialogContent>
-          </Dialog>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
         <Card>
@@ -482,6 +607,7 @@ const Students = () => {
                     <TableHead>Roll Number</TableHead>
                     <TableHead>Name</TableHead>
                     <TableHead>Face Data</TableHead>
+                    <TableHead>Account</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -504,17 +630,38 @@ const Students = () => {
                       <TableCell className="font-medium">{student.roll_no}</TableCell>
                       <TableCell>{student.name}</TableCell>
                       <TableCell>
-                        {student.embedding ? (
-                          <span className="text-success text-sm">✓ Enrolled</span>
+                        {student.capture_count > 0 || student.embedding ? (
+                          <span className="text-success text-sm">
+                            ✓ Enrolled ({Math.max(student.capture_count, 1)} capture{student.capture_count > 1 ? 's' : ''})
+                          </span>
                         ) : (
                           <span className="text-warning text-sm">⚠ Missing</span>
                         )}
                       </TableCell>
+                      <TableCell>
+                        {student.user_id ? (
+                          <span className="text-success text-sm">Active</span>
+                        ) : student.email ? (
+                          <span className="text-muted-foreground text-sm">Invited ({student.email})</span>
+                        ) : (
+                          <span className="text-muted-foreground text-sm">No account</span>
+                        )}
+                      </TableCell>
                       <TableCell className="text-right">
+                        {!student.user_id && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleInvite(student)}
+                            title="Invite student"
+                          >
+                            <Mail className="w-4 h-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => handleDelete(student.id, student.photo_url)}
+                          onClick={() => handleDelete(student.id, student.photo_url ?? null)}
                         >
                           <Trash2 className="w-4 h-4" />
                         </Button>
@@ -0,0 +1,35 @@
+// Server-side copy of the descriptor math in src/lib/face, kept dependency-free for Deno
+
+export const DESCRIPTOR_LENGTH = 128;
+
+export function isDescriptor(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length === DESCRIPTOR_LENGTH &&
+    value.every((v) => typeof v === 'number' && Number.isFinite(v))
+  );
+}
+
+export function euclideanDistance(a: number[], b: number[]): number {
+  if (a.length !== b.length) {
+    throw new Error('Arrays must have the same length');
+  }
+
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+
+  return Math.sqrt(sum);
+}
+
+// Closest distance from the probe to any enrolled descriptor
+export function galleryDistance(probe: number[], gallery: number[][]): number {
+  let best = Infinity;
+  for (const descriptor of gallery) {
+    if (descriptor.length !== probe.length) continue;
+    best = Math.min(best, euclideanDistance(probe, descriptor));
+  }
+  return best;
+}
@@ -0,0 +1,33 @@
+// Server-side copy of src/lib/attendance/geofence.ts
+
+const EARTH_RADIUS_M = 6371e3;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export function isCoordinates(value: unknown): value is Coordinates {
+  const c = value as Coordinates | null;
+  return (
+    !!c &&
+    Number.isFinite(c.latitude) &&
+    Number.isFinite(c.longitude) &&
+    Math.abs(c.latitude) <= 90 &&
+    Math.abs(c.longitude) <= 180
+  );
+}
+
+// Great-circle (haversine) distance in meters
+export function distanceMeters(a: Coordinates, b: Coordinates): number {
+  const φ1 = (a.latitude * Math.PI) / 180;
+  const φ2 = (b.latitude * Math.PI) / 180;
+  const Δφ = ((b.latitude - a.latitude) * Math.PI) / 180;
+  const Δλ = ((b.longitude - a.longitude) * Math.PI) / 180;
+
+  const h =
+    Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+    Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+
+  return EARTH_RADIUS_M * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
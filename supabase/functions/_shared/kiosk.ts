@@ -0,0 +1,57 @@
+// Per-device kiosk credentials, shared by mark-attendance and kiosk-device
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface KioskDevice {
+  id: string;
+  name: string;
+  course_id: string | null;
+  room: string | null;
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Codes are shown as XXXX-XXXX; case and separators do not matter when typed back
+export function normalizePairingCode(code: string): string {
+  return code.replace(/[^a-z0-9]/gi, '').toUpperCase();
+}
+
+// 32 random bytes, base64url
+export function generateDeviceToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// The paired, unrevoked device holding this token; also records that it was seen
+export async function authenticateKiosk(
+  supabase: SupabaseClient,
+  token: string | null
+): Promise<KioskDevice | null> {
+  if (!token) return null;
+
+  const { data: device, error } = await supabase
+    .from('kiosk_devices')
+    .select('id, name, course_id, room')
+    .eq('token_hash', await sha256Hex(token))
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!device) return null;
+
+  await supabase
+    .from('kiosk_devices')
+    .update({ last_seen_at: new Date().toISOString() })
+    .eq('id', device.id);
+
+  return device;
+}
+
+// Whether the device may mark attendance for this lecture
+export function kioskCovers(device: KioskDevice, lecture: { course_id: string; room: string | null }): boolean {
+  if (device.course_id && device.course_id !== lecture.course_id) return false;
+  if (device.room && device.room.trim().toLowerCase() !== (lecture.room ?? '').trim().toLowerCase()) return false;
+  return true;
+}
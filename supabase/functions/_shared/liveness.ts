@@ -0,0 +1,33 @@
+// Server-side check of the liveness scores a client reports, using the thresholds in
+// src/lib/face/liveness.ts. Liveness runs on the client, so these scores are a client-side
+// signal: re-checking them catches a client that claims a pass its own measurements do not
+// support, but a modified client can still report whatever it likes. The face match against
+// the enrolled gallery is what the server actually verifies.
+
+export type LivenessMode = 'passive' | 'challenge';
+
+const YAW_TURN = 0.25;
+const PASSIVE_YAW_RANGE = 0.3;
+const MIN_TEXTURE_SCORE = 0.012;
+const MIN_FRAMES = 3;
+
+function isScore(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Whether the reported scores pass in the given mode: kiosks use passive, students checking
+// themselves in the stricter challenge
+export function livenessPassed(liveness: unknown, mode: LivenessMode): boolean {
+  if (!liveness || typeof liveness !== 'object') return false;
+  const { passed, blinkDetected, turnedLeft, turnedRight, yawRange, textureScore, frames } =
+    liveness as Record<string, unknown>;
+
+  if (passed !== true || !isScore(yawRange) || !isScore(textureScore) || !isScore(frames)) return false;
+  if (frames < MIN_FRAMES || textureScore < MIN_TEXTURE_SCORE) return false;
+
+  if (mode === 'challenge') {
+    // Turning both ways spans at least twice the turn angle
+    return blinkDetected === true && turnedLeft === true && turnedRight === true && yawRange >= 2 * YAW_TURN;
+  }
+  return blinkDetected === true || yawRange >= PASSIVE_YAW_RANGE;
+}
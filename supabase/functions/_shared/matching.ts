@@ -0,0 +1,35 @@
+// Server-side match settings, read from the function's environment. Kiosks learn the threshold
+// and review band from their heartbeat, so what they show is what marks are settled by.
+
+// How far the best match must beat the next-closest student, as in src/lib/face/matcher.ts
+export interface MatchMargin {
+  gap: number;
+  ratio: number;
+}
+
+export interface MatchSettings {
+  threshold: number;
+  // Matches within this distance of the threshold wait for a teacher's review
+  reviewBand: number;
+  margin: MatchMargin;
+}
+
+export function matchSettings(): MatchSettings {
+  return {
+    threshold: parseFloat(Deno.env.get('MATCH_THRESHOLD') ?? '0.45'),
+    reviewBand: parseFloat(Deno.env.get('REVIEW_BAND') ?? '0.05'),
+    margin: {
+      gap: parseFloat(Deno.env.get('MATCH_MARGIN_GAP') ?? '0.05'),
+      ratio: parseFloat(Deno.env.get('MATCH_MARGIN_RATIO') ?? '0.9'),
+    },
+  };
+}
+
+// Whether the best match is too close to the runner-up to say which student it is
+export function isAmbiguous(distance: number, runnerUpDistance: number, margin: MatchMargin): boolean {
+  if (!Number.isFinite(runnerUpDistance)) return false;
+  return (
+    (margin.gap > 0 && runnerUpDistance - distance < margin.gap) ||
+    (margin.ratio < 1 && distance > runnerUpDistance * margin.ratio)
+  );
+}
@@ -0,0 +1,139 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { authenticateKiosk, generateDeviceToken, kioskCovers, normalizePairingCode, sha256Hex } from "../_shared/kiosk.ts";
+import { matchSettings } from "../_shared/matching.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-kiosk-token',
+};
+
+function json(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Kiosk side of device registration:
+//   pair:      exchange the one-time code shown on the teacher's screen for a device token
+//   heartbeat: report the device is alive, learn whether it is still allowed to mark and the
+//              threshold and review band marks are settled by
+//   ambiguous: record a face that came too close to two students to mark either
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const body = await req.json();
+    const { action, code } = body;
+
+    if (action === 'pair') {
+      if (typeof code !== 'string' || !normalizePairingCode(code)) {
+        return json({ error: 'Pairing code is required', code: 'INVALID_REQUEST' }, 400);
+      }
+
+      const { data: device, error } = await supabase
+        .from('kiosk_devices')
+        .select('id, name, course_id, room, pairing_expires_at')
+        .eq('pairing_code_hash', await sha256Hex(normalizePairingCode(code)))
+        .is('revoked_at', null)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!device || !device.pairing_expires_at || new Date(device.pairing_expires_at) < new Date()) {
+        return json({ error: 'Pairing code is invalid or has expired', code: 'INVALID_PAIRING_CODE' }, 404);
+      }
+
+      // The code is single-use: it is cleared as the token is issued
+      const token = generateDeviceToken();
+      const { error: updateError } = await supabase
+        .from('kiosk_devices')
+        .update({
+          token_hash: await sha256Hex(token),
+          pairing_code_hash: null,
+          pairing_expires_at: null,
+          paired_at: new Date().toISOString(),
+          last_seen_at: new Date().toISOString(),
+        })
+        .eq('id', device.id);
+
+      if (updateError) throw updateError;
+
+      console.log(`Kiosk paired: device=${device.id}`);
+
+      return json({
+        device: { id: device.id, name: device.name, course_id: device.course_id, room: device.room },
+        token,
+      });
+    }
+
+    if (action === 'heartbeat') {
+      const device = await authenticateKiosk(supabase, req.headers.get('x-kiosk-token'));
+      if (!device) {
+        return json({ error: 'This kiosk is not registered or has been revoked', code: 'UNAUTHORIZED' }, 401);
+      }
+      const { threshold, reviewBand } = matchSettings();
+      return json({ device, match_threshold: threshold, review_band: reviewBand });
+    }
+
+    if (action === 'ambiguous') {
+      const device = await authenticateKiosk(supabase, req.headers.get('x-kiosk-token'));
+      if (!device) {
+        return json({ error: 'This kiosk is not registered or has been revoked', code: 'UNAUTHORIZED' }, 401);
+      }
+
+      const { lecture_id, student_id, distance, runner_up_id, runner_up_distance } = body;
+      if (
+        typeof lecture_id !== 'string' ||
+        typeof student_id !== 'string' ||
+        typeof runner_up_id !== 'string' ||
+        !Number.isFinite(distance) ||
+        !Number.isFinite(runner_up_distance)
+      ) {
+        return json({ error: 'Missing required fields', code: 'INVALID_REQUEST' }, 400);
+      }
+
+      const { data: lecture, error: lectureError } = await supabase
+        .from('lectures')
+        .select('course_id, room')
+        .eq('id', lecture_id)
+        .maybeSingle();
+
+      if (lectureError) throw lectureError;
+      if (!lecture) {
+        return json({ error: 'Lecture not found', code: 'LECTURE_NOT_FOUND' }, 404);
+      }
+      if (!kioskCovers(device, lecture)) {
+        return json({ error: 'This kiosk is not assigned to this lecture', code: 'KIOSK_OUT_OF_SCOPE' }, 403);
+      }
+
+      const { error } = await supabase.from('ambiguous_matches').insert({
+        lecture_id,
+        student_id,
+        distance,
+        runner_up_id,
+        runner_up_distance,
+        kiosk_device_id: device.id,
+      });
+      if (error) throw error;
+
+      console.log(`Ambiguous match: device=${device.id}, lecture=${lecture_id}, students=${student_id}/${runner_up_id}`);
+
+      return json({ recorded: true });
+    }
+
+    return json({ error: 'Unknown action', code: 'INVALID_REQUEST' }, 400);
+  } catch (error) {
+    console.error('Error in kiosk-device function:', error);
+    return json(
+      { error: error instanceof Error ? error.message : 'Unknown error', code: 'INTERNAL_ERROR' },
+      500
+    );
+  }
+});
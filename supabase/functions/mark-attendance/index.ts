@@ -1,113 +1,415 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { galleryDistance, isDescriptor } from "../_shared/face.ts";
+import { distanceMeters, isCoordinates } from "../_shared/geo.ts";
+import { authenticateKiosk, KioskDevice, kioskCovers } from "../_shared/kiosk.ts";
+import { livenessPassed } from "../_shared/liveness.ts";
+import { isAmbiguous, matchSettings } from "../_shared/matching.ts";
+
+// How far a kiosk clock may run ahead of the server
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+// Largest face snapshot accepted from a kiosk (a base64 JPEG data URL)
+const MAX_FRAME_LENGTH = 512 * 1024;
+
+// Stores a kiosk's JPEG data URL in the private snapshot bucket and returns its path; teachers
+// see it through signed links
+async function uploadFrame(
+  supabase: ReturnType<typeof createClient>,
+  frame: string,
+  path: string
+): Promise<string | null> {
+  const match = /^data:image\/jpeg;base64,(.+)$/.exec(frame);
+  if (!match) return null;
+
+  const bytes = Uint8Array.from(atob(match[1]), (c) => c.charCodeAt(0));
+  const { error } = await supabase.storage.from('attendance-snapshots').upload(path, bytes, { contentType: 'image/jpeg' });
+  if (error) {
+    console.error('Error storing kiosk snapshot:', error);
+    return null;
+  }
+  return path;
+}
+
+// A file directly inside the student's folder of the snapshot bucket
+function isOwnSnapshot(path: string, studentId: string): boolean {
+  return /^[\w-]+\/[\w.-]+$/.test(path) && !path.includes('..') && path.startsWith(`${studentId}/`);
+}
+
+// Closest distance from the probe to any other student enrolled in the course
+async function runnerUpDistance(
+  supabase: ReturnType<typeof createClient>,
+  courseId: string,
+  studentId: string,
+  probe: number[]
+): Promise<number> {
+  const { data: enrollments, error: enrollmentsError } = await supabase
+    .from('enrollments')
+    .select('student_id')
+    .eq('course_id', courseId)
+    .neq('student_id', studentId);
+
+  if (enrollmentsError) throw enrollmentsError;
+  const others = (enrollments || []).map((e) => e.student_id);
+  if (others.length === 0) return Infinity;
+
+  const [{ data: embeddings, error: embeddingsError }, { data: students, error: studentsError }] = await Promise.all([
+    supabase.from('student_embeddings').select('student_id, embedding').in('student_id', others),
+    supabase.from('students').select('id, embedding').in('id', others),
+  ]);
+
+  if (embeddingsError) throw embeddingsError;
+  if (studentsError) throw studentsError;
+
+  // As for the matched student, the single enrollment embedding stands in for an empty gallery
+  const galleries = new Map<string, number[][]>();
+  for (const e of embeddings || []) {
+    galleries.set(e.student_id, [...(galleries.get(e.student_id) ?? []), e.embedding]);
+  }
+  for (const s of students || []) {
+    if (!galleries.has(s.id) && s.embedding) galleries.set(s.id, [s.embedding]);
+  }
+
+  let best = Infinity;
+  for (const gallery of galleries.values()) {
+    best = Math.min(best, galleryDistance(probe, gallery));
+  }
+  return best;
+}
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-kiosk-token',
 };
 
+// Stable codes clients branch on; the message is for display only
+type ErrorCode =
+  | 'UNAUTHORIZED'
+  | 'NOT_A_STUDENT'
+  | 'KIOSK_OUT_OF_SCOPE'
+  | 'INVALID_REQUEST'
+  | 'INVALID_DESCRIPTOR'
+  | 'LIVENESS_FAILED'
+  | 'INVALID_CAPTURE_TIME'
+  | 'LECTURE_NOT_FOUND'
+  | 'LECTURE_NOT_ACTIVE'
+  | 'ATTENDANCE_DISABLED'
+  | 'NOT_ENROLLED'
+  | 'LOCATION_REQUIRED'
+  | 'OUTSIDE_GEOFENCE'
+  | 'STUDENT_NOT_FOUND'
+  | 'NO_FACE_PROFILE'
+  | 'FACE_MISMATCH'
+  | 'INTERNAL_ERROR';
+
+function json(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+function fail(status: number, code: ErrorCode, error: string, details: Record<string, unknown> = {}) {
+  return json({ error, code, ...details }, status);
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const KIOSK_TOKEN = Deno.env.get('KIOSK_TOKEN');
-    if (!KIOSK_TOKEN) {
-      throw new Error('KIOSK_TOKEN is not configured');
-    }
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const body = await req.json();
+    const {
+      lecture_id,
+      descriptor,
+      liveness,
+      location,
+      photo_url,
+      idempotency_key,
+      captured_at,
+      frame,
+    } = body;
+    let { student_id } = body;
 
-    // Verify kiosk token
+    // Callers are either a paired kiosk holding its device token, or a signed-in student marking themselves
     const kioskToken = req.headers.get('x-kiosk-token');
-    if (kioskToken !== KIOSK_TOKEN) {
-      return new Response(
-        JSON.stringify({ error: 'Unauthorized: Invalid kiosk token' }),
-        {
-          status: 401,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
-    }
+    const isKiosk = kioskToken !== null;
+    let kiosk: KioskDevice | null = null;
+
+    if (isKiosk) {
+      kiosk = await authenticateKiosk(supabase, kioskToken);
+      if (!kiosk) {
+        return fail(401, 'UNAUTHORIZED', 'Unauthorized: Kiosk is not registered or has been revoked');
+      }
+    } else {
+      const jwt = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+      const { data: { user } } = jwt ? await supabase.auth.getUser(jwt) : { data: { user: null } };
+      if (!user) {
+        return fail(401, 'UNAUTHORIZED', 'Unauthorized: Sign in or use a kiosk token');
+      }
 
-    const { lecture_id, student_id, confidence, method = 'face' } = await req.json();
+      const { data: self, error: selfError } = await supabase
+        .from('students')
+        .select('id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (selfError) throw selfError;
+      if (!self || (student_id && student_id !== self.id)) {
+        return fail(403, 'NOT_A_STUDENT', 'Students can only mark their own attendance');
+      }
+      student_id = self.id;
+    }
 
     if (!lecture_id || !student_id) {
-      return new Response(
-        JSON.stringify({ error: 'Missing required fields' }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+      return fail(400, 'INVALID_REQUEST', 'Missing required fields');
     }
 
-    // Create Supabase client
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+    // Selfies are uploaded by the student to their own folder of the snapshot bucket; anything
+    // else could point the record at another student's photo or an outside URL
+    if (photo_url != null && (typeof photo_url !== 'string' || !isOwnSnapshot(photo_url, student_id))) {
+      return fail(400, 'INVALID_REQUEST', 'The photo must be in your own snapshot folder');
+    }
+
+    if (!isDescriptor(descriptor)) {
+      return fail(400, 'INVALID_DESCRIPTOR', 'A 128-value face descriptor is required');
+    }
+
+    // Re-checked against the thresholds rather than trusting the client's verdict
+    if (!livenessPassed(liveness, isKiosk ? 'passive' : 'challenge')) {
+      return fail(422, 'LIVENESS_FAILED', 'Liveness check failed');
+    }
+
+    // Queued kiosk marks are replayed later, so they carry the time the face was seen;
+    // a student marks themselves live, so only the server clock counts
+    const now = new Date();
+    const capturedAt = isKiosk && captured_at ? new Date(captured_at) : now;
+
+    if (isNaN(capturedAt.getTime()) || capturedAt.getTime() - now.getTime() > MAX_CLOCK_SKEW_MS) {
+      return fail(400, 'INVALID_CAPTURE_TIME', 'Invalid capture time');
+    }
+
+    const { threshold: matchThreshold, reviewBand, margin } = matchSettings();
 
     // Verify lecture exists and is within time window
     const { data: lecture, error: lectureError } = await supabase
       .from('lectures')
-      .select('starts_at, ends_at')
+      .select('course_id, starts_at, ends_at, room, attendance_enabled, latitude, longitude, radius, courses(late_cutoff_minutes)')
       .eq('id', lecture_id)
       .single();
 
     if (lectureError || !lecture) {
-      return new Response(
-        JSON.stringify({ error: 'Lecture not found' }),
-        {
-          status: 404,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+      return fail(404, 'LECTURE_NOT_FOUND', 'Lecture not found');
     }
 
-    const now = new Date();
     const startsAt = new Date(lecture.starts_at);
     const endsAt = new Date(lecture.ends_at);
 
-    if (now < startsAt || now > endsAt) {
-      return new Response(
-        JSON.stringify({
-          error: 'Lecture is not active',
-          starts_at: lecture.starts_at,
-          ends_at: lecture.ends_at,
-        }),
-        {
-          status: 400,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    if (capturedAt < startsAt || capturedAt > endsAt) {
+      return fail(400, 'LECTURE_NOT_ACTIVE', 'Lecture is not active', {
+        starts_at: lecture.starts_at,
+        ends_at: lecture.ends_at,
+      });
+    }
+
+    if (kiosk && !kioskCovers(kiosk, lecture)) {
+      return fail(403, 'KIOSK_OUT_OF_SCOPE', `Kiosk "${kiosk.name}" is not registered for this lecture`);
+    }
+
+    const { data: enrollment, error: enrollmentError } = await supabase
+      .from('enrollments')
+      .select('id')
+      .eq('course_id', lecture.course_id)
+      .eq('student_id', student_id)
+      .maybeSingle();
+
+    if (enrollmentError) throw enrollmentError;
+    if (!enrollment) {
+      return fail(403, 'NOT_ENROLLED', 'Student is not enrolled in this course');
+    }
+
+    // A replay of a mark that already went through returns the original result. Only looked up
+    // once the caller is known to cover this lecture and student, and only for that pair, so a
+    // guessed key cannot read someone else's record.
+    if (idempotency_key) {
+      const { data: existing, error: existingError } = await supabase
+        .from('attendance')
+        .select()
+        .eq('idempotency_key', idempotency_key)
+        .eq('lecture_id', lecture_id)
+        .eq('student_id', student_id)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+
+      if (existing) {
+        return json({ success: true, attendance: existing, duplicate: true });
+      }
+    }
+
+    // Kiosks are set up by the teacher in the room; self-service needs the teacher to open
+    // attendance and the student to be on site
+    if (!isKiosk) {
+      if (!lecture.attendance_enabled) {
+        return fail(403, 'ATTENDANCE_DISABLED', 'Attendance is not enabled for this lecture');
+      }
+
+      if (lecture.latitude != null && lecture.longitude != null && lecture.radius != null) {
+        if (!isCoordinates(location)) {
+          return fail(400, 'LOCATION_REQUIRED', 'Your location is required for this lecture');
+        }
+
+        const distance = distanceMeters(location, {
+          latitude: lecture.latitude,
+          longitude: lecture.longitude,
+        });
+
+        if (distance > lecture.radius) {
+          return fail(403, 'OUTSIDE_GEOFENCE', 'You are too far from the lecture location', {
+            distance: Math.round(distance),
+            radius: lecture.radius,
+          });
         }
-      );
+      }
     }
 
-    // Insert or update attendance (upsert)
-    const { data: attendance, error: attendanceError } = await supabase
+    // Verify the probe against the student's enrolled gallery
+    const { data: student, error: studentError } = await supabase
+      .from('students')
+      .select('embedding')
+      .eq('id', student_id)
+      .single();
+
+    if (studentError || !student) {
+      return fail(404, 'STUDENT_NOT_FOUND', 'Student not found');
+    }
+
+    const { data: embeddings, error: embeddingsError } = await supabase
+      .from('student_embeddings')
+      .select('embedding')
+      .eq('student_id', student_id);
+
+    if (embeddingsError) throw embeddingsError;
+
+    const gallery: number[][] = (embeddings || []).map((e) => e.embedding);
+    if (gallery.length === 0 && student.embedding) {
+      gallery.push(student.embedding);
+    }
+
+    if (gallery.length === 0) {
+      return fail(422, 'NO_FACE_PROFILE', 'Student has no enrolled face profile');
+    }
+
+    const distance = galleryDistance(descriptor, gallery);
+
+    if (distance > matchThreshold) {
+      console.log(`Face mismatch rejected: student=${student_id}, lecture=${lecture_id}, distance=${distance.toFixed(3)}`);
+      return fail(403, 'FACE_MISMATCH', 'Face does not match enrolled profile');
+    }
+
+    const confidence = 1 - distance;
+
+    // The kiosk's look-alike rule, checked here too: a face nearly as close to another enrolled
+    // student is left for a teacher to confirm rather than marked outright
+    const runnerUp = await runnerUpDistance(supabase, lecture.course_id, student_id, descriptor);
+    const ambiguous = isAmbiguous(distance, runnerUp, margin);
+    if (ambiguous) {
+      console.log(`Ambiguous match held for review: student=${student_id}, lecture=${lecture_id}, distance=${distance.toFixed(3)}, runner_up=${runnerUp.toFixed(3)}`);
+    }
+
+    // Marks after the course's late cutoff count as late; borderline and ambiguous matches are
+    // left for review
+    const lateCutoff = lecture.courses?.late_cutoff_minutes;
+    const pendingReview = ambiguous || (reviewBand > 0 && distance > matchThreshold - reviewBand);
+    const status = pendingReview
+      ? 'pending'
+      : lateCutoff != null && capturedAt.getTime() > startsAt.getTime() + lateCutoff * 60000
+      ? 'late'
+      : 'present';
+
+    // A student's first mark stands; marking again is not an error
+    if (!isKiosk) {
+      const { data: existing, error: existingError } = await supabase
+        .from('attendance')
+        .select()
+        .eq('lecture_id', lecture_id)
+        .eq('student_id', student_id)
+        .maybeSingle();
+
+      if (existingError) throw existingError;
+
+      if (existing) {
+        return json({ success: true, attendance: existing, duplicate: true });
+      }
+    }
+
+    // A kiosk sends the face it matched on as evidence; self check-ins already come with the
+    // student's selfie. A snapshot that cannot be stored does not cost the student the mark.
+    let photoUrl: string | null = photo_url ?? null;
+    if (isKiosk && !photoUrl && typeof frame === 'string' && frame.length <= MAX_FRAME_LENGTH) {
+      photoUrl = await uploadFrame(supabase, frame, `${student_id}/kiosk-${lecture_id}-${Date.now()}.jpg`);
+    }
+
+    // Every mark made here was verified against the face gallery, whatever the caller says
+    const record = {
+      confidence,
+      method: 'face',
+      status,
+      liveness,
+      ...(photoUrl ? { photo_url: photoUrl } : {}),
+      idempotency_key: idempotency_key ?? null,
+      kiosk_device_id: kiosk?.id ?? null,
+      marked_at: capturedAt.toISOString(),
+    };
+
+    let { data: attendance, error: attendanceError } = await supabase
       .from('attendance')
-      .upsert(
-        {
-          lecture_id,
-          student_id,
-          confidence,
-          method,
-          marked_at: new Date().toISOString(),
-        },
-        {
-          onConflict: 'lecture_id,student_id',
-        }
-      )
+      .insert({ lecture_id, student_id, ...record })
       .select()
       .single();
 
+    // The student already has a row. A kiosk mark replayed after the lecture ended may replace
+    // the automatic absence finalize_ended_lectures recorded; anything else was marked by someone
+    // and stands, as for a student marking twice.
+    if (attendanceError?.code === '23505') {
+      const { data: replaced, error: replaceError } = isKiosk
+        ? await supabase
+            .from('attendance')
+            .update(record)
+            .eq('lecture_id', lecture_id)
+            .eq('student_id', student_id)
+            .eq('method', 'auto')
+            .eq('status', 'absent')
+            .select()
+            .maybeSingle()
+        : { data: null, error: null };
+
+      if (replaceError) throw replaceError;
+
+      if (!replaced) {
+        const { data: existing, error: existingError } = await supabase
+          .from('attendance')
+          .select()
+          .eq('lecture_id', lecture_id)
+          .eq('student_id', student_id)
+          .single();
+
+        if (existingError) throw existingError;
+        return json({ success: true, attendance: existing, duplicate: true });
+      }
+
+      attendance = replaced;
+      attendanceError = null;
+    }
+
     if (attendanceError) {
       console.error('Error marking attendance:', attendanceError);
-      return new Response(
-        JSON.stringify({ error: 'Failed to mark attendance' }),
-        {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        }
-      );
+      return fail(500, 'INTERNAL_ERROR', 'Failed to mark attendance');
     }
 
     // Get updated attendance count
@@ -116,29 +418,15 @@ serve(async (req) => {
       .select('*', { count: 'exact', head: true })
       .eq('lecture_id', lecture_id);
 
-    console.log(`Attendance marked: student=${student_id}, lecture=${lecture_id}, confidence=${confidence}`);
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        attendance,
-        total_count: count || 0,
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    console.log(`Attendance marked: student=${student_id}, lecture=${lecture_id}, kiosk=${kiosk?.id ?? 'self'}, confidence=${confidence}, status=${status}`);
+
+    return json({
+      success: true,
+      attendance,
+      total_count: count || 0,
+    });
   } catch (error) {
     console.error('Error in mark-attendance function:', error);
-    return new Response(
-      JSON.stringify({
-        error: error instanceof Error ? error.message : 'Unknown error',
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return fail(500, 'INTERNAL_ERROR', error instanceof Error ? error.message : 'Unknown error');
   }
 });
@@ -0,0 +1,64 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const SNAPSHOT_BUCKET = 'attendance-snapshots';
+// Marks from before snapshots went private point at the public faces bucket by URL
+const LEGACY_BUCKET = 'faces';
+
+function json(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+// Deletes attendance snapshots past their course's retention period, then clears them from the
+// records. Called by pg_cron with the service role key; files go through the Storage API, which
+// is the only way to remove the stored objects and not just their metadata.
+serve(async (req) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+  if (req.headers.get('authorization') !== `Bearer ${supabaseKey}`) {
+    return json({ error: 'Unauthorized', code: 'UNAUTHORIZED' }, 401);
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: expired, error } = await supabase.rpc('expired_attendance_snapshots');
+    if (error) throw error;
+    if (!expired || expired.length === 0) return json({ purged: 0 });
+
+    const snapshots: string[] = [];
+    const legacy: string[] = [];
+    for (const { photo_url } of expired as { photo_url: string }[]) {
+      if (photo_url.startsWith('data:')) continue;
+      if (/^https?:\/\//.test(photo_url)) {
+        const name = photo_url.split(`/${LEGACY_BUCKET}/`)[1];
+        if (name) legacy.push(name);
+      } else {
+        snapshots.push(photo_url);
+      }
+    }
+
+    // Files first: a record pointing at a deleted file beats a file nobody can find
+    for (const [bucket, paths] of [[SNAPSHOT_BUCKET, snapshots], [LEGACY_BUCKET, legacy]] as const) {
+      if (paths.length === 0) continue;
+      const { error: removeError } = await supabase.storage.from(bucket).remove([...new Set(paths)]);
+      if (removeError) throw removeError;
+    }
+
+    const { data: cleared, error: clearError } = await supabase.rpc('clear_attendance_snapshots', {
+      p_ids: (expired as { id: string }[]).map((e) => e.id),
+    });
+    if (clearError) throw clearError;
+
+    console.log(`Snapshots purged: records=${cleared ?? 0}, files=${snapshots.length + legacy.length}`);
+
+    return json({ purged: cleared ?? 0 });
+  } catch (error) {
+    console.error('Error in purge-snapshots function:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error', code: 'INTERNAL_ERROR' }, 500);
+  }
+});
@@ -0,0 +1,37 @@
+-- Gallery of face descriptors per student (several enrollment captures)
+create table public.student_embeddings (
+  id uuid primary key default uuid_generate_v4(),
+  student_id uuid not null references public.students(id) on delete cascade,
+  embedding float8[] not null,
+  photo_url text,
+  label text,
+  created_at timestamptz default now()
+);
+
+create index idx_student_embeddings_student
+  on public.student_embeddings(student_id);
+
+comment on column public.student_embeddings.label is 'Capture pose, e.g. front, left, right';
+
+alter table public.student_embeddings enable row level security;
+
+create policy "Authenticated users can view student embeddings"
+  on public.student_embeddings for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can insert student embeddings"
+  on public.student_embeddings for insert
+  to authenticated
+  with check (true);
+
+create policy "Authenticated users can delete student embeddings"
+  on public.student_embeddings for delete
+  to authenticated
+  using (true);
+
+-- Seed galleries from the existing single enrollment embedding
+insert into public.student_embeddings (student_id, embedding, photo_url, label)
+select id, embedding, photo_url, 'front'
+from public.students
+where embedding is not null;
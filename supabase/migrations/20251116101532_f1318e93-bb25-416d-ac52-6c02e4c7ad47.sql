@@ -0,0 +1,5 @@
+-- Store the liveness check result captured before marking attendance
+ALTER TABLE public.attendance
+ADD COLUMN liveness jsonb;
+
+COMMENT ON COLUMN public.attendance.liveness IS 'Liveness result (blink, head turn, texture score) reported when the face was captured';
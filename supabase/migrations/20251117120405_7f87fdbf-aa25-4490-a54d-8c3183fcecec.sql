@@ -0,0 +1,139 @@
+-- Student accounts: link students rows to auth users
+alter table public.students
+  add column email text unique,
+  add column user_id uuid unique references auth.users(id) on delete set null;
+
+comment on column public.students.email is 'Invite email; the student activates an account with this address and their roll number';
+comment on column public.students.user_id is 'Auth user linked to this student after account activation';
+
+-- Roll-number-only login is gone, so students are no longer readable by anyone
+drop policy if exists "Anyone can view students for login" on public.students;
+
+-- Student id of the signed-in user, or null for teachers
+create or replace function public.current_student_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select id from public.students where user_id = auth.uid()
+$$;
+
+create or replace function public.is_teacher()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select auth.uid() is not null and public.current_student_id() is null
+$$;
+
+-- Lets the activation form tell a student their details don't match an invite
+create or replace function public.student_invite_valid(p_roll_no text, p_email text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.students
+    where lower(roll_no) = lower(trim(p_roll_no))
+      and lower(email) = lower(trim(p_email))
+      and user_id is null
+  )
+$$;
+
+-- Link a new auth user that signed up as a student to their invited students row
+create or replace function public.link_student_account()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.raw_user_meta_data->>'role' = 'student' then
+    update public.students
+    set user_id = new.id
+    where lower(roll_no) = lower(trim(new.raw_user_meta_data->>'roll_no'))
+      and lower(email) = lower(new.email)
+      and user_id is null;
+
+    if not found then
+      raise exception 'No student invite matches this email and roll number';
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created_link_student
+  after insert on auth.users
+  for each row execute function public.link_student_account();
+
+-- Existing "authenticated" policies now mean teachers only
+alter policy "Authenticated users can view students" on public.students using (public.is_teacher());
+alter policy "Authenticated users can insert students" on public.students with check (public.is_teacher());
+alter policy "Authenticated users can update students" on public.students using (public.is_teacher());
+alter policy "Authenticated users can delete students" on public.students using (public.is_teacher());
+
+alter policy "Authenticated users can view courses" on public.courses using (public.is_teacher());
+alter policy "Authenticated users can insert courses" on public.courses with check (public.is_teacher());
+alter policy "Authenticated users can update courses" on public.courses using (public.is_teacher());
+alter policy "Authenticated users can delete courses" on public.courses using (public.is_teacher());
+
+alter policy "Authenticated users can view enrollments" on public.enrollments using (public.is_teacher());
+alter policy "Authenticated users can insert enrollments" on public.enrollments with check (public.is_teacher());
+alter policy "Authenticated users can update enrollments" on public.enrollments using (public.is_teacher());
+alter policy "Authenticated users can delete enrollments" on public.enrollments using (public.is_teacher());
+
+alter policy "Authenticated users can view lectures" on public.lectures using (public.is_teacher());
+alter policy "Authenticated users can insert lectures" on public.lectures with check (public.is_teacher());
+alter policy "Authenticated users can update lectures" on public.lectures using (public.is_teacher());
+alter policy "Authenticated users can delete lectures" on public.lectures using (public.is_teacher());
+
+alter policy "Authenticated users can view attendance" on public.attendance using (public.is_teacher());
+
+alter policy "Authenticated users can view student embeddings" on public.student_embeddings using (public.is_teacher());
+alter policy "Authenticated users can insert student embeddings" on public.student_embeddings with check (public.is_teacher());
+alter policy "Authenticated users can delete student embeddings" on public.student_embeddings using (public.is_teacher());
+
+-- Students only see their own rows
+create policy "Students can view their own record"
+  on public.students for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Students can view their own enrollments"
+  on public.enrollments for select
+  to authenticated
+  using (student_id = public.current_student_id());
+
+create policy "Students can view their enrolled courses"
+  on public.courses for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.enrollments e
+      where e.course_id = courses.id
+        and e.student_id = public.current_student_id()
+    )
+  );
+
+create policy "Students can view lectures of their courses"
+  on public.lectures for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.enrollments e
+      where e.course_id = lectures.course_id
+        and e.student_id = public.current_student_id()
+    )
+  );
+
+create policy "Students can view their own attendance"
+  on public.attendance for select
+  to authenticated
+  using (student_id = public.current_student_id());
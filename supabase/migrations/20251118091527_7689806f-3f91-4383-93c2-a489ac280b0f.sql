@@ -0,0 +1,211 @@
+-- Teacher profiles, one per non-student auth user
+create table public.teachers (
+  id uuid primary key references auth.users(id) on delete cascade,
+  email text unique not null,
+  name text not null,
+  created_at timestamptz default now()
+);
+
+-- Who teaches which course
+create table public.course_teachers (
+  course_id uuid not null references public.courses(id) on delete cascade,
+  teacher_id uuid not null references public.teachers(id) on delete cascade,
+  role text not null default 'assistant' check (role in ('owner', 'assistant')),
+  created_at timestamptz default now(),
+  primary key (course_id, teacher_id)
+);
+
+create index idx_course_teachers_teacher
+  on public.course_teachers(teacher_id);
+
+comment on column public.course_teachers.role is 'owner: full control incl. deleting the course and managing teachers; assistant: lectures, enrollments and attendance';
+comment on column public.courses.teacher is 'Display name of the course teacher; access is governed by course_teachers';
+
+alter table public.teachers enable row level security;
+alter table public.course_teachers enable row level security;
+
+-- Create a teacher profile for every new auth user that did not sign up as a student
+create or replace function public.create_teacher_profile()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(new.raw_user_meta_data->>'role', 'teacher') <> 'student' then
+    insert into public.teachers (id, email, name)
+    values (
+      new.id,
+      new.email,
+      coalesce(nullif(trim(new.raw_user_meta_data->>'name'), ''), split_part(new.email, '@', 1))
+    )
+    on conflict (id) do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created_teacher
+  after insert on auth.users
+  for each row execute function public.create_teacher_profile();
+
+-- Existing accounts that are not linked to a student become teachers
+insert into public.teachers (id, email, name)
+select u.id, u.email, split_part(u.email, '@', 1)
+from auth.users u
+where u.email is not null
+  and not exists (select 1 from public.students s where s.user_id = u.id)
+on conflict (id) do nothing;
+
+-- Existing courses go to the teacher whose name matches the free-text teacher column
+insert into public.course_teachers (course_id, teacher_id, role)
+select c.id, t.id, 'owner'
+from public.courses c
+join public.teachers t on lower(t.name) = lower(trim(c.teacher))
+on conflict do nothing;
+
+-- Teachers are now the users with a profile
+create or replace function public.is_teacher()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.teachers where id = auth.uid())
+$$;
+
+create or replace function public.is_course_teacher(p_course_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.course_teachers
+    where course_id = p_course_id and teacher_id = auth.uid()
+  )
+$$;
+
+create or replace function public.is_course_owner(p_course_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.course_teachers
+    where course_id = p_course_id and teacher_id = auth.uid() and role = 'owner'
+  )
+$$;
+
+-- The creator of a course becomes its owner
+create or replace function public.add_course_owner()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if public.is_teacher() then
+    insert into public.course_teachers (course_id, teacher_id, role)
+    values (new.id, auth.uid(), 'owner')
+    on conflict do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger on_course_created_add_owner
+  after insert on public.courses
+  for each row execute function public.add_course_owner();
+
+-- Teachers can look each other up to share courses, and edit their own profile
+create policy "Teachers can view teachers"
+  on public.teachers for select
+  to authenticated
+  using (public.is_teacher());
+
+create policy "Teachers can update their own profile"
+  on public.teachers for update
+  to authenticated
+  using (id = auth.uid());
+
+create policy "Course teachers can view course teachers"
+  on public.course_teachers for select
+  to authenticated
+  using (public.is_course_teacher(course_id));
+
+create policy "Course owners can add course teachers"
+  on public.course_teachers for insert
+  to authenticated
+  with check (public.is_course_owner(course_id));
+
+create policy "Course owners can update course teachers"
+  on public.course_teachers for update
+  to authenticated
+  using (public.is_course_owner(course_id));
+
+create policy "Course owners can remove course teachers"
+  on public.course_teachers for delete
+  to authenticated
+  using (public.is_course_owner(course_id));
+
+-- Courses and everything under them are scoped to the course's teachers
+alter policy "Authenticated users can view courses" on public.courses using (public.is_course_teacher(id));
+alter policy "Authenticated users can update courses" on public.courses using (public.is_course_teacher(id));
+alter policy "Authenticated users can delete courses" on public.courses using (public.is_course_owner(id));
+
+alter policy "Authenticated users can view enrollments" on public.enrollments using (public.is_course_teacher(course_id));
+alter policy "Authenticated users can insert enrollments" on public.enrollments with check (public.is_course_teacher(course_id));
+alter policy "Authenticated users can update enrollments" on public.enrollments using (public.is_course_teacher(course_id));
+alter policy "Authenticated users can delete enrollments" on public.enrollments using (public.is_course_teacher(course_id));
+
+alter policy "Authenticated users can view lectures" on public.lectures using (public.is_course_teacher(course_id));
+alter policy "Authenticated users can insert lectures" on public.lectures with check (public.is_course_teacher(course_id));
+alter policy "Authenticated users can update lectures" on public.lectures using (public.is_course_teacher(course_id));
+alter policy "Authenticated users can delete lectures" on public.lectures using (public.is_course_teacher(course_id));
+
+alter policy "Authenticated users can view attendance" on public.attendance using (
+  exists (
+    select 1 from public.lectures l
+    where l.id = attendance.lecture_id
+      and public.is_course_teacher(l.course_id)
+  )
+);
+
+-- Manual attendance from the lecture page
+create policy "Course teachers can insert attendance"
+  on public.attendance for insert
+  to authenticated
+  with check (
+    exists (
+      select 1 from public.lectures l
+      where l.id = attendance.lecture_id
+        and public.is_course_teacher(l.course_id)
+    )
+  );
+
+create policy "Course teachers can update attendance"
+  on public.attendance for update
+  to authenticated
+  using (
+    exists (
+      select 1 from public.lectures l
+      where l.id = attendance.lecture_id
+        and public.is_course_teacher(l.course_id)
+    )
+  );
+
+create policy "Course teachers can delete attendance"
+  on public.attendance for delete
+  to authenticated
+  using (
+    exists (
+      select 1 from public.lectures l
+      where l.id = attendance.lecture_id
+        and public.is_course_teacher(l.course_id)
+    )
+  );
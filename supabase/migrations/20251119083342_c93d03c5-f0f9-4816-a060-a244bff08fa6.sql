@@ -0,0 +1,53 @@
+-- Recurring timetable for a course; lectures are generated from it in bulk
+create table public.lecture_schedules (
+  id uuid primary key default uuid_generate_v4(),
+  course_id uuid not null references public.courses(id) on delete cascade,
+  weekdays smallint[] not null check (array_length(weekdays, 1) > 0),
+  start_time time not null,
+  duration_minutes integer not null check (duration_minutes > 0),
+  room text,
+  term_start date not null,
+  term_end date not null,
+  excluded_dates date[] not null default '{}',
+  created_at timestamptz default now(),
+  check (term_end >= term_start)
+);
+
+create index idx_lecture_schedules_course
+  on public.lecture_schedules(course_id);
+
+comment on column public.lecture_schedules.weekdays is 'Days of the week with a lecture, 0 = Sunday .. 6 = Saturday';
+comment on column public.lecture_schedules.excluded_dates is 'Holidays and other dates without a lecture';
+
+alter table public.lectures
+  add column schedule_id uuid references public.lecture_schedules(id) on delete set null,
+  add column occurrence_date date,
+  add column is_exception boolean not null default false;
+
+create index idx_lectures_schedule
+  on public.lectures(schedule_id);
+
+comment on column public.lectures.occurrence_date is 'Timetable date this lecture was generated for; kept when the lecture is moved';
+comment on column public.lectures.is_exception is 'Edited by hand; regenerating the schedule leaves it alone';
+
+alter table public.lecture_schedules enable row level security;
+
+create policy "Course teachers can view lecture schedules"
+  on public.lecture_schedules for select
+  to authenticated
+  using (public.is_course_teacher(course_id));
+
+create policy "Course teachers can insert lecture schedules"
+  on public.lecture_schedules for insert
+  to authenticated
+  with check (public.is_course_teacher(course_id));
+
+create policy "Course teachers can update lecture schedules"
+  on public.lecture_schedules for update
+  to authenticated
+  using (public.is_course_teacher(course_id));
+
+create policy "Course teachers can delete lecture schedules"
+  on public.lecture_schedules for delete
+  to authenticated
+  using (public.is_course_teacher(course_id));
@@ -0,0 +1,5 @@
+-- Kiosks queue marks offline and replay them; the key makes a replay a no-op
+ALTER TABLE public.attendance
+ADD COLUMN idempotency_key text UNIQUE;
+
+COMMENT ON COLUMN public.attendance.idempotency_key IS 'Client-generated key of the kiosk outbox entry that created this mark';
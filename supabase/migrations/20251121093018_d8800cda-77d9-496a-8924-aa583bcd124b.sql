@@ -0,0 +1,108 @@
+-- Two-way sync with Local Mode devices.
+--   updated_at:   when the row was last edited, carried over from the device that edited it (last writer wins)
+--   sync_version: server-assigned and strictly increasing, the cursor devices pull changes from
+create sequence public.sync_version_seq;
+
+alter table public.students
+  add column updated_at timestamptz not null default now(),
+  add column sync_version bigint not null default nextval('public.sync_version_seq');
+
+alter table public.student_embeddings
+  add column updated_at timestamptz not null default now(),
+  add column sync_version bigint not null default nextval('public.sync_version_seq');
+
+alter table public.courses
+  add column updated_at timestamptz not null default now(),
+  add column sync_version bigint not null default nextval('public.sync_version_seq');
+
+alter table public.lectures
+  add column updated_at timestamptz not null default now(),
+  add column sync_version bigint not null default nextval('public.sync_version_seq');
+
+alter table public.lecture_schedules
+  add column updated_at timestamptz not null default now(),
+  add column sync_version bigint not null default nextval('public.sync_version_seq');
+
+alter table public.enrollments
+  add column updated_at timestamptz not null default now(),
+  add column sync_version bigint not null default nextval('public.sync_version_seq');
+
+alter table public.attendance
+  add column updated_at timestamptz not null default now(),
+  add column sync_version bigint not null default nextval('public.sync_version_seq');
+
+-- Deleted rows, so devices can drop them too
+create table public.sync_tombstones (
+  table_name text not null,
+  row_id uuid not null,
+  deleted_at timestamptz not null default now(),
+  sync_version bigint not null default nextval('public.sync_version_seq'),
+  primary key (table_name, row_id)
+);
+
+create index idx_sync_tombstones_version
+  on public.sync_tombstones(sync_version);
+
+alter table public.sync_tombstones enable row level security;
+
+create policy "Teachers can view sync tombstones"
+  on public.sync_tombstones for select
+  to authenticated
+  using (public.is_teacher());
+
+-- Edits from the web app get a fresh updated_at; edits pushed by a device keep the one they carry
+create or replace function public.touch_sync_columns()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' and new.updated_at is not distinct from old.updated_at then
+    new.updated_at := now();
+  end if;
+  new.sync_version := nextval('public.sync_version_seq');
+
+  -- A row that comes back (e.g. re-synced after a delete) is no longer deleted
+  if tg_op = 'INSERT' then
+    delete from public.sync_tombstones
+    where table_name = tg_table_name and row_id = new.id;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.record_sync_tombstone()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.sync_tombstones (table_name, row_id)
+  values (tg_table_name, old.id)
+  on conflict (table_name, row_id) do update
+    set deleted_at = now(),
+        sync_version = nextval('public.sync_version_seq');
+  return old;
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'students', 'student_embeddings', 'courses', 'lectures',
+    'lecture_schedules', 'enrollments', 'attendance'
+  ] loop
+    execute format(
+      'create trigger touch_%1$s_sync before insert or update on public.%1$I
+         for each row execute function public.touch_sync_columns()', t);
+    execute format(
+      'create trigger tombstone_%1$s after delete on public.%1$I
+         for each row execute function public.record_sync_tombstone()', t);
+    execute format(
+      'create index idx_%1$s_sync_version on public.%1$I(sync_version)', t);
+  end loop;
+end;
+$$;
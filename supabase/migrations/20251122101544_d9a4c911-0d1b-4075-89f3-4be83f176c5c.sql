@@ -0,0 +1,70 @@
+-- Kiosk devices: each kiosk pairs once with a short-lived code and then holds its own token,
+-- so a leaked token can be revoked without touching any other kiosk
+create table public.kiosk_devices (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- Optional scope: the device may only mark lectures of this course and/or in this room
+  course_id uuid references public.courses(id) on delete cascade,
+  room text,
+  created_by uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  -- SHA-256 of the pairing code, cleared once the device has paired
+  pairing_code_hash text,
+  pairing_expires_at timestamptz,
+  -- SHA-256 of the device token; the token itself only ever lives on the kiosk
+  token_hash text unique,
+  paired_at timestamptz,
+  last_seen_at timestamptz,
+  revoked_at timestamptz
+);
+
+create unique index idx_kiosk_devices_pairing_code
+  on public.kiosk_devices(pairing_code_hash)
+  where pairing_code_hash is not null;
+
+create index idx_kiosk_devices_course on public.kiosk_devices(course_id);
+
+alter table public.kiosk_devices enable row level security;
+
+-- Devices scoped to a course are shared by its teachers; unscoped ones belong to whoever registered them
+create or replace function public.can_manage_kiosk(p_created_by uuid, p_course_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_teacher()
+    and (p_created_by = auth.uid() or (p_course_id is not null and public.is_course_teacher(p_course_id)))
+$$;
+
+create policy "Teachers can view their kiosk devices"
+  on public.kiosk_devices for select
+  to authenticated
+  using (public.can_manage_kiosk(created_by, course_id));
+
+create policy "Teachers can register kiosk devices"
+  on public.kiosk_devices for insert
+  to authenticated
+  with check (
+    public.is_teacher()
+    and created_by = auth.uid()
+    and (course_id is null or public.is_course_teacher(course_id))
+  );
+
+create policy "Teachers can update their kiosk devices"
+  on public.kiosk_devices for update
+  to authenticated
+  using (public.can_manage_kiosk(created_by, course_id))
+  with check (course_id is null or public.is_course_teacher(course_id));
+
+create policy "Teachers can delete their kiosk devices"
+  on public.kiosk_devices for delete
+  to authenticated
+  using (public.can_manage_kiosk(created_by, course_id));
+
+-- Which kiosk recorded each mark
+alter table public.attendance
+  add column kiosk_device_id uuid references public.kiosk_devices(id) on delete set null;
+
+create index idx_attendance_kiosk_device on public.attendance(kiosk_device_id);
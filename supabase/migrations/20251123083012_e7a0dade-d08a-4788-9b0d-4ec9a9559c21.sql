@@ -0,0 +1,65 @@
+-- Explicit attendance statuses. Rows written before this migration were all present.
+alter table public.attendance
+  add column status text not null default 'present'
+    check (status in ('present', 'late', 'excused', 'absent'));
+
+create index idx_attendance_status on public.attendance(status);
+
+-- Minutes after a lecture starts before a mark counts as late; null disables late marking
+alter table public.courses
+  add column late_cutoff_minutes integer check (late_cutoff_minutes >= 0);
+
+-- Set once the absences of an ended lecture have been recorded
+alter table public.lectures
+  add column finalized_at timestamptz;
+
+create index idx_lectures_unfinalized on public.lectures(ends_at) where finalized_at is null;
+
+-- Record every enrolled student without a mark as absent, for each lecture that has ended
+create or replace function public.finalize_ended_lectures()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  with ended as (
+    select id, course_id, ends_at
+    from public.lectures
+    where finalized_at is null and ends_at < now()
+    for update skip locked
+  ), absences as (
+    insert into public.attendance (lecture_id, student_id, status, method, confidence, marked_at)
+    select ended.id, e.student_id, 'absent', 'auto', null, ended.ends_at
+    from ended
+    join public.enrollments e on e.course_id = ended.course_id
+    where not exists (
+      select 1 from public.attendance a
+      where a.lecture_id = ended.id and a.student_id = e.student_id
+    )
+    on conflict (lecture_id, student_id) do nothing
+    returning 1
+  ), finalized as (
+    update public.lectures l
+    set finalized_at = now()
+    from ended
+    where l.id = ended.id
+    returning 1
+  )
+  select count(*) into inserted from absences;
+
+  return inserted;
+end;
+$$;
+
+revoke execute on function public.finalize_ended_lectures() from public, anon, authenticated;
+
+create extension if not exists pg_cron;
+
+select cron.schedule(
+  'finalize-ended-lectures',
+  '*/5 * * * *',
+  $$select public.finalize_ended_lectures()$$
+);
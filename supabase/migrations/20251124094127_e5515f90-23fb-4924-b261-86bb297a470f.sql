@@ -0,0 +1,200 @@
+-- Students explain an absence; a teacher of the course approves or rejects it
+create table public.excuse_requests (
+  id uuid primary key default gen_random_uuid(),
+  student_id uuid not null references public.students(id) on delete cascade,
+  course_id uuid not null references public.courses(id) on delete cascade,
+  lecture_id uuid references public.lectures(id) on delete cascade,
+  covers_from timestamptz not null,
+  covers_until timestamptz not null,
+  reason text not null check (length(trim(reason)) > 0),
+  attachment_url text,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected')),
+  reviewer_comment text,
+  reviewed_by uuid references public.teachers(id) on delete set null,
+  reviewed_at timestamptz,
+  created_at timestamptz not null default now(),
+  check (covers_until > covers_from)
+);
+
+comment on column public.excuse_requests.lecture_id is 'Set when the excuse is for one lecture; otherwise it covers every lecture of the course starting in [covers_from, covers_until)';
+comment on column public.excuse_requests.attachment_url is 'Path in the excuse-attachments bucket';
+
+create index idx_excuse_requests_student on public.excuse_requests(student_id);
+create index idx_excuse_requests_course_status on public.excuse_requests(course_id, status);
+
+alter table public.excuse_requests enable row level security;
+
+create policy "Students can view their own excuse requests"
+  on public.excuse_requests for select
+  to authenticated
+  using (student_id = public.current_student_id());
+
+create policy "Students can submit excuse requests for their courses"
+  on public.excuse_requests for insert
+  to authenticated
+  with check (
+    student_id = public.current_student_id()
+    and status = 'pending'
+    and reviewed_by is null
+    and exists (
+      select 1 from public.enrollments e
+      where e.course_id = excuse_requests.course_id
+        and e.student_id = excuse_requests.student_id
+    )
+  );
+
+create policy "Students can withdraw pending excuse requests"
+  on public.excuse_requests for delete
+  to authenticated
+  using (student_id = public.current_student_id() and status = 'pending');
+
+create policy "Course teachers can view excuse requests"
+  on public.excuse_requests for select
+  to authenticated
+  using (public.is_course_teacher(course_id));
+
+-- Decisions are final: only pending requests can be reviewed
+create policy "Course teachers can review pending excuse requests"
+  on public.excuse_requests for update
+  to authenticated
+  using (public.is_course_teacher(course_id) and status = 'pending')
+  with check (public.is_course_teacher(course_id));
+
+-- True when an approved excuse of the student covers the lecture
+create or replace function public.is_excused(p_student_id uuid, p_lecture_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.excuse_requests r
+    join public.lectures l on l.id = p_lecture_id
+    where r.student_id = p_student_id
+      and r.status = 'approved'
+      and r.course_id = l.course_id
+      and (
+        r.lecture_id = l.id
+        or (r.lecture_id is null and l.starts_at >= r.covers_from and l.starts_at < r.covers_until)
+      )
+  )
+$$;
+
+-- Approving an excuse turns the student's absences in the covered lectures into excused ones.
+-- Lectures that have not ended yet are handled by finalize_ended_lectures.
+create or replace function public.apply_approved_excuse()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'approved' and old.status <> 'approved' then
+    update public.attendance a
+    set status = 'excused'
+    where a.student_id = new.student_id
+      and a.status = 'absent'
+      and public.is_excused(new.student_id, a.lecture_id);
+
+    insert into public.attendance (lecture_id, student_id, status, method, confidence, marked_at)
+    select l.id, new.student_id, 'excused', 'excuse', null, l.ends_at
+    from public.lectures l
+    where l.course_id = new.course_id
+      and l.finalized_at is not null
+      and public.is_excused(new.student_id, l.id)
+    on conflict (lecture_id, student_id) do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger on_excuse_request_approved
+  after update of status on public.excuse_requests
+  for each row execute function public.apply_approved_excuse();
+
+-- Students with an approved excuse are recorded as excused instead of absent
+create or replace function public.finalize_ended_lectures()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted integer;
+begin
+  with ended as (
+    select id, course_id, ends_at
+    from public.lectures
+    where finalized_at is null and ends_at < now()
+    for update skip locked
+  ), absences as (
+    insert into public.attendance (lecture_id, student_id, status, method, confidence, marked_at)
+    select
+      ended.id,
+      e.student_id,
+      case when public.is_excused(e.student_id, ended.id) then 'excused' else 'absent' end,
+      'auto',
+      null,
+      ended.ends_at
+    from ended
+    join public.enrollments e on e.course_id = ended.course_id
+    where not exists (
+      select 1 from public.attendance a
+      where a.lecture_id = ended.id and a.student_id = e.student_id
+    )
+    on conflict (lecture_id, student_id) do nothing
+    returning 1
+  ), finalized as (
+    update public.lectures l
+    set finalized_at = now()
+    from ended
+    where l.id = ended.id
+    returning 1
+  )
+  select count(*) into inserted from absences;
+
+  return inserted;
+end;
+$$;
+
+-- Medical notes and the like are private: files live under the student's id
+insert into storage.buckets (id, name, public)
+values ('excuse-attachments', 'excuse-attachments', false);
+
+create policy "Students can upload their excuse attachments"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'excuse-attachments'
+    and (storage.foldername(name))[1] = public.current_student_id()::text
+  );
+
+create policy "Students can view their excuse attachments"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'excuse-attachments'
+    and (storage.foldername(name))[1] = public.current_student_id()::text
+  );
+
+create policy "Students can delete their excuse attachments"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'excuse-attachments'
+    and (storage.foldername(name))[1] = public.current_student_id()::text
+  );
+
+create policy "Course teachers can view excuse attachments"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'excuse-attachments'
+    and exists (
+      select 1 from public.excuse_requests r
+      where r.attachment_url = storage.objects.name
+        and public.is_course_teacher(r.course_id)
+    )
+  );
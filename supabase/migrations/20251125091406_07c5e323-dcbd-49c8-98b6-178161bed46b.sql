@@ -0,0 +1,173 @@
+-- Append-only history of every attendance create, edit and delete, so disputed records can be traced
+create table public.attendance_audit (
+  id uuid primary key default gen_random_uuid(),
+  -- No foreign keys: the history outlives the attendance row, lecture or student it describes
+  attendance_id uuid not null,
+  lecture_id uuid not null,
+  student_id uuid not null,
+  action text not null check (action in ('create', 'update', 'delete')),
+  source text not null check (source in ('kiosk', 'self', 'manual', 'system')),
+  -- The signed-in user behind the change: the teacher, or the student for self marks
+  actor_id uuid,
+  kiosk_device_id uuid,
+  before jsonb,
+  after jsonb,
+  reason text,
+  created_at timestamptz not null default now()
+);
+
+create index idx_attendance_audit_lecture on public.attendance_audit(lecture_id, created_at);
+create index idx_attendance_audit_student on public.attendance_audit(student_id, created_at);
+
+alter table public.attendance_audit enable row level security;
+
+-- Entries are only written by the trigger below; nobody inserts, edits or deletes them directly
+create policy "Course teachers can view attendance history"
+  on public.attendance_audit for select
+  using (
+    public.is_course_teacher((select l.course_id from public.lectures l where l.id = lecture_id))
+  );
+
+create or replace function public.prevent_attendance_audit_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'attendance_audit is append-only';
+end;
+$$;
+
+create trigger attendance_audit_append_only
+  before update or delete on public.attendance_audit
+  for each row execute function public.prevent_attendance_audit_changes();
+
+-- Where a change came from. A signed-in teacher editing rows is a manual change; writes without
+-- a user come from the mark-attendance function (a kiosk or a student marking themselves) or
+-- from the database itself (finalizing lectures). Callers can name the source and a reason with
+-- the app.audit_source and app.audit_reason settings, as set_attendance_status does.
+-- Local Mode edits pushed by sync are recorded as manual changes of the teacher who synced.
+create or replace function public.audit_attendance()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row public.attendance;
+  v_before jsonb;
+  v_after jsonb;
+  v_source text;
+  v_actor uuid := auth.uid();
+begin
+  if tg_op = 'DELETE' then
+    v_row := old;
+  else
+    v_row := new;
+  end if;
+
+  -- Bookkeeping columns change on every write and say nothing about the record
+  if tg_op <> 'INSERT' then
+    v_before := to_jsonb(old) - array['sync_version', 'updated_at', 'liveness'];
+  end if;
+  if tg_op <> 'DELETE' then
+    v_after := to_jsonb(new) - array['sync_version', 'updated_at', 'liveness'];
+  end if;
+  if v_before = v_after then
+    return null;
+  end if;
+
+  v_source := coalesce(
+    nullif(current_setting('app.audit_source', true), ''),
+    case
+      when v_actor is not null then 'manual'
+      when v_row.method in ('auto', 'excuse') then 'system'
+      when v_row.kiosk_device_id is not null then 'kiosk'
+      else 'self'
+    end
+  );
+
+  if v_source = 'self' and v_actor is null then
+    select s.user_id into v_actor from public.students s where s.id = v_row.student_id;
+  end if;
+
+  insert into public.attendance_audit (
+    attendance_id, lecture_id, student_id, action, source, actor_id, kiosk_device_id, before, after, reason
+  ) values (
+    v_row.id,
+    v_row.lecture_id,
+    v_row.student_id,
+    case tg_op when 'INSERT' then 'create' when 'UPDATE' then 'update' else 'delete' end,
+    v_source,
+    v_actor,
+    case when v_source = 'kiosk' then v_row.kiosk_device_id end,
+    v_before,
+    v_after,
+    nullif(current_setting('app.audit_reason', true), '')
+  );
+  return null;
+end;
+$$;
+
+create trigger audit_attendance_changes
+  after insert or update or delete on public.attendance
+  for each row execute function public.audit_attendance();
+
+-- Teacher override with a reason for the history. Runs with the caller's rights, so the
+-- attendance policies still decide who may change what. A null status removes the record.
+create or replace function public.set_attendance_status(
+  p_lecture_id uuid,
+  p_student_id uuid,
+  p_status text,
+  p_reason text default null
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  perform set_config('app.audit_source', 'manual', true);
+  perform set_config('app.audit_reason', coalesce(p_reason, ''), true);
+
+  if p_status is null then
+    delete from public.attendance where lecture_id = p_lecture_id and student_id = p_student_id;
+    return;
+  end if;
+
+  insert into public.attendance (lecture_id, student_id, status, method, confidence, marked_at)
+  values (p_lecture_id, p_student_id, p_status, 'manual', null, now())
+  on conflict (lecture_id, student_id) do update set status = excluded.status;
+end;
+$$;
+
+-- Excuse approvals change attendance on the reviewing teacher's behalf; record them as such
+create or replace function public.apply_approved_excuse()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status = 'approved' and old.status <> 'approved' then
+    perform set_config('app.audit_source', 'system', true);
+    perform set_config('app.audit_reason', 'Excuse approved', true);
+
+    update public.attendance a
+    set status = 'excused'
+    where a.student_id = new.student_id
+      and a.status = 'absent'
+      and public.is_excused(new.student_id, a.lecture_id);
+
+    insert into public.attendance (lecture_id, student_id, status, method, confidence, marked_at)
+    select l.id, new.student_id, 'excused', 'excuse', null, l.ends_at
+    from public.lectures l
+    where l.course_id = new.course_id
+      and l.finalized_at is not null
+      and public.is_excused(new.student_id, l.id)
+    on conflict (lecture_id, student_id) do nothing;
+
+    perform set_config('app.audit_source', '', true);
+    perform set_config('app.audit_reason', '', true);
+  end if;
+  return new;
+end;
+$$;
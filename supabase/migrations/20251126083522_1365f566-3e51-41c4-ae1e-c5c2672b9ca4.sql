@@ -0,0 +1,61 @@
+-- Borderline face matches are recorded as pending until a teacher accepts or rejects them.
+-- The mark-attendance function decides what is borderline (REVIEW_BAND).
+alter table public.attendance drop constraint attendance_status_check;
+alter table public.attendance add constraint attendance_status_check
+  check (status in ('present', 'late', 'excused', 'absent', 'pending'));
+
+-- Settles a pending mark. Accepted marks become present or late by the course's cutoff;
+-- rejected ones become absent once the lecture is over, and are removed while it is still
+-- running so the student can check in themselves. Returns the new status, or null when removed.
+-- Runs with the caller's rights, so only the course's teachers can review its marks.
+create or replace function public.review_attendance_match(p_attendance_id uuid, p_accept boolean)
+returns text
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_record public.attendance;
+  v_starts_at timestamptz;
+  v_ends_at timestamptz;
+  v_late_cutoff integer;
+  v_status text;
+begin
+  select * into v_record
+  from public.attendance
+  where id = p_attendance_id and status = 'pending'
+  for update;
+
+  if not found then
+    raise exception 'This mark is not waiting for review';
+  end if;
+
+  select l.starts_at, l.ends_at, c.late_cutoff_minutes
+  into v_starts_at, v_ends_at, v_late_cutoff
+  from public.lectures l
+  join public.courses c on c.id = l.course_id
+  where l.id = v_record.lecture_id;
+
+  perform set_config('app.audit_source', 'manual', true);
+  perform set_config(
+    'app.audit_reason',
+    case when p_accept then 'Face match accepted in review' else 'Face match rejected in review' end,
+    true
+  );
+
+  if p_accept then
+    v_status := case
+      when v_late_cutoff is not null and v_record.marked_at > v_starts_at + make_interval(mins => v_late_cutoff)
+        then 'late'
+      else 'present'
+    end;
+  elsif v_ends_at < now() then
+    v_status := 'absent';
+  else
+    delete from public.attendance where id = p_attendance_id;
+    return null;
+  end if;
+
+  update public.attendance set status = v_status where id = p_attendance_id;
+  return v_status;
+end;
+$$;
@@ -0,0 +1,44 @@
+-- How many days attendance snapshots (kiosk captures and check-in selfies) are kept as
+-- evidence; null keeps them for good
+alter table public.courses
+  add column snapshot_retention_days integer check (snapshot_retention_days >= 1);
+
+-- Snapshots past their course's retention period. Runs with the caller's rights, so a teacher
+-- only sees their own courses' records. Marks waiting for review keep theirs until reviewed.
+create or replace function public.expired_attendance_snapshots()
+returns table (id uuid, photo_url text)
+language sql
+stable
+set search_path = public
+as $$
+  select a.id, a.photo_url
+  from public.attendance a
+  join public.lectures l on l.id = a.lecture_id
+  join public.courses c on c.id = l.course_id
+  where a.photo_url is not null
+    and a.status <> 'pending'
+    and c.snapshot_retention_days is not null
+    and a.marked_at < now() - make_interval(days => c.snapshot_retention_days)
+$$;
+
+-- Drops the snapshots from the records once their files are deleted, for the history
+-- as a retention change rather than a teacher's edit
+create or replace function public.clear_attendance_snapshots(p_ids uuid[])
+returns integer
+language plpgsql
+set search_path = public
+as $$
+declare
+  cleared integer;
+begin
+  perform set_config('app.audit_source', 'system', true);
+  perform set_config('app.audit_reason', 'Snapshot retention period ended', true);
+
+  update public.attendance
+  set photo_url = null
+  where id = any(p_ids) and photo_url is not null;
+
+  get diagnostics cleared = row_count;
+  return cleared;
+end;
+$$;
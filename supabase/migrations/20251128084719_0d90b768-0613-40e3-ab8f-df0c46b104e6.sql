@@ -0,0 +1,4 @@
+-- Enrollment photo quality (0..1, from sharpness, lighting, head pose and eye openness),
+-- scored in the browser when the capture is taken. Null for captures from before scoring.
+alter table public.student_embeddings
+  add column quality real check (quality between 0 and 1);
@@ -0,0 +1,24 @@
+-- Kiosk faces that matched one student but came too close to a second to tell them apart.
+-- Nothing was marked; the pair is kept so teachers can spot look-alikes and re-enroll them.
+create table public.ambiguous_matches (
+  id uuid primary key default gen_random_uuid(),
+  lecture_id uuid not null references public.lectures(id) on delete cascade,
+  -- The closest student and the runner-up, with the face's distance to each
+  student_id uuid not null references public.students(id) on delete cascade,
+  distance real not null,
+  runner_up_id uuid not null references public.students(id) on delete cascade,
+  runner_up_distance real not null,
+  kiosk_device_id uuid references public.kiosk_devices(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index idx_ambiguous_matches_lecture on public.ambiguous_matches(lecture_id, created_at);
+
+alter table public.ambiguous_matches enable row level security;
+
+-- Kiosks report through the kiosk-device function, which writes with the service role
+create policy "Course teachers can view ambiguous matches"
+  on public.ambiguous_matches for select
+  using (
+    public.is_course_teacher((select l.course_id from public.lectures l where l.id = lecture_id))
+  );
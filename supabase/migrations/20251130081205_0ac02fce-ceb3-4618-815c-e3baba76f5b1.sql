@@ -0,0 +1,26 @@
+-- The faces bucket holds enrollment photos and attendance evidence. Since students can sign in,
+-- "authenticated" no longer means teacher: only teachers manage the bucket, and a student may
+-- only write their own selfies, under a folder named by their student id.
+alter policy "Authenticated users can upload face images"
+  on storage.objects
+  with check (bucket_id = 'faces' and public.is_teacher());
+
+alter policy "Authenticated users can update face images"
+  on storage.objects
+  using (bucket_id = 'faces' and public.is_teacher());
+
+alter policy "Authenticated users can delete face images"
+  on storage.objects
+  using (bucket_id = 'faces' and public.is_teacher());
+
+create policy "Students can write their own selfies"
+  on storage.objects for all
+  to authenticated
+  using (
+    bucket_id = 'faces'
+    and (storage.foldername(name))[1] = public.current_student_id()::text
+  )
+  with check (
+    bucket_id = 'faces'
+    and (storage.foldername(name))[1] = public.current_student_id()::text
+  );
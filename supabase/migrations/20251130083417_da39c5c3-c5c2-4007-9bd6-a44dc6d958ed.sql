@@ -0,0 +1,6 @@
+-- touch_sync_columns clears the tombstone of a row that is inserted again, but the caller only
+-- sees sync_tombstones through its select policy, so the delete removed nothing. Run it as the
+-- owner, like record_sync_tombstone.
+alter function public.touch_sync_columns()
+  security definer
+  set search_path = public;
@@ -0,0 +1,85 @@
+-- Teacher profiles were created with the email's local part as the name, so matching the
+-- free-text courses.teacher column left most existing courses without an owner. Nothing records
+-- who created them; the earliest teacher account, normally whoever set the project up, owns the
+-- rest and can share them from the course page.
+insert into public.course_teachers (course_id, teacher_id, role)
+select c.id, t.id, 'owner'
+from public.courses c
+join public.teachers t
+  on lower(trim(c.teacher)) in (lower(t.name), lower(t.email), lower(split_part(t.email, '@', 1)))
+where not exists (select 1 from public.course_teachers ct where ct.course_id = c.id)
+on conflict do nothing;
+
+insert into public.course_teachers (course_id, teacher_id, role)
+select c.id, fallback.id, 'owner'
+from public.courses c
+cross join (
+  select t.id
+  from public.teachers t
+  join auth.users u on u.id = t.id
+  order by u.created_at, t.id
+  limit 1
+) fallback
+where not exists (select 1 from public.course_teachers ct where ct.course_id = c.id);
+
+-- Students are scoped like courses: a teacher sees the students they added and those enrolled
+-- in their courses
+alter table public.students
+  add column created_by uuid references auth.users(id) on delete set null default auth.uid();
+
+comment on column public.students.created_by is 'Teacher who added the student; they manage them until the student is enrolled in a course';
+
+-- Existing students go to an owner of a course they are enrolled in, or to the fallback owner
+update public.students s
+set created_by = coalesce(
+  (
+    select ct.teacher_id
+    from public.enrollments e
+    join public.course_teachers ct on ct.course_id = e.course_id and ct.role = 'owner'
+    where e.student_id = s.id
+    order by ct.created_at, ct.teacher_id
+    limit 1
+  ),
+  (
+    select t.id
+    from public.teachers t
+    join auth.users u on u.id = t.id
+    order by u.created_at, t.id
+    limit 1
+  )
+)
+where s.created_by is null;
+
+create or replace function public.teaches_student(p_student_id uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.students
+    where id = p_student_id and created_by = auth.uid()
+  ) or exists (
+    select 1 from public.enrollments
+    where student_id = p_student_id and public.is_course_teacher(course_id)
+  )
+$$;
+
+-- created_by is checked directly as well: the row being inserted is not yet visible to the
+-- function when its returned copy is checked
+alter policy "Authenticated users can view students" on public.students
+  using (created_by = auth.uid() or public.teaches_student(id));
+alter policy "Authenticated users can insert students" on public.students
+  with check (public.is_teacher() and created_by = auth.uid());
+alter policy "Authenticated users can update students" on public.students
+  using (created_by = auth.uid() or public.teaches_student(id));
+alter policy "Authenticated users can delete students" on public.students
+  using (created_by = auth.uid() or public.teaches_student(id));
+
+alter policy "Authenticated users can view student embeddings" on public.student_embeddings
+  using (public.teaches_student(student_id));
+alter policy "Authenticated users can insert student embeddings" on public.student_embeddings
+  with check (public.teaches_student(student_id));
+alter policy "Authenticated users can delete student embeddings" on public.student_embeddings
+  using (public.teaches_student(student_id));
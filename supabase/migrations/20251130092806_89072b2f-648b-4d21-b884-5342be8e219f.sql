@@ -0,0 +1,76 @@
+-- Attendance snapshots (kiosk captures and check-in selfies) move out of the public faces
+-- bucket: files live under the student's id and are shown through signed links
+insert into storage.buckets (id, name, public)
+values ('attendance-snapshots', 'attendance-snapshots', false);
+
+drop policy "Students can write their own selfies" on storage.objects;
+
+create policy "Students can upload their attendance selfies"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'attendance-snapshots'
+    and (storage.foldername(name))[1] = public.current_student_id()::text
+  );
+
+create policy "Students can view their attendance snapshots"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'attendance-snapshots'
+    and (storage.foldername(name))[1] = public.current_student_id()::text
+  );
+
+create policy "Students can delete their attendance selfies"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'attendance-snapshots'
+    and (storage.foldername(name))[1] = public.current_student_id()::text
+  );
+
+create policy "Course teachers can view attendance snapshots"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'attendance-snapshots'
+    and exists (
+      select 1 from public.attendance a
+      join public.lectures l on l.id = a.lecture_id
+      where a.photo_url = storage.objects.name
+        and public.is_course_teacher(l.course_id)
+    )
+  );
+
+-- Snapshot retention no longer waits for a teacher to open the lectures page. Runs as the owner,
+-- so it covers every course; older marks point at the faces bucket by public URL.
+create or replace function public.purge_expired_attendance_snapshots()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  expired_ids uuid[];
+begin
+  select array_agg(e.id) into expired_ids from public.expired_attendance_snapshots() e;
+  if expired_ids is null then
+    return 0;
+  end if;
+
+  delete from storage.objects o
+  using public.expired_attendance_snapshots() e
+  where (o.bucket_id = 'attendance-snapshots' and o.name = e.photo_url)
+     or (o.bucket_id = 'faces' and o.name = split_part(e.photo_url, '/faces/', 2));
+
+  return public.clear_attendance_snapshots(expired_ids);
+end;
+$$;
+
+revoke execute on function public.purge_expired_attendance_snapshots() from public, anon, authenticated;
+
+select cron.schedule(
+  'purge-expired-attendance-snapshots',
+  '17 3 * * *',
+  $$select public.purge_expired_attendance_snapshots()$$
+);
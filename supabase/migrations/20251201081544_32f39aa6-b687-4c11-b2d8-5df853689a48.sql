@@ -0,0 +1,24 @@
+-- Deleting storage.objects rows from SQL leaves the files behind, so snapshot retention moves to
+-- the purge-snapshots function, which removes them through the Storage API. The job reads the
+-- project URL and service role key from Vault (secrets "project_url" and "service_role_key").
+select cron.unschedule('purge-expired-attendance-snapshots');
+
+drop function public.purge_expired_attendance_snapshots();
+
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'purge-expired-attendance-snapshots',
+  '17 3 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/purge-snapshots',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
@@ -0,0 +1,75 @@
+-- sync_version came from a sequence when a row was written, so a transaction could take a lower
+-- version and commit after a device had already pulled past it; that row was never pulled.
+-- It now holds the writing transaction's id instead, and devices only pull up to the oldest
+-- transaction still running (sync_watermark): everything below it has committed or never will.
+create or replace function public.touch_sync_columns()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' and new.updated_at is not distinct from old.updated_at then
+    new.updated_at := now();
+  end if;
+  new.sync_version := pg_current_xact_id()::text::bigint;
+
+  -- A row that comes back (e.g. re-synced after a delete) is no longer deleted
+  if tg_op = 'INSERT' then
+    delete from public.sync_tombstones
+    where table_name = tg_table_name and row_id = new.id;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.record_sync_tombstone()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.sync_tombstones (table_name, row_id)
+  values (tg_table_name, old.id)
+  on conflict (table_name, row_id) do update
+    set deleted_at = now(),
+        sync_version = pg_current_xact_id()::text::bigint;
+  return old;
+end;
+$$;
+
+-- Versions drawn from the sequence can be far ahead of transaction ids, so existing rows are
+-- renumbered without touching updated_at; devices pull everything once under the new cursor
+do $$
+declare
+  t text;
+begin
+  foreach t in array array[
+    'students', 'student_embeddings', 'courses', 'lectures',
+    'lecture_schedules', 'enrollments', 'attendance'
+  ] loop
+    execute format('alter table public.%1$I disable trigger touch_%1$s_sync', t);
+    execute format(
+      'alter table public.%1$I alter column sync_version set default pg_current_xact_id()::text::bigint', t);
+    execute format('update public.%1$I set sync_version = pg_current_xact_id()::text::bigint', t);
+    execute format('alter table public.%1$I enable trigger touch_%1$s_sync', t);
+  end loop;
+end;
+$$;
+
+alter table public.sync_tombstones
+  alter column sync_version set default pg_current_xact_id()::text::bigint;
+update public.sync_tombstones set sync_version = pg_current_xact_id()::text::bigint;
+
+drop sequence public.sync_version_seq;
+
+-- Devices pull versions below this; rows at or above it may belong to transactions still running
+create or replace function public.sync_watermark()
+returns bigint
+language sql
+volatile
+as $$
+  select pg_snapshot_xmin(pg_current_snapshot())::text::bigint
+$$;
@@ -0,0 +1,3 @@
+-- Course settings (late cutoff, snapshot retention) belong to the owner, as course_teachers.role
+-- says; assistants run the course's lectures, enrollments and attendance
+alter policy "Authenticated users can update courses" on public.courses using (public.is_course_owner(id));
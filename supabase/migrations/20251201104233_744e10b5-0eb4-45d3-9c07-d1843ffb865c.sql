@@ -0,0 +1,15 @@
+-- Roll numbers are unique across the whole database, but a teacher only sees their own
+-- students. Lets a roster import flag roll numbers already taken by anyone's student, without
+-- revealing who they belong to.
+create or replace function public.taken_roll_numbers(p_roll_nos text[])
+returns setof text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select s.roll_no
+  from public.students s
+  where public.is_teacher()
+    and upper(trim(s.roll_no)) in (select upper(trim(r)) from unnest(p_roll_nos) r)
+$$;